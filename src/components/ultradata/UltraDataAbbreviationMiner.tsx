@@ -0,0 +1,191 @@
+import { useMemo, useState } from 'react';
+import { BookPlus, Check, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
+import type { AbbreviationEvidence, AbbreviationSuggestion } from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+
+interface UltraDataAbbreviationMinerProps {
+  data: ProductRow[];
+  textColumns: string[];
+  abbreviations: Record<string, string>;
+  onAccept: (entries: Record<string, string>) => void;
+}
+
+const MAX_VISIBLE = 100;
+
+// Suggestions at least this sure start selected
+const PRESELECT_CONFIDENCE = 0.6;
+
+const EVIDENCE_LABELS: Record<AbbreviationEvidence, string> = {
+  context: 'Mesmo contexto',
+  prefix: 'Início da palavra',
+  letters: 'Letras da palavra',
+};
+
+const UltraDataAbbreviationMiner = ({ data, textColumns, abbreviations, onAccept }: UltraDataAbbreviationMinerProps) => {
+  const { run, cancel, progress, running } = useDataTask();
+  const [suggestions, setSuggestions] = useState<AbbreviationSuggestion[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  // Expansions edited by the user, by abbreviation
+  const [expansions, setExpansions] = useState<Record<string, string>>({});
+
+  const visible = useMemo(() => suggestions?.slice(0, MAX_VISIBLE) ?? [], [suggestions]);
+
+  const analyze = () => {
+    run('mineAbbreviations', { data, columns: textColumns, options: { existing: abbreviations } })
+      .then(found => {
+        setSuggestions(found);
+        setExpansions({});
+        setSelected(new Set(found.filter(s => s.confidence >= PRESELECT_CONFIDENCE).map(s => s.abbr)));
+      })
+      .catch(err => {
+        if (!isTaskCancelled(err)) console.error('Erro ao procurar abreviações:', err);
+      });
+  };
+
+  const toggle = (abbr: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(abbr);
+      else next.delete(abbr);
+      return next;
+    });
+  };
+
+  const getExpansion = (suggestion: AbbreviationSuggestion) => expansions[suggestion.abbr] ?? suggestion.full;
+
+  const accept = () => {
+    if (!suggestions) return;
+    const entries: Record<string, string> = {};
+    suggestions.forEach(suggestion => {
+      const full = getExpansion(suggestion).trim();
+      if (selected.has(suggestion.abbr) && full) entries[suggestion.abbr] = full;
+    });
+    if (Object.keys(entries).length === 0) return;
+
+    onAccept(entries);
+    setSuggestions(suggestions.filter(suggestion => !entries[suggestion.abbr]));
+    setSelected(new Set());
+  };
+
+  if (running) {
+    return <UltraDataTaskProgress progress={progress} fallbackLabel="Procurando abreviações" onCancel={cancel} />;
+  }
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <BookPlus className="h-4 w-4 text-primary" />
+            <h3 className="font-semibold text-foreground">Descobrir abreviações</h3>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Procura no catálogo termos abreviados ("Sext.", "c/", "pct") que ainda não estão na sua biblioteca
+            e sugere a palavra completa usada em outros produtos.
+          </p>
+        </div>
+        <Button variant="outline" onClick={analyze} disabled={textColumns.length === 0}>
+          <Search className="h-4 w-4 mr-2" />
+          Procurar
+        </Button>
+      </div>
+
+      {suggestions && suggestions.length === 0 && (
+        <p className="text-sm text-muted-foreground">Nenhuma abreviação nova encontrada.</p>
+      )}
+
+      {suggestions && suggestions.length > 0 && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{suggestions.length} sugestões</Badge>
+            <Button size="sm" variant="ghost" onClick={() => setSelected(new Set(suggestions.map(s => s.abbr)))}>
+              Selecionar todas
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setSelected(new Set())}>
+              Limpar seleção
+            </Button>
+          </div>
+
+          <div className="border rounded-lg overflow-auto max-h-[360px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Abreviação</TableHead>
+                  <TableHead>Expansão</TableHead>
+                  <TableHead className="w-20">Ocorrências</TableHead>
+                  <TableHead>Evidência</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visible.map(suggestion => (
+                  <TableRow key={suggestion.abbr}>
+                    <TableCell>
+                      <Checkbox
+                        checked={selected.has(suggestion.abbr)}
+                        onCheckedChange={checked => toggle(suggestion.abbr, checked === true)}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono text-sm" title={suggestion.examples.join('\n')}>
+                      {suggestion.abbr}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={getExpansion(suggestion)}
+                        onChange={e => setExpansions(prev => ({ ...prev, [suggestion.abbr]: e.target.value }))}
+                        className="h-8"
+                      />
+                      {suggestion.alternatives.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {suggestion.alternatives.map(alternative => (
+                            <Badge
+                              key={alternative}
+                              variant="outline"
+                              className="cursor-pointer text-xs"
+                              onClick={() => setExpansions(prev => ({ ...prev, [suggestion.abbr]: alternative }))}
+                            >
+                              {alternative}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{suggestion.occurrences}</TableCell>
+                    <TableCell>
+                      <Badge variant={suggestion.evidence === 'context' ? 'secondary' : 'outline'} className="text-xs">
+                        {EVIDENCE_LABELS[suggestion.evidence]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {suggestions.length > MAX_VISIBLE && (
+            <p className="text-xs text-muted-foreground">
+              Mostrando {MAX_VISIBLE} de {suggestions.length} sugestões.
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={accept} disabled={selected.size === 0}>
+              <Check className="h-4 w-4 mr-2" />
+              Adicionar à biblioteca ({selected.size})
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataAbbreviationMiner;
@@ -14,7 +14,9 @@ import {
   Check,
   X,
   Merge,
-  AlertCircle
+  AlertCircle,
+  AlertTriangle,
+  SlidersHorizontal
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -41,13 +43,38 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { useUserAbbreviations } from '@/hooks/useUserAbbreviations';
+import { findAbbreviationConflicts } from '@/core';
+import type { AbbreviationScopeRule } from '@/config';
+import UltraDataSharedDictionaries from './UltraDataSharedDictionaries';
+
+type ScopeColumns = NonNullable<AbbreviationScopeRule['columns']>;
+
+const SCOPE_COLUMN_LABELS: Record<ScopeColumns, string> = {
+  all: 'Todas as colunas',
+  name: 'Só em nome/título',
+  description: 'Só em descrição',
+};
+
+// Single-character abbreviations are standalone unless said otherwise (see abbreviationMatcher)
+const isStandaloneByDefault = (abbr: string) => [...abbr.trim()].length === 1;
+
+const describeScope = (abbr: string, scope: AbbreviationScopeRule = {}): string[] => [
+  ...(scope.columns && scope.columns !== 'all' ? [scope.columns === 'name' ? 'Nome' : 'Descrição'] : []),
+  ...(scope.beforeNumber ? ['Antes de número'] : []),
+  ...((scope.standalone ?? isStandaloneByDefault(abbr)) ? ['Isolada'] : []),
+];
 
 const UltraDataAbbreviations = () => {
   const { toast } = useToast();
   const {
     abbreviations,
+    scopes,
     loading,
     saving,
     hasChanges,
@@ -55,11 +82,13 @@ const UltraDataAbbreviations = () => {
     addAbbreviation,
     removeAbbreviation,
     updateAbbreviation,
+    updateScope,
     saveAbbreviations,
     resetToDefaults,
     mergeWithDefaults,
     importAbbreviations,
     exportAbbreviations,
+    replaceDictionary,
   } = useUserAbbreviations();
 
   const [newAbbr, setNewAbbr] = useState('');
@@ -83,6 +112,16 @@ const UltraDataAbbreviations = () => {
     );
   }, [abbreviations, searchTerm]);
 
+  const personalDictionary = useMemo(() => ({ abbreviations, scopes }), [abbreviations, scopes]);
+
+  // Entries that shadow each other
+  const conflicts = useMemo(() => findAbbreviationConflicts(abbreviations), [abbreviations]);
+
+  const conflictingKeys = useMemo(
+    () => new Set(conflicts.flatMap(conflict => conflict.abbreviations)),
+    [conflicts]
+  );
+
   // Sorted entries
   const sortedAbbreviations = useMemo(() => {
     return [...filteredAbbreviations].sort((a, b) => a[0].localeCompare(b[0]));
@@ -145,6 +184,19 @@ const UltraDataAbbreviations = () => {
     setEditFull('');
   };
 
+  // Keep only what differs from "everywhere", so the stored scopes stay small
+  const handleScopeChange = (abbr: string, patch: Partial<AbbreviationScopeRule>) => {
+    const next = { ...scopes[abbr], ...patch };
+    const scope: AbbreviationScopeRule = {
+      ...(next.columns && next.columns !== 'all' ? { columns: next.columns } : {}),
+      ...(next.beforeNumber ? { beforeNumber: true } : {}),
+      ...(next.standalone !== undefined && next.standalone !== isStandaloneByDefault(abbr)
+        ? { standalone: next.standalone }
+        : {}),
+    };
+    updateScope(abbr, Object.keys(scope).length > 0 ? scope : null);
+  };
+
   const handleSave = async () => {
     await saveAbbreviations(abbreviations);
   };
@@ -378,6 +430,10 @@ const UltraDataAbbreviations = () => {
               As abreviações são usadas automaticamente na aba "Corrigir Texto" 
               para expandir termos abreviados em seus produtos.
             </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Use <SlidersHorizontal className="h-3 w-3 inline" /> para limitar onde cada uma é aplicada:
+              só em nome ou descrição, só antes de um número ou só como palavra isolada.
+            </p>
           </div>
         </div>
 
@@ -394,6 +450,21 @@ const UltraDataAbbreviations = () => {
             />
           </div>
 
+          {/* Conflitos */}
+          {conflicts.length > 0 && (
+            <div className="p-3 bg-warning/10 border border-warning/30 rounded-lg space-y-2">
+              <div className="flex items-center gap-2 text-sm font-medium text-warning">
+                <AlertTriangle className="h-4 w-4" />
+                {conflicts.length} {conflicts.length === 1 ? 'conflito' : 'conflitos'} entre abreviações
+              </div>
+              <ul className="text-xs text-muted-foreground space-y-1 max-h-32 overflow-y-auto">
+                {conflicts.map((conflict, index) => (
+                  <li key={`${conflict.type}-${index}`}>{conflict.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Lista */}
           <ScrollArea className="h-[500px] border rounded-lg">
             <div className="divide-y">
@@ -446,6 +517,55 @@ const UltraDataAbbreviations = () => {
                         </Badge>
                         <span className="text-muted-foreground">→</span>
                         <span className="flex-1 text-foreground">{full}</span>
+                        {conflictingKeys.has(abbr) && (
+                          <AlertTriangle className="h-4 w-4 text-warning" aria-label="Em conflito com outra abreviação" />
+                        )}
+                        {describeScope(abbr, scopes[abbr]).map(label => (
+                          <Badge key={label} variant="outline" className="text-xs">
+                            {label}
+                          </Badge>
+                        ))}
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <Button size="sm" variant="ghost" title="Onde aplicar">
+                              <SlidersHorizontal className="h-4 w-4" />
+                            </Button>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-72 space-y-4" align="end">
+                            <div className="space-y-2">
+                              <Label className="text-sm">Colunas</Label>
+                              <Select
+                                value={scopes[abbr]?.columns ?? 'all'}
+                                onValueChange={(value) => handleScopeChange(abbr, { columns: value as ScopeColumns })}
+                              >
+                                <SelectTrigger className="h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {Object.entries(SCOPE_COLUMN_LABELS).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                            <div className="flex items-center justify-between gap-2">
+                              <Label htmlFor={`scope-number-${abbr}`} className="text-sm">Só antes de número</Label>
+                              <Switch
+                                id={`scope-number-${abbr}`}
+                                checked={!!scopes[abbr]?.beforeNumber}
+                                onCheckedChange={(checked) => handleScopeChange(abbr, { beforeNumber: checked })}
+                              />
+                            </div>
+                            <div className="flex items-center justify-between gap-2">
+                              <Label htmlFor={`scope-standalone-${abbr}`} className="text-sm">Só como palavra isolada</Label>
+                              <Switch
+                                id={`scope-standalone-${abbr}`}
+                                checked={scopes[abbr]?.standalone ?? isStandaloneByDefault(abbr)}
+                                onCheckedChange={(checked) => handleScopeChange(abbr, { standalone: checked })}
+                              />
+                            </div>
+                          </PopoverContent>
+                        </Popover>
                         <Button
                           size="sm"
                           variant="ghost"
@@ -482,6 +602,12 @@ const UltraDataAbbreviations = () => {
           </div>
         </div>
       </div>
+
+      {/* Dicionários compartilhados com a equipe */}
+      <UltraDataSharedDictionaries
+        personal={personalDictionary}
+        onReplacePersonal={replaceDictionary}
+      />
     </div>
   );
 };
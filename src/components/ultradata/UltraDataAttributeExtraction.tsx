@@ -0,0 +1,233 @@
+import { useMemo, useState } from 'react';
+import { ScanText, Check } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
+import {
+  applyExtractedAttributes,
+  findVariantNameColumn,
+  type AttributeExtraction,
+  type ExtractedAttribute,
+} from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+
+interface UltraDataAttributeExtractionProps {
+  rawData: ProductRow[];
+  columns: string[];
+  onApply: (data: ProductRow[], columns: string[]) => void;
+}
+
+const PAGE_SIZE = 20;
+
+const CONFIDENCE_LEVELS = ['0.5', '0.75', '0.9'];
+
+// Splits the source text into plain and highlighted parts
+const HighlightedSource = ({ source, attributes }: { source: string; attributes: ExtractedAttribute[] }) => {
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+
+  attributes.forEach(attr => {
+    if (attr.start > cursor) parts.push(<span key={`t${cursor}`}>{source.slice(cursor, attr.start)}</span>);
+    parts.push(
+      <mark
+        key={`a${attr.start}`}
+        className="rounded bg-primary/15 px-0.5 text-foreground"
+        title={`${attr.attribute}: ${attr.value}`}
+      >
+        {source.slice(attr.start, attr.end)}
+      </mark>
+    );
+    cursor = attr.end;
+  });
+  if (cursor < source.length) parts.push(<span key={`t${cursor}`}>{source.slice(cursor)}</span>);
+
+  return <>{parts}</>;
+};
+
+const UltraDataAttributeExtraction = ({ rawData, columns, onApply }: UltraDataAttributeExtractionProps) => {
+  const { toast } = useToast();
+  const { run, cancel, progress, running } = useDataTask();
+
+  const [sourceColumn, setSourceColumn] = useState(() => findVariantNameColumn(columns) ?? columns[0] ?? '');
+  const [extractions, setExtractions] = useState<AttributeExtraction[] | null>(null);
+  const [disabled, setDisabled] = useState<string[]>([]);
+  const [minConfidence, setMinConfidence] = useState('0.75');
+  const [overwrite, setOverwrite] = useState(false);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const counts = useMemo(() => {
+    const result: Record<string, number> = {};
+    extractions?.forEach(({ attributes }) =>
+      attributes.forEach(attr => {
+        if (attr.confidence >= Number(minConfidence)) result[attr.attribute] = (result[attr.attribute] ?? 0) + 1;
+      })
+    );
+    return result;
+  }, [extractions, minConfidence]);
+
+  const extract = () => {
+    run('extractAttributes', { data: rawData, sourceColumn })
+      .then(result => {
+        setExtractions(result);
+        setDisabled([]);
+        setVisibleCount(PAGE_SIZE);
+      })
+      .catch(err => {
+        if (!isTaskCancelled(err)) console.error('Erro ao extrair atributos:', err);
+      });
+  };
+
+  const toggleAttribute = (attribute: string) => {
+    setDisabled(prev => (prev.includes(attribute) ? prev.filter(a => a !== attribute) : [...prev, attribute]));
+  };
+
+  const applyExtraction = () => {
+    if (!extractions) return;
+
+    const result = applyExtractedAttributes(rawData, columns, extractions, {
+      overwrite,
+      minConfidence: Number(minConfidence),
+      attributes: Object.keys(counts).filter(attribute => !disabled.includes(attribute)),
+    });
+
+    toast({
+      title: 'Atributos extraídos',
+      description: `${result.filled} campos preenchidos a partir de "${sourceColumn}".`,
+    });
+
+    setExtractions(null);
+    onApply(result.data as ProductRow[], result.columns);
+  };
+
+  if (running) {
+    return <UltraDataTaskProgress progress={progress} fallbackLabel="Extraindo atributos" onCancel={cancel} />;
+  }
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <ScanText className="h-4 w-4 text-primary" />
+            <h3 className="font-semibold text-foreground">Extração de atributos</h3>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Lê voltagem, potência, medidas, rosca, cor, material e capacidade do nome, sem usar IA.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={sourceColumn} onValueChange={setSourceColumn}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Coluna de origem" />
+            </SelectTrigger>
+            <SelectContent>
+              {columns.map(col => (
+                <SelectItem key={col} value={col}>{col}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={extract} disabled={!sourceColumn || rawData.length === 0}>
+            Extrair
+          </Button>
+        </div>
+      </div>
+
+      {extractions && (
+        extractions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhum atributo encontrado em "{sourceColumn}".</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              {Object.entries(counts).map(([attribute, count]) => (
+                <Badge
+                  key={attribute}
+                  variant={disabled.includes(attribute) ? 'outline' : 'secondary'}
+                  className="cursor-pointer"
+                  onClick={() => toggleAttribute(attribute)}
+                  title={disabled.includes(attribute) ? 'Incluir atributo' : 'Ignorar atributo'}
+                >
+                  {attribute}: {count}
+                </Badge>
+              ))}
+              <div className="flex items-center gap-2 ml-auto">
+                <Label className="text-sm">Confiança mínima</Label>
+                <Select value={minConfidence} onValueChange={setMinConfidence}>
+                  <SelectTrigger className="w-[90px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CONFIDENCE_LEVELS.map(level => (
+                      <SelectItem key={level} value={level}>{Math.round(Number(level) * 100)}%</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Label htmlFor="overwrite-attributes" className="text-sm">Sobrescrever</Label>
+                <Switch id="overwrite-attributes" checked={overwrite} onCheckedChange={setOverwrite} />
+              </div>
+            </div>
+
+            <div className="border rounded-lg overflow-auto max-h-[400px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{sourceColumn}</TableHead>
+                    <TableHead>Atributos</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {extractions.slice(0, visibleCount).map(({ rowIndex, source, attributes }) => (
+                    <TableRow key={rowIndex}>
+                      <TableCell className="text-sm max-w-[360px]">
+                        <HighlightedSource source={source} attributes={attributes} />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {attributes.map(attr => (
+                            <Badge
+                              key={attr.attribute}
+                              variant="outline"
+                              className={
+                                attr.confidence < Number(minConfidence) || disabled.includes(attr.attribute)
+                                  ? 'text-xs opacity-50'
+                                  : 'text-xs'
+                              }
+                              title={`"${attr.match}" · confiança ${Math.round(attr.confidence * 100)}%`}
+                            >
+                              {attr.attribute}: {attr.value}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {extractions.length > visibleCount && (
+              <Button variant="outline" className="w-full" onClick={() => setVisibleCount(c => c + PAGE_SIZE)}>
+                Mostrar mais ({extractions.length - visibleCount} restantes)
+              </Button>
+            )}
+
+            <div className="flex justify-end">
+              <Button onClick={applyExtraction} disabled={Object.keys(counts).every(a => disabled.includes(a))}>
+                <Check className="h-4 w-4 mr-2" />
+                Preencher colunas
+              </Button>
+            </div>
+          </>
+        )
+      )}
+    </div>
+  );
+};
+
+export default UltraDataAttributeExtraction;
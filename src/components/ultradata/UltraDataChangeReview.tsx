@@ -0,0 +1,229 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, X, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CHANGE_SOURCE_LABELS, type CellChange, type ChangeStep } from '@/core';
+
+interface UltraDataChangeReviewProps {
+  open: boolean;
+  title: string;
+  changes: CellChange[];
+  confirmLabel: string;
+  onConfirm: (accepted: Set<string>) => void;
+  onCancel: () => void;
+}
+
+const PAGE_SIZE = 100;
+
+const ALL = 'all';
+
+const ruleKey = (step: ChangeStep): string => `${CHANGE_SOURCE_LABELS[step.source]}: ${step.rule}`;
+
+const formatValue = (value: unknown): string => {
+  const text = String(value ?? '');
+  return text === '' ? '(vazio)' : text;
+};
+
+const UltraDataChangeReview = ({ open, title, changes, confirmLabel, onConfirm, onCancel }: UltraDataChangeReviewProps) => {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [columnFilter, setColumnFilter] = useState(ALL);
+  const [ruleFilter, setRuleFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState<'all' | 'accepted' | 'rejected'>('all');
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  // Everything starts accepted; the review is about rejecting what we don't trust
+  useEffect(() => {
+    setAccepted(new Set(changes.map(change => change.id)));
+    setColumnFilter(ALL);
+    setRuleFilter(ALL);
+    setStatusFilter('all');
+    setSearch('');
+    setVisibleCount(PAGE_SIZE);
+  }, [changes]);
+
+  const byColumn = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    changes.forEach(change => groups.set(change.column, [...(groups.get(change.column) ?? []), change.id]));
+    return groups;
+  }, [changes]);
+
+  const byRule = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    changes.forEach(change =>
+      new Set(change.steps.map(ruleKey)).forEach(key => groups.set(key, [...(groups.get(key) ?? []), change.id]))
+    );
+    return groups;
+  }, [changes]);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return changes.filter(change => {
+      if (columnFilter !== ALL && change.column !== columnFilter) return false;
+      if (ruleFilter !== ALL && !change.steps.some(step => ruleKey(step) === ruleFilter)) return false;
+      if (statusFilter === 'accepted' && !accepted.has(change.id)) return false;
+      if (statusFilter === 'rejected' && accepted.has(change.id)) return false;
+      if (term && !`${change.before ?? ''} ${change.after ?? ''}`.toLowerCase().includes(term)) return false;
+      return true;
+    });
+  }, [changes, columnFilter, ruleFilter, statusFilter, search, accepted]);
+
+  const setMany = (ids: string[], value: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      ids.forEach(id => (value ? next.add(id) : next.delete(id)));
+      return next;
+    });
+  };
+
+  const countAccepted = (ids: string[]) => ids.filter(id => accepted.has(id)).length;
+
+  const renderGroup = (label: string, ids: string[]) => (
+    <div key={label} className="flex items-center gap-1 border rounded-md pl-2 pr-1 py-0.5 text-xs">
+      <span className="max-w-[220px] truncate" title={label}>{label}</span>
+      <span className="text-muted-foreground">{countAccepted(ids)}/{ids.length}</span>
+      <Button size="icon" variant="ghost" className="h-5 w-5" title="Aceitar todas" onClick={() => setMany(ids, true)}>
+        <Check className="h-3 w-3" />
+      </Button>
+      <Button size="icon" variant="ghost" className="h-5 w-5" title="Rejeitar todas" onClick={() => setMany(ids, false)}>
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {accepted.size} de {changes.length} alterações aceitas. Rejeite por célula, por coluna ou por regra.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-muted-foreground">Por coluna</p>
+          <div className="flex flex-wrap gap-1">
+            {[...byColumn.entries()].map(([column, ids]) => renderGroup(column, ids))}
+          </div>
+          <p className="text-xs font-medium text-muted-foreground">Por regra</p>
+          <div className="flex flex-wrap gap-1">
+            {[...byRule.entries()].map(([rule, ids]) => renderGroup(rule, ids))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input value={search} onChange={e => setSearch(e.target.value)} placeholder="Buscar valor..." className="h-9 pl-8 w-[200px]" />
+          </div>
+          <Select value={columnFilter} onValueChange={setColumnFilter}>
+            <SelectTrigger className="h-9 w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas as colunas</SelectItem>
+              {[...byColumn.keys()].map(column => (
+                <SelectItem key={column} value={column}>{column}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={ruleFilter} onValueChange={setRuleFilter}>
+            <SelectTrigger className="h-9 w-[220px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Todas as regras</SelectItem>
+              {[...byRule.keys()].map(rule => (
+                <SelectItem key={rule} value={rule}>{rule}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={statusFilter} onValueChange={value => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="h-9 w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todas</SelectItem>
+              <SelectItem value="accepted">Aceitas</SelectItem>
+              <SelectItem value="rejected">Rejeitadas</SelectItem>
+            </SelectContent>
+          </Select>
+          <Badge variant="outline" className="ml-auto">{filtered.length} exibidas</Badge>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={filtered.length > 0 && filtered.every(change => accepted.has(change.id))}
+                    onCheckedChange={checked => setMany(filtered.map(change => change.id), checked === true)}
+                    title="Aceitar as exibidas"
+                  />
+                </TableHead>
+                <TableHead className="w-16">Linha</TableHead>
+                <TableHead>Coluna</TableHead>
+                <TableHead>Antes</TableHead>
+                <TableHead>Depois</TableHead>
+                <TableHead>Origem</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.slice(0, visibleCount).map(change => (
+                <TableRow key={change.id} className={accepted.has(change.id) ? undefined : 'opacity-50'}>
+                  <TableCell>
+                    <Checkbox
+                      checked={accepted.has(change.id)}
+                      onCheckedChange={checked => setMany([change.id], checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{change.rowIndex + 1}</TableCell>
+                  <TableCell className="text-sm">{change.column}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-[240px] break-words">{formatValue(change.before)}</TableCell>
+                  <TableCell className="text-sm max-w-[240px] break-words">{formatValue(change.after)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {change.steps.map((step, index) => (
+                        <Badge
+                          key={index}
+                          variant="secondary"
+                          className="text-xs"
+                          title={`${formatValue(step.before)} → ${formatValue(step.after)}`}
+                        >
+                          {ruleKey(step)}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        {filtered.length > visibleCount && (
+          <Button variant="outline" size="sm" onClick={() => setVisibleCount(c => c + PAGE_SIZE)}>
+            Mostrar mais ({filtered.length - visibleCount} restantes)
+          </Button>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={onCancel}>Cancelar</Button>
+          <Button onClick={() => onConfirm(accepted)}>
+            <Check className="h-4 w-4 mr-2" />
+            {confirmLabel} ({accepted.size})
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UltraDataChangeReview;
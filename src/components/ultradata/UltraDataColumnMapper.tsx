@@ -0,0 +1,196 @@
+import { useMemo } from 'react';
+import { ArrowRight, AlertTriangle, Save, Columns3 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { getPresetColumnNames } from '@/config';
+import {
+  findMappingConflicts,
+  getConfidenceLevel,
+  suggestionsToMapping,
+  type ColumnMappingSuggestion,
+  type ColumnMatchType,
+} from '@/core';
+import type { SupplierMapping } from '@/hooks/useSupplierMappings';
+import type { ProductRow } from '@/pages/UltraData';
+
+interface UltraDataColumnMapperProps {
+  fileName: string;
+  suggestions: ColumnMappingSuggestion[];
+  sampleRows: ProductRow[];
+  onTargetChange: (source: string, target: string | null) => void;
+  supplierName: string;
+  onSupplierNameChange: (name: string) => void;
+  suppliers: SupplierMapping[];
+  onSupplierSelect: (supplier: SupplierMapping) => void;
+  onSave: () => void;
+  saving?: boolean;
+}
+
+// Select items can't hold an empty value
+const KEEP_ORIGINAL = '__keep';
+
+const MATCH_LABELS: Record<ColumnMatchType, string> = {
+  saved: 'Fornecedor',
+  manual: 'Manual',
+  exact: 'Exato',
+  normalized: 'Nome equivalente',
+  partial: 'Parcial',
+  similar: 'Semelhante',
+  none: 'Sem correspondência',
+};
+
+const LEVEL_VARIANTS = {
+  alta: 'default',
+  'média': 'secondary',
+  baixa: 'outline',
+} as const;
+
+const UltraDataColumnMapper = ({
+  fileName,
+  suggestions,
+  sampleRows,
+  onTargetChange,
+  supplierName,
+  onSupplierNameChange,
+  suppliers,
+  onSupplierSelect,
+  onSave,
+  saving,
+}: UltraDataColumnMapperProps) => {
+  const presetColumns = useMemo(() => getPresetColumnNames(), []);
+  const conflicts = useMemo(() => findMappingConflicts(suggestionsToMapping(suggestions)), [suggestions]);
+
+  const mappedCount = suggestions.filter(s => s.target).length;
+  const lowConfidence = suggestions.filter(s => s.target && getConfidenceLevel(s.confidence) === 'baixa').length;
+
+  const sampleValue = (column: string) => {
+    const row = sampleRows.find(r => r[column] !== '' && r[column] != null);
+    return row ? String(row[column]) : '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <Columns3 className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">Mapeamento de colunas • {fileName}</h3>
+          <Badge variant="outline">{mappedCount}/{suggestions.length} mapeadas</Badge>
+          {lowConfidence > 0 && <Badge variant="secondary">{lowConfidence} com baixa confiança</Badge>}
+        </div>
+
+        <div className="flex items-end gap-2">
+          {suppliers.length > 0 && (
+            <div className="space-y-1.5">
+              <Label className="text-xs text-muted-foreground">Fornecedor salvo</Label>
+              <Select
+                value={suppliers.find(s => s.supplierName === supplierName)?.id ?? ''}
+                onValueChange={id => {
+                  const supplier = suppliers.find(s => s.id === id);
+                  if (supplier) onSupplierSelect(supplier);
+                }}
+              >
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue placeholder="Aplicar mapeamento..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map(s => (
+                    <SelectItem key={s.id} value={s.id}>{s.supplierName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">Nome do fornecedor</Label>
+            <Input
+              value={supplierName}
+              onChange={e => onSupplierNameChange(e.target.value)}
+              placeholder="Ex.: Distribuidora XYZ"
+              className="w-[200px]"
+            />
+          </div>
+          <Button variant="outline" onClick={onSave} disabled={!supplierName.trim() || saving}>
+            <Save className="h-4 w-4 mr-1" />
+            Salvar mapeamento
+          </Button>
+        </div>
+      </div>
+
+      {Object.keys(conflicts).length > 0 && (
+        <div className="flex items-start gap-2 p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm">
+          <AlertTriangle className="h-4 w-4 text-warning flex-shrink-0 mt-0.5" />
+          <div>
+            {Object.entries(conflicts).map(([target, sources]) => (
+              <p key={target}>
+                <strong>{target}</strong> recebe {sources.join(', ')}. Apenas a primeira coluna usará esse nome.
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="border rounded-lg overflow-auto max-h-[480px]">
+        <Table>
+          <TableHeader className="sticky top-0 bg-card">
+            <TableRow>
+              <TableHead>Coluna da planilha</TableHead>
+              <TableHead>Exemplo</TableHead>
+              <TableHead className="w-8" />
+              <TableHead>Coluna Bling</TableHead>
+              <TableHead>Confiança</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {suggestions.map(suggestion => {
+              const level = getConfidenceLevel(suggestion.confidence);
+              const isConflict = suggestion.target && conflicts[suggestion.target];
+
+              return (
+                <TableRow key={suggestion.source}>
+                  <TableCell className="font-medium whitespace-nowrap">{suggestion.source}</TableCell>
+                  <TableCell className="max-w-[180px] truncate text-xs text-muted-foreground">
+                    {sampleValue(suggestion.source) || '-'}
+                  </TableCell>
+                  <TableCell>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  </TableCell>
+                  <TableCell>
+                    <Select
+                      value={suggestion.target ?? KEEP_ORIGINAL}
+                      onValueChange={value => onTargetChange(suggestion.source, value === KEEP_ORIGINAL ? null : value)}
+                    >
+                      <SelectTrigger className={isConflict ? 'w-[220px] border-warning' : 'w-[220px]'}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={KEEP_ORIGINAL}>Manter nome original</SelectItem>
+                        {presetColumns.map(col => (
+                          <SelectItem key={col} value={col}>{col}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {suggestion.target ? (
+                      <Badge variant={LEVEL_VARIANTS[level]}>
+                        {level} • {MATCH_LABELS[suggestion.matchType]}
+                      </Badge>
+                    ) : (
+                      <span className="text-xs text-muted-foreground">{MATCH_LABELS[suggestion.matchType]}</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
+
+export default UltraDataColumnMapper;
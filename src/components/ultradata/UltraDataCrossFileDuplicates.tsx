@@ -0,0 +1,169 @@
+import { useEffect, useState } from 'react';
+import { Copy, Download, FileWarning } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  exportDuplicatesReport,
+  getSourceLine,
+  DEFAULT_SIMILARITY_THRESHOLD,
+  type ColumnConfig,
+  type DuplicateResult,
+} from '@/core';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
+import type { ProductRow } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+
+interface UltraDataCrossFileDuplicatesProps {
+  data: ProductRow[];
+  columns: string[];
+}
+
+const MAX_VISIBLE = 50;
+
+const UltraDataCrossFileDuplicates = ({ data, columns }: UltraDataCrossFileDuplicatesProps) => {
+  const [showAll, setShowAll] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateResult[]>([]);
+  // Slider moves freely; detection only reruns once the value is committed
+  const [threshold, setThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const [appliedThreshold, setAppliedThreshold] = useState(DEFAULT_SIMILARITY_THRESHOLD);
+  const { run, cancel, progress, running } = useDataTask();
+
+  // Detection runs in a worker; a newer dataset cancels the previous run
+  useEffect(() => {
+    const columnConfig: Record<string, ColumnConfig> = Object.fromEntries(
+      columns.map(col => [col, { action: 'analyze', defaultValue: '', isProtected: false }])
+    );
+    run('detectDuplicates', { data, columnConfig, options: { similarityThreshold: appliedThreshold } })
+      .then(setDuplicates)
+      .catch(err => {
+        if (!isTaskCancelled(err)) console.error('Erro ao detectar duplicidades:', err);
+      });
+    return cancel;
+  }, [data, columns, appliedThreshold, run, cancel]);
+
+  if (running) {
+    return <UltraDataTaskProgress progress={progress} fallbackLabel="Detectando duplicidades" onCancel={cancel} />;
+  }
+
+  const crossFile = duplicates.filter(d => d.isCrossFile);
+  const visible = (showAll ? duplicates : crossFile).slice(0, MAX_VISIBLE);
+
+  const thresholdControl = (
+    <div className="flex items-center gap-3">
+      <Label className="text-sm whitespace-nowrap">Similaridade mínima</Label>
+      <Slider
+        value={[threshold]}
+        onValueChange={([v]) => setThreshold(v)}
+        onValueCommit={([v]) => setAppliedThreshold(v)}
+        min={0.5}
+        max={1}
+        step={0.05}
+        className="w-[140px]"
+      />
+      <span className="text-sm font-mono text-muted-foreground w-10">{Math.round(threshold * 100)}%</span>
+    </div>
+  );
+
+  if (duplicates.length === 0) {
+    return (
+      <div className="flex items-center justify-between gap-4 p-4 border rounded-lg text-sm text-muted-foreground">
+        <div className="flex items-center gap-2">
+          <Copy className="h-4 w-4" />
+          Nenhuma duplicidade encontrada entre os arquivos.
+        </div>
+        {thresholdControl}
+      </div>
+    );
+  }
+
+  // Where each row lives, e.g. "fornecedor.xlsx › Aba1 › linha 12"
+  const describeRow = (index: number) => {
+    const row = data[index];
+    const line = getSourceLine(row, index);
+    return [row?.__source_file, row?.__source_sheet, `linha ${line}`].filter(Boolean).join(' › ');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <FileWarning className="h-4 w-4 text-warning" />
+          <h3 className="font-semibold text-foreground">Duplicidades entre arquivos</h3>
+          <Badge variant={crossFile.length > 0 ? 'destructive' : 'outline'}>
+            {crossFile.length} entre arquivos
+          </Badge>
+          <Badge variant="outline">{duplicates.length} no total</Badge>
+        </div>
+        <div className="flex flex-wrap items-center gap-4">
+          {thresholdControl}
+          <div className="flex items-center gap-2">
+            <Switch id="show-all-duplicates" checked={showAll} onCheckedChange={setShowAll} />
+            <Label htmlFor="show-all-duplicates" className="text-sm">
+              Incluir duplicidades do mesmo arquivo
+            </Label>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => exportDuplicatesReport(duplicates, data)}>
+            <Download className="h-4 w-4 mr-1" />
+            Exportar relatório
+          </Button>
+        </div>
+      </div>
+
+      {visible.length > 0 ? (
+        <div className="border rounded-lg overflow-auto max-h-[320px]">
+          <Table>
+            <TableHeader className="sticky top-0 bg-card">
+              <TableRow>
+                <TableHead>Tipo</TableHead>
+                <TableHead>Valor</TableHead>
+                <TableHead>Arquivos</TableHead>
+                <TableHead>Ocorrências</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((dup, idx) => (
+                <TableRow key={`${dup.tipo}-${dup.valor}-${idx}`}>
+                  <TableCell className="whitespace-nowrap">
+                    <Badge variant={dup.tipo === 'SKU Duplicado' ? 'destructive' : 'secondary'}>
+                      {dup.tipo}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="max-w-[220px] truncate font-mono text-xs">{dup.valor}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {dup.sourceFiles?.map(file => (
+                        <Badge key={file} variant="outline" className="text-xs">{file}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground">
+                    {dup.linhas.map(line => (
+                      <div key={line}>{describeRow(line)}</div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Nenhum conflito entre arquivos. Há {duplicates.length} duplicidade(s) dentro do mesmo arquivo.
+        </p>
+      )}
+
+      {(showAll ? duplicates : crossFile).length > MAX_VISIBLE && (
+        <p className="text-xs text-muted-foreground">
+          Mostrando {MAX_VISIBLE} de {(showAll ? duplicates : crossFile).length}. Exporte o relatório para ver todos.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataCrossFileDuplicates;
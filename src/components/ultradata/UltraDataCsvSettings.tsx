@@ -0,0 +1,135 @@
+import { FileText, RotateCcw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CsvDetectionResult, CsvImportOptions } from '@/core';
+
+interface UltraDataCsvSettingsProps {
+  detected: CsvDetectionResult;
+  options: CsvImportOptions;
+  onChange: (options: CsvImportOptions) => void;
+  disabled?: boolean;
+}
+
+const ENCODING_LABELS: Record<CsvImportOptions['encoding'], string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252 (ANSI)',
+  'iso-8859-1': 'ISO-8859-1 (Latin-1)',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+};
+
+const DELIMITER_LABELS: Record<CsvImportOptions['delimiter'], string> = {
+  ';': 'Ponto e vírgula (;)',
+  ',': 'Vírgula (,)',
+  '\t': 'Tabulação',
+  '|': 'Barra vertical (|)',
+};
+
+const QUOTE_LABELS: Record<CsvImportOptions['quoteChar'], string> = {
+  '"': 'Aspas duplas (")',
+  "'": "Aspas simples (')",
+};
+
+const DECIMAL_LABELS: Record<CsvImportOptions['decimalSeparator'], string> = {
+  ',': 'Vírgula (12,50)',
+  '.': 'Ponto (12.50)',
+};
+
+// Select items can't hold an empty value
+const NO_THOUSANDS = 'none';
+
+const THOUSANDS_LABELS: Record<string, string> = {
+  '.': 'Ponto (1.234)',
+  ',': 'Vírgula (1,234)',
+  [NO_THOUSANDS]: 'Nenhum (1234)',
+};
+
+const UltraDataCsvSettings = ({
+  detected,
+  options,
+  onChange,
+  disabled,
+}: UltraDataCsvSettingsProps) => {
+  const isOverridden = (Object.keys(options) as (keyof CsvImportOptions)[])
+    .some(key => options[key] !== detected[key]);
+
+  const update = <K extends keyof CsvImportOptions>(key: K, value: CsvImportOptions[K]) => {
+    onChange({ ...options, [key]: value });
+  };
+
+  const restoreDetected = () => {
+    const { encoding, delimiter, quoteChar, decimalSeparator, thousandsSeparator } = detected;
+    onChange({ encoding, delimiter, quoteChar, decimalSeparator, thousandsSeparator });
+  };
+
+  const renderSelect = (
+    label: string,
+    value: string,
+    labels: Record<string, string>,
+    detectedValue: string,
+    onValueChange: (value: string) => void
+  ) => (
+    <div className="space-y-1.5">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Select value={value} onValueChange={onValueChange} disabled={disabled}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(labels).map(([key, text]) => (
+            <SelectItem key={key} value={key}>
+              {text}{key === detectedValue ? ' • detectado' : ''}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileText className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">Formato do CSV</h3>
+          {detected.hasBom && <Badge variant="secondary">BOM</Badge>}
+          <Badge variant={isOverridden ? 'default' : 'outline'}>
+            {isOverridden ? 'Ajustado manualmente' : 'Detectado automaticamente'}
+          </Badge>
+        </div>
+        {isOverridden && (
+          <Button variant="ghost" size="sm" onClick={restoreDetected} disabled={disabled}>
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Restaurar detecção
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {renderSelect('Codificação', options.encoding, ENCODING_LABELS, detected.encoding,
+          v => update('encoding', v as CsvImportOptions['encoding']))}
+        {renderSelect('Separador', options.delimiter, DELIMITER_LABELS, detected.delimiter,
+          v => update('delimiter', v as CsvImportOptions['delimiter']))}
+        {renderSelect('Delimitador de texto', options.quoteChar, QUOTE_LABELS, detected.quoteChar,
+          v => update('quoteChar', v as CsvImportOptions['quoteChar']))}
+        {renderSelect('Decimal', options.decimalSeparator, DECIMAL_LABELS, detected.decimalSeparator,
+          v => update('decimalSeparator', v as CsvImportOptions['decimalSeparator']))}
+        {renderSelect(
+          'Milhar',
+          options.thousandsSeparator || NO_THOUSANDS,
+          THOUSANDS_LABELS,
+          detected.thousandsSeparator || NO_THOUSANDS,
+          v => update('thousandsSeparator', (v === NO_THOUSANDS ? '' : v) as CsvImportOptions['thousandsSeparator'])
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Colunas de código (SKU, GTIN/EAN, NCM, CEST) são mantidas como texto para preservar zeros à esquerda.
+      </p>
+    </div>
+  );
+};
+
+export default UltraDataCsvSettings;
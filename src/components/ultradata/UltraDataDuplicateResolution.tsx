@@ -0,0 +1,370 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Copy, GitMerge, Check, Ban, Lock, Download, ArrowRight, Crown } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useDataTask } from '@/hooks/useDataTask';
+import { useDuplicateSuppressions } from '@/hooks/useDuplicateSuppressions';
+import { isTaskCancelled } from '@/workers/workerPool';
+import {
+  applyDuplicateResolutions,
+  exportDuplicatesReport,
+  filterSuppressedDuplicates,
+  getDuplicateGroupId,
+  getGroupFingerprints,
+  getSourceLine,
+  mergeDuplicateRows,
+  suggestSurvivorshipRules,
+  type ColumnConfig,
+  type DuplicateAction,
+  type DuplicateResolution,
+  type DuplicateResult,
+  type SurvivorshipRule,
+} from '@/core';
+import type { FieldConfig, ProductRow } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+import UltraDataGtinReport from './UltraDataGtinReport';
+import UltraDataHistoryCheck from './UltraDataHistoryCheck';
+
+interface UltraDataDuplicateResolutionProps {
+  rawData: ProductRow[];
+  columns: string[];
+  fieldConfigs: FieldConfig[];
+  onResolved: (data: ProductRow[]) => void;
+  onNext: () => void;
+}
+
+const PAGE_SIZE = 20;
+const MAX_GROUP_COLUMNS = 6;
+
+const RULE_LABELS: Record<SurvivorshipRule, string> = {
+  survivor: 'Valor do sobrevivente',
+  non_empty: 'Primeiro preenchido',
+  longest: 'Texto mais longo',
+  newest_file: 'Arquivo mais recente',
+};
+
+const ACTIONS: { action: DuplicateAction; label: string; icon: typeof GitMerge }[] = [
+  { action: 'merge', label: 'Mesclar', icon: GitMerge },
+  { action: 'keep', label: 'Manter um', icon: Check },
+  { action: 'not_duplicate', label: 'Não é duplicado', icon: Ban },
+];
+
+const UltraDataDuplicateResolution = ({
+  rawData,
+  columns,
+  fieldConfigs,
+  onResolved,
+  onNext,
+}: UltraDataDuplicateResolutionProps) => {
+  const { toast } = useToast();
+  const { run, cancel, progress, running } = useDataTask();
+  const { suppressions, addSuppressions, loading: loadingSuppressions } = useDuplicateSuppressions();
+
+  const [detected, setDetected] = useState<DuplicateResult[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, DuplicateResolution>>({});
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const protectedColumns = useMemo(
+    () => fieldConfigs.filter(fc => fc.isLocked).map(fc => fc.column),
+    [fieldConfigs]
+  );
+  const [rules, setRules] = useState<Record<string, SurvivorshipRule>>({});
+
+  useEffect(() => {
+    setRules(suggestSurvivorshipRules(columns, protectedColumns));
+  }, [columns, protectedColumns]);
+
+  // Detection runs in a worker; resolving rows reruns it on the new dataset
+  useEffect(() => {
+    const columnConfig: Record<string, ColumnConfig> = Object.fromEntries(
+      columns.map(col => [col, { action: 'analyze', defaultValue: '', isProtected: false }])
+    );
+    run('detectDuplicates', { data: rawData, columnConfig })
+      .then(result => {
+        setDetected(result);
+        setResolutions({});
+        setVisibleCount(PAGE_SIZE);
+      })
+      .catch(err => {
+        if (!isTaskCancelled(err)) console.error('Erro ao detectar duplicidades:', err);
+      });
+    return cancel;
+  }, [rawData, columns, run, cancel]);
+
+  const groups = useMemo(
+    () => filterSuppressedDuplicates(detected, rawData, suppressions),
+    [detected, rawData, suppressions]
+  );
+
+  const resolutionOf = (group: DuplicateResult): DuplicateResolution =>
+    resolutions[getDuplicateGroupId(group)] ?? { action: 'pending', survivor: group.linhas[0], excluded: [] };
+
+  const updateResolution = (group: DuplicateResult, changes: Partial<DuplicateResolution>) => {
+    const id = getDuplicateGroupId(group);
+    setResolutions(prev => ({ ...prev, [id]: { ...resolutionOf(group), ...changes } }));
+  };
+
+  const toggleExcluded = (group: DuplicateResult, index: number) => {
+    const { excluded } = resolutionOf(group);
+    updateResolution(group, {
+      excluded: excluded.includes(index) ? excluded.filter(i => i !== index) : [...excluded, index],
+    });
+  };
+
+  const mergeAllPending = () => {
+    const updated = { ...resolutions };
+    groups.forEach(group => {
+      const resolution = resolutionOf(group);
+      if (resolution.action === 'pending') {
+        updated[getDuplicateGroupId(group)] = { ...resolution, action: 'merge' };
+      }
+    });
+    setResolutions(updated);
+  };
+
+  const decided = groups.filter(group => resolutionOf(group).action !== 'pending').length;
+
+  const applyResolutions = async () => {
+    const result = applyDuplicateResolutions(rawData, groups, resolutions, rules, protectedColumns);
+    const notDuplicates = groups
+      .filter(group => resolutionOf(group).action === 'not_duplicate')
+      .map(group => getGroupFingerprints(group, rawData));
+
+    await addSuppressions(notDuplicates);
+
+    toast({
+      title: 'Duplicidades resolvidas',
+      description: `${result.merged} grupos mesclados, ${result.removed} linhas removidas, ${notDuplicates.length} marcados como não duplicados.`,
+    });
+
+    if (result.removed > 0 || result.merged > 0) {
+      onResolved(result.data as ProductRow[]);
+    } else {
+      setResolutions({});
+    }
+  };
+
+  // Where each row lives, e.g. "fornecedor.xlsx › Aba1 › linha 12"
+  const describeRow = (index: number) => {
+    const row = rawData[index];
+    const line = getSourceLine(row, index);
+    return [row?.__source_file, row?.__source_sheet, `linha ${line}`].filter(Boolean).join(' › ');
+  };
+
+  // Columns worth showing for a group: those whose values disagree
+  const groupColumns = (group: DuplicateResult) => {
+    const differing = columns.filter(col =>
+      new Set(group.linhas.map(index => String(rawData[index]?.[col] ?? '').trim())).size > 1
+    );
+    return (differing.length > 0 ? differing : columns).slice(0, MAX_GROUP_COLUMNS);
+  };
+
+  if (running) {
+    return <UltraDataTaskProgress progress={progress} fallbackLabel="Detectando duplicidades" onCancel={cancel} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground mb-2">Resolução de Duplicidades</h2>
+          <p className="text-muted-foreground">
+            Valide os códigos de barras e mescle, mantenha um registro ou marque grupos como "não é duplicado" antes do processamento.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant={groups.length > 0 ? 'destructive' : 'outline'}>{groups.length} grupos</Badge>
+          <Badge variant="outline">{decided} decididos</Badge>
+        </div>
+      </div>
+
+      <UltraDataGtinReport data={rawData} columns={columns} onFix={onResolved} />
+
+      <UltraDataHistoryCheck data={rawData} columns={columns} />
+
+      {groups.length === 0 ? (
+        <div className="flex items-center gap-2 p-4 border rounded-lg text-sm text-muted-foreground">
+          <Copy className="h-4 w-4" />
+          {loadingSuppressions ? 'Carregando...' : 'Nenhuma duplicidade pendente.'}
+        </div>
+      ) : (
+        <>
+          {/* Survivorship rules */}
+          <div className="space-y-3 p-4 border rounded-lg">
+            <h3 className="font-semibold text-foreground">Regras de sobrevivência</h3>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {columns.map(col => {
+                const isProtected = protectedColumns.includes(col);
+                return (
+                  <div key={col} className="flex items-center justify-between gap-2">
+                    <span className="text-sm truncate" title={col}>{col}</span>
+                    {isProtected ? (
+                      <Badge variant="secondary" className="gap-1">
+                        <Lock className="h-3 w-3" />
+                        Protegida
+                      </Badge>
+                    ) : (
+                      <Select
+                        value={rules[col] ?? 'non_empty'}
+                        onValueChange={value => setRules(prev => ({ ...prev, [col]: value as SurvivorshipRule }))}
+                      >
+                        <SelectTrigger className="w-[190px] h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(RULE_LABELS) as SurvivorshipRule[]).map(rule => (
+                            <SelectItem key={rule} value={rule}>{RULE_LABELS[rule]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Groups */}
+          <div className="space-y-4">
+            {groups.slice(0, visibleCount).map(group => {
+              const resolution = resolutionOf(group);
+              const members = group.linhas.filter(i => !resolution.excluded.includes(i));
+              const shownColumns = groupColumns(group);
+              const golden = resolution.action === 'merge' && members.length > 1
+                ? mergeDuplicateRows(
+                    members.map(i => rawData[i]),
+                    rawData[members.includes(resolution.survivor) ? resolution.survivor : members[0]],
+                    rules,
+                    protectedColumns
+                  )
+                : null;
+
+              return (
+                <div key={getDuplicateGroupId(group)} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant={group.tipo === 'SKU Duplicado' ? 'destructive' : 'secondary'}>{group.tipo}</Badge>
+                      <span className="font-mono text-sm truncate max-w-[280px]">{group.valor}</span>
+                      <Badge variant="outline">{Math.round(group.similaridade * 100)}%</Badge>
+                    </div>
+                    <div className="flex gap-2">
+                      {ACTIONS.map(({ action, label, icon: Icon }) => (
+                        <Button
+                          key={action}
+                          size="sm"
+                          variant={resolution.action === action ? 'default' : 'outline'}
+                          onClick={() => updateResolution(group, {
+                            action: resolution.action === action ? 'pending' : action,
+                          })}
+                        >
+                          <Icon className="h-4 w-4 mr-1" />
+                          {label}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="border rounded-lg overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-10" title="Desmarque para separar a linha do grupo">Grupo</TableHead>
+                          <TableHead className="w-10">Base</TableHead>
+                          <TableHead>Origem</TableHead>
+                          {shownColumns.map(col => (
+                            <TableHead key={col}>{col}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.linhas.map(index => {
+                          const isExcluded = resolution.excluded.includes(index);
+                          const isSurvivor = index === resolution.survivor;
+                          return (
+                            <TableRow key={index} className={isExcluded ? 'opacity-50' : undefined}>
+                              <TableCell>
+                                <Checkbox checked={!isExcluded} onCheckedChange={() => toggleExcluded(group, index)} />
+                              </TableCell>
+                              <TableCell>
+                                <Button
+                                  size="icon"
+                                  variant={isSurvivor ? 'default' : 'ghost'}
+                                  className="h-7 w-7"
+                                  disabled={isExcluded}
+                                  title="Usar como registro base"
+                                  onClick={() => updateResolution(group, { survivor: index })}
+                                >
+                                  <Crown className="h-3.5 w-3.5" />
+                                </Button>
+                              </TableCell>
+                              <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                                {describeRow(index)}
+                              </TableCell>
+                              {shownColumns.map(col => (
+                                <TableCell key={col} className="max-w-[220px] truncate text-sm">
+                                  {String(rawData[index]?.[col] ?? '')}
+                                </TableCell>
+                              ))}
+                            </TableRow>
+                          );
+                        })}
+                        {golden && (
+                          <TableRow className="bg-primary/5">
+                            <TableCell colSpan={3} className="text-xs font-medium text-primary whitespace-nowrap">
+                              <ArrowRight className="h-3 w-3 inline mr-1" />
+                              Registro final
+                            </TableCell>
+                            {shownColumns.map(col => (
+                              <TableCell key={col} className="max-w-[220px] truncate text-sm font-medium">
+                                {String(golden[col] ?? '')}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {groups.length > visibleCount && (
+            <Button variant="outline" className="w-full" onClick={() => setVisibleCount(c => c + PAGE_SIZE)}>
+              Mostrar mais ({groups.length - visibleCount} restantes)
+            </Button>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t">
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={mergeAllPending} disabled={groups.length === decided}>
+            <GitMerge className="h-4 w-4 mr-2" />
+            Mesclar pendentes
+          </Button>
+          <Button variant="outline" onClick={() => exportDuplicatesReport(groups, rawData)} disabled={groups.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Exportar relatório
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={applyResolutions} disabled={decided === 0}>
+            <Check className="h-4 w-4 mr-2" />
+            Aplicar resoluções
+          </Button>
+          <Button onClick={onNext} size="lg">
+            Continuar
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UltraDataDuplicateResolution;
@@ -10,6 +10,7 @@ import { Switch } from '@/components/ui/switch';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { validateEnrichmentResponse, type EnrichmentResponse } from '@/core';
 
 interface EnrichmentOptions {
   nome: boolean;
@@ -20,22 +21,7 @@ interface EnrichmentOptions {
   ncm: boolean;
 }
 
-interface EnrichmentResult {
-  nome_padronizado?: string;
-  descricao_enriquecida?: string;
-  categoria_inferida?: string;
-  marca_inferida?: string;
-  origem_inferida?: string;
-  ncm_sugerido?: {
-    codigo: string;
-    descricao: string;
-    confianca: 'alta' | 'media' | 'baixa';
-    observacao: string;
-  };
-  status_inferencia?: {
-    necessita_revisao: boolean;
-    razao: string;
-  };
+interface EnrichmentResult extends EnrichmentResponse {
   tempo_processamento_ms?: number;
 }
 
@@ -106,12 +92,16 @@ const UltraDataEnrichmentModal = ({
         return;
       }
 
-      setResult(data);
-      onEnrichmentComplete?.(data);
+      const enriched: EnrichmentResult = {
+        ...validateEnrichmentResponse(data).value,
+        tempo_processamento_ms: data.tempo_processamento_ms,
+      };
+      setResult(enriched);
+      onEnrichmentComplete?.(enriched);
 
       toast({
         title: 'Enriquecimento concluído!',
-        description: `Processado em ${data.tempo_processamento_ms}ms via DeepSeek`,
+        description: `Processado em ${data.tempo_processamento_ms}ms via ${data.modelo_ia ?? 'IA'}`,
       });
     } catch (err) {
       console.error('Erro no enriquecimento:', err);
@@ -1,4 +1,5 @@
-import { Lock, Unlock, Eye, Wand2, FileText, Hash } from 'lucide-react';
+import { useState } from 'react';
+import { Lock, Unlock, Eye, Wand2, FileText, Hash, ListOrdered } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
@@ -8,22 +9,33 @@ import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/comp
 import { ConfigPresetManager } from '@/components/ConfigPresetManager';
 import type { FieldConfig, ProductRow } from '@/pages/UltraData';
 import type { ColumnConfig } from '@/utils/dataProcessors';
+import type { ComposeTemplate, TransformRule } from '@/core';
+import UltraDataTransformRules from './UltraDataTransformRules';
+import UltraDataTemplateComposer from './UltraDataTemplateComposer';
 
 interface UltraDataFieldConfigProps {
   columns: string[];
   fieldConfigs: FieldConfig[];
   onConfigChange: (configs: FieldConfig[]) => void;
   sampleData: ProductRow[];
+  templates: Record<string, ComposeTemplate>;
+  onTemplatesChange: (templates: Record<string, ComposeTemplate>) => void;
   onNext: () => void;
 }
 
+const NO_RULES: TransformRule[] = [];
+
 const UltraDataFieldConfig = ({
   columns,
   fieldConfigs,
   onConfigChange,
   sampleData,
+  templates,
+  onTemplatesChange,
   onNext,
 }: UltraDataFieldConfigProps) => {
+  const [rulesColumn, setRulesColumn] = useState<string | null>(null);
+
   const updateConfig = (column: string, updates: Partial<FieldConfig>) => {
     onConfigChange(
       fieldConfigs.map(fc =>
@@ -55,6 +67,7 @@ const UltraDataFieldConfig = ({
       action: fc.action === 'analyze' ? 'analyze' : fc.action === 'fill_empty' ? 'default_empty' : fc.action === 'use_default' ? 'default_all' : 'ignore',
       defaultValue: fc.defaultValue || '',
       isProtected: fc.isLocked,
+      ...(fc.transforms?.length ? { transforms: fc.transforms } : {}),
     };
   });
 
@@ -72,6 +85,7 @@ const UltraDataFieldConfig = ({
           ...fc,
           action,
           defaultValue: imported.defaultValue || fc.defaultValue,
+          transforms: imported.transforms ?? fc.transforms,
         };
       }
       return fc;
@@ -120,6 +134,7 @@ const UltraDataFieldConfig = ({
                 <TableHead className="w-[180px]">Amostra</TableHead>
                 <TableHead className="w-[200px]">Ação</TableHead>
                 <TableHead className="w-[150px]">Valor Padrão</TableHead>
+                <TableHead className="w-[110px]">Regras</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -206,6 +221,18 @@ const UltraDataFieldConfig = ({
                         />
                       )}
                     </TableCell>
+
+                    <TableCell>
+                      <Button
+                        variant={config.transforms?.length ? 'secondary' : 'ghost'}
+                        size="sm"
+                        disabled={config.isLocked}
+                        onClick={() => setRulesColumn(config.column)}
+                      >
+                        <ListOrdered className="h-4 w-4 mr-1" />
+                        {config.transforms?.length || 'Adicionar'}
+                      </Button>
+                    </TableCell>
                   </TableRow>
                 );
               })}
@@ -213,6 +240,25 @@ const UltraDataFieldConfig = ({
           </Table>
         </div>
 
+        {rulesColumn && (
+          <UltraDataTransformRules
+            column={rulesColumn}
+            columns={columns}
+            rules={fieldConfigs.find(fc => fc.column === rulesColumn)?.transforms ?? NO_RULES}
+            sampleData={sampleData}
+            open={rulesColumn !== null}
+            onOpenChange={open => !open && setRulesColumn(null)}
+            onSave={transforms => updateConfig(rulesColumn, { transforms })}
+          />
+        )}
+
+        <UltraDataTemplateComposer
+          templates={templates}
+          onChange={onTemplatesChange}
+          columns={columns}
+          sampleData={sampleData}
+        />
+
         {/* Actions */}
         <div className="flex items-center justify-between pt-4 border-t">
           <p className="text-sm text-muted-foreground">
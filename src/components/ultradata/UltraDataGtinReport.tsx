@@ -0,0 +1,108 @@
+import { useMemo } from 'react';
+import { Barcode, Wand2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { findBarcodeColumn, getSourceLine, validateGtinColumn, type GtinError } from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+
+interface UltraDataGtinReportProps {
+  data: ProductRow[];
+  columns: string[];
+  onFix: (data: ProductRow[]) => void;
+}
+
+const MAX_VISIBLE = 50;
+
+const ERROR_LABELS: Record<GtinError, string> = {
+  empty: 'Vazio',
+  non_numeric: 'Caracteres inválidos',
+  invalid_length: 'Tamanho inválido',
+  invalid_check_digit: 'Dígito verificador incorreto',
+  placeholder: 'Código genérico',
+};
+
+const UltraDataGtinReport = ({ data, columns, onFix }: UltraDataGtinReportProps) => {
+  const column = useMemo(() => findBarcodeColumn(columns), [columns]);
+
+  const results = useMemo(
+    () => (column ? validateGtinColumn(data, column) : []),
+    [data, column]
+  );
+
+  if (!column) return null;
+
+  const invalid = results.filter(r => !r.result.valid);
+  const fixable = results.filter(r => r.result.valid && r.result.normalized !== r.result.raw);
+  const brazilian = results.filter(r => r.result.country === 'Brasil').length;
+
+  // Rewrite valid codes without formatting or padding zeros
+  const normalizeCodes = () => {
+    const updated = [...data];
+    fixable.forEach(({ rowIndex, result }) => {
+      updated[rowIndex] = { ...updated[rowIndex], [column]: result.normalized };
+    });
+    onFix(updated);
+  };
+
+  const describeRow = (index: number) => {
+    const row = data[index];
+    const line = getSourceLine(row, index);
+    return [row?.__source_file, `linha ${line}`].filter(Boolean).join(' › ');
+  };
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Barcode className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">Códigos de barras • {column}</h3>
+          <Badge variant="outline">{results.length - invalid.length} válidos</Badge>
+          {invalid.length > 0 && <Badge variant="destructive">{invalid.length} inválidos</Badge>}
+          {brazilian > 0 && <Badge variant="secondary">{brazilian} registrados no Brasil</Badge>}
+        </div>
+        {fixable.length > 0 && (
+          <Button variant="outline" size="sm" onClick={normalizeCodes}>
+            <Wand2 className="h-4 w-4 mr-1" />
+            Normalizar {fixable.length} códigos
+          </Button>
+        )}
+      </div>
+
+      {invalid.length > 0 && (
+        <div className="border rounded-lg overflow-auto max-h-[240px]">
+          <Table>
+            <TableHeader className="sticky top-0 bg-card">
+              <TableRow>
+                <TableHead>Origem</TableHead>
+                <TableHead>Código</TableHead>
+                <TableHead>Problema</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invalid.slice(0, MAX_VISIBLE).map(({ rowIndex, result }) => (
+                <TableRow key={rowIndex}>
+                  <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{describeRow(rowIndex)}</TableCell>
+                  <TableCell className="font-mono text-xs">{result.raw}</TableCell>
+                  <TableCell>
+                    <Badge variant={result.error === 'placeholder' ? 'secondary' : 'destructive'}>
+                      {ERROR_LABELS[result.error ?? 'empty']}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {invalid.length > MAX_VISIBLE && (
+        <p className="text-xs text-muted-foreground">
+          Mostrando {MAX_VISIBLE} de {invalid.length} códigos inválidos.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataGtinReport;
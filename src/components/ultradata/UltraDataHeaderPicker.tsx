@@ -0,0 +1,115 @@
+import { Rows3, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { HeaderDetection, HeaderSelection, SheetSummary } from '@/core';
+
+interface UltraDataHeaderPickerProps {
+  sheet: SheetSummary;
+  detected: HeaderDetection;
+  onChange: (header: HeaderSelection) => void;
+  showSheetName?: boolean;
+}
+
+const MAX_PREVIEW_COLUMNS = 8;
+
+const UltraDataHeaderPicker = ({
+  sheet,
+  detected,
+  onChange,
+  showSheetName,
+}: UltraDataHeaderPickerProps) => {
+  const { headerRow, headerRows } = sheet.header;
+  const isOverridden = headerRow !== detected.headerRow || headerRows !== detected.headerRows;
+  const dataStart = headerRow + headerRows;
+
+  const rowLabel = (index: number) => {
+    if (index >= headerRow && index < dataStart) return 'Cabeçalho';
+    if (index < headerRow) return 'Ignorada';
+    return null;
+  };
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Rows3 className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">
+            Linha do cabeçalho{showSheetName && ` • ${sheet.name}`}
+          </h3>
+          <Badge variant={isOverridden ? 'default' : 'outline'}>
+            {isOverridden
+              ? 'Ajustado manualmente'
+              : `Detectado na linha ${detected.headerRow + 1} • ${Math.round(detected.confidence * 100)}%`}
+          </Badge>
+          {detected.hasMergedHeader && <Badge variant="secondary">Células mescladas</Badge>}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`two-row-header-${sheet.name}`}
+              checked={headerRows === 2}
+              onCheckedChange={checked => onChange({ headerRow, headerRows: checked ? 2 : 1 })}
+            />
+            <Label htmlFor={`two-row-header-${sheet.name}`} className="text-sm">
+              Cabeçalho em duas linhas
+            </Label>
+          </div>
+          {isOverridden && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange({ headerRow: detected.headerRow, headerRows: detected.headerRows })}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Restaurar detecção
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Clique na linha que contém os nomes das colunas. Linhas acima dela (logotipo, título) são ignoradas.
+      </p>
+
+      <div className="border rounded-lg overflow-auto max-h-[280px]">
+        <table className="w-full text-xs">
+          <tbody>
+            {sheet.rawPreview.map((row, index) => {
+              const label = rowLabel(index);
+              return (
+                <tr
+                  key={index}
+                  onClick={() => onChange({ headerRow: index, headerRows })}
+                  className={cn(
+                    'cursor-pointer border-b last:border-0 hover:bg-muted/50',
+                    label === 'Cabeçalho' && 'bg-primary/10 font-semibold',
+                    label === 'Ignorada' && 'text-muted-foreground/60'
+                  )}
+                >
+                  <td className="px-2 py-1.5 w-10 text-muted-foreground">{index + 1}</td>
+                  {row.slice(0, MAX_PREVIEW_COLUMNS).map((cell, c) => (
+                    <td key={c} className="px-2 py-1.5 max-w-[140px] truncate">
+                      {cell}
+                    </td>
+                  ))}
+                  <td className="px-2 py-1.5 w-24 text-right">
+                    {label && (
+                      <Badge variant={label === 'Cabeçalho' ? 'default' : 'outline'} className="text-[10px]">
+                        {label}
+                      </Badge>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default UltraDataHeaderPicker;
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { History, Loader2, Search } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import {
+  getSourceLine,
+  loadProcessedHistory,
+  matchAgainstHistory,
+  type HistoricalProduct,
+  type HistoryMatch,
+  type HistoryMatchType,
+} from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+
+interface UltraDataHistoryCheckProps {
+  data: ProductRow[];
+  columns: string[];
+}
+
+const MAX_VISIBLE = 50;
+
+const MATCH_LABELS: Record<HistoryMatchType, string> = {
+  gtin: 'GTIN',
+  sku: 'SKU',
+  nome: 'Nome',
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString('pt-BR');
+
+const UltraDataHistoryCheck = ({ data, columns }: UltraDataHistoryCheckProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<{ matches: HistoryMatch[]; records: Map<string, HistoricalProduct> } | null>(null);
+
+  if (!user) return null;
+
+  const checkHistory = async () => {
+    setLoading(true);
+    try {
+      const history = await loadProcessedHistory(user.id);
+      setResult({
+        matches: matchAgainstHistory(data, columns, history),
+        records: new Map(history.map(record => [record.id, record])),
+      });
+    } catch (err) {
+      console.error('Erro ao consultar histórico:', err);
+      toast({
+        title: 'Erro ao consultar histórico',
+        description: err instanceof Error ? err.message : 'Tente novamente.',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeRow = (index: number) => {
+    const row = data[index];
+    const line = getSourceLine(row, index);
+    return [row?.__source_file, `linha ${line}`].filter(Boolean).join(' › ');
+  };
+
+  const validated = result?.matches.filter(match => result.records.get(match.productId)?.validado).length ?? 0;
+
+  return (
+    <div className="space-y-3 p-4 border rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">Produtos já processados</h3>
+          {result && (
+            <>
+              <Badge variant="outline">{result.matches.length} encontrados</Badge>
+              {validated > 0 && <Badge variant="secondary">{validated} validados</Badge>}
+            </>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={checkHistory} disabled={loading}>
+          {loading ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Search className="h-4 w-4 mr-1" />}
+          {result ? 'Comparar novamente' : 'Comparar com histórico'}
+        </Button>
+      </div>
+
+      {result && result.matches.length === 0 && (
+        <p className="text-sm text-muted-foreground">Nenhum item desta planilha foi processado antes.</p>
+      )}
+
+      {result && result.matches.length > 0 && (
+        <>
+          <div className="border rounded-lg overflow-auto max-h-[240px]">
+            <Table>
+              <TableHeader className="sticky top-0 bg-card">
+                <TableRow>
+                  <TableHead>Origem</TableHead>
+                  <TableHead>Produto no histórico</TableHead>
+                  <TableHead>Correspondência</TableHead>
+                  <TableHead>Situação</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.matches.slice(0, MAX_VISIBLE).map(match => {
+                  const record = result.records.get(match.productId);
+                  return (
+                    <TableRow key={match.rowIndex}>
+                      <TableCell className="text-xs text-muted-foreground whitespace-nowrap">{describeRow(match.rowIndex)}</TableCell>
+                      <TableCell className="max-w-[280px] truncate text-sm">
+                        {String(record?.enriched.nome_padronizado || record?.name || '')}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {MATCH_LABELS[match.matchType]}
+                          {match.matchType === 'nome' && ` ${Math.round(match.similarity * 100)}%`}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-xs whitespace-nowrap">
+                        {record?.validado
+                          ? `Enriquecido e validado em ${formatDate(record.validadoEm ?? record.createdAt)}`
+                          : `Enriquecido em ${formatDate(record?.createdAt)} (sem validação)`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+          {validated > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Itens validados reaproveitam o enriquecimento anterior no processamento, sem nova chamada à IA.
+            </p>
+          )}
+          {result.matches.length > MAX_VISIBLE && (
+            <p className="text-xs text-muted-foreground">
+              Mostrando {MAX_VISIBLE} de {result.matches.length} itens.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataHistoryCheck;
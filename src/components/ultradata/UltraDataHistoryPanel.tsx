@@ -0,0 +1,102 @@
+import { format } from 'date-fns';
+import { Undo2, Redo2, ListRestart, Circle, CheckCircle2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { ChangeHistory, HistoryEntry } from '@/core';
+
+interface UltraDataHistoryPanelProps {
+  history: ChangeHistory;
+  onUndo: (steps?: number) => void;
+  onRedo: (steps?: number) => void;
+}
+
+const countRows = (entry: HistoryEntry): number =>
+  entry.patches.reduce((total, patch) => total + (patch.kind === 'rows' ? patch.rows.length : 0), 0);
+
+const UltraDataHistoryPanel = ({ history, onUndo, onRedo }: UltraDataHistoryPanelProps) => {
+  const { past, future } = history;
+  const lastPast = past[past.length - 1];
+  const nextFuture = future[0];
+
+  const renderEntry = (entry: HistoryEntry, state: 'current' | 'past' | 'future', onClick?: () => void) => {
+    const rows = countRows(entry);
+    return (
+      <button
+        key={entry.id}
+        type="button"
+        onClick={onClick}
+        disabled={!onClick}
+        className={`w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted disabled:cursor-default ${
+          state === 'future' ? 'text-muted-foreground line-through' : ''
+        } ${state === 'current' ? 'bg-primary/10' : ''}`}
+      >
+        {state === 'current' ? (
+          <CheckCircle2 className="h-3.5 w-3.5 text-primary shrink-0" />
+        ) : (
+          <Circle className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+        )}
+        <span className="flex-1 truncate">{entry.label}</span>
+        {rows > 0 && <Badge variant="outline" className="text-xs">{rows} linhas</Badge>}
+        <span className="text-xs text-muted-foreground">{format(new Date(entry.createdAt), 'HH:mm')}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onUndo()}
+        disabled={!lastPast}
+        title={lastPast ? `Desfazer: ${lastPast.label} (Ctrl+Z)` : 'Nada para desfazer'}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onRedo()}
+        disabled={!nextFuture}
+        title={nextFuture ? `Refazer: ${nextFuture.label} (Ctrl+Shift+Z)` : 'Nada para refazer'}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={past.length === 0 && future.length === 0}>
+            <ListRestart className="h-4 w-4" />
+            <span className="hidden sm:inline ml-2">Alterações</span>
+            {past.length > 0 && <Badge variant="secondary" className="ml-2">{past.length}</Badge>}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-2" align="end">
+          <p className="px-2 pb-2 text-xs text-muted-foreground">
+            Clique em uma etapa para voltar ao estado logo após ela.
+          </p>
+          <div className="max-h-[320px] overflow-y-auto space-y-0.5">
+            {[...future].reverse().map((entry, index) =>
+              renderEntry(entry, 'future', () => onRedo(future.length - index))
+            )}
+            {[...past].reverse().map((entry, index) =>
+              renderEntry(entry, index === 0 ? 'current' : 'past', index === 0 ? undefined : () => onUndo(index))
+            )}
+            {past.length > 0 && (
+              <button
+                type="button"
+                onClick={() => onUndo(past.length)}
+                className="w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm text-muted-foreground hover:bg-muted"
+              >
+                <Circle className="h-3.5 w-3.5 shrink-0" />
+                <span className="flex-1">Estado inicial</span>
+              </button>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default UltraDataHistoryPanel;
@@ -1,15 +1,53 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { Sparkles, AlertTriangle, Check, Loader2, Play, Pause, Camera, ImageIcon, Zap } from 'lucide-react';
+import { Sparkles, AlertTriangle, Check, Loader2, Play, Pause, Camera, ImageIcon, Zap, History, GitCompare, RotateCcw, Server, Trash2 } from 'lucide-react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { getAbbreviations } from '@/config';
+import { useDataTask } from '@/hooks/useDataTask';
+import { useEnrichmentJob, enrichmentToProcessedProduct } from '@/hooks/useEnrichmentJob';
+import { isTaskCancelled } from '@/workers/workerPool';
+import {
+  applyCellChanges,
+  buildEnrichmentJobItems,
+  cellChangesToProvenance,
+  findBarcodeColumn,
+  getEnrichmentCacheStats,
+  getGtinOriginHint,
+  getProductIdentifiers,
+  invalidateEnrichmentCache,
+  loadProcessedHistory,
+  matchAgainstHistory,
+  parseRetryAfter,
+  runEnrichmentScheduler,
+  type CellChange,
+  type CellProvenance,
+  type ColumnConfig,
+  type EnrichmentCacheStats,
+  type HistoricalProduct,
+  type ReusedEnrichment,
+} from '@/core';
 import UltraDataImageSearch from './UltraDataImageSearch';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+import UltraDataChangeReview from './UltraDataChangeReview';
 import type { ProductRow, FieldConfig, ProcessedProduct } from '@/pages/UltraData';
 
 interface UltraDataProcessingProps {
@@ -18,7 +56,8 @@ interface UltraDataProcessingProps {
   userId?: string;
   isProcessing: boolean;
   setIsProcessing: (val: boolean) => void;
-  onComplete: (products: ProcessedProduct[]) => void;
+  // Provenance of the cells changed by the rules before the AI call
+  onComplete: (products: ProcessedProduct[], provenance?: CellProvenance[]) => void;
   onDataUpdate?: (data: ProductRow[]) => void;
   sessionId?: string | null;
   onSessionUpdate?: (sessionId: string, updates: {
@@ -27,6 +66,36 @@ interface UltraDataProcessingProps {
   }) => Promise<boolean>;
 }
 
+const NO_CHANGES: CellChange[] = [];
+
+// Name-only matches must be nearly identical before a validated enrichment is reused
+const REUSE_NAME_SIMILARITY = 0.95;
+
+// Upper bound for the adaptive concurrency, whatever the initial value
+const MAX_CONCURRENCY = 10;
+
+// Status and Retry-After go on the error so the scheduler can tell a rate limit from a bad request.
+// Network and relay errors keep no status and are retried.
+const toEnrichmentError = async (error: unknown): Promise<Error> => {
+  if (error instanceof FunctionsHttpError && error.context instanceof Response) {
+    const response: Response = error.context;
+    const body = await response.json().catch(() => null);
+    return Object.assign(new Error(body?.mensagem || `Falha na função de enriquecimento (${response.status})`), {
+      status: response.status,
+      retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    });
+  }
+  return error instanceof Error ? error : new Error(String(error));
+};
+
+const failedProduct = (row: ProductRow, reason: string): ProcessedProduct => ({
+  original: row,
+  enriched: {},
+  necessita_revisao: true,
+  razao_revisao: reason,
+  validado: false,
+});
+
 const UltraDataProcessing = ({
   rawData,
   fieldConfigs,
@@ -48,8 +117,43 @@ const UltraDataProcessing = ({
   const [imageSearchQuery, setImageSearchQuery] = useState('');
   const [imageSearchProductIndex, setImageSearchProductIndex] = useState<number | null>(null);
   const [batchSize, setBatchSize] = useState(3);
+  const [reuseHistory, setReuseHistory] = useState(true);
+  const [reviewRules, setReviewRules] = useState(true);
+  const [pendingChanges, setPendingChanges] = useState<CellChange[] | null>(null);
+  // Rows of the last run that failed even after the retries
+  const [failedRows, setFailedRows] = useState<number[]>([]);
+  const [runSize, setRunSize] = useState(0);
+  const [runOnServer, setRunOnServer] = useState(false);
   const abortRef = useRef(false);
-  const cacheRef = useRef<Map<string, ProcessedProduct>>(new Map());
+  // The scheduler loop reads pause through a ref; the state would be stale inside it
+  const isPausedRef = useRef(false);
+  // Rows sent to the AI (after the rules) and their results by row index, kept for "retry failed only"
+  const runRef = useRef<{ rows: ProductRow[]; provenance: CellProvenance[]; results: ProcessedProduct[] }>({
+    rows: [],
+    provenance: [],
+    results: [],
+  });
+  // Enrichment cache of the user: entries in the database and hits/misses of the current run
+  const [cacheStats, setCacheStats] = useState<EnrichmentCacheStats | null>(null);
+  const cacheRunRef = useRef({ hits: 0, misses: 0 });
+  // Validated enrichments from earlier sessions, by row index
+  const historyRef = useRef<Map<number, HistoricalProduct>>(new Map());
+  // Resolves the dry-run review: accepted change ids, or null when cancelled
+  const reviewResolverRef = useRef<((accepted: Set<string> | null) => void) | null>(null);
+  const duplicateTask = useDataTask();
+  const transformTask = useDataTask();
+  // Server-side job of this session: started here, on another device or before the browser was closed
+  const serverJob = useEnrichmentJob(sessionId, job => {
+    if (job.status === 'failed') {
+      addLog('error', `Processamento no servidor interrompido: ${job.error ?? 'erro desconhecido'}`);
+    } else if (job.status === 'cancelled') {
+      addLog('warning', 'Processamento no servidor cancelado');
+    }
+    applyServerResults().catch(error => {
+      addLog('error', error instanceof Error ? error.message : String(error));
+      setIsProcessing(false);
+    });
+  });
 
   // Load abbreviations from config
   const abbreviations = useRef(getAbbreviations());
@@ -59,6 +163,40 @@ const UltraDataProcessing = ({
   };
 
   const analyzeColumns = fieldConfigs.filter(fc => fc.action === 'analyze').map(fc => fc.column);
+  const allColumns = fieldConfigs.map(fc => fc.column);
+  // Barcodes are protected columns, but their GS1 prefix still hints the origin
+  const barcodeColumn = findBarcodeColumn(allColumns);
+  const hasRules = fieldConfigs.some(fc => fc.transforms?.length || fc.action === 'fill_empty' || fc.action === 'use_default');
+
+  const refreshCacheStats = useCallback(() => {
+    if (!userId) return;
+    getEnrichmentCacheStats(userId)
+      .then(setCacheStats)
+      .catch(error => console.error('Erro ao carregar estatísticas do cache:', error));
+  }, [userId]);
+
+  useEffect(() => {
+    refreshCacheStats();
+  }, [refreshCacheStats]);
+
+  // Sends products already in the cache to the AI again
+  const clearCache = async () => {
+    if (!userId) return;
+    try {
+      const removed = await invalidateEnrichmentCache(userId);
+      toast({
+        title: 'Cache limpo',
+        description: `${removed} respostas removidas. Os próximos produtos serão enviados à IA.`,
+      });
+      refreshCacheStats();
+    } catch (error) {
+      toast({
+        title: 'Erro ao limpar o cache',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
 
   const processProduct = async (row: ProductRow, index: number): Promise<ProcessedProduct> => {
     const productToEnrich: Record<string, any> = {};
@@ -68,74 +206,138 @@ const UltraDataProcessing = ({
       }
     });
 
-    // Check cache
-    const cacheKey = JSON.stringify(productToEnrich);
-    const cached = cacheRef.current.get(cacheKey);
-    if (cached) {
-      addLog('info', `Item ${index + 1}: Cache hit ⚡`);
-      return { ...cached, original: row };
+    const reused = historyRef.current.get(index);
+    if (reused) {
+      const validadoEm = new Date(reused.validadoEm ?? reused.createdAt).toLocaleDateString('pt-BR');
+      addLog('success', `Item ${index + 1}: Já enriquecido e validado em ${validadoEm} ♻️`);
+      return {
+        original: row,
+        enriched: reused.enriched as ProcessedProduct['enriched'],
+        necessita_revisao: false,
+        validado: true,
+        registro_id: reused.id,
+        reaproveitado_de: reused.validadoEm ?? reused.createdAt,
+      };
     }
 
-    try {
-      const { data, error } = await supabase.functions.invoke('enriquecer-produto', {
-        body: {
-          produto: productToEnrich,
-          user_id: userId,
-          abbreviations: abbreviations.current,
-        },
-      });
+    const dicas = barcodeColumn ? { origem: getGtinOriginHint(row[barcodeColumn]) } : {};
 
-      if (error) throw error;
-
-      if (data.error) {
-        addLog('error', `Item ${index + 1}: ${data.mensagem}`);
-        return {
-          original: row,
-          enriched: {},
-          necessita_revisao: true,
-          razao_revisao: data.mensagem || 'Erro no processamento',
-          validado: false,
-        };
-      }
+    const { data, error } = await supabase.functions.invoke('enriquecer-produto', {
+      body: {
+        produto: productToEnrich,
+        user_id: userId,
+        abbreviations: abbreviations.current,
+        dicas,
+        identificadores: getProductIdentifiers(row, allColumns),
+      },
+    });
 
-      const needsReview = data.status_inferencia?.necessita_revisao ?? false;
-      
-      if (needsReview) {
-        addLog('warning', `Item ${index + 1}: Necessita revisão - ${data.status_inferencia?.razao}`);
-      } else {
-        addLog('success', `Item ${index + 1}: Processado em ${data.tempo_processamento_ms}ms`);
-      }
+    if (error) throw await toEnrichmentError(error);
 
-      const result: ProcessedProduct = {
-        original: row,
-        enriched: {
-          nome_padronizado: data.nome_padronizado,
-          descricao_enriquecida: data.descricao_enriquecida,
-          categoria_inferida: data.categoria_inferida,
-          marca_inferida: data.marca_inferida,
-          origem_inferida: data.origem_inferida,
-          ncm_sugerido: data.ncm_sugerido,
-        },
-        necessita_revisao: needsReview,
-        razao_revisao: data.status_inferencia?.razao,
-        validado: false,
-        tempo_processamento_ms: data.tempo_processamento_ms,
-      };
+    // The function answered with an error body: calling again would not help
+    if (data.error) {
+      throw Object.assign(new Error(data.mensagem || 'Erro no processamento'), { status: 200 });
+    }
 
-      // Store in cache
-      cacheRef.current.set(cacheKey, result);
+    const result = enrichmentToProcessedProduct(row, data);
 
-      return result;
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Erro desconhecido';
-      addLog('error', `Item ${index + 1}: ${message}`);
-      return {
-        original: row,
-        enriched: {},
-        necessita_revisao: true,
-        razao_revisao: message,
-        validado: false,
-      };
+    // The function answers from the user's cache when the same product was enriched before
+    const fromCache = data.cache?.hit === true;
+    if (fromCache) {
+      cacheRunRef.current.hits++;
+    } else {
+      cacheRunRef.current.misses++;
+    }
+
+    if (result.necessita_revisao) {
+      addLog('warning', `Item ${index + 1}: Necessita revisão - ${result.razao_revisao ?? ''}`);
+    } else {
+      addLog('success', `Item ${index + 1}: Processado ${fromCache ? 'do cache ⚡' : `em ${data.tempo_processamento_ms}ms`}`);
+    }
+
+    return result;
+  };
+
+  /**
+   * Enrich the given rows of the current run. Rate limits and server errors are
+   * retried with backoff while the concurrency adapts; results land at their row
+   * index. Returns the rows that still failed.
+   */
+  const enrichRows = async (indices: number[]): Promise<number[]> => {
+    const { rows, results } = runRef.current;
+    cacheRunRef.current = { hits: 0, misses: 0 };
+    setRunSize(indices.length);
+    setCurrentItem(0);
+    setProgress(0);
+
+    const outcomes = await runEnrichmentScheduler(indices, index => processProduct(rows[index], index), {
+      initialConcurrency: batchSize,
+      maxConcurrency: MAX_CONCURRENCY,
+      isCancelled: () => abortRef.current,
+      isPaused: () => isPausedRef.current,
+      onSettled: (outcome, settled, total) => {
+        if (outcome.ok) {
+          results[outcome.index] = outcome.value;
+        } else {
+          const attempts = outcome.attempts > 1 ? ` (${outcome.attempts} tentativas)` : '';
+          addLog('error', `Item ${outcome.index + 1}: ${outcome.error.message}${attempts}`);
+          results[outcome.index] = failedProduct(rows[outcome.index], outcome.error.message);
+        }
+        setCurrentItem(settled);
+        setProgress((settled / total) * 100);
+        // slice keeps the holes of rows still in flight; a spread would turn them into undefined
+        setProcessedProducts(results.slice());
+      },
+      onRetry: (index, attempt, delayMs, failure) => {
+        addLog('warning', `Item ${index + 1}: ${failure.message} - tentativa ${attempt} em ${(delayMs / 1000).toFixed(1)}s`);
+      },
+      onConcurrencyChange: (concurrency, reason) => {
+        addLog(reason === 'throttled' ? 'warning' : 'info', `Paralelismo ajustado para ${concurrency}`);
+      },
+    });
+
+    if (abortRef.current) {
+      addLog('warning', 'Processamento cancelado pelo usuário');
+    }
+
+    const { hits, misses } = cacheRunRef.current;
+    if (hits + misses > 0) {
+      const rate = Math.round((hits / (hits + misses)) * 100);
+      addLog('info', `Cache: ${hits} acertos e ${misses} chamadas à IA (${rate}% reaproveitado)`);
+      refreshCacheStats();
+    }
+
+    // Rows left waiting for a retry when the run was cancelled count as failed,
+    // so the results stay a contiguous prefix of the rows
+    const settled = new Map(outcomes.map(outcome => [outcome.index, outcome]));
+    const reached = results.length;
+    const failed = indices.filter(index => {
+      const outcome = settled.get(index);
+      if (outcome) return !outcome.ok;
+      if (index >= reached) return false;
+      results[index] ??= failedProduct(rows[index], 'Cancelado antes de uma nova tentativa');
+      return true;
+    });
+    setProcessedProducts(results.slice());
+    return failed;
+  };
+
+  const finishRun = (failed: number[]) => {
+    const { results, provenance } = runRef.current;
+    setFailedRows(failed);
+    setIsProcessing(false);
+
+    const needsReview = results.filter(r => r.necessita_revisao).length;
+    const failures = failed.length > 0 ? `, ${failed.length} falharam` : '';
+    addLog('info', `Processamento concluído: ${results.length} itens, ${needsReview} necessitam revisão${failures}`);
+
+    toast({
+      title: "Processamento concluído!",
+      description: `${results.length} produtos processados. ${needsReview} necessitam revisão.${failed.length > 0 ? ` ${failed.length} falharam.` : ''}`,
+    });
+
+    if (results.length > 0) {
+      onComplete(results, provenance);
     }
   };
 
@@ -146,74 +348,202 @@ const UltraDataProcessing = ({
     setProgress(0);
     setCurrentItem(0);
     setProcessedProducts([]);
+    setFailedRows([]);
     setLogs([]);
     abortRef.current = false;
+    isPausedRef.current = false;
 
     if (sessionId && onSessionUpdate) {
       await onSessionUpdate(sessionId, { status: 'processing' });
     }
 
-    addLog('info', `Iniciando processamento de ${rawData.length} itens (lote: ${batchSize})...`);
+    addLog('info', `Iniciando processamento de ${rawData.length} itens (paralelismo inicial: ${batchSize})...`);
     addLog('info', `Colunas para análise: ${analyzeColumns.join(', ')}`);
     addLog('info', `Abreviações carregadas: ${Object.keys(abbreviations.current).length} regras`);
 
-    const results: ProcessedProduct[] = [];
-
-    // Process in parallel batches
-    for (let i = 0; i < rawData.length; i += batchSize) {
-      if (abortRef.current) {
+    // Duplicate check runs in a worker so large catalogs don't freeze the page
+    const columnConfig: Record<string, ColumnConfig> = Object.fromEntries(
+      fieldConfigs.map(fc => [fc.column, {
+        action: fc.action === 'analyze' ? 'analyze' : 'ignore',
+        defaultValue: '',
+        isProtected: fc.isLocked,
+      }])
+    );
+    try {
+      const duplicates = await duplicateTask.run('detectDuplicates', {
+        data: rawData,
+        columnConfig,
+        options: { abbreviations: abbreviations.current },
+      });
+      if (duplicates.length > 0) {
+        addLog('warning', `${duplicates.length} grupos de possíveis duplicidades encontrados`);
+      }
+    } catch (error) {
+      if (isTaskCancelled(error)) {
         addLog('warning', 'Processamento cancelado pelo usuário');
-        break;
+        return;
       }
+      addLog('error', `Falha ao verificar duplicidades: ${error instanceof Error ? error.message : error}`);
+    }
 
-      while (isPaused && !abortRef.current) {
-        await new Promise(r => setTimeout(r, 100));
+    // Products enriched and validated in earlier sessions skip the AI call
+    historyRef.current = new Map();
+    if (reuseHistory && userId) {
+      try {
+        const history = await loadProcessedHistory(userId, true);
+        const byId = new Map(history.map(record => [record.id, record]));
+        matchAgainstHistory(rawData, allColumns, history)
+          .filter(match => match.matchType !== 'nome' || match.similarity >= REUSE_NAME_SIMILARITY)
+          .forEach(match => historyRef.current.set(match.rowIndex, byId.get(match.productId)!));
+        if (historyRef.current.size > 0) {
+          addLog('info', `${historyRef.current.size} itens já validados em sessões anteriores serão reaproveitados`);
+        }
+      } catch (error) {
+        addLog('error', `Falha ao consultar histórico: ${error instanceof Error ? error.message : error}`);
       }
+    }
 
-      const batch = rawData.slice(i, Math.min(i + batchSize, rawData.length));
-      const batchPromises = batch.map((row, bIdx) => processProduct(row, i + bIdx));
-      
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
-      
-      setCurrentItem(Math.min(i + batchSize, rawData.length));
-      setProcessedProducts([...results]);
-      setProgress((results.length / rawData.length) * 100);
-
-      // Rate limit delay between batches
-      if (i + batchSize < rawData.length) {
-        await new Promise(r => setTimeout(r, 500));
+    // Default values and transformation rules run before the AI sees the rows.
+    // Analyzed columns run as "ignore" (rules only) and no abbreviations are passed,
+    // so expanding and filling them is left to the AI.
+    // In review mode the rules run dry first and only accepted cells are kept.
+    // Changed cells are tracked either way for the audit sheet.
+    let rows = rawData;
+    let provenance: CellProvenance[] = [];
+    if (hasRules) {
+      const ruleConfig: Record<string, ColumnConfig> = Object.fromEntries(
+        fieldConfigs.map(fc => [fc.column, {
+          action: fc.action === 'fill_empty' ? 'default_empty' : fc.action === 'use_default' ? 'default_all' : 'ignore',
+          defaultValue: fc.defaultValue || '',
+          isProtected: fc.isLocked,
+          transforms: fc.transforms,
+        }])
+      );
+      try {
+        const { enrichedData, stats, changes } = await transformTask.run('processData', {
+          data: rawData,
+          columnConfig: ruleConfig,
+          abbreviations: {},
+          options: { trackChanges: true },
+        });
+        rows = enrichedData as ProductRow[];
+        provenance = cellChangesToProvenance(changes ?? [], rawData, allColumns);
+        addLog('info', `Regras aplicadas: ${stats.transformacoesAplicadas} transformações, ${stats.camposPreenchidos} campos preenchidos`);
+
+        if (reviewRules && changes && changes.length > 0) {
+          const accepted = await new Promise<Set<string> | null>(resolve => {
+            reviewResolverRef.current = resolve;
+            setPendingChanges(changes);
+          });
+          if (!accepted) {
+            addLog('warning', 'Processamento cancelado na revisão das alterações');
+            setIsProcessing(false);
+            return;
+          }
+          rows = applyCellChanges(rawData, changes, accepted) as ProductRow[];
+          provenance = cellChangesToProvenance(changes.filter(change => accepted.has(change.id)), rawData, allColumns);
+          addLog('info', `Alterações aceitas: ${accepted.size} de ${changes.length}`);
+        }
+      } catch (error) {
+        if (isTaskCancelled(error)) {
+          addLog('warning', 'Processamento cancelado pelo usuário');
+          return;
+        }
+        addLog('error', `Falha ao aplicar regras: ${error instanceof Error ? error.message : error}`);
       }
     }
 
-    setIsProcessing(false);
-    
-    const needsReview = results.filter(r => r.necessita_revisao).length;
-    addLog('info', `Processamento concluído: ${results.length} itens, ${needsReview} necessitam revisão`);
+    runRef.current = { rows, provenance, results: [] };
 
-    toast({
-      title: "Processamento concluído!",
-      description: `${results.length} produtos processados. ${needsReview} necessitam revisão.`,
-    });
+    if (runOnServer && userId && sessionId) {
+      const reused = new Map<number, ReusedEnrichment>(
+        [...historyRef.current].map(([rowIndex, record]) => [rowIndex, {
+          registroId: record.id,
+          enriched: record.enriched,
+          reusedFrom: record.validadoEm ?? record.createdAt,
+        }])
+      );
+      try {
+        await serverJob.submit({
+          userId,
+          sessionId,
+          items: buildEnrichmentJobItems(rows, analyzeColumns, allColumns, reused),
+          abbreviations: abbreviations.current,
+          provenance,
+        });
+        addLog('info', `${rows.length} itens enviados para o servidor. O processamento continua mesmo com o navegador fechado.`);
+      } catch (error) {
+        addLog('error', error instanceof Error ? error.message : String(error));
+        setIsProcessing(false);
+      }
+      return;
+    }
 
-    if (results.length > 0) {
-      onComplete(results);
+    finishRun(await enrichRows(rows.map((_, index) => index)));
+  };
+
+  // Results of a finished server job, once: rows failed or left behind by a cancel can be retried here
+  const applyServerResults = async () => {
+    const results = await serverJob.loadResults();
+    if (!results) return;
+
+    runRef.current = { rows: results.rows, provenance: results.provenance, results: results.products };
+    setProcessedProducts(results.products);
+    setCurrentItem(results.products.length);
+    setRunSize(results.products.length);
+    setProgress(100);
+    finishRun(results.failedRows);
+  };
+
+  // A job running on the server holds the step just like a run in this tab
+  useEffect(() => {
+    if (serverJob.active) setIsProcessing(true);
+  }, [serverJob.active, setIsProcessing]);
+
+  // Only the rows that failed in the last run go back to the AI
+  const retryFailedRows = async () => {
+    if (failedRows.length === 0) return;
+
+    setIsProcessing(true);
+    abortRef.current = false;
+    isPausedRef.current = false;
+    addLog('info', `Tentando novamente ${failedRows.length} itens que falharam...`);
+
+    if (sessionId && onSessionUpdate) {
+      await onSessionUpdate(sessionId, { status: 'processing' });
     }
+
+    finishRun(await enrichRows(failedRows));
+  };
+
+  const resolveReview = (accepted: Set<string> | null) => {
+    reviewResolverRef.current?.(accepted);
+    reviewResolverRef.current = null;
+    setPendingChanges(null);
   };
 
   const pauseProcessing = async () => {
+    if (serverJob.active) {
+      await serverJob.pause();
+    }
+    isPausedRef.current = true;
     setIsPaused(true);
     addLog('info', 'Processamento pausado');
     
     if (sessionId && onSessionUpdate) {
-      await onSessionUpdate(sessionId, { 
+      // During a server job the worker keeps items_processed; the results only arrive at the end
+      await onSessionUpdate(sessionId, {
         status: 'paused',
-        itemsProcessed: processedProducts.length,
+        ...(serverJob.active ? {} : { itemsProcessed: processedProducts.length }),
       });
     }
   };
 
   const resumeProcessing = async () => {
+    if (serverJob.active) {
+      await serverJob.resume();
+    }
+    isPausedRef.current = false;
     setIsPaused(false);
     addLog('info', 'Processamento retomado');
     
@@ -223,14 +553,22 @@ const UltraDataProcessing = ({
   };
 
   const cancelProcessing = async () => {
+    if (serverJob.active) {
+      await serverJob.cancel();
+    }
     abortRef.current = true;
+    duplicateTask.cancel();
+    transformTask.cancel();
+    resolveReview(null);
+    isPausedRef.current = false;
     setIsPaused(false);
     setIsProcessing(false);
     
     if (sessionId && onSessionUpdate) {
-      await onSessionUpdate(sessionId, { 
+      // During a server job the worker keeps items_processed; the results only arrive at the end
+      await onSessionUpdate(sessionId, {
         status: 'failed',
-        itemsProcessed: processedProducts.length,
+        ...(serverJob.active ? {} : { itemsProcessed: processedProducts.length }),
       });
     }
   };
@@ -242,6 +580,15 @@ const UltraDataProcessing = ({
     error: 'text-destructive',
   };
 
+  // Progress of a server job comes from the job row, not from this tab
+  const activeJob = serverJob.active ? serverJob.job : null;
+  const paused = activeJob ? activeJob.status === 'paused' : isPaused;
+  const shownItem = activeJob ? activeJob.itemsProcessed : currentItem;
+  const shownTotal = activeJob ? activeJob.totalItems : runSize;
+  const shownProgress = activeJob
+    ? (activeJob.totalItems > 0 ? (activeJob.itemsProcessed / activeJob.totalItems) * 100 : 0)
+    : progress;
+
   const reviewCount = processedProducts.filter(p => p.necessita_revisao).length;
   const successCount = processedProducts.filter(p => !p.necessita_revisao).length;
 
@@ -334,7 +681,7 @@ const UltraDataProcessing = ({
         <div className="flex items-center gap-4 p-4 bg-muted/30 rounded-lg">
           <div className="flex items-center gap-2">
             <Zap className="h-4 w-4 text-primary" />
-            <Label className="text-sm font-medium whitespace-nowrap">Lote paralelo:</Label>
+            <Label className="text-sm font-medium whitespace-nowrap">Paralelismo inicial:</Label>
           </div>
           <Slider
             value={[batchSize]}
@@ -345,21 +692,101 @@ const UltraDataProcessing = ({
             className="flex-1 max-w-[200px]"
           />
           <span className="text-sm font-mono text-muted-foreground w-16">{batchSize} item{batchSize > 1 ? 's' : ''}</span>
-          <span className="text-xs text-muted-foreground hidden sm:inline">
-            {cacheRef.current.size > 0 && `• ${cacheRef.current.size} em cache`}
-          </span>
+          {cacheStats && cacheStats.entries > 0 && (
+            <span className="text-xs text-muted-foreground hidden sm:inline-flex items-center gap-1">
+              • {cacheStats.entries} no cache
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-6 w-6" title="Limpar cache de enriquecimento">
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Limpar cache de enriquecimento?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      Suas {cacheStats.entries} respostas guardadas serão apagadas e os produtos voltarão a ser
+                      enviados à IA. Outros usuários não são afetados.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={clearCache}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Limpar cache
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </span>
+          )}
+          {userId && (
+            <div className="flex items-center gap-2 ml-auto">
+              <Switch id="reuseHistory" checked={reuseHistory} onCheckedChange={setReuseHistory} />
+              <Label htmlFor="reuseHistory" className="text-sm flex items-center gap-1 cursor-pointer">
+                <History className="h-3.5 w-3.5" />
+                Reaproveitar itens já validados
+              </Label>
+            </div>
+          )}
+          {hasRules && (
+            <div className={userId ? 'flex items-center gap-2' : 'flex items-center gap-2 ml-auto'}>
+              <Switch id="reviewRules" checked={reviewRules} onCheckedChange={setReviewRules} />
+              <Label htmlFor="reviewRules" className="text-sm flex items-center gap-1 cursor-pointer">
+                <GitCompare className="h-3.5 w-3.5" />
+                Revisar alterações das regras
+              </Label>
+            </div>
+          )}
+          {userId && sessionId && (
+            <div className="flex items-center gap-2">
+              <Switch id="runOnServer" checked={runOnServer} onCheckedChange={setRunOnServer} />
+              <Label
+                htmlFor="runOnServer"
+                className="text-sm flex items-center gap-1 cursor-pointer"
+                title="Continua mesmo com o navegador fechado; acompanhe e pause de qualquer aparelho"
+              >
+                <Server className="h-3.5 w-3.5" />
+                Processar no servidor
+              </Label>
+            </div>
+          )}
         </div>
       )}
+
+      <UltraDataChangeReview
+        open={pendingChanges !== null}
+        title="Revisar alterações das regras"
+        changes={pendingChanges ?? NO_CHANGES}
+        confirmLabel="Aplicar e enviar para a IA"
+        onConfirm={resolveReview}
+        onCancel={() => resolveReview(null)}
+      />
       {/* Progress */}
-      {(isProcessing || processedProducts.length > 0) && (
+      {duplicateTask.running && (
+        <UltraDataTaskProgress progress={duplicateTask.progress} fallbackLabel="Verificando duplicidades" />
+      )}
+      {transformTask.running && (
+        <UltraDataTaskProgress progress={transformTask.progress} fallbackLabel="Aplicando regras" />
+      )}
+      {(isProcessing || processedProducts.length > 0) && !duplicateTask.running && !transformTask.running && (
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">
-              Processando item {currentItem} de {rawData.length}
+              {activeJob ? 'Processando no servidor: item' : 'Processando item'} {shownItem} de {shownTotal}
+              {activeJob && activeJob.itemsFailed > 0 && ` (${activeJob.itemsFailed} falhas)`}
             </span>
-            <span className="font-medium">{Math.round(progress)}%</span>
+            <span className="font-medium">{Math.round(shownProgress)}%</span>
           </div>
-          <Progress value={progress} className="h-3" />
+          <Progress value={shownProgress} className="h-3" />
+          {activeJob && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Server className="h-3 w-3" />
+              Você pode fechar o navegador: o processamento continua e os resultados carregam quando você voltar a esta sessão.
+            </p>
+          )}
         </div>
       )}
 
@@ -371,6 +798,12 @@ const UltraDataProcessing = ({
               <Sparkles className="h-4 w-4 mr-2" />
               {processedProducts.length > 0 ? 'Reprocessar' : 'Iniciar Enriquecimento'}
             </Button>
+            {failedRows.length > 0 && (
+              <Button variant="outline" size="lg" onClick={retryFailedRows}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Tentar novamente só as falhas ({failedRows.length})
+              </Button>
+            )}
             {processedProducts.length > 0 && (
               <Button
                 variant="outline"
@@ -387,7 +820,7 @@ const UltraDataProcessing = ({
           </>
         ) : (
           <>
-            {isPaused ? (
+            {paused ? (
               <Button onClick={resumeProcessing} variant="outline" className="flex-1">
                 <Play className="h-4 w-4 mr-2" />
                 Continuar
@@ -420,7 +853,7 @@ const UltraDataProcessing = ({
                   <span>{log.message}</span>
                 </div>
               ))}
-              {isProcessing && !isPaused && (
+              {isProcessing && !paused && (
                 <div className="flex items-center gap-2 text-primary">
                   <Loader2 className="h-3 w-3 animate-spin" />
                   <span>Processando...</span>
@@ -488,6 +921,12 @@ const UltraDataProcessing = ({
                           </Button>
                         );
                       })()}
+                      {product.reaproveitado_de && (
+                        <Badge variant="secondary" title="Enriquecimento reaproveitado de uma sessão anterior">
+                          <History className="h-3 w-3 mr-1" />
+                          {new Date(product.reaproveitado_de).toLocaleDateString('pt-BR')}
+                        </Badge>
+                      )}
                       {product.necessita_revisao ? (
                         <Badge variant="outline" className="border-warning text-warning">
                           <AlertTriangle className="h-3 w-3 mr-1" />
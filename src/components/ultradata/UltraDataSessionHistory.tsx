@@ -28,6 +28,7 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
+import type { CellProvenance, ChangeHistory } from '@/core';
 import type { SessionData } from '@/hooks/useSessionHistory';
 import type { ProductRow, FieldConfig, ProcessedProduct } from '@/pages/UltraData';
 
@@ -39,7 +40,10 @@ interface UltraDataSessionHistoryProps {
     columns: string[],
     fieldConfigs: FieldConfig[],
     processedProducts: ProcessedProduct[],
-    targetTab: string
+    targetTab: string,
+    sessionId: string,
+    history?: ChangeHistory,
+    changeLog?: CellProvenance[]
   ) => void;
   onDeleteSession: (sessionId: string) => Promise<boolean>;
 }
@@ -98,7 +102,7 @@ const UltraDataSessionHistory = ({
       return;
     }
 
-    onResumeSession(rawData, columns, fieldConfigs, processedProducts, targetTab);
+    onResumeSession(rawData, columns, fieldConfigs, processedProducts, targetTab, session.id, metadata.history, metadata.changeLog);
     
     toast({
       title: 'Sessão retomada',
@@ -0,0 +1,498 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Users,
+  Plus,
+  History,
+  Upload,
+  Download,
+  Trash2,
+  RotateCcw,
+  Loader2,
+  GitMerge,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  useSharedAbbreviations,
+  type SharedDictionary,
+  type SharedDictionaryVersion,
+} from '@/hooks/useSharedAbbreviations';
+import {
+  diffAbbreviationDictionaries,
+  findDictionaryConflicts,
+  mergeAbbreviationDictionaries,
+  resolveDictionaryConflicts,
+  type AbbreviationDictionary,
+  type AbbreviationDiffEntry,
+} from '@/core';
+
+interface UltraDataSharedDictionariesProps {
+  personal: AbbreviationDictionary;
+  onReplacePersonal: (content: AbbreviationDictionary) => void;
+}
+
+type PublishMode = 'merge' | 'replace';
+
+const EMPTY_DICTIONARY: AbbreviationDictionary = { abbreviations: {}, scopes: {} };
+
+const AbbreviationDiffList = ({ entries }: { entries: AbbreviationDiffEntry[] }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground py-2">Nenhuma diferença.</p>;
+  }
+
+  return (
+    <div className="border rounded-lg divide-y max-h-[280px] overflow-y-auto text-sm">
+      {entries.map(entry => (
+        <div key={`${entry.type}-${entry.abbr}`} className="flex items-center gap-2 px-3 py-1.5">
+          <span
+            className={`w-4 font-mono ${
+              entry.type === 'added' ? 'text-success' : entry.type === 'removed' ? 'text-destructive' : 'text-warning'
+            }`}
+          >
+            {entry.type === 'added' ? '+' : entry.type === 'removed' ? '−' : '~'}
+          </span>
+          <Badge variant="secondary" className="font-mono">{entry.abbr}</Badge>
+          {entry.type === 'changed' ? (
+            <span className="flex-1 truncate">
+              <span className="text-muted-foreground line-through">{entry.before}</span> → {entry.after}
+            </span>
+          ) : (
+            <span className={`flex-1 truncate ${entry.type === 'removed' ? 'text-muted-foreground line-through' : ''}`}>
+              {entry.after ?? entry.before}
+            </span>
+          )}
+          {entry.scopeChanged && <Badge variant="outline" className="text-xs">escopo</Badge>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const UltraDataSharedDictionaries = ({ personal, onReplacePersonal }: UltraDataSharedDictionariesProps) => {
+  const {
+    dictionaries,
+    subscriptions,
+    subscribed,
+    loading,
+    saving,
+    isLoggedIn,
+    userId,
+    setSubscribed,
+    loadVersions,
+    publishVersion,
+    rollbackToVersion,
+    createDictionary,
+    deleteDictionary,
+  } = useSharedAbbreviations();
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+
+  const [publishing, setPublishing] = useState<SharedDictionary | null>(null);
+  const [publishMode, setPublishMode] = useState<PublishMode>('merge');
+  const [publishNote, setPublishNote] = useState('');
+
+  const [historyOf, setHistoryOf] = useState<SharedDictionary | null>(null);
+  const [versions, setVersions] = useState<SharedDictionaryVersion[]>([]);
+  const [loadingVersions, setLoadingVersions] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [compareVersion, setCompareVersion] = useState<number | null>(null);
+
+  // Conflicts the user chose to settle with the team's expansion
+  const [useShared, setUseShared] = useState<Set<string>>(new Set());
+
+  const conflicts = useMemo(
+    () => findDictionaryConflicts(personal, subscribed.map(d => ({ name: d.name, dictionary: d.content }))),
+    [personal, subscribed]
+  );
+
+  const publishContent = useMemo(() => {
+    if (!publishing) return null;
+    return publishMode === 'merge' ? mergeAbbreviationDictionaries([publishing.content, personal]) : personal;
+  }, [publishing, publishMode, personal]);
+
+  const publishDiff = useMemo(
+    () => (publishing && publishContent ? diffAbbreviationDictionaries(publishing.content, publishContent) : []),
+    [publishing, publishContent]
+  );
+
+  const versionDiff = useMemo(() => {
+    const selected = versions.find(v => v.version === selectedVersion);
+    if (!selected) return [];
+    const base = versions.find(v => v.version === compareVersion);
+    return diffAbbreviationDictionaries(base?.content ?? EMPTY_DICTIONARY, selected.content);
+  }, [versions, selectedVersion, compareVersion]);
+
+  const openHistory = async (dictionary: SharedDictionary) => {
+    setHistoryOf(dictionary);
+    setLoadingVersions(true);
+    const loaded = await loadVersions(dictionary.id);
+    setVersions(loaded);
+    setSelectedVersion(loaded[0]?.version ?? null);
+    setCompareVersion(loaded[1]?.version ?? null);
+    setLoadingVersions(false);
+  };
+
+  const selectVersion = (version: number) => {
+    setSelectedVersion(version);
+    // Compare with the version right before it by default
+    setCompareVersion(versions.find(v => v.version < version)?.version ?? null);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) return;
+    const created = await createDictionary(newName, newDescription, personal);
+    if (created) {
+      setShowCreate(false);
+      setNewName('');
+      setNewDescription('');
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!publishing || !publishContent) return;
+    const published = await publishVersion(publishing, publishContent, publishNote.trim());
+    if (published) {
+      setPublishing(null);
+      setPublishNote('');
+    }
+  };
+
+  const handleRollback = async (version: SharedDictionaryVersion) => {
+    if (!historyOf) return;
+    const restored = await rollbackToVersion(historyOf, version);
+    if (restored) setHistoryOf(null);
+  };
+
+  // Bring the shared entries into the personal dictionary; personal ones are kept
+  const handleImport = (dictionary: SharedDictionary) => {
+    onReplacePersonal(mergeAbbreviationDictionaries([dictionary.content, personal]));
+  };
+
+  const toggleConflict = (abbr: string, shared: boolean) => {
+    setUseShared(prev => {
+      const next = new Set(prev);
+      if (shared) next.add(abbr);
+      else next.delete(abbr);
+      return next;
+    });
+  };
+
+  const applyConflictChoices = () => {
+    onReplacePersonal(resolveDictionaryConflicts(personal, [...useShared]));
+    setUseShared(new Set());
+  };
+
+  if (!isLoggedIn) {
+    return (
+      <div className="p-4 border rounded-lg text-sm text-muted-foreground flex items-center gap-2">
+        <Users className="h-4 w-4" />
+        Faça login para seguir e publicar dicionários da equipe.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <Users className="h-4 w-4 text-primary" />
+            <h3 className="font-semibold text-foreground">Dicionários da equipe</h3>
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            Dicionários seguidos valem junto com a sua biblioteca; as suas abreviações prevalecem.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => setShowCreate(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Novo dicionário
+        </Button>
+      </div>
+
+      {dictionaries.length === 0 && !loading ? (
+        <p className="text-sm text-muted-foreground">
+          Nenhum dicionário compartilhado ainda. Crie um a partir da sua biblioteca.
+        </p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {dictionaries.map(dictionary => (
+            <div key={dictionary.id} className="p-3 flex flex-wrap items-center gap-3">
+              <div className="flex-1 min-w-[200px]">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">{dictionary.name}</span>
+                  <Badge variant="outline" className="text-xs">v{dictionary.currentVersion}</Badge>
+                  <Badge variant="secondary" className="text-xs">
+                    {Object.keys(dictionary.content.abbreviations).length} itens
+                  </Badge>
+                </div>
+                {dictionary.description && (
+                  <p className="text-xs text-muted-foreground">{dictionary.description}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`follow-${dictionary.id}`}
+                  checked={subscriptions.includes(dictionary.id)}
+                  onCheckedChange={checked => setSubscribed(dictionary.id, checked)}
+                />
+                <Label htmlFor={`follow-${dictionary.id}`} className="text-sm">Seguir</Label>
+              </div>
+              <Button size="sm" variant="ghost" onClick={() => openHistory(dictionary)} title="Histórico de versões">
+                <History className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => handleImport(dictionary)} title="Copiar para minha biblioteca">
+                <Download className="h-4 w-4" />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setPublishing(dictionary)} title="Publicar nova versão">
+                <Upload className="h-4 w-4" />
+              </Button>
+              {dictionary.createdBy === userId && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      title="Excluir dicionário"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Excluir "{dictionary.name}"?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        O dicionário e todo o histórico de versões deixam de existir para toda a equipe.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => deleteDictionary(dictionary.id)}>Excluir</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Conflitos entre a biblioteca pessoal e os dicionários seguidos */}
+      {conflicts.length > 0 && (
+        <div className="space-y-3 p-3 bg-warning/10 border border-warning/30 rounded-lg">
+          <div className="flex items-center gap-2 text-sm font-medium text-warning">
+            <GitMerge className="h-4 w-4" />
+            {conflicts.length} {conflicts.length === 1 ? 'abreviação difere' : 'abreviações diferem'} dos dicionários da equipe
+          </div>
+          <div className="divide-y border rounded-lg bg-background max-h-[280px] overflow-y-auto">
+            {conflicts.map(conflict => (
+              <div key={`${conflict.dictionary}-${conflict.abbr}`} className="flex flex-wrap items-center gap-2 px-3 py-2 text-sm">
+                <Badge variant="secondary" className="font-mono">{conflict.abbr}</Badge>
+                <span className="flex-1 min-w-[200px]">
+                  Minha: <strong>{conflict.mine}</strong> · {conflict.dictionary}: <strong>{conflict.shared}</strong>
+                </span>
+                <Button
+                  size="sm"
+                  variant={useShared.has(conflict.abbr) ? 'outline' : 'secondary'}
+                  onClick={() => toggleConflict(conflict.abbr, false)}
+                >
+                  Manter a minha
+                </Button>
+                <Button
+                  size="sm"
+                  variant={useShared.has(conflict.abbr) ? 'secondary' : 'outline'}
+                  onClick={() => toggleConflict(conflict.abbr, true)}
+                >
+                  Usar a da equipe
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setUseShared(new Set(conflicts.map(c => c.abbr)))}>
+              Usar todas da equipe
+            </Button>
+            <Button size="sm" onClick={applyConflictChoices} disabled={useShared.size === 0}>
+              Aplicar ({useShared.size})
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Novo dicionário */}
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Novo dicionário da equipe</DialogTitle>
+            <DialogDescription>
+              Começa com as {Object.keys(personal.abbreviations).length} abreviações da sua biblioteca.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div>
+              <Label className="text-sm">Nome</Label>
+              <Input value={newName} onChange={e => setNewName(e.target.value)} placeholder="Ex: Ferragens" />
+            </div>
+            <div>
+              <Label className="text-sm">Descrição</Label>
+              <Textarea value={newDescription} onChange={e => setNewDescription(e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreate(false)}>Cancelar</Button>
+            <Button onClick={handleCreate} disabled={!newName.trim() || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Criar e compartilhar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Publicar nova versão */}
+      <Dialog open={publishing !== null} onOpenChange={open => !open && setPublishing(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Publicar versão {publishing ? publishing.currentVersion + 1 : ''} de "{publishing?.name}"</DialogTitle>
+            <DialogDescription>
+              Quem segue o dicionário passa a usar a nova versão. Versões anteriores ficam no histórico.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <Select value={publishMode} onValueChange={value => setPublishMode(value as PublishMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Acrescentar minhas abreviações (as minhas prevalecem)</SelectItem>
+                <SelectItem value="replace">Substituir pelo conteúdo da minha biblioteca</SelectItem>
+              </SelectContent>
+            </Select>
+            <AbbreviationDiffList entries={publishDiff} />
+            <Textarea
+              value={publishNote}
+              onChange={e => setPublishNote(e.target.value)}
+              placeholder="O que mudou nesta versão? (opcional)"
+              className="min-h-[60px]"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPublishing(null)}>Cancelar</Button>
+            <Button onClick={handlePublish} disabled={publishDiff.length === 0 || saving}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Publicar ({publishDiff.length} mudanças)
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Histórico de versões */}
+      <Dialog open={historyOf !== null} onOpenChange={open => !open && setHistoryOf(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Histórico de "{historyOf?.name}"</DialogTitle>
+            <DialogDescription>
+              Restaurar uma versão publica o conteúdo dela como uma versão nova.
+            </DialogDescription>
+          </DialogHeader>
+          {loadingVersions ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="grid md:grid-cols-[220px_1fr] gap-4">
+              <div className="border rounded-lg divide-y max-h-[360px] overflow-y-auto">
+                {versions.map(version => (
+                  <button
+                    key={version.id}
+                    type="button"
+                    onClick={() => selectVersion(version.version)}
+                    className={`w-full text-left px-3 py-2 text-sm hover:bg-muted ${
+                      version.version === selectedVersion ? 'bg-primary/10' : ''
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">v{version.version}</span>
+                      {version.version === historyOf?.currentVersion && (
+                        <Badge variant="secondary" className="text-xs">atual</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {format(new Date(version.createdAt), 'dd/MM/yyyy HH:mm')}
+                      {version.authorEmail ? ` · ${version.authorEmail}` : ''}
+                    </p>
+                    {version.note && <p className="text-xs truncate">{version.note}</p>}
+                  </button>
+                ))}
+              </div>
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Label className="text-sm">Comparar com</Label>
+                  <Select
+                    value={compareVersion === null ? 'none' : String(compareVersion)}
+                    onValueChange={value => setCompareVersion(value === 'none' ? null : Number(value))}
+                  >
+                    <SelectTrigger className="h-8 w-[160px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Dicionário vazio</SelectItem>
+                      {versions
+                        .filter(version => version.version !== selectedVersion)
+                        .map(version => (
+                          <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <AbbreviationDiffList entries={versionDiff} />
+                <div className="flex justify-end">
+                  <Button
+                    variant="outline"
+                    disabled={selectedVersion === null || selectedVersion === historyOf?.currentVersion || saving}
+                    onClick={() => {
+                      const version = versions.find(v => v.version === selectedVersion);
+                      if (version) handleRollback(version);
+                    }}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Restaurar v{selectedVersion}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default UltraDataSharedDictionaries;
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Layers, Eye, EyeOff } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { SheetSummary } from '@/core';
+
+interface UltraDataSheetPickerProps {
+  sheets: SheetSummary[];
+  selectedSheets: string[];
+  onSelectionChange: (sheetNames: string[]) => void;
+}
+
+const UltraDataSheetPicker = ({
+  sheets,
+  selectedSheets,
+  onSelectionChange,
+}: UltraDataSheetPickerProps) => {
+  const [previewSheet, setPreviewSheet] = useState<string | null>(null);
+
+  const toggleSheet = (name: string) => {
+    // Keep workbook order regardless of click order
+    const next = selectedSheets.includes(name)
+      ? selectedSheets.filter(s => s !== name)
+      : sheets.map(s => s.name).filter(s => s === name || selectedSheets.includes(s));
+    onSelectionChange(next);
+  };
+
+  const nonEmptySheets = sheets.filter(s => s.rowCount > 0);
+  const selectedRows = sheets
+    .filter(s => selectedSheets.includes(s.name))
+    .reduce((sum, s) => sum + s.rowCount, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Layers className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">Abas da planilha</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">
+            {selectedSheets.length}/{sheets.length} abas • {selectedRows.toLocaleString()} linhas
+          </Badge>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSelectionChange(nonEmptySheets.map(s => s.name))}
+          >
+            Todas
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => onSelectionChange([])}>
+            Nenhuma
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg divide-y">
+        {sheets.map(sheet => {
+          const isSelected = selectedSheets.includes(sheet.name);
+          const isPreviewing = previewSheet === sheet.name;
+          const previewColumns = sheet.columns.slice(0, 6);
+
+          return (
+            <div key={sheet.name} className={isSelected ? 'bg-primary/5' : ''}>
+              <div className="flex items-center gap-3 p-3">
+                <Checkbox
+                  checked={isSelected}
+                  disabled={sheet.rowCount === 0}
+                  onCheckedChange={() => toggleSheet(sheet.name)}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">{sheet.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {sheet.rowCount.toLocaleString()} linhas • {sheet.columns.length} colunas
+                  </p>
+                </div>
+                {sheet.rowCount === 0 ? (
+                  <Badge variant="secondary">Vazia</Badge>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setPreviewSheet(isPreviewing ? null : sheet.name)}
+                  >
+                    {isPreviewing ? (
+                      <EyeOff className="h-4 w-4 mr-1" />
+                    ) : (
+                      <Eye className="h-4 w-4 mr-1" />
+                    )}
+                    Prévia
+                  </Button>
+                )}
+              </div>
+
+              {isPreviewing && (
+                <div className="px-3 pb-3 overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {previewColumns.map(col => (
+                          <TableHead key={col} className="whitespace-nowrap text-xs">
+                            {col}
+                          </TableHead>
+                        ))}
+                        {sheet.columns.length > previewColumns.length && (
+                          <TableHead className="text-xs text-muted-foreground">
+                            +{sheet.columns.length - previewColumns.length} mais
+                          </TableHead>
+                        )}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sheet.preview.map((row, idx) => (
+                        <TableRow key={idx}>
+                          {previewColumns.map(col => (
+                            <TableCell key={col} className="max-w-[180px] truncate text-xs">
+                              {row[col]?.toString() || '-'}
+                            </TableCell>
+                          ))}
+                          {sheet.columns.length > previewColumns.length && (
+                            <TableCell className="text-xs text-muted-foreground">...</TableCell>
+                          )}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {selectedSheets.length > 1 && (
+        <p className="text-xs text-muted-foreground">
+          As abas selecionadas serão unificadas em um único conjunto de dados. Cada linha guarda a aba de origem.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataSheetPicker;
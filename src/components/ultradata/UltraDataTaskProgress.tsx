@@ -0,0 +1,46 @@
+import { Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import type { TaskProgress } from '@/workers/dataTasks';
+
+interface UltraDataTaskProgressProps {
+  progress: TaskProgress | null;
+  fallbackLabel?: string;
+  onCancel?: () => void;
+}
+
+const UltraDataTaskProgress = ({
+  progress,
+  fallbackLabel = 'Processando...',
+  onCancel,
+}: UltraDataTaskProgressProps) => {
+  const percent = progress && progress.total > 0
+    ? Math.round((progress.processed / progress.total) * 100)
+    : null;
+
+  return (
+    <div className="flex items-center gap-3 p-3 border rounded-lg bg-muted/30">
+      <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />
+      <div className="flex-1 space-y-1.5">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-foreground">{progress?.stage || fallbackLabel}</span>
+          {percent !== null && (
+            <span className="text-muted-foreground">
+              {progress.total > 1 && `${progress.processed.toLocaleString()} / ${progress.total.toLocaleString()} • `}
+              {percent}%
+            </span>
+          )}
+        </div>
+        <Progress value={percent ?? 0} className="h-1.5" />
+      </div>
+      {onCancel && (
+        <Button variant="ghost" size="sm" onClick={onCancel}>
+          <X className="h-4 w-4 mr-1" />
+          Cancelar
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataTaskProgress;
@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react';
+import { LayoutTemplate, Lightbulb, AlertCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { getTemplateTargets } from '@/config';
+import { composeProductText, validateTemplate, type ComposeTemplate } from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+
+interface UltraDataTemplateComposerProps {
+  templates: Record<string, ComposeTemplate>;
+  onChange: (templates: Record<string, ComposeTemplate>) => void;
+  columns: string[];
+  sampleData: ProductRow[];
+}
+
+// Filled by the AI, so empty in the preview before processing
+const ENRICHED_FIELDS = ['nome_padronizado', 'descricao_enriquecida', 'categoria_inferida', 'marca_inferida', 'origem_inferida', 'ncm'];
+
+const UltraDataTemplateComposer = ({ templates, onChange, columns, sampleData }: UltraDataTemplateComposerProps) => {
+  const targets = useMemo(() => getTemplateTargets(), []);
+  const [target, setTarget] = useState(Object.keys(targets)[0]);
+
+  const current = templates[target] ?? { template: '', maxLength: targets[target].maxLength };
+  const error = current.template ? validateTemplate(current.template) : null;
+
+  const update = (changes: Partial<ComposeTemplate>) => {
+    onChange({ ...templates, [target]: { ...current, ...changes } });
+  };
+
+  const insertField = (field: string) => update({ template: `${current.template}{${field}}` });
+
+  const preview = current.template && !error ? sampleData.map(row => composeProductText(current, row)) : [];
+
+  const activeCount = Object.values(templates).filter(t => t.template.trim()).length;
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <LayoutTemplate className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">Composição de títulos e descrições</h3>
+          {activeCount > 0 && <Badge variant="secondary">{activeCount} ativos</Badge>}
+        </div>
+        <Tabs value={target} onValueChange={setTarget}>
+          <TabsList>
+            {Object.keys(targets).map(name => (
+              <TabsTrigger key={name} value={name} className="text-xs">
+                {name}
+                {templates[name]?.template.trim() && <span className="ml-1 h-1.5 w-1.5 rounded-full bg-primary" />}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Use <code>{'{Coluna}'}</code> para inserir valores e <code>{'[ - {Cor}]'}</code> para trechos que somem quando o campo está vazio.
+        O texto composto substitui "{target}" na exportação.
+      </p>
+
+      <div className="grid grid-cols-[1fr_120px] gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="template-text" className="text-xs">Modelo</Label>
+          <Input
+            id="template-text"
+            value={current.template}
+            onChange={e => update({ template: e.target.value })}
+            placeholder={targets[target].suggestion}
+            className="font-mono text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="template-max" className="text-xs">Máx. caracteres</Label>
+          <Input
+            id="template-max"
+            type="number"
+            min={0}
+            value={current.maxLength ?? ''}
+            onChange={e => update({ maxLength: Number(e.target.value) || undefined })}
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle className="h-3 w-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1">
+        {!current.template && (
+          <Button variant="outline" size="sm" className="h-6 text-xs mr-2" onClick={() => update({ template: targets[target].suggestion })}>
+            <Lightbulb className="h-3 w-3 mr-1" />
+            Usar sugestão
+          </Button>
+        )}
+        {columns.map(col => (
+          <Badge key={col} variant="outline" className="cursor-pointer text-xs" onClick={() => insertField(col)}>
+            {col}
+          </Badge>
+        ))}
+        {ENRICHED_FIELDS.map(field => (
+          <Badge key={field} variant="secondary" className="cursor-pointer text-xs" onClick={() => insertField(field)} title="Preenchido pela IA">
+            {field}
+          </Badge>
+        ))}
+      </div>
+
+      {preview.length > 0 && (
+        <div className="border rounded-lg overflow-auto max-h-[200px]">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Prévia</TableHead>
+                <TableHead className="w-[90px] text-right">Tamanho</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.map((text, index) => (
+                <TableRow key={index}>
+                  <TableCell className="text-sm">{text || <span className="text-muted-foreground">(vazio)</span>}</TableCell>
+                  <TableCell className="text-right text-xs font-mono text-muted-foreground">
+                    {text.length}{current.maxLength ? `/${current.maxLength}` : ''}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataTemplateComposer;
@@ -25,13 +25,20 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useUserAbbreviations } from '@/hooks/useUserAbbreviations';
+import { useSharedAbbreviations } from '@/hooks/useSharedAbbreviations';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
+import { describeRow, diffRowsProvenance, mergeAbbreviationDictionaries, type CellProvenance } from '@/core';
 import type { ProductRow, FieldConfig } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+import UltraDataUnitNormalization from './UltraDataUnitNormalization';
+import UltraDataAbbreviationMiner from './UltraDataAbbreviationMiner';
 
 interface UltraDataTextCorrectionProps {
   rawData: ProductRow[];
   columns: string[];
   fieldConfigs: FieldConfig[];
-  onDataUpdate: (data: ProductRow[]) => void;
+  onDataUpdate: (data: ProductRow[], provenance?: CellProvenance[]) => void;
 }
 
 interface TextCorrection {
@@ -46,6 +53,9 @@ interface TextCorrection {
     tipo: string;
   }>;
   source: 'abbreviation' | 'spelling';
+  // Model and prompt version reported by corrigir-texto
+  model?: string;
+  promptVersion?: string;
   accepted: boolean | null; // null = pending, true = accepted, false = rejected
   isEditing?: boolean; // Flag para modo de edição
 }
@@ -57,7 +67,21 @@ const UltraDataTextCorrection = ({
   onDataUpdate,
 }: UltraDataTextCorrectionProps) => {
   const { toast } = useToast();
-  const { abbreviations, loading: loadingAbbreviations } = useUserAbbreviations();
+  const {
+    abbreviations,
+    scopes: abbreviationScopes,
+    loading: loadingAbbreviations,
+    isLoggedIn,
+    importAbbreviations,
+    saveAbbreviations,
+  } = useUserAbbreviations();
+  const { layers: sharedLayers, subscribed } = useSharedAbbreviations();
+
+  // Dicionários da equipe que o usuário segue, com a biblioteca pessoal por cima
+  const effectiveDictionary = useMemo(
+    () => mergeAbbreviationDictionaries([...sharedLayers, { abbreviations, scopes: abbreviationScopes }]),
+    [sharedLayers, abbreviations, abbreviationScopes]
+  );
   
   const [corrections, setCorrections] = useState<TextCorrection[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -65,6 +89,7 @@ const UltraDataTextCorrection = ({
   const [progress, setProgress] = useState(0);
   const [showOnlyChanges, setShowOnlyChanges] = useState(true);
   const [expandedRows, setExpandedRows] = useState<Set<number>>(new Set());
+  const abbreviationTask = useDataTask();
 
   // Colunas de texto para corrigir
   const textColumns = useMemo(() => {
@@ -81,80 +106,56 @@ const UltraDataTextCorrection = ({
       });
   }, [fieldConfigs, rawData]);
 
-  // Expandir abreviações usando a biblioteca
-  const expandAbbreviations = (text: string, abbreviations: Record<string, string>): {
-    expanded: string;
-    changes: Array<{ original: string; corrigido: string; tipo: string }>;
-  } => {
-    let result = text;
-    const changes: Array<{ original: string; corrigido: string; tipo: string }> = [];
-
-    Object.entries(abbreviations).forEach(([abbr, full]) => {
-      // Criar regex para encontrar abreviação como palavra inteira
-      const regex = new RegExp(`\\b${abbr.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-      const matches = result.match(regex);
-      
-      if (matches) {
-        matches.forEach(match => {
-          changes.push({
-            original: match,
-            corrigido: full,
-            tipo: 'abreviacao',
-          });
-        });
-        result = result.replace(regex, full);
-      }
+  // Abreviações descobertas no catálogo entram na biblioteca (e na nuvem, se logado)
+  const handleAcceptMinedAbbreviations = async (entries: Record<string, string>) => {
+    importAbbreviations(entries);
+    if (isLoggedIn) {
+      await saveAbbreviations({ ...abbreviations, ...entries });
+      return;
+    }
+    toast({
+      title: "Abreviações adicionadas",
+      description: `${Object.keys(entries).length} abreviações valem nesta sessão. Faça login para salvá-las.`,
     });
-
-    return { expanded: result, changes };
   };
 
-  // Processar expansão de abreviações
+  // Processar expansão de abreviações (em worker, para catálogos grandes)
   const handleExpandAbbreviations = async () => {
     setIsProcessing(true);
     setProcessingType('abbreviation');
-    setProgress(0);
     setCorrections([]);
 
-    const newCorrections: TextCorrection[] = [];
-    const total = rawData.length * textColumns.length;
-    let processed = 0;
+    try {
+      const found = await abbreviationTask.run('findAbbreviations', {
+        data: rawData,
+        columns: textColumns,
+        abbreviations: effectiveDictionary.abbreviations,
+        scopes: effectiveDictionary.scopes,
+      });
 
-    for (let rowIndex = 0; rowIndex < rawData.length; rowIndex++) {
-      const row = rawData[rowIndex];
-      
-      for (const column of textColumns) {
-        const originalText = row[column]?.toString() || '';
-        
-        if (originalText.trim()) {
-          const { expanded, changes } = expandAbbreviations(originalText, abbreviations);
-          
-          if (changes.length > 0) {
-            newCorrections.push({
-              rowIndex,
-              column,
-              original: originalText,
-              corrected: expanded,
-              alterations: changes,
-              source: 'abbreviation',
-              accepted: null,
-            });
-          }
-        }
-        
-        processed++;
-        setProgress((processed / total) * 100);
+      const newCorrections: TextCorrection[] = found.map(correction => ({
+        ...correction,
+        source: 'abbreviation',
+        accepted: null,
+      }));
+      setCorrections(newCorrections);
+
+      toast({
+        title: "Expansão concluída",
+        description: `${newCorrections.length} textos com abreviações encontradas.`,
+      });
+    } catch (error) {
+      if (!isTaskCancelled(error)) {
+        toast({
+          title: "Erro ao expandir abreviações",
+          description: error instanceof Error ? error.message : 'Erro desconhecido',
+          variant: "destructive",
+        });
       }
+    } finally {
+      setIsProcessing(false);
+      setProcessingType(null);
     }
-
-    setCorrections(newCorrections);
-    setIsProcessing(false);
-    setProcessingType(null);
-
-    toast({
-      title: "Expansão concluída",
-      description: `${newCorrections.length} textos com abreviações encontradas.`,
-    });
   };
 
   // Processar correção ortográfica com DeepSeek
@@ -225,6 +226,8 @@ const UltraDataTextCorrection = ({
                 corrected: resultado.texto_corrigido,
                 alterations: resultado.alteracoes || [],
                 source: 'spelling',
+                model: data.modelo_ia,
+                promptVersion: data.versao_prompt,
                 accepted: null,
               });
             }
@@ -322,6 +325,8 @@ const UltraDataTextCorrection = ({
     }
 
     const newData = [...rawData];
+    const timestamp = new Date().toISOString();
+    const provenance: CellProvenance[] = [];
     
     acceptedCorrections.forEach(correction => {
       // Usa o texto editado manualmente se existir, senão usa o corrigido
@@ -330,9 +335,21 @@ const UltraDataTextCorrection = ({
         ...newData[correction.rowIndex],
         [correction.column]: finalText,
       };
+      // Edited texts are the user's, whatever suggested them
+      provenance.push({
+        ...describeRow(rawData[correction.rowIndex], correction.rowIndex, columns),
+        column: correction.column,
+        before: correction.original,
+        after: finalText,
+        source: correction.manualEdit !== undefined ? 'manual' : correction.source,
+        detail: correction.alterations.map(alt => `${alt.original} → ${alt.corrigido}`).join('; '),
+        model: correction.model,
+        promptVersion: correction.promptVersion,
+        timestamp,
+      });
     });
 
-    onDataUpdate(newData);
+    onDataUpdate(newData, provenance);
     setCorrections([]);
     
     toast({
@@ -414,8 +431,9 @@ const UltraDataTextCorrection = ({
       <div className="flex items-center gap-3 p-3 bg-muted/30 rounded-lg border border-border">
         <BookA className="h-4 w-4 text-muted-foreground" />
         <span className="text-sm text-muted-foreground flex-1">
-          Usando <strong className="text-foreground">{Object.keys(abbreviations).length}</strong> abreviações 
-          da sua biblioteca personalizada.
+          Usando <strong className="text-foreground">{Object.keys(effectiveDictionary.abbreviations).length}</strong> abreviações 
+          da sua biblioteca personalizada
+          {subscribed.length > 0 && ` e de ${subscribed.length} ${subscribed.length === 1 ? 'dicionário' : 'dicionários'} da equipe`}.
         </span>
         {loadingAbbreviations && (
           <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
@@ -435,7 +453,7 @@ const UltraDataTextCorrection = ({
           ) : (
             <Wand2 className="h-4 w-4 mr-2" />
           )}
-          Expandir Abreviações ({Object.keys(abbreviations).length})
+          Expandir Abreviações ({Object.keys(effectiveDictionary.abbreviations).length})
         </Button>
         
         <Button 
@@ -453,13 +471,18 @@ const UltraDataTextCorrection = ({
       </div>
 
       {/* Barra de progresso */}
-      {isProcessing && (
+      {isProcessing && processingType === 'abbreviation' && (
+        <UltraDataTaskProgress
+          progress={abbreviationTask.progress}
+          fallbackLabel="Expandindo abreviações"
+          onCancel={abbreviationTask.cancel}
+        />
+      )}
+      {isProcessing && processingType === 'spelling' && (
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm">
             <span className="text-muted-foreground">
-              {processingType === 'abbreviation' 
-                ? 'Expandindo abreviações...' 
-                : 'Corrigindo ortografia com IA...'}
+              Corrigindo ortografia com IA...
             </span>
             <span className="font-medium">{Math.round(progress)}%</span>
           </div>
@@ -467,6 +490,22 @@ const UltraDataTextCorrection = ({
         </div>
       )}
 
+      <UltraDataAbbreviationMiner
+        data={rawData}
+        textColumns={textColumns}
+        abbreviations={effectiveDictionary.abbreviations}
+        onAccept={handleAcceptMinedAbbreviations}
+      />
+
+      <UltraDataUnitNormalization
+        data={rawData}
+        columns={columns}
+        textColumns={textColumns}
+        onApply={data =>
+          onDataUpdate(data, diffRowsProvenance(rawData, data, columns, { source: 'transform', detail: 'Unidades de medida' }))
+        }
+      />
+
       {/* Resultados */}
       {corrections.length > 0 && (
         <div className="space-y-4">
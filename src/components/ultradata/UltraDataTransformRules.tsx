@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, ArrowRight, AlertCircle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  compileTransformRules,
+  describeTransformRule,
+  validateTransformRule,
+  type CaseStyle,
+  type ConditionOperator,
+  type TransformRule,
+  type TransformRuleType,
+} from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+
+interface UltraDataTransformRulesProps {
+  column: string;
+  columns: string[];
+  rules: TransformRule[];
+  sampleData: ProductRow[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (rules: TransformRule[]) => void;
+}
+
+const RULE_TYPES: { type: TransformRuleType; label: string }[] = [
+  { type: 'trim', label: 'Remover espaços extras' },
+  { type: 'case', label: 'Maiúsculas/minúsculas' },
+  { type: 'regex_replace', label: 'Substituir (expressão regular)' },
+  { type: 'replace_table', label: 'Tabela de substituição' },
+  { type: 'set_if', label: 'Definir valor se...' },
+  { type: 'concatenate', label: 'Juntar colunas' },
+];
+
+const CASE_OPTIONS: { value: CaseStyle; label: string }[] = [
+  { value: 'upper', label: 'MAIÚSCULAS' },
+  { value: 'lower', label: 'minúsculas' },
+  { value: 'title', label: 'Título' },
+  { value: 'sentence', label: 'Frase' },
+];
+
+const OPERATOR_OPTIONS: { value: ConditionOperator; label: string }[] = [
+  { value: 'contains', label: 'contém' },
+  { value: 'equals', label: 'é igual a' },
+  { value: 'starts_with', label: 'começa com' },
+  { value: 'matches', label: 'corresponde à regex' },
+  { value: 'empty', label: 'está vazio' },
+  { value: 'not_empty', label: 'está preenchido' },
+];
+
+const createRule = (type: TransformRuleType, column: string): TransformRule => {
+  switch (type) {
+    case 'trim': return { type };
+    case 'case': return { type, style: 'title' };
+    case 'regex_replace': return { type, pattern: '', flags: 'g', replacement: '' };
+    case 'replace_table': return { type, entries: {}, wholeWord: true };
+    case 'set_if': return { type, condition: { column: '', operator: 'contains', value: '' }, value: '' };
+    case 'concatenate': return { type, columns: [column], separator: ' ', onlyEmpty: false };
+  }
+};
+
+const parseTable = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map(line => line.split('='))
+      .filter(parts => parts.length >= 2 && parts[0].trim())
+      .map(([from, ...to]) => [from.trim(), to.join('=').trim()])
+  );
+
+const formatTable = (entries: Record<string, string>): string =>
+  Object.entries(entries).map(([from, to]) => `${from}=${to}`).join('\n');
+
+// Keeps the raw text so half-typed lines aren't dropped while editing
+const ReplaceTableEditor = ({ entries, onChange }: { entries: Record<string, string>; onChange: (entries: Record<string, string>) => void }) => {
+  const [text, setText] = useState(() => formatTable(entries));
+
+  // Rules were reordered or replaced from outside
+  useEffect(() => {
+    setText(current => (JSON.stringify(parseTable(current)) === JSON.stringify(entries) ? current : formatTable(entries)));
+  }, [entries]);
+
+  return (
+    <Textarea
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        onChange(parseTable(e.target.value));
+      }}
+      placeholder={'inox=Aço Inoxidável\nc/=com'}
+      className="font-mono text-xs min-h-[80px]"
+    />
+  );
+};
+
+const UltraDataTransformRules = ({
+  column,
+  columns,
+  rules,
+  sampleData,
+  open,
+  onOpenChange,
+  onSave,
+}: UltraDataTransformRulesProps) => {
+  const [draft, setDraft] = useState<TransformRule[]>(rules);
+
+  useEffect(() => {
+    if (open) setDraft(rules);
+  }, [open, rules]);
+
+  const updateRule = (index: number, rule: TransformRule) => {
+    setDraft(prev => prev.map((r, i) => (i === index ? rule : r)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    setDraft(prev => {
+      const next = [...prev];
+      const [rule] = next.splice(index, 1);
+      next.splice(index + offset, 0, rule);
+      return next;
+    });
+  };
+
+  const errors = draft.map(validateTransformRule);
+  const preview = useMemo(() => {
+    const transform = compileTransformRules(draft);
+    return sampleData.map(row => ({ before: row[column], after: transform(row[column], row) }));
+  }, [draft, sampleData, column]);
+
+  const renderFields = (rule: TransformRule, index: number) => {
+    switch (rule.type) {
+      case 'trim':
+        return null;
+
+      case 'case':
+        return (
+          <Select value={rule.style} onValueChange={(style: CaseStyle) => updateRule(index, { ...rule, style })}>
+            <SelectTrigger className="h-8 w-[180px]"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {CASE_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        );
+
+      case 'regex_replace':
+        return (
+          <div className="grid grid-cols-[1fr_1fr_70px] gap-2">
+            <Input value={rule.pattern} onChange={e => updateRule(index, { ...rule, pattern: e.target.value })} placeholder="Expressão (ex.: \s*-\s*$)" className="h-8 font-mono text-xs" />
+            <Input value={rule.replacement} onChange={e => updateRule(index, { ...rule, replacement: e.target.value })} placeholder="Substituir por" className="h-8 text-xs" />
+            <Input value={rule.flags ?? ''} onChange={e => updateRule(index, { ...rule, flags: e.target.value })} placeholder="flags" className="h-8 font-mono text-xs" />
+          </div>
+        );
+
+      case 'replace_table':
+        return (
+          <div className="space-y-2">
+            <ReplaceTableEditor entries={rule.entries} onChange={entries => updateRule(index, { ...rule, entries })} />
+            <div className="flex items-center gap-2">
+              <Switch id={`whole-${index}`} checked={rule.wholeWord ?? false} onCheckedChange={wholeWord => updateRule(index, { ...rule, wholeWord })} />
+              <Label htmlFor={`whole-${index}`} className="text-xs">Somente palavras inteiras</Label>
+            </div>
+          </div>
+        );
+
+      case 'set_if': {
+        const needsValue = rule.condition.operator !== 'empty' && rule.condition.operator !== 'not_empty';
+        return (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span>Se</span>
+            <Select value={rule.condition.column} onValueChange={value => updateRule(index, { ...rule, condition: { ...rule.condition, column: value } })}>
+              <SelectTrigger className="h-8 w-[150px]"><SelectValue placeholder="Coluna" /></SelectTrigger>
+              <SelectContent>
+                {columns.map(col => <SelectItem key={col} value={col}>{col}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Select value={rule.condition.operator} onValueChange={(operator: ConditionOperator) => updateRule(index, { ...rule, condition: { ...rule.condition, operator } })}>
+              <SelectTrigger className="h-8 w-[170px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {OPERATOR_OPTIONS.map(option => <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {needsValue && (
+              <Input value={rule.condition.value ?? ''} onChange={e => updateRule(index, { ...rule, condition: { ...rule.condition, value: e.target.value } })} placeholder="Valor" className="h-8 w-[140px]" />
+            )}
+            <span>então {column} =</span>
+            <Input value={rule.value} onChange={e => updateRule(index, { ...rule, value: e.target.value })} placeholder="Novo valor" className="h-8 w-[140px]" />
+          </div>
+        );
+      }
+
+      case 'concatenate':
+        return (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {columns.map(col => {
+                const position = rule.columns.indexOf(col);
+                return (
+                  <Badge
+                    key={col}
+                    variant={position >= 0 ? 'default' : 'outline'}
+                    className="cursor-pointer"
+                    onClick={() => updateRule(index, {
+                      ...rule,
+                      columns: position >= 0 ? rule.columns.filter(c => c !== col) : [...rule.columns, col],
+                    })}
+                  >
+                    {position >= 0 && `${position + 1}. `}{col}
+                  </Badge>
+                );
+              })}
+            </div>
+            <div className="flex items-center gap-3">
+              <Input value={rule.separator} onChange={e => updateRule(index, { ...rule, separator: e.target.value })} placeholder="Separador" className="h-8 w-[100px] font-mono text-xs" />
+              <Switch id={`empty-${index}`} checked={rule.onlyEmpty ?? false} onCheckedChange={onlyEmpty => updateRule(index, { ...rule, onlyEmpty })} />
+              <Label htmlFor={`empty-${index}`} className="text-xs">Só quando {column} estiver vazio</Label>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Regras de transformação • {column}</DialogTitle>
+          <DialogDescription>
+            As regras são aplicadas em ordem, depois da ação da coluna e antes da expansão de abreviações.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[360px] pr-3">
+          <div className="space-y-3">
+            {draft.length === 0 && (
+              <p className="text-sm text-muted-foreground">Nenhuma regra. Adicione uma abaixo.</p>
+            )}
+            {draft.map((rule, index) => (
+              <div key={index} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Badge variant="outline">{index + 1}</Badge>
+                    <span className="text-sm font-medium truncate">{describeTransformRule(rule)}</span>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === 0} onClick={() => moveRule(index, -1)}>
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" disabled={index === draft.length - 1} onClick={() => moveRule(index, 1)}>
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-7 w-7 text-destructive" onClick={() => setDraft(prev => prev.filter((_, i) => i !== index))}>
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+                {renderFields(rule, index)}
+                {errors[index] && (
+                  <p className="text-xs text-destructive flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3" />
+                    {errors[index]}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <Select value="" onValueChange={(type: TransformRuleType) => setDraft(prev => [...prev, createRule(type, column)])}>
+          <SelectTrigger className="w-[260px]">
+            <div className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              <span>Adicionar regra</span>
+            </div>
+          </SelectTrigger>
+          <SelectContent>
+            {RULE_TYPES.map(({ type, label }) => <SelectItem key={type} value={type}>{label}</SelectItem>)}
+          </SelectContent>
+        </Select>
+
+        {preview.length > 0 && draft.length > 0 && (
+          <div className="border rounded-lg overflow-auto max-h-[180px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Antes</TableHead>
+                  <TableHead className="w-8" />
+                  <TableHead>Depois</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map(({ before, after }, index) => (
+                  <TableRow key={index}>
+                    <TableCell className="max-w-[260px] truncate text-xs text-muted-foreground">{String(before ?? '')}</TableCell>
+                    <TableCell><ArrowRight className="h-3 w-3 text-muted-foreground" /></TableCell>
+                    <TableCell className={`max-w-[260px] truncate text-xs ${after !== before ? 'font-medium text-primary' : ''}`}>
+                      {String(after ?? '')}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancelar</Button>
+          <Button
+            disabled={errors.some(Boolean)}
+            onClick={() => {
+              onSave(draft);
+              onOpenChange(false);
+            }}
+          >
+            Salvar regras
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UltraDataTransformRules;
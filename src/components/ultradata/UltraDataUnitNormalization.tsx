@@ -0,0 +1,307 @@
+import { useMemo, useState } from 'react';
+import { Ruler, Check, X, AlertTriangle } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
+import { getUnitKinds } from '@/config';
+import {
+  findUnitColumnTargets,
+  type QuantityKind,
+  type UnitIssueType,
+  type UnitNormalizationResult,
+  type UnitTarget,
+} from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+
+interface UltraDataUnitNormalizationProps {
+  data: ProductRow[];
+  columns: string[];
+  textColumns: string[];
+  onApply: (data: ProductRow[]) => void;
+}
+
+const MAX_VISIBLE = 50;
+
+const KEEP_UNIT = 'keep';
+
+const ISSUE_LABELS: Record<UnitIssueType, string> = {
+  unparsed: 'Não reconhecido',
+  unit_mismatch: 'Unidade de outro tipo',
+  implausible: 'Valor implausível',
+};
+
+const UltraDataUnitNormalization = ({ data, columns, textColumns, onApply }: UltraDataUnitNormalizationProps) => {
+  const { toast } = useToast();
+  const { run, cancel, progress, running } = useDataTask();
+  const kinds = useMemo(() => getUnitKinds(), []);
+
+  const [targets, setTargets] = useState<Record<string, UnitTarget>>(() => findUnitColumnTargets(columns));
+  const [rewriteText, setRewriteText] = useState(true);
+  const [textUnits, setTextUnits] = useState<Partial<Record<QuantityKind, string>>>({});
+  const [result, setResult] = useState<UnitNormalizationResult | null>(null);
+
+  const availableColumns = columns.filter(col => !targets[col] && !textColumns.includes(col));
+
+  const setTarget = (column: string, target: UnitTarget | null) => {
+    setTargets(prev => {
+      const next = { ...prev };
+      if (target) next[column] = target;
+      else delete next[column];
+      return next;
+    });
+    setResult(null);
+  };
+
+  const setTextUnit = (kind: QuantityKind, unit: string) => {
+    setTextUnits(prev => ({ ...prev, [kind]: unit === KEEP_UNIT ? undefined : unit }));
+    setResult(null);
+  };
+
+  const analyze = () => {
+    run('normalizeUnits', {
+      data,
+      options: { columnTargets: targets, textColumns: rewriteText ? textColumns : [], textUnits },
+    })
+      .then(setResult)
+      .catch(err => {
+        if (!isTaskCancelled(err)) console.error('Erro ao normalizar unidades:', err);
+      });
+  };
+
+  const apply = () => {
+    if (!result) return;
+    onApply(result.data as ProductRow[]);
+    toast({
+      title: 'Unidades normalizadas',
+      description: `${result.changes.length} valores ajustados.`,
+    });
+    setResult(null);
+  };
+
+  const issueCounts = useMemo(() => {
+    const counts: Partial<Record<UnitIssueType, number>> = {};
+    result?.issues.forEach(issue => {
+      counts[issue.type] = (counts[issue.type] ?? 0) + 1;
+    });
+    return counts;
+  }, [result]);
+
+  if (running) {
+    return <UltraDataTaskProgress progress={progress} fallbackLabel="Normalizando unidades" onCancel={cancel} />;
+  }
+
+  return (
+    <div className="space-y-4 p-4 border rounded-lg">
+      <div>
+        <div className="flex items-center gap-2">
+          <Ruler className="h-4 w-4 text-primary" />
+          <h3 className="font-semibold text-foreground">Unidades de medida</h3>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Converte pesos e dimensões para a unidade exigida pelo Bling e padroniza medidas escritas nos textos.
+        </p>
+      </div>
+
+      <div className="border rounded-lg overflow-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Coluna</TableHead>
+              <TableHead>Tipo</TableHead>
+              <TableHead>Converter para</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {Object.entries(targets).map(([column, target]) => (
+              <TableRow key={column}>
+                <TableCell className="font-medium">{column}</TableCell>
+                <TableCell>
+                  <Select
+                    value={target.kind}
+                    onValueChange={kind =>
+                      setTarget(column, { kind: kind as QuantityKind, unit: Object.keys(kinds[kind].units)[0] })
+                    }
+                  >
+                    <SelectTrigger className="h-8 w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(kinds).map(([kind, rule]) => (
+                        <SelectItem key={kind} value={kind}>{rule.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Select value={target.unit} onValueChange={unit => setTarget(column, { ...target, unit })}>
+                    <SelectTrigger className="h-8 w-[100px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.keys(kinds[target.kind].units).map(unit => (
+                        <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell>
+                  <Button size="icon" variant="ghost" className="h-7 w-7" title="Não converter" onClick={() => setTarget(column, null)}>
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {availableColumns.length > 0 && (
+              <TableRow>
+                <TableCell colSpan={4}>
+                  <Select value="" onValueChange={column => setTarget(column, { kind: 'length', unit: 'cm' })}>
+                    <SelectTrigger className="h-8 w-[220px]">
+                      <SelectValue placeholder="Adicionar coluna..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {availableColumns.map(col => (
+                        <SelectItem key={col} value={col}>{col}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="rewrite-units"
+            checked={rewriteText}
+            onCheckedChange={checked => {
+              setRewriteText(checked);
+              setResult(null);
+            }}
+            disabled={textColumns.length === 0}
+          />
+          <Label htmlFor="rewrite-units" className="text-sm">
+            Padronizar medidas nos textos ({textColumns.length} colunas)
+          </Label>
+        </div>
+        {rewriteText && Object.entries(kinds).map(([kind, rule]) => (
+          <div key={kind} className="flex items-center gap-2">
+            <Label className="text-sm text-muted-foreground">{rule.label}</Label>
+            <Select value={textUnits[kind as QuantityKind] ?? KEEP_UNIT} onValueChange={unit => setTextUnit(kind as QuantityKind, unit)}>
+              <SelectTrigger className="h-8 w-[90px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP_UNIT}>Manter</SelectItem>
+                {Object.keys(rule.units).map(unit => (
+                  <SelectItem key={unit} value={unit}>{unit}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          className="ml-auto"
+          onClick={analyze}
+          disabled={Object.keys(targets).length === 0 && !(rewriteText && textColumns.length > 0)}
+        >
+          Analisar
+        </Button>
+      </div>
+
+      {result && (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{result.changes.length} alterações</Badge>
+            {Object.entries(issueCounts).map(([type, count]) => (
+              <Badge key={type} variant={type === 'implausible' ? 'destructive' : 'outline'}>
+                {ISSUE_LABELS[type as UnitIssueType]}: {count}
+              </Badge>
+            ))}
+          </div>
+
+          {result.issues.length > 0 && (
+            <div className="border rounded-lg overflow-auto max-h-[240px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>Coluna</TableHead>
+                    <TableHead>Valor</TableHead>
+                    <TableHead>Problema</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.issues.slice(0, MAX_VISIBLE).map((issue, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono text-xs">{issue.rowIndex + 1}</TableCell>
+                      <TableCell className="text-sm">{issue.column}</TableCell>
+                      <TableCell className="font-mono text-xs">{issue.value}</TableCell>
+                      <TableCell>
+                        <span className="flex items-center gap-1 text-xs text-destructive">
+                          <AlertTriangle className="h-3 w-3" />
+                          {ISSUE_LABELS[issue.type]}
+                        </span>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {result.changes.length > 0 && (
+            <div className="border rounded-lg overflow-auto max-h-[300px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Linha</TableHead>
+                    <TableHead>Coluna</TableHead>
+                    <TableHead>Antes</TableHead>
+                    <TableHead>Depois</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.changes.slice(0, MAX_VISIBLE).map((change, index) => (
+                    <TableRow key={index}>
+                      <TableCell className="font-mono text-xs">{change.rowIndex + 1}</TableCell>
+                      <TableCell className="text-sm">{change.column}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{String(change.before ?? '')}</TableCell>
+                      <TableCell className="text-sm">{String(change.after ?? '')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {result.changes.length > MAX_VISIBLE && (
+            <p className="text-xs text-muted-foreground">
+              Mostrando {MAX_VISIBLE} de {result.changes.length} alterações.
+            </p>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={apply} disabled={result.changes.length === 0}>
+              <Check className="h-4 w-4 mr-2" />
+              Aplicar conversões
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UltraDataUnitNormalization;
@@ -1,70 +1,259 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileSpreadsheet, AlertCircle, Check } from 'lucide-react';
-import * as XLSX from 'xlsx';
+import { Upload, FileSpreadsheet, AlertCircle, Check, X, ArrowLeft } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import {
+  mergeSheetRows,
+  alignDatasets,
+  suggestColumnMapping,
+  suggestionsToMapping,
+  applyColumnMapping,
+  type ColumnMapping,
+  type CsvDetectionResult,
+  type CsvImportOptions,
+  type HeaderDetection,
+  type HeaderSelection,
+  type ProductData,
+  type SheetSummary,
+} from '@/core';
+import { useSupplierMappings, type SupplierMapping } from '@/hooks/useSupplierMappings';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
+import type { DataTaskResult } from '@/workers/dataTasks';
+import UltraDataSheetPicker from './UltraDataSheetPicker';
+import UltraDataCsvSettings from './UltraDataCsvSettings';
+import UltraDataCrossFileDuplicates from './UltraDataCrossFileDuplicates';
+import UltraDataHeaderPicker from './UltraDataHeaderPicker';
+import UltraDataColumnMapper from './UltraDataColumnMapper';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
 import type { ProductRow } from '@/pages/UltraData';
 
 interface UltraDataUploadProps {
   onDataLoaded: (data: ProductRow[], columns: string[], filename?: string) => void;
 }
 
+interface LoadedFile {
+  file: File;
+  rowsBySheet: Record<string, ProductData[]>;
+  sheets: SheetSummary[];
+  selectedSheets: string[];
+  csvDetection: CsvDetectionResult | null;
+  csvOptions: CsvImportOptions | null;
+  detectedHeaders: Record<string, HeaderDetection>;
+  headers: Record<string, HeaderSelection>;
+  supplierName: string;
+  savedMapping: ColumnMapping;
+  manualMapping: ColumnMapping;
+}
+
+/**
+ * Validate a parsed file and build its initial upload state
+ */
+const toLoadedFile = (file: File, parsed: DataTaskResult<'parseFile'>): LoadedFile => {
+  const nonEmpty = parsed.sheets.filter(s => s.rowCount > 0);
+
+  if (nonEmpty.length === 0) {
+    throw new Error('A planilha está vazia');
+  }
+
+  if (nonEmpty.every(s => s.columns.length === 0)) {
+    throw new Error('Nenhuma coluna encontrada');
+  }
+
+  return {
+    file,
+    rowsBySheet: parsed.rowsBySheet,
+    sheets: parsed.sheets,
+    selectedSheets: nonEmpty.map(s => s.name),
+    csvDetection: parsed.csvDetection,
+    csvOptions: parsed.csvOptions,
+    detectedHeaders: Object.fromEntries(parsed.sheets.map(s => [s.name, s.header])),
+    headers: {},
+    supplierName: '',
+    savedMapping: {},
+    manualMapping: {},
+  };
+};
+
 const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
-  const [file, setFile] = useState<File | null>(null);
-  const [previewData, setPreviewData] = useState<ProductRow[]>([]);
-  const [columns, setColumns] = useState<string[]>([]);
+  const [files, setFiles] = useState<LoadedFile[]>([]);
+  const [step, setStep] = useState<'files' | 'mapping'>('files');
   const [error, setError] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const { mappings: suppliers, saving, findMatchingSupplier, saveMapping } = useSupplierMappings();
+  const { run, cancel, progress, running: isLoading } = useDataTask();
 
-  const processFile = useCallback(async (file: File) => {
-    setIsLoading(true);
+  const describeError = (file: File, err: unknown) =>
+    `${file.name}: ${err instanceof Error ? err.message : 'Erro ao processar arquivo'}`;
+
+  const processFiles = useCallback(async (incoming: File[]) => {
     setError(null);
 
-    try {
-      const buffer = await file.arrayBuffer();
-      const workbook = XLSX.read(buffer, { type: 'array' });
-      const sheetName = workbook.SheetNames[0];
-      const worksheet = workbook.Sheets[sheetName];
-      
-      const jsonData = XLSX.utils.sheet_to_json<ProductRow>(worksheet, { 
-        defval: '',
-        raw: false 
-      });
+    const loaded: LoadedFile[] = [];
+    const errors: string[] = [];
 
-      if (jsonData.length === 0) {
-        throw new Error('A planilha está vazia');
+    // Parse one file at a time so progress stays meaningful
+    for (const file of incoming) {
+      try {
+        let entry = toLoadedFile(file, await run('parseFile', { file }));
+        // Reuse the header row and mapping of a supplier whose layout matches this file
+        const { columns } = mergeSheetRows(entry.rowsBySheet, entry.selectedSheets);
+        const supplier = findMatchingSupplier(columns);
+        if (supplier) {
+          const { headerRow, headerRows } = supplier.header;
+          const detected = entry.detectedHeaders;
+          if (entry.selectedSheets.some(name =>
+            detected[name]?.headerRow !== headerRow || detected[name]?.headerRows !== headerRows
+          )) {
+            const headers = Object.fromEntries(entry.selectedSheets.map(name => [name, supplier.header]));
+            const parsed = await run('parseFile', {
+              file,
+              csvOptions: entry.csvOptions ?? undefined,
+              csvDetection: entry.csvDetection,
+              headers,
+            });
+            entry = {
+              ...toLoadedFile(file, parsed),
+              selectedSheets: entry.selectedSheets.filter(name => parsed.rowsBySheet[name]),
+              // Keep the detection so "restore" still goes back to it
+              detectedHeaders: detected,
+              headers,
+            };
+          }
+          entry = { ...entry, supplierName: supplier.supplierName, savedMapping: supplier.mapping };
+        }
+        loaded.push(entry);
+      } catch (err) {
+        if (isTaskCancelled(err)) break;
+        errors.push(describeError(file, err));
       }
+    }
 
-      const cols = Object.keys(jsonData[0]);
-      if (cols.length === 0) {
-        throw new Error('Nenhuma coluna encontrada');
-      }
+    // Dropping a file with the same name replaces the previous version
+    setFiles(prev => [
+      ...prev.filter(f => !loaded.some(l => l.file.name === f.file.name)),
+      ...loaded,
+    ]);
+    if (errors.length > 0) setError(errors.join(' • '));
+    setStep('files');
+  }, [run, findMatchingSupplier]);
+
+  const updateFile = (name: string, changes: Partial<LoadedFile>) => {
+    setFiles(prev => prev.map(f => (f.file.name === name ? { ...f, ...changes } : f)));
+  };
 
-      setFile(file);
-      setColumns(cols);
-      setPreviewData(jsonData.slice(0, 10));
-      
-      // Store full data for later
-      (window as any).__ultradata_full_data = jsonData;
+  const removeFile = (name: string) => {
+    setFiles(prev => prev.filter(f => f.file.name !== name));
+  };
 
+  // Re-parse a file in the worker with new CSV settings or header rows
+  const reparseFile = async (
+    entry: LoadedFile,
+    changes: { csvOptions?: CsvImportOptions; headers?: Record<string, HeaderSelection> },
+    keep: Partial<LoadedFile> = {}
+  ) => {
+    setError(null);
+    const headers = changes.headers ?? entry.headers;
+    try {
+      const parsed = await run('parseFile', {
+        file: entry.file,
+        csvOptions: changes.csvOptions ?? entry.csvOptions ?? undefined,
+        csvDetection: entry.csvDetection,
+        headers,
+      });
+      const reloaded = toLoadedFile(entry.file, parsed);
+      const { supplierName, savedMapping, manualMapping } = entry;
+      updateFile(entry.file.name, {
+        ...reloaded,
+        selectedSheets: entry.selectedSheets.filter(name => parsed.rowsBySheet[name]),
+        // Header overrides keep the original detection so "restore" still works
+        detectedHeaders: changes.csvOptions ? reloaded.detectedHeaders : entry.detectedHeaders,
+        headers,
+        supplierName,
+        savedMapping,
+        manualMapping,
+        ...keep,
+      });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Erro ao processar arquivo');
-      setFile(null);
-      setPreviewData([]);
-      setColumns([]);
-    } finally {
-      setIsLoading(false);
+      if (isTaskCancelled(err)) return;
+      // Keep the CSV settings visible so a wrong override can be corrected
+      if (changes.csvOptions) updateFile(entry.file.name, { csvOptions: changes.csvOptions });
+      setError(describeError(entry.file, err));
     }
-  }, []);
+  };
+
+  const handleCsvOptionsChange = (entry: LoadedFile, csvOptions: CsvImportOptions) => {
+    // A new encoding or delimiter changes the whole layout: detect headers again
+    reparseFile(entry, { csvOptions, headers: {} });
+  };
+
+  const handleHeaderChange = (entry: LoadedFile, sheetName: string, header: HeaderSelection) => {
+    reparseFile(entry, { headers: { ...entry.headers, [sheetName]: header } });
+  };
+
+  const handleTargetChange = (entry: LoadedFile, source: string, target: string | null) => {
+    updateFile(entry.file.name, { manualMapping: { ...entry.manualMapping, [source]: target } });
+  };
+
+  const handleSupplierSelect = (entry: LoadedFile, supplier: SupplierMapping) => {
+    const headers = Object.fromEntries(entry.selectedSheets.map(name => [name, supplier.header]));
+    reparseFile(entry, { headers }, {
+      supplierName: supplier.supplierName,
+      savedMapping: supplier.mapping,
+      manualMapping: {},
+    });
+  };
+
+  // Merge selected sheets per file and map its columns onto the preset
+  const prepared = useMemo(() => {
+    return files
+      .filter(f => f.selectedSheets.length > 0)
+      .map(entry => {
+        const merged = mergeSheetRows(
+          entry.rowsBySheet,
+          entry.selectedSheets,
+          entry.file.name,
+          entry.file.lastModified
+        );
+        const suggestions = suggestColumnMapping(merged.columns, entry.savedMapping).map(suggestion =>
+          suggestion.source in entry.manualMapping
+            ? { ...suggestion, target: entry.manualMapping[suggestion.source], matchType: 'manual' as const, confidence: 1 }
+            : suggestion
+        );
+        const mapping = suggestionsToMapping(suggestions);
+        return { entry, merged, suggestions, mapping, mapped: applyColumnMapping(merged.data, merged.columns, mapping) };
+      });
+  }, [files]);
+
+  // Align the mapped files into one dataset
+  const { fullData, columns } = useMemo(() => {
+    if (prepared.length === 0) {
+      return { fullData: [] as ProductRow[], columns: [] as string[] };
+    }
+    const aligned = alignDatasets(prepared.map(p => ({ ...p.mapped, sourceFile: p.entry.file.name })));
+    return { fullData: aligned.data as ProductRow[], columns: aligned.columns };
+  }, [prepared]);
+
+  const handleSaveMapping = (item: (typeof prepared)[number]) => {
+    const firstSheet = item.entry.selectedSheets[0];
+    const header = item.entry.headers[firstSheet] ?? item.entry.detectedHeaders[firstSheet];
+    saveMapping(item.entry.supplierName.trim(), item.merged.columns, item.mapping, {
+      headerRow: header?.headerRow ?? 0,
+      headerRows: header?.headerRows ?? 1,
+    });
+  };
+
+  const previewData = fullData.slice(0, 10);
+  const isMultiFile = files.length > 1;
+  const showSheetColumn = files.some(f => f.selectedSheets.length > 1);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      processFile(acceptedFiles[0]);
+      processFiles(acceptedFiles);
     }
-  }, [processFile]);
+  }, [processFiles]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -73,14 +262,52 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
       'application/vnd.ms-excel': ['.xls'],
       'text/csv': ['.csv'],
     },
-    maxFiles: 1,
+    disabled: isLoading,
   });
 
   const handleConfirm = () => {
-    const fullData = (window as any).__ultradata_full_data || previewData;
-    onDataLoaded(fullData, columns, file?.name);
+    onDataLoaded(fullData, columns, files.map(f => f.file.name).join(', '));
   };
 
+  if (step === 'mapping') {
+    return (
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground mb-2">Mapeamento de Colunas</h2>
+          <p className="text-muted-foreground">
+            Confira como as colunas da planilha correspondem às colunas do Bling. Ajuste o que estiver errado e salve o mapeamento do fornecedor para as próximas importações.
+          </p>
+        </div>
+
+        {prepared.map(item => (
+          <UltraDataColumnMapper
+            key={item.entry.file.name}
+            fileName={item.entry.file.name}
+            suggestions={item.suggestions}
+            sampleRows={item.merged.data.slice(0, 20) as ProductRow[]}
+            onTargetChange={(source, target) => handleTargetChange(item.entry, source, target)}
+            supplierName={item.entry.supplierName}
+            onSupplierNameChange={supplierName => updateFile(item.entry.file.name, { supplierName })}
+            suppliers={suppliers}
+            onSupplierSelect={supplier => handleSupplierSelect(item.entry, supplier)}
+            onSave={() => handleSaveMapping(item)}
+            saving={saving}
+          />
+        ))}
+
+        <div className="flex justify-between">
+          <Button variant="outline" onClick={() => setStep('files')}>
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Voltar
+          </Button>
+          <Button onClick={handleConfirm} size="lg">
+            Continuar para Configuração
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div>
@@ -97,7 +324,7 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
           "border-2 border-dashed rounded-xl p-12 text-center cursor-pointer transition-all duration-200",
           isDragActive 
             ? "border-primary bg-primary/5" 
-            : file 
+            : files.length > 0
               ? "border-success bg-success/5" 
               : "border-border hover:border-primary/50 hover:bg-muted/50"
         )}
@@ -107,21 +334,23 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
         {isLoading ? (
           <div className="flex flex-col items-center gap-4">
             <div className="animate-spin h-12 w-12 border-4 border-primary border-t-transparent rounded-full" />
-            <p className="text-muted-foreground">Processando arquivo...</p>
+            <p className="text-muted-foreground">{progress?.stage || 'Processando arquivo'}...</p>
           </div>
-        ) : file ? (
+        ) : files.length > 0 ? (
           <div className="flex flex-col items-center gap-4">
             <div className="p-4 bg-success/10 rounded-full">
               <Check className="h-12 w-12 text-success" />
             </div>
             <div>
-              <p className="font-semibold text-foreground">{file.name}</p>
+              <p className="font-semibold text-foreground">
+                {isMultiFile ? `${files.length} arquivos` : files[0].file.name}
+              </p>
               <p className="text-sm text-muted-foreground">
-                {columns.length} colunas • {((window as any).__ultradata_full_data?.length || previewData.length).toLocaleString()} linhas
+                {columns.length} colunas • {fullData.length.toLocaleString()} linhas
               </p>
             </div>
             <p className="text-xs text-muted-foreground">
-              Clique ou arraste para substituir
+              Clique ou arraste para adicionar mais arquivos
             </p>
           </div>
         ) : (
@@ -135,10 +364,10 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
             </div>
             <div>
               <p className="font-semibold text-foreground">
-                {isDragActive ? 'Solte o arquivo aqui' : 'Arraste sua planilha'}
+                {isDragActive ? 'Solte os arquivos aqui' : 'Arraste suas planilhas'}
               </p>
               <p className="text-sm text-muted-foreground">
-                ou clique para selecionar
+                ou clique para selecionar (vários arquivos são unificados)
               </p>
             </div>
             <div className="flex gap-2">
@@ -150,6 +379,11 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
         )}
       </div>
 
+      {/* Parsing runs in a worker; large catalogs can be cancelled */}
+      {isLoading && (
+        <UltraDataTaskProgress progress={progress} fallbackLabel="Processando arquivo" onCancel={cancel} />
+      )}
+
       {/* Error */}
       {error && (
         <div className="flex items-center gap-2 p-4 bg-destructive/10 border border-destructive/20 rounded-lg text-destructive">
@@ -158,6 +392,72 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
         </div>
       )}
 
+      {/* Loaded files */}
+      {files.map(entry => {
+        const rowCount = entry.sheets
+          .filter(sh => entry.selectedSheets.includes(sh.name))
+          .reduce((sum, sh) => sum + sh.rowCount, 0);
+
+        return (
+          <div key={entry.file.name} className="space-y-3">
+            {isMultiFile && (
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-2 min-w-0">
+                  <FileSpreadsheet className="h-4 w-4 text-primary flex-shrink-0" />
+                  <span className="font-medium text-foreground truncate">{entry.file.name}</span>
+                  <Badge variant="outline">{rowCount.toLocaleString()} linhas</Badge>
+                  {entry.sheets.length > 1 && (
+                    <Badge variant="secondary">
+                      {entry.selectedSheets.length}/{entry.sheets.length} abas
+                    </Badge>
+                  )}
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => removeFile(entry.file.name)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {/* CSV format */}
+            {entry.csvDetection && entry.csvOptions && (
+              <UltraDataCsvSettings
+                detected={entry.csvDetection}
+                options={entry.csvOptions}
+                onChange={options => handleCsvOptionsChange(entry, options)}
+                disabled={isLoading}
+              />
+            )}
+
+            {/* Sheet picker */}
+            {entry.sheets.length > 1 && (
+              <UltraDataSheetPicker
+                sheets={entry.sheets}
+                selectedSheets={entry.selectedSheets}
+                onSelectionChange={selectedSheets => updateFile(entry.file.name, { selectedSheets })}
+              />
+            )}
+
+            {/* Header row */}
+            {entry.sheets
+              .filter(sheet => entry.selectedSheets.includes(sheet.name))
+              .map(sheet => (
+                <UltraDataHeaderPicker
+                  key={sheet.name}
+                  sheet={sheet}
+                  detected={entry.detectedHeaders[sheet.name] ?? sheet.header}
+                  onChange={header => handleHeaderChange(entry, sheet.name, header)}
+                  showSheetName={entry.selectedSheets.length > 1}
+                />
+              ))}
+          </div>
+        );
+      })}
+
+      {/* Cross-file duplicates */}
+      {isMultiFile && fullData.length > 0 && (
+        <UltraDataCrossFileDuplicates data={fullData} columns={columns} />
+      )}
+
       {/* Preview */}
       {previewData.length > 0 && (
         <div className="space-y-4">
@@ -172,6 +472,12 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
             <Table>
               <TableHeader className="sticky top-0 bg-card">
                 <TableRow>
+                  {isMultiFile && (
+                    <TableHead className="whitespace-nowrap">Arquivo</TableHead>
+                  )}
+                  {showSheetColumn && (
+                    <TableHead className="whitespace-nowrap">Aba</TableHead>
+                  )}
                   {columns.slice(0, 8).map((col) => (
                     <TableHead key={col} className="whitespace-nowrap">
                       {col}
@@ -187,6 +493,16 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
               <TableBody>
                 {previewData.map((row, idx) => (
                   <TableRow key={idx}>
+                    {isMultiFile && (
+                      <TableCell className="max-w-[160px] truncate">
+                        <Badge variant="outline">{row.__source_file}</Badge>
+                      </TableCell>
+                    )}
+                    {showSheetColumn && (
+                      <TableCell className="whitespace-nowrap">
+                        <Badge variant="secondary">{row.__source_sheet}</Badge>
+                      </TableCell>
+                    )}
                     {columns.slice(0, 8).map((col) => (
                       <TableCell key={col} className="max-w-[200px] truncate">
                         {row[col]?.toString() || '-'}
@@ -202,8 +518,8 @@ const UltraDataUpload = ({ onDataLoaded }: UltraDataUploadProps) => {
           </div>
 
           <div className="flex justify-end">
-            <Button onClick={handleConfirm} size="lg">
-              Continuar para Configuração
+            <Button onClick={() => setStep('mapping')} size="lg">
+              Mapear colunas
             </Button>
           </div>
         </div>
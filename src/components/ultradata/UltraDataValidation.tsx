@@ -1,5 +1,5 @@
 import { useState, useMemo } from 'react';
-import { Check, AlertTriangle, Download, Filter, CheckCircle2, XCircle, FileText, FileDown, Settings2, Eye, X } from 'lucide-react';
+import { Check, AlertTriangle, Download, Filter, CheckCircle2, XCircle, FileText, FileDown, Settings2, Eye, X, GitCompare, History } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
@@ -12,9 +12,28 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
-import * as XLSX from 'xlsx';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
 import { saveAs } from 'file-saver';
+import {
+  applyCellChanges,
+  buildAuditSheet,
+  cellChangesToProvenance,
+  CHANGE_SOURCE_LABELS,
+  composeProductText,
+  describeRow,
+  diffEnrichment,
+  groupProvenanceByRow,
+  setProcessedProductsValidated,
+  validateTemplate,
+  type CellChange,
+  type CellProvenance,
+  type ComposeTemplate,
+  type ExportFormat,
+} from '@/core';
 import type { ProcessedProduct } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+import UltraDataChangeReview from './UltraDataChangeReview';
 
 interface ExportOptions {
   includeOriginalColumns: boolean;
@@ -22,6 +41,9 @@ interface ExportOptions {
   includeNcmDetails: boolean;
   includeStatusColumns: boolean;
   includeProcessingMetadata: boolean;
+  applyTemplates: boolean;
+  // Extra XLSX sheet with each changed cell, its origin and time
+  includeAuditSheet: boolean;
   onlyValidated: boolean;
   onlyNeedsReview: boolean;
 }
@@ -37,15 +59,24 @@ interface ExportPreviewState {
 interface UltraDataValidationProps {
   processedProducts: ProcessedProduct[];
   columns: string[];
-  onValidationChange: (products: ProcessedProduct[]) => void;
+  templates?: Record<string, ComposeTemplate>;
+  // Cells changed during the session (rules, corrections, AI, manual edits)
+  changeLog?: CellProvenance[];
+  onValidationChange: (products: ProcessedProduct[], provenance?: CellProvenance[]) => void;
 }
 
+const NO_CHANGE_LOG: CellProvenance[] = [];
+
+const AUDIT_SHEET_NAME = 'Auditoria';
+
 const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
   includeOriginalColumns: true,
   includeEnrichedColumns: true,
   includeNcmDetails: true,
   includeStatusColumns: true,
   includeProcessingMetadata: false,
+  applyTemplates: true,
+  includeAuditSheet: false,
   onlyValidated: false,
   onlyNeedsReview: false,
 };
@@ -60,12 +91,16 @@ const EXPORT_LABELS: Record<ExportType, string> = {
 const UltraDataValidation = ({
   processedProducts,
   columns,
+  templates = {},
+  changeLog = NO_CHANGE_LOG,
   onValidationChange,
 }: UltraDataValidationProps) => {
   const { toast } = useToast();
   const [filter, setFilter] = useState<'all' | 'review' | 'validated'>('all');
+  const { run: runExport, cancel: cancelExport, progress: exportProgress, running: exporting } = useDataTask();
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [aiChanges, setAiChanges] = useState<CellChange[] | null>(null);
   const [exportPreview, setExportPreview] = useState<ExportPreviewState>({
     isOpen: false,
     type: 'all',
@@ -80,6 +115,8 @@ const UltraDataValidation = ({
     });
   }, [processedProducts, filter]);
 
+  const changeLogByRow = useMemo(() => groupProvenanceByRow(changeLog), [changeLog]);
+
   const stats = useMemo(() => ({
     total: processedProducts.length,
     validated: processedProducts.filter(p => p.validado).length,
@@ -107,12 +144,29 @@ const UltraDataValidation = ({
     setSelectedIds(new Set());
   };
 
+  // Saved validations let later uploads reuse these enrichments
+  const persistValidation = (validado: boolean) => {
+    const ids = processedProducts
+      .filter((p, i) => selectedIds.has(i) && p.registro_id)
+      .map(p => p.registro_id!);
+
+    setProcessedProductsValidated(ids, validado).catch(err => {
+      console.error('Erro ao salvar validação:', err);
+      toast({
+        title: "Erro ao salvar validação",
+        description: "A validação vale para esta sessão, mas não será reaproveitada em importações futuras.",
+        variant: "destructive",
+      });
+    });
+  };
+
   const validateSelected = () => {
     const updated = processedProducts.map((p, i) => ({
       ...p,
       validado: selectedIds.has(i) ? true : p.validado,
     }));
     onValidationChange(updated);
+    persistValidation(true);
     setSelectedIds(new Set());
     toast({
       title: "Produtos validados",
@@ -126,17 +180,65 @@ const UltraDataValidation = ({
       validado: selectedIds.has(i) ? false : p.validado,
     }));
     onValidationChange(updated);
+    persistValidation(false);
     setSelectedIds(new Set());
   };
 
+  // AI suggestions only reach the original columns once accepted in the review
+  const reviewAiSuggestions = () => {
+    const changes = diffEnrichment(processedProducts, columns);
+    if (changes.length === 0) {
+      toast({
+        title: "Nenhuma sugestão pendente",
+        description: "As colunas originais já estão iguais às sugestões da IA.",
+      });
+      return;
+    }
+    setAiChanges(changes);
+  };
+
+  const applyAiSuggestions = (accepted: Set<string>) => {
+    const before = processedProducts.map(p => p.original);
+    const acceptedChanges = (aiChanges ?? []).filter(change => accepted.has(change.id));
+    const originals = applyCellChanges(before, acceptedChanges, accepted);
+    const provenance = acceptedChanges.flatMap(change => {
+      const product = processedProducts[change.rowIndex];
+      return cellChangesToProvenance([change], before, columns, {
+        model: product.modelo_ia,
+        promptVersion: product.versao_prompt,
+      });
+    });
+    onValidationChange(
+      processedProducts.map((p, i) => ({ ...p, original: originals[i] as ProcessedProduct['original'] })),
+      provenance
+    );
+    setAiChanges(null);
+    toast({
+      title: "Sugestões aplicadas",
+      description: `${accepted.size} células atualizadas com as sugestões da IA.`,
+    });
+  };
+
+  const activeTemplates = Object.entries(templates).filter(
+    ([, tpl]) => tpl.template.trim() && !validateTemplate(tpl.template)
+  );
+
   const buildExportData = (products: ProcessedProduct[], options: ExportOptions) => {
     return products.map((p, index) => {
       const row: Record<string, unknown> = {};
       
-      // Original columns
+      // Original columns (internal "__" metadata is never exported)
       if (options.includeOriginalColumns) {
         Object.entries(p.original).forEach(([key, value]) => {
-          row[key] = value;
+          if (!key.startsWith('__')) row[key] = value;
+        });
+      }
+      
+      // Composed texts replace their target column; empty results keep the original
+      if (options.applyTemplates) {
+        activeTemplates.forEach(([target, tpl]) => {
+          const text = composeProductText(tpl, p.original, p.enriched);
+          if (text) row[target] = text;
         });
       }
       
@@ -168,12 +270,39 @@ const UltraDataValidation = ({
       if (options.includeProcessingMetadata) {
         row['Índice Original'] = index + 1;
         if (p.tempo_processamento_ms) row['Tempo Processamento (ms)'] = p.tempo_processamento_ms;
+        if (p.modelo_ia) row['Modelo IA'] = p.modelo_ia;
+        if (p.versao_prompt) row['Versão do Prompt'] = p.versao_prompt;
+        if (p.processado_em) row['Processado em'] = p.processado_em;
       }
       
       return row;
     });
   };
 
+  // Session log of the exported rows, plus the texts the templates compose at export time
+  const buildAuditData = (products: ProcessedProduct[], options: ExportOptions) => {
+    const timestamp = new Date().toISOString();
+    return buildAuditSheet(products.flatMap(p => {
+      const identity = describeRow(p.original, processedProducts.indexOf(p), columns);
+      const composed: CellProvenance[] = options.applyTemplates
+        ? activeTemplates.flatMap(([target, tpl]) => {
+            const text = composeProductText(tpl, p.original, p.enriched);
+            if (!text || String(p.original[target] ?? '') === text) return [];
+            return [{
+              ...identity,
+              column: target,
+              before: p.original[target],
+              after: text,
+              source: 'transform' as const,
+              detail: `Modelo de texto: ${tpl.template}`,
+              timestamp,
+            }];
+          })
+        : [];
+      return [...(changeLogByRow.get(identity.rowKey) ?? []), ...composed];
+    }));
+  };
+
   const getProductsForExport = (exportType: ExportType): ProcessedProduct[] => {
     switch (exportType) {
       case 'validated':
@@ -223,7 +352,7 @@ const UltraDataValidation = ({
     return { products, data, columns: exportColumns };
   }, [exportPreview.isOpen, exportPreview.type, exportOptions, processedProducts, selectedIds]);
 
-  const confirmExport = (format: 'xlsx' | 'csv' | 'json' = 'xlsx') => {
+  const confirmExport = async (format: ExportFormat = 'xlsx') => {
     const { products, data } = previewData;
     
     if (data.length === 0) {
@@ -237,25 +366,24 @@ const UltraDataValidation = ({
     const timestamp = new Date().toISOString().slice(0, 10);
     const filenamePrefix = getFilenamePrefix(exportPreview.type);
 
-    if (format === 'json') {
-      const jsonBlob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      saveAs(jsonBlob, `${filenamePrefix}_${timestamp}.json`);
-    } else if (format === 'csv') {
-      const ws = XLSX.utils.json_to_sheet(data);
-      const csvContent = XLSX.utils.sheet_to_csv(ws);
-      const csvBlob = new Blob([csvContent], { type: 'text/csv;charset=utf-8' });
-      saveAs(csvBlob, `${filenamePrefix}_${timestamp}.csv`);
-    } else {
-      const ws = XLSX.utils.json_to_sheet(data);
-      const colWidths = Object.keys(data[0] || {}).map(key => ({
-        wch: Math.max(key.length, 15)
-      }));
-      ws['!cols'] = colWidths;
-      const wb = XLSX.utils.book_new();
-      XLSX.utils.book_append_sheet(wb, ws, 'Produtos Enriquecidos');
-      const excelBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-      const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-      saveAs(blob, `${filenamePrefix}_${timestamp}.xlsx`);
+    try {
+      const { buffer, mimeType } = await runExport('buildExport', {
+        data,
+        format,
+        sheetName: 'Produtos Enriquecidos',
+        extraSheets: exportOptions.includeAuditSheet && format === 'xlsx'
+          ? [{ name: AUDIT_SHEET_NAME, data: buildAuditData(products, exportOptions) }]
+          : [],
+      });
+      saveAs(new Blob([buffer], { type: mimeType }), `${filenamePrefix}_${timestamp}.${format}`);
+    } catch (error) {
+      if (isTaskCancelled(error)) return;
+      toast({
+        title: "Erro ao exportar",
+        description: error instanceof Error ? error.message : 'Não foi possível gerar o arquivo.',
+        variant: "destructive",
+      });
+      return;
     }
 
     toast({
@@ -313,6 +441,11 @@ const UltraDataValidation = ({
 
           {/* Export Options & Button */}
           <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={reviewAiSuggestions} disabled={processedProducts.length === 0}>
+              <GitCompare className="h-4 w-4 mr-2" />
+              Revisar sugestões da IA
+            </Button>
+
             <Popover>
               <PopoverTrigger asChild>
                 <Button variant="outline" size="icon">
@@ -363,6 +496,26 @@ const UltraDataValidation = ({
                         onCheckedChange={(checked) => setExportOptions(prev => ({ ...prev, includeProcessingMetadata: checked }))}
                       />
                     </div>
+                    {activeTemplates.length > 0 && (
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="applyTemplates" className="text-sm">
+                          Aplicar modelos de texto ({activeTemplates.length})
+                        </Label>
+                        <Switch 
+                          id="applyTemplates"
+                          checked={exportOptions.applyTemplates}
+                          onCheckedChange={(checked) => setExportOptions(prev => ({ ...prev, applyTemplates: checked }))}
+                        />
+                      </div>
+                    )}
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="includeAudit" className="text-sm">Planilha de auditoria (XLSX)</Label>
+                      <Switch 
+                        id="includeAudit"
+                        checked={exportOptions.includeAuditSheet}
+                        onCheckedChange={(checked) => setExportOptions(prev => ({ ...prev, includeAuditSheet: checked }))}
+                      />
+                    </div>
                   </div>
                 </div>
               </PopoverContent>
@@ -470,6 +623,10 @@ const UltraDataValidation = ({
               )}
             </div>
 
+            {exporting && (
+              <UltraDataTaskProgress progress={exportProgress} fallbackLabel="Gerando arquivo" onCancel={cancelExport} />
+            )}
+
             <div className="flex items-center justify-between pt-4 border-t">
               <div className="flex items-center gap-4 text-sm text-muted-foreground">
                 <span>{previewData.products.length} produtos</span>
@@ -481,15 +638,15 @@ const UltraDataValidation = ({
                   <X className="h-4 w-4 mr-2" />
                   Cancelar
                 </Button>
-                <Button variant="outline" onClick={() => confirmExport('json')}>
+                <Button variant="outline" onClick={() => confirmExport('json')} disabled={exporting}>
                   <FileText className="h-4 w-4 mr-2" />
                   JSON
                 </Button>
-                <Button variant="outline" onClick={() => confirmExport('csv')}>
+                <Button variant="outline" onClick={() => confirmExport('csv')} disabled={exporting}>
                   <FileDown className="h-4 w-4 mr-2" />
                   CSV
                 </Button>
-                <Button onClick={() => confirmExport('xlsx')}>
+                <Button onClick={() => confirmExport('xlsx')} disabled={exporting}>
                   <Download className="h-4 w-4 mr-2" />
                   Excel
                 </Button>
@@ -557,6 +714,7 @@ const UltraDataValidation = ({
               const globalIndex = processedProducts.indexOf(product);
               const isSelected = selectedIds.has(globalIndex);
               const ncm = product.enriched.ncm_sugerido;
+              const rowChanges = changeLogByRow.get(describeRow(product.original, globalIndex, columns).rowKey) ?? [];
 
               return (
                 <div 
@@ -579,12 +737,32 @@ const UltraDataValidation = ({
                       <div className="space-y-2">
                         <div className="flex items-center gap-2">
                           <Badge variant="outline" className="text-xs">Original</Badge>
+                          {rowChanges.length > 0 && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Badge variant="secondary" className="text-xs cursor-help">
+                                  <History className="h-3 w-3 mr-1" />
+                                  {rowChanges.length} alterações
+                                </Badge>
+                              </TooltipTrigger>
+                              <TooltipContent side="top" className="max-w-sm space-y-1">
+                                {rowChanges.map((change, i) => (
+                                  <p key={i} className="text-xs">
+                                    <span className="font-medium">{change.column}</span>
+                                    {' · '}{CHANGE_SOURCE_LABELS[change.source]}
+                                    {change.detail && ` (${change.detail})`}
+                                    {': '}{String(change.before ?? '') || '(vazio)'} → {String(change.after ?? '')}
+                                  </p>
+                                ))}
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
                         </div>
                         <div className="text-sm space-y-1">
                           <p className="font-medium text-foreground">
                             {getProductDisplayName(product, globalIndex)}
                           </p>
-                          {Object.entries(product.original).slice(0, 3).map(([key, value]) => (
+                          {Object.entries(product.original).filter(([key]) => !key.startsWith('__')).slice(0, 3).map(([key, value]) => (
                             <p key={key} className="text-muted-foreground text-xs truncate">
                               <span className="font-medium">{key}:</span> {value?.toString() || '-'}
                             </p>
@@ -692,6 +870,17 @@ const UltraDataValidation = ({
           </div>
         </ScrollArea>
       </div>
+
+      {aiChanges && (
+        <UltraDataChangeReview
+          open
+          title="Revisar sugestões da IA"
+          changes={aiChanges}
+          confirmLabel="Aplicar nas colunas"
+          onConfirm={applyAiSuggestions}
+          onCancel={() => setAiChanges(null)}
+        />
+      )}
     </TooltipProvider>
   );
 };
@@ -0,0 +1,222 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Layers, Link2, Unlink, X, Check, ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useDataTask } from '@/hooks/useDataTask';
+import { isTaskCancelled } from '@/workers/workerPool';
+import {
+  buildVariantRows,
+  findVariantNameColumn,
+  formatVariantAttributes,
+  joinVariantGroups,
+  type VariantGroup,
+} from '@/core';
+import type { ProductRow } from '@/pages/UltraData';
+import UltraDataTaskProgress from './UltraDataTaskProgress';
+import UltraDataAttributeExtraction from './UltraDataAttributeExtraction';
+
+interface UltraDataVariantGroupingProps {
+  rawData: ProductRow[];
+  columns: string[];
+  onGrouped: (data: ProductRow[], columns: string[]) => void;
+  onNext: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const UltraDataVariantGrouping = ({ rawData, columns, onGrouped, onNext }: UltraDataVariantGroupingProps) => {
+  const { toast } = useToast();
+  const { run, cancel, progress, running } = useDataTask();
+
+  const [groups, setGroups] = useState<VariantGroup[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const nameColumn = useMemo(() => findVariantNameColumn(columns), [columns]);
+
+  // Detection runs in a worker; applying the grouping reruns it on the new dataset
+  useEffect(() => {
+    run('detectVariants', { data: rawData, columns })
+      .then(result => {
+        setGroups(result);
+        setSelected([]);
+        setVisibleCount(PAGE_SIZE);
+      })
+      .catch(err => {
+        if (!isTaskCancelled(err)) console.error('Erro ao agrupar variações:', err);
+      });
+    return cancel;
+  }, [rawData, columns, run, cancel]);
+
+  const updateGroup = (id: string, changes: Partial<VariantGroup>) => {
+    setGroups(prev => prev.map(group => (group.id === id ? { ...group, ...changes } : group)));
+  };
+
+  // A group needs at least two variations; a lone child is just a simple product
+  const splitChild = (group: VariantGroup, rowIndex: number) => {
+    const children = group.children.filter(child => child.rowIndex !== rowIndex);
+    if (children.length < 2) {
+      dismissGroup(group.id);
+    } else {
+      updateGroup(group.id, { children });
+    }
+  };
+
+  const dismissGroup = (id: string) => {
+    setGroups(prev => prev.filter(group => group.id !== id));
+    setSelected(prev => prev.filter(selectedId => selectedId !== id));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]));
+  };
+
+  const joinSelected = () => {
+    const toJoin = groups.filter(group => selected.includes(group.id));
+    const joined = joinVariantGroups(toJoin);
+    setGroups(prev => [joined, ...prev.filter(group => !selected.includes(group.id))]);
+    setSelected([]);
+  };
+
+  const applyGrouping = () => {
+    const result = buildVariantRows(rawData, columns, groups);
+    const variations = groups.reduce((sum, group) => sum + group.children.length, 0);
+
+    toast({
+      title: 'Variações agrupadas',
+      description: `${groups.length} produtos pai criados com ${variations} variações.`,
+    });
+
+    onGrouped(result.data as ProductRow[], result.columns);
+  };
+
+  if (running) {
+    return <UltraDataTaskProgress progress={progress} fallbackLabel="Agrupando variações" onCancel={cancel} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground mb-2">Variações de Produto</h2>
+          <p className="text-muted-foreground">
+            Produtos que diferem apenas por cor, tamanho ou voltagem viram um produto pai com variações, no formato de importação do Bling.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline">{groups.length} grupos</Badge>
+          {nameColumn && <Badge variant="secondary">Nome: {nameColumn}</Badge>}
+        </div>
+      </div>
+
+      {/* Explicit Cor/Voltagem columns also sharpen the grouping below */}
+      <UltraDataAttributeExtraction rawData={rawData} columns={columns} onApply={onGrouped} />
+
+      {groups.length === 0 ? (
+        <div className="flex items-center gap-2 p-4 border rounded-lg text-sm text-muted-foreground">
+          <Layers className="h-4 w-4" />
+          {nameColumn ? 'Nenhuma variação encontrada.' : 'Nenhuma coluna de nome encontrada.'}
+        </div>
+      ) : (
+        <>
+          <div className="space-y-4">
+            {groups.slice(0, visibleCount).map(group => (
+              <div key={group.id} className="border rounded-lg p-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <div className="flex flex-1 items-center gap-2 min-w-0">
+                    <Checkbox
+                      checked={selected.includes(group.id)}
+                      onCheckedChange={() => toggleSelected(group.id)}
+                      title="Selecionar para juntar com outros grupos"
+                    />
+                    <Input
+                      value={group.parentName}
+                      onChange={e => updateGroup(group.id, { parentName: e.target.value })}
+                      className="h-8 max-w-[360px]"
+                      aria-label="Nome do produto pai"
+                    />
+                    <Input
+                      value={group.parentSku}
+                      onChange={e => updateGroup(group.id, { parentSku: e.target.value })}
+                      className="h-8 w-[160px] font-mono"
+                      aria-label="Código do produto pai"
+                    />
+                    {group.axes.map(axis => (
+                      <Badge key={axis} variant="secondary">{axis}</Badge>
+                    ))}
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => dismissGroup(group.id)}>
+                    <X className="h-4 w-4 mr-1" />
+                    Não agrupar
+                  </Button>
+                </div>
+
+                <div className="border rounded-lg overflow-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Nome original</TableHead>
+                        <TableHead>Variação</TableHead>
+                        <TableHead className="w-10" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.children.map(child => (
+                        <TableRow key={child.rowIndex}>
+                          <TableCell className="max-w-[320px] truncate text-sm">
+                            {String(nameColumn ? rawData[child.rowIndex]?.[nameColumn] ?? '' : '')}
+                          </TableCell>
+                          <TableCell className="font-mono text-xs">{formatVariantAttributes(group, child)}</TableCell>
+                          <TableCell>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-7 w-7"
+                              title="Separar do grupo"
+                              onClick={() => splitChild(group, child.rowIndex)}
+                            >
+                              <Unlink className="h-3.5 w-3.5" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {groups.length > visibleCount && (
+            <Button variant="outline" className="w-full" onClick={() => setVisibleCount(c => c + PAGE_SIZE)}>
+              Mostrar mais ({groups.length - visibleCount} restantes)
+            </Button>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t">
+        <Button variant="outline" onClick={joinSelected} disabled={selected.length < 2}>
+          <Link2 className="h-4 w-4 mr-2" />
+          Juntar selecionados
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={applyGrouping} disabled={groups.length === 0}>
+            <Check className="h-4 w-4 mr-2" />
+            Aplicar agrupamento
+          </Button>
+          <Button onClick={onNext} size="lg">
+            Continuar
+            <ArrowRight className="h-4 w-4 ml-2" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UltraDataVariantGrouping;
@@ -5,8 +5,13 @@
 import type { ColumnConfig } from '@/utils/dataProcessors';
 import columnsConfig from './columns.json';
 import abbreviationsConfig from './abbreviations.json';
-import promptsConfig from './prompts.json';
+// Shared with the edge functions, so it lives in supabase/functions/_shared
+import promptsConfig from '../../supabase/functions/_shared/prompts.json';
 import imageQueriesConfig from './imageQueries.json';
+import variantsConfig from './variants.json';
+import templatesConfig from './templates.json';
+import attributesConfig from './attributes.json';
+import unitsConfig from './units.json';
 
 // ---- Column Config ----
 
@@ -101,12 +106,159 @@ export function getAbbreviationGroups(): Record<string, Record<string, string>>
   };
 }
 
+export interface AbbreviationScopeRule {
+  // Only expand in name columns (Nome, Título) or description columns
+  columns?: 'all' | 'name' | 'description';
+  // Only when a number follows ("ref 123", "mod 2")
+  beforeNumber?: boolean;
+  // Only as a token on its own, never glued to other text ("c/ tampa", not "abc/def")
+  standalone?: boolean;
+}
+
+/**
+ * Where each abbreviation may be expanded; entries without a scope apply everywhere
+ */
+export function getAbbreviationScopes(): Record<string, AbbreviationScopeRule> {
+  return abbreviationsConfig.scopes as Record<string, AbbreviationScopeRule>;
+}
+
+// ---- Variants ----
+
+export interface VariantAxisRule {
+  // Words that introduce a value, e.g. "Tam" in "Tam 38"
+  labels: string[];
+  // Accent-free, lowercase values recognised anywhere in a name
+  values: string[];
+  // Regex for values recognised on their own (e.g. "220v")
+  pattern?: string;
+  // Regex for values only recognised right after a label (e.g. "38")
+  labeledPattern?: string;
+}
+
+/**
+ * Variation axes (Cor, Tamanho, Voltagem) and the values that identify them in product names
+ */
+export function getVariantAxes(): Record<string, VariantAxisRule> {
+  return variantsConfig.axes;
+}
+
+/**
+ * Punctuation left between a base name and its variation values
+ */
+export function getVariantSeparators(): string[] {
+  return variantsConfig.separators;
+}
+
+// ---- Attribute Extraction ----
+
+export interface AttributeRule {
+  // Target column (Voltagem, Potência, Medida, Rosca, Cor, Material, Capacidade)
+  attribute: string;
+  // Regex over lowercase, accent-free text; its groups can be used in format ("$1V")
+  pattern?: string;
+  format?: string;
+  // Remove spaces from the formatted value ("10 x 20cm" → "10x20cm")
+  compact?: boolean;
+  // Accent-free, lowercase words recognised anywhere in the text
+  values?: string[];
+  // Reuse the values of a variation axis from variants.json
+  variantAxis?: string;
+  confidence: number;
+}
+
+/**
+ * Rules that pull attributes out of product names, in priority order
+ */
+export function getAttributeRules(): AttributeRule[] {
+  const axes = getVariantAxes();
+  return (attributesConfig.rules as AttributeRule[]).map(rule =>
+    rule.variantAxis ? { ...rule, values: axes[rule.variantAxis]?.values ?? [] } : rule
+  );
+}
+
+// ---- Units of Measure ----
+
+export interface UnitKindRule {
+  label: string;
+  // Unit symbol → factor to the kind's base unit (cm, kg, L)
+  units: Record<string, number>;
+  names: Record<string, string>;
+  // Plausible range, in the base unit
+  plausible: { min: number; max: number };
+}
+
+export interface UnitColumnRule {
+  kind: string;
+  unit: string;
+}
+
+/**
+ * Quantity kinds (length, weight, volume) with their units and plausible ranges
+ */
+export function getUnitKinds(): Record<string, UnitKindRule> {
+  return unitsConfig.kinds;
+}
+
+/**
+ * Every spelling of a unit (accent-free, lowercase) → its symbol.
+ * Symbols, names and plurals come from units.json; short forms reuse the
+ * "measures" abbreviations ("gr" → grama → g).
+ */
+export function getUnitAliases(): Record<string, string> {
+  const aliases: Record<string, string> = {};
+
+  Object.values(unitsConfig.kinds).forEach((kind: UnitKindRule) => {
+    Object.keys(kind.units).forEach(symbol => {
+      aliases[symbol.toLowerCase()] = symbol;
+      const name = normalizeColumnKey(kind.names[symbol] ?? '');
+      if (name) {
+        aliases[name] = symbol;
+        aliases[`${name}s`] = symbol;
+      }
+    });
+  });
+
+  Object.entries(abbreviationsConfig.measures).forEach(([abbr, full]) => {
+    const symbol = aliases[normalizeColumnKey(full)];
+    if (symbol) aliases[abbr.toLowerCase()] = symbol;
+  });
+
+  return { ...aliases, ...unitsConfig.aliases };
+}
+
+/**
+ * Target unit of each dimension/weight column of the preset (Bling uses kg and cm)
+ */
+export function getUnitColumnTargets(): Record<string, UnitColumnRule> {
+  return unitsConfig.columns;
+}
+
+// ---- Text Templates ----
+
+export interface TemplateTargetRule {
+  maxLength: number;
+  // Shown as a starting point in the template editor
+  suggestion: string;
+}
+
+/**
+ * Fields that can be composed from a template (Nome, Descrição Curta, Meta Title, Meta Description)
+ */
+export function getTemplateTargets(): Record<string, TemplateTargetRule> {
+  return templatesConfig.targets;
+}
+
 // ---- Prompts ----
 
 export interface PromptConfig {
   system: string;
   temperature: number;
   model: string;
+  // Key in "providers" that the edge function calls (see supabase/functions/_shared/llm.ts)
+  provider: string;
+  timeout_ms: number;
+  // How long an enrichment stays in the shared cache (enriquecer_produto only)
+  cache_ttl_days?: number;
 }
 
 export function getEnrichmentPrompt(): PromptConfig {
@@ -170,6 +322,57 @@ export function buildImageSearchQuery(
 
 // ---- Apply preset to detected columns ----
 
+export type PresetMatchType = 'exact' | 'normalized' | 'partial';
+
+export interface PresetColumnMatch {
+  key: string;
+  matchType: PresetMatchType;
+}
+
+const normalizeColumnKey = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+/**
+ * List every column name known by the preset, in config order
+ */
+export function getPresetColumnNames(): string[] {
+  return Object.keys(getColumnConfig());
+}
+
+/**
+ * Find the preset column matching a detected column:
+ * exact, then case/accent-insensitive, then partial
+ */
+export function matchPresetColumn(col: string): PresetColumnMatch | null {
+  const presetKeys = getPresetColumnNames();
+
+  // Exact match
+  if (presetKeys.includes(col)) {
+    return { key: col, matchType: 'exact' };
+  }
+
+  // Case-insensitive match
+  const lowerCol = normalizeColumnKey(col);
+  if (!lowerCol) return null;
+
+  const matchedKey = presetKeys.find(k => normalizeColumnKey(k) === lowerCol);
+  if (matchedKey) {
+    return { key: matchedKey, matchType: 'normalized' };
+  }
+
+  // Partial match
+  const partialMatch = presetKeys.find(k => {
+    const lowerKey = normalizeColumnKey(k);
+    return lowerCol.includes(lowerKey) || lowerKey.includes(lowerCol);
+  });
+
+  return partialMatch ? { key: partialMatch, matchType: 'partial' } : null;
+}
+
 /**
  * Match detected spreadsheet columns to preset config
  */
@@ -181,30 +384,9 @@ export function applyPresetToColumns(
   const result: Record<string, ColumnConfig> = {};
 
   detectedColumns.forEach(col => {
-    // Exact match
-    if (presetConfig[col]) {
-      result[col] = presetConfig[col];
-      return;
-    }
-
-    // Case-insensitive match
-    const lowerCol = col.toLowerCase().trim();
-    const matchedKey = Object.keys(presetConfig).find(
-      k => k.toLowerCase().trim() === lowerCol
-    );
-
-    if (matchedKey) {
-      result[col] = presetConfig[matchedKey];
-      return;
-    }
-
-    // Partial match
-    const partialMatch = Object.keys(presetConfig).find(k =>
-      lowerCol.includes(k.toLowerCase()) || k.toLowerCase().includes(lowerCol)
-    );
-
-    if (partialMatch) {
-      result[col] = presetConfig[partialMatch];
+    const match = matchPresetColumn(col);
+    if (match) {
+      result[col] = presetConfig[match.key];
       return;
     }
 
@@ -0,0 +1,111 @@
+// =====================================================
+// ULTRACLEAN - Shared Abbreviation Dictionaries
+// =====================================================
+
+import type {
+  AbbreviationDictionary,
+  AbbreviationDictionaryConflict,
+  AbbreviationDiffEntry
+} from './types';
+
+const sameScope = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+
+// Lowercase key → key as written, so "CX" and "cx" are the same entry
+const indexKeys = (abbreviations: Record<string, string>): Map<string, string> =>
+  new Map(Object.keys(abbreviations).map(abbr => [abbr.trim().toLowerCase(), abbr]));
+
+/**
+ * What changed from one version of a dictionary to another, by abbreviation
+ */
+export const diffAbbreviationDictionaries = (
+  before: AbbreviationDictionary,
+  after: AbbreviationDictionary
+): AbbreviationDiffEntry[] => {
+  const beforeKeys = indexKeys(before.abbreviations);
+  const afterKeys = indexKeys(after.abbreviations);
+  const entries: AbbreviationDiffEntry[] = [];
+
+  afterKeys.forEach((abbr, key) => {
+    const previous = beforeKeys.get(key);
+    const full = after.abbreviations[abbr];
+    if (previous === undefined) {
+      entries.push({ abbr, type: 'added', after: full, scopeChanged: false });
+      return;
+    }
+    const scopeChanged = !sameScope(before.scopes[previous], after.scopes[abbr]);
+    if (before.abbreviations[previous] !== full || scopeChanged) {
+      entries.push({ abbr, type: 'changed', before: before.abbreviations[previous], after: full, scopeChanged });
+    }
+  });
+
+  beforeKeys.forEach((abbr, key) => {
+    if (!afterKeys.has(key)) entries.push({ abbr, type: 'removed', before: before.abbreviations[abbr], scopeChanged: false });
+  });
+
+  return entries.sort((a, b) => a.abbr.localeCompare(b.abbr));
+};
+
+/**
+ * Stack dictionaries into one; later layers win (shared dictionaries first, the personal one last)
+ */
+export const mergeAbbreviationDictionaries = (layers: AbbreviationDictionary[]): AbbreviationDictionary => {
+  const abbreviations: Record<string, string> = {};
+  const scopes: AbbreviationDictionary['scopes'] = {};
+  const keys = new Map<string, string>();
+
+  layers.forEach(layer => {
+    Object.entries(layer.abbreviations).forEach(([abbr, full]) => {
+      const key = abbr.trim().toLowerCase();
+      const previous = keys.get(key);
+      if (previous !== undefined && previous !== abbr) {
+        delete abbreviations[previous];
+        delete scopes[previous];
+      }
+      keys.set(key, abbr);
+      abbreviations[abbr] = full;
+      if (layer.scopes[abbr]) scopes[abbr] = layer.scopes[abbr];
+      else delete scopes[abbr];
+    });
+  });
+
+  return { abbreviations, scopes };
+};
+
+/**
+ * Personal entries that expand differently from the shared dictionaries the user follows
+ */
+export const findDictionaryConflicts = (
+  personal: AbbreviationDictionary,
+  shared: { name: string; dictionary: AbbreviationDictionary }[]
+): AbbreviationDictionaryConflict[] => {
+  const mine = indexKeys(personal.abbreviations);
+  const conflicts: AbbreviationDictionaryConflict[] = [];
+
+  shared.forEach(({ name, dictionary }) => {
+    Object.entries(dictionary.abbreviations).forEach(([abbr, full]) => {
+      const own = mine.get(abbr.trim().toLowerCase());
+      if (own !== undefined && personal.abbreviations[own] !== full) {
+        conflicts.push({ abbr: own, mine: personal.abbreviations[own], shared: full, dictionary: name });
+      }
+    });
+  });
+
+  return conflicts;
+};
+
+/**
+ * Drop the personal entries the user chose to take from the shared dictionary;
+ * the others stay and keep overriding it
+ */
+export const resolveDictionaryConflicts = (
+  personal: AbbreviationDictionary,
+  useShared: string[]
+): AbbreviationDictionary => {
+  const abbreviations = { ...personal.abbreviations };
+  const scopes = { ...personal.scopes };
+  useShared.forEach(abbr => {
+    delete abbreviations[abbr];
+    delete scopes[abbr];
+  });
+  return { abbreviations, scopes };
+};
@@ -0,0 +1,215 @@
+// =====================================================
+// ULTRACLEAN - Abbreviation Matching
+// =====================================================
+
+import type { AbbreviationScopeRule } from '@/config';
+import type { AbbreviationConflict, AbbreviationMatch, AbbreviationMatcher } from './types';
+
+type ColumnKind = NonNullable<AbbreviationScopeRule['columns']>;
+
+const NO_SCOPES: Record<string, AbbreviationScopeRule> = {};
+
+// Characters allowed around a standalone abbreviation ("tam P", "(P)", "P, M")
+const STANDALONE_BEFORE = /[\s([]/;
+const STANDALONE_AFTER = /[\s,.;:!?)\]]/;
+
+let cachedMatcher: {
+  abbreviations: Record<string, string>;
+  scopes: Record<string, AbbreviationScopeRule>;
+  matcher: AbbreviationMatcher;
+} | null = null;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isWordChar = (char: string | undefined): boolean => !!char && /[\p{L}\p{N}]/u.test(char);
+
+const isUpperCase = (text: string): boolean => /\p{L}/u.test(text) && text === text.toUpperCase();
+
+// Word boundaries only where the abbreviation starts or ends with a letter or digit,
+// so "c/" matches "c/tampa" but never "abc/def"
+const toAlternative = (abbr: string): string => {
+  const start = isWordChar(abbr[0]) ? '(?<![\\p{L}\\p{N}])' : '';
+  const end = isWordChar(abbr[abbr.length - 1]) ? '(?![\\p{L}\\p{N}])' : '';
+  return `${start}${escapeRegex(abbr)}${end}`;
+};
+
+/**
+ * Which scope a column falls in: name (Nome, Título), description or anything else
+ */
+export const getAbbreviationColumnKind = (column: string): ColumnKind => {
+  if (/descri[cç][aã]o/i.test(column)) return 'description';
+  if (/\b(nome|t[ií]tulo)\b/i.test(column)) return 'name';
+  return 'all';
+};
+
+/**
+ * Compile a dictionary into one case-insensitive pattern, longest abbreviations first.
+ * Entries differing only in case collapse into the last one
+ */
+export const compileAbbreviationMatcher = (
+  abbreviations: Record<string, string>,
+  scopes: Record<string, AbbreviationScopeRule> = NO_SCOPES
+): AbbreviationMatcher => {
+  const entries: AbbreviationMatcher['entries'] = new Map();
+  Object.entries(abbreviations).forEach(([abbr, full]) => {
+    const key = abbr.trim().toLowerCase();
+    if (!key) return;
+    entries.set(key, { abbr, full, scope: scopes[abbr] ?? scopes[key] ?? {} });
+  });
+
+  const keys = [...entries.keys()].sort((a, b) => b.length - a.length);
+  return {
+    pattern: keys.length > 0 ? new RegExp(keys.map(toAlternative).join('|'), 'giu') : null,
+    entries
+  };
+};
+
+/**
+ * Compiled matcher for a dictionary, reused while the same objects are passed in
+ */
+export const getAbbreviationMatcher = (
+  abbreviations: Record<string, string>,
+  scopes: Record<string, AbbreviationScopeRule> = NO_SCOPES
+): AbbreviationMatcher => {
+  if (!cachedMatcher || cachedMatcher.abbreviations !== abbreviations || cachedMatcher.scopes !== scopes) {
+    cachedMatcher = { abbreviations, scopes, matcher: compileAbbreviationMatcher(abbreviations, scopes) };
+  }
+  return cachedMatcher.matcher;
+};
+
+// Single-character abbreviations ("P", "M") are only safe as tokens of their own
+const isInScope = (
+  entry: { abbr: string; scope: AbbreviationScopeRule },
+  text: string,
+  start: number,
+  end: number,
+  column?: string
+): boolean => {
+  const { scope } = entry;
+  if (scope.columns && scope.columns !== 'all' && column !== undefined && getAbbreviationColumnKind(column) !== scope.columns) {
+    return false;
+  }
+  if (scope.beforeNumber && !/^\s*\d/.test(text.slice(end))) return false;
+
+  const standalone = scope.standalone ?? [...entry.abbr.trim()].length === 1;
+  if (standalone) {
+    if (start > 0 && !STANDALONE_BEFORE.test(text[start - 1])) return false;
+    if (end < text.length && !STANDALONE_AFTER.test(text[end])) return false;
+  }
+  return true;
+};
+
+/**
+ * Write the expansion in the case of the abbreviation found:
+ * "PARAF" → "PARAFUSO", "Paraf" → "Parafuso", "paraf" → as in the dictionary.
+ * Single letters follow the rest of the text ("CAMISETA P" → "CAMISETA PEQUENO")
+ */
+export const preserveCase = (original: string, full: string, text = original): string => {
+  const letters = original.replace(/[^\p{L}]/gu, '');
+  if ((letters.length > 1 && isUpperCase(letters)) || isUpperCase(text)) return full.toUpperCase();
+  if (letters && isUpperCase(letters[0])) return full.charAt(0).toUpperCase() + full.slice(1);
+  return full;
+};
+
+/**
+ * Abbreviations to expand in a text; the column, when given, is checked against each entry's scope
+ */
+export const findAbbreviationMatches = (
+  text: string,
+  matcher: AbbreviationMatcher,
+  column?: string
+): AbbreviationMatch[] => {
+  if (!text || !matcher.pattern) return [];
+
+  const matches: AbbreviationMatch[] = [];
+  for (const found of text.matchAll(matcher.pattern)) {
+    const entry = matcher.entries.get(found[0].toLowerCase());
+    const start = found.index ?? 0;
+    const end = start + found[0].length;
+    if (!entry || !isInScope(entry, text, start, end, column)) continue;
+
+    matches.push({
+      abbr: entry.abbr,
+      full: entry.full,
+      original: found[0],
+      replacement: preserveCase(found[0], entry.full, text),
+      start,
+      end
+    });
+  }
+  return matches;
+};
+
+/**
+ * Expand the abbreviations of a text in a single pass (expansions are not expanded again)
+ */
+export const applyAbbreviations = (
+  text: string,
+  matcher: AbbreviationMatcher,
+  column?: string
+): { expanded: string; matches: AbbreviationMatch[] } => {
+  const matches = findAbbreviationMatches(text, matcher, column);
+  if (matches.length === 0) return { expanded: text, matches };
+
+  let expanded = '';
+  let last = 0;
+  matches.forEach(match => {
+    expanded += text.slice(last, match.start) + match.replacement;
+    last = match.end;
+  });
+  return { expanded: expanded + text.slice(last), matches };
+};
+
+/**
+ * Entries that shadow each other: the same abbreviation in another case, a shorter
+ * abbreviation inside a longer one, or an expansion containing another abbreviation
+ */
+export const findAbbreviationConflicts = (abbreviations: Record<string, string>): AbbreviationConflict[] => {
+  const conflicts: AbbreviationConflict[] = [];
+  const byKey = new Map<string, string>();
+
+  Object.entries(abbreviations).forEach(([abbr, full]) => {
+    const key = abbr.trim().toLowerCase();
+    if (!key) return;
+    const previous = byKey.get(key);
+    if (previous !== undefined && abbreviations[previous] !== full) {
+      conflicts.push({
+        type: 'duplicate',
+        abbreviations: [previous, abbr],
+        message: `"${previous}" e "${abbr}" são a mesma abreviação com expansões diferentes; vale "${full}"`
+      });
+    }
+    byKey.set(key, abbr);
+  });
+
+  const entries = [...byKey.values()].map(abbr => ({
+    abbr,
+    key: abbr.trim().toLowerCase(),
+    full: abbreviations[abbr],
+    regex: new RegExp(toAlternative(abbr.trim().toLowerCase()), 'iu')
+  }));
+
+  entries.forEach(inner => {
+    entries.forEach(other => {
+      if (other === inner) return;
+
+      if (other.key.length > inner.key.length && inner.regex.test(other.key)) {
+        conflicts.push({
+          type: 'overlap',
+          abbreviations: [inner.abbr, other.abbr],
+          message: `"${inner.abbr}" aparece dentro de "${other.abbr}"; nesse trecho vale a entrada mais longa`
+        });
+      }
+
+      if (inner.regex.test(other.full)) {
+        conflicts.push({
+          type: 'chain',
+          abbreviations: [other.abbr, inner.abbr],
+          message: `A expansão de "${other.abbr}" ("${other.full}") contém "${inner.abbr}", que não é expandida de novo`
+        });
+      }
+    });
+  });
+
+  return conflicts;
+};
@@ -0,0 +1,235 @@
+// =====================================================
+// ULTRACLEAN - Abbreviation Mining
+// =====================================================
+
+import type {
+  AbbreviationEvidence,
+  AbbreviationMiningOptions,
+  AbbreviationSuggestion,
+  ProductData,
+  ProgressCallback
+} from './types';
+
+const PROGRESS_STEP = 200;
+const MAX_EXAMPLES = 3;
+const MAX_ALTERNATIVES = 3;
+
+const CONFIDENCE: Record<AbbreviationEvidence, number> = {
+  context: 0.9,
+  prefix: 0.6,
+  letters: 0.4
+};
+
+// Function words are never truncations, nor a useful context ("de" → "desconto")
+const STOP_WORDS = new Set([
+  'a', 'o', 'as', 'os', 'e', 'ou', 'de', 'da', 'do', 'das', 'dos', 'em', 'na', 'no', 'nas', 'nos',
+  'um', 'uma', 'para', 'com', 'sem', 'por', 'que', 'se'
+]);
+
+// "Sext." and "c/" (also glued to the next word: "c/tampa")
+const DOTTED = /^(\p{L}+)\.$/u;
+const SLASHED = /^(\p{L}{1,3})\/(\p{L}*)$/u;
+const WORD = /^\p{L}+$/u;
+const EDGE_PUNCTUATION = /^[("'[{]+|[,;:!?)"'\]}]+$/g;
+// Portuguese words have vowels; "pct", "cx" and "qtd" don't
+const VOWEL = /[aeiouy]/;
+
+interface Token {
+  // Dictionary key for abbreviations, lowercase word otherwise
+  key: string;
+  folded: string;
+  kind: 'marked' | 'word' | 'other';
+}
+
+interface CandidateStats {
+  folded: string;
+  marked: boolean;
+  cells: number;
+  examples: string[];
+  contexts: Set<string>;
+}
+
+interface WordStats {
+  cells: number;
+  // Lowercase spellings ("peça", "peca") and how often each is used
+  spellings: Map<string, number>;
+}
+
+const fold = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+const tokenize = (text: string): Token[] =>
+  text.split(/\s+/).flatMap((raw): Token[] => {
+    const piece = raw.replace(EDGE_PUNCTUATION, '');
+    if (!piece) return [];
+
+    const slashed = piece.match(SLASHED);
+    if (slashed) {
+      const abbr: Token = { key: `${slashed[1].toLowerCase()}/`, folded: fold(slashed[1]), kind: 'marked' };
+      return slashed[2] ? [abbr, { key: slashed[2].toLowerCase(), folded: fold(slashed[2]), kind: 'word' }] : [abbr];
+    }
+
+    const dotted = piece.match(DOTTED);
+    if (dotted) return [{ key: `${dotted[1].toLowerCase()}.`, folded: fold(dotted[1]), kind: 'marked' }];
+
+    if (WORD.test(piece)) return [{ key: piece.toLowerCase(), folded: fold(piece), kind: 'word' }];
+    return [{ key: piece.toLowerCase(), folded: fold(piece), kind: 'other' }];
+  });
+
+// Neighbouring words, skipping function words that say nothing about the product
+const getContexts = (tokens: Token[], index: number): string[] => {
+  const contexts: string[] = [];
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+  if (previous && !STOP_WORDS.has(previous.folded)) contexts.push(`<${previous.folded}`);
+  if (next && !STOP_WORDS.has(next.folded)) contexts.push(`>${next.folded}`);
+  return contexts;
+};
+
+/**
+ * How an abbreviation can stand for a word: its start ("sext" → "sextavado")
+ * or its letters in order, from the first one ("pct" → "pacote").
+ * Plain words must be at least two letters shorter, so plurals are not taken
+ * for abbreviations ("porca" / "porcas"); "Parafus." may drop a single letter
+ */
+const matchAbbreviation = (abbr: string, word: string, marked: boolean): 'prefix' | 'letters' | null => {
+  if (word.length < abbr.length + (marked ? 1 : 2) || word[0] !== abbr[0] || !VOWEL.test(word)) return null;
+  if (word.startsWith(abbr)) return 'prefix';
+  if (abbr.length < 2) return null;
+
+  let position = 1;
+  for (const char of abbr.slice(1)) {
+    position = word.indexOf(char, position) + 1;
+    if (position === 0) return null;
+  }
+  return 'letters';
+};
+
+const mostUsedSpelling = (stats: WordStats): string =>
+  [...stats.spellings.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+// "sext." is covered by "sext" in the dictionary, and the other way round
+const isKnown = (abbr: string, known: Set<string>): boolean =>
+  known.has(abbr) || known.has(abbr.replace(/[./]$/, ''));
+
+/**
+ * Scan text columns for abbreviations not yet in the dictionary: tokens ending in
+ * a period or slash ("Sext.", "c/"), words without vowels ("pct"), and short words
+ * written where the catalog uses a longer one next to the same words
+ * ("paraf sextavado" / "parafuso sextavado"). Each one is matched against full
+ * words found elsewhere in the catalog.
+ */
+export const mineAbbreviations = (
+  data: ProductData[],
+  columns: string[],
+  options: AbbreviationMiningOptions = {},
+  onProgress?: ProgressCallback
+): AbbreviationSuggestion[] => {
+  const { existing = {}, minOccurrences = 2, maxLength = 8 } = options;
+  const candidates = new Map<string, CandidateStats>();
+  const words = new Map<string, WordStats>();
+  const wordsByContext = new Map<string, Set<string>>();
+  const known = new Set(Object.keys(existing).map(key => key.trim().toLowerCase()));
+
+  data.forEach((row, rowIndex) => {
+    columns.forEach(column => {
+      const text = row[column]?.toString().trim() ?? '';
+      if (!text) return;
+
+      const tokens = tokenize(text);
+      const seen = new Set<string>();
+
+      tokens.forEach((token, index) => {
+        if (token.kind === 'other') return;
+        const contexts = getContexts(tokens, index);
+
+        if (token.kind === 'word') {
+          const stats = words.get(token.folded) ?? { cells: 0, spellings: new Map<string, number>() };
+          if (!seen.has(`w:${token.folded}`)) stats.cells++;
+          stats.spellings.set(token.key, (stats.spellings.get(token.key) ?? 0) + 1);
+          words.set(token.folded, stats);
+          seen.add(`w:${token.folded}`);
+          contexts.forEach(context => {
+            const inContext = wordsByContext.get(context) ?? new Set<string>();
+            inContext.add(token.folded);
+            wordsByContext.set(context, inContext);
+          });
+        }
+
+        const isCandidate = token.kind === 'marked' ||
+          (!STOP_WORDS.has(token.folded) && (token.folded.length >= 3 || !VOWEL.test(token.folded)));
+        if (!isCandidate || token.folded.length > maxLength) return;
+
+        const stats = candidates.get(token.key) ??
+          { folded: token.folded, marked: token.kind === 'marked', cells: 0, examples: [], contexts: new Set<string>() };
+        if (!seen.has(`a:${token.key}`)) {
+          stats.cells++;
+          if (stats.examples.length < MAX_EXAMPLES && !stats.examples.includes(text)) stats.examples.push(text);
+        }
+        contexts.forEach(context => stats.contexts.add(context));
+        candidates.set(token.key, stats);
+        seen.add(`a:${token.key}`);
+      });
+    });
+
+    if (onProgress && ((rowIndex + 1) % PROGRESS_STEP === 0 || rowIndex === data.length - 1)) {
+      onProgress(rowIndex + 1, data.length);
+    }
+  });
+
+  const suggestions: AbbreviationSuggestion[] = [];
+
+  candidates.forEach((stats, abbr) => {
+    if (stats.cells < minOccurrences || isKnown(abbr, known)) return;
+    // "azul." at the end of a sentence is the word itself
+    if (stats.marked && (words.get(stats.folded)?.cells ?? 0) >= stats.cells) return;
+
+    // Words used next to the same neighbours, by how many neighbours they share
+    const shared = new Map<string, number>();
+    stats.contexts.forEach(context => {
+      wordsByContext.get(context)?.forEach(word => {
+        if (matchAbbreviation(stats.folded, word, stats.marked)) shared.set(word, (shared.get(word) ?? 0) + 1);
+      });
+    });
+
+    let evidence: AbbreviationEvidence;
+    let ranked: string[];
+    if (shared.size > 0) {
+      evidence = 'context';
+      ranked = [...shared.keys()].sort((a, b) =>
+        shared.get(b)! - shared.get(a)! || words.get(b)!.cells - words.get(a)!.cells
+      );
+    } else {
+      // Other short words need the context; a period, a slash or the lack of vowels already
+      // marks an abbreviation, but a single letter ("c/") could stand for any word
+      if ((!stats.marked && VOWEL.test(stats.folded)) || stats.folded.length < 2) return;
+      const byEvidence = { prefix: [] as string[], letters: [] as string[] };
+      words.forEach((_, word) => {
+        const match = matchAbbreviation(stats.folded, word, stats.marked);
+        if (match) byEvidence[match].push(word);
+      });
+      evidence = byEvidence.prefix.length > 0 ? 'prefix' : 'letters';
+      ranked = byEvidence[evidence].sort((a, b) => words.get(b)!.cells - words.get(a)!.cells);
+    }
+
+    if (ranked.length === 0) return;
+    const [best, ...others] = ranked.slice(0, MAX_ALTERNATIVES + 1).map(word => mostUsedSpelling(words.get(word)!));
+
+    suggestions.push({
+      abbr,
+      full: best,
+      alternatives: others,
+      occurrences: stats.cells,
+      examples: stats.examples,
+      evidence,
+      confidence: CONFIDENCE[evidence]
+    });
+  });
+
+  return suggestions.sort((a, b) =>
+    b.confidence - a.confidence || b.occurrences - a.occurrences || a.abbr.localeCompare(b.abbr)
+  );
+};
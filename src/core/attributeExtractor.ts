@@ -0,0 +1,178 @@
+// =====================================================
+// ULTRACLEAN - Attribute Extraction from Product Names
+// =====================================================
+
+import { getAttributeRules, type AttributeRule } from '@/config';
+import type { AttributeExtraction, ExtractedAttribute, ProductData, ProgressCallback } from './types';
+
+// A second, different value for the same attribute ("Kit M6 e M8") makes the first one doubtful
+const CONFLICT_PENALTY = 0.6;
+
+const PROGRESS_STEP = 200;
+
+const TITLE_CASE_CONNECTORS = new Set(['a', 'e', 'o', 'da', 'de', 'do', 'das', 'dos', 'com']);
+
+interface CompiledRule {
+  attribute: string;
+  regex: RegExp;
+  toValue: (folded: string, original: string) => string;
+  confidence: number;
+}
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Fold accents and case one character at a time so positions in the folded
+// text are the same as in the original
+const foldText = (text: string): string =>
+  text
+    .split('')
+    .map(char => char.normalize('NFD').charAt(0).toLowerCase().charAt(0))
+    .join('');
+
+const titleCase = (text: string): string =>
+  text
+    .toLocaleLowerCase('pt-BR')
+    .split(/(\s+)/)
+    .map((word, index) =>
+      index > 0 && TITLE_CASE_CONNECTORS.has(word) ? word : word.charAt(0).toLocaleUpperCase('pt-BR') + word.slice(1)
+    )
+    .join('');
+
+const compileRule = (rule: AttributeRule): CompiledRule | null => {
+  if (rule.pattern) {
+    const single = new RegExp(rule.pattern);
+    return {
+      attribute: rule.attribute,
+      regex: new RegExp(rule.pattern, 'g'),
+      toValue: (folded, original) => {
+        const value = rule.format ? folded.replace(single, rule.format) : original;
+        return rule.compact ? value.replace(/\s+/g, '') : value.replace(/\s+/g, ' ');
+      },
+      confidence: rule.confidence
+    };
+  }
+
+  if (rule.values?.length) {
+    // Longest values first so "aco inox" wins over "aco"
+    const terms = [...rule.values].sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+    return {
+      attribute: rule.attribute,
+      regex: new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms})(?![\\p{L}\\p{N}])`, 'gu'),
+      toValue: (_folded, original) => titleCase(original),
+      confidence: rule.confidence
+    };
+  }
+
+  return null;
+};
+
+let compiledRules: CompiledRule[] | null = null;
+
+const getCompiledRules = (): CompiledRule[] => {
+  if (!compiledRules) {
+    compiledRules = getAttributeRules()
+      .map(compileRule)
+      .filter((rule): rule is CompiledRule => rule !== null);
+  }
+  return compiledRules;
+};
+
+/**
+ * Extract attributes (voltage, wattage, dimensions, thread, color, material,
+ * capacity) from a text. Rules run in config order and each substring feeds
+ * at most one attribute; start/end point into the NFC-normalized text.
+ */
+export const extractAttributes = (source: string): ExtractedAttribute[] => {
+  const text = source.normalize('NFC');
+  const folded = foldText(text);
+  const claimed: Array<[number, number]> = [];
+  const found = new Map<string, ExtractedAttribute>();
+  const conflicting = new Set<string>();
+
+  getCompiledRules().forEach(rule => {
+    for (const match of folded.matchAll(rule.regex)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+      claimed.push([start, end]);
+
+      const original = text.slice(start, end);
+      const value = rule.toValue(match[0], original);
+      const existing = found.get(rule.attribute);
+
+      if (!existing) {
+        found.set(rule.attribute, { attribute: rule.attribute, value, match: original, start, end, confidence: rule.confidence });
+      } else if (foldText(existing.value) !== foldText(value)) {
+        conflicting.add(rule.attribute);
+      }
+    }
+  });
+
+  return [...found.values()]
+    .map(attr =>
+      conflicting.has(attr.attribute)
+        ? { ...attr, confidence: Math.round(attr.confidence * CONFLICT_PENALTY * 100) / 100 }
+        : attr
+    )
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Extract attributes from one column of every row; rows without any are left out
+ */
+export const extractAttributesFromData = (
+  data: ProductData[],
+  sourceColumn: string,
+  onProgress?: ProgressCallback
+): AttributeExtraction[] => {
+  const results: AttributeExtraction[] = [];
+
+  data.forEach((row, rowIndex) => {
+    const source = String(row[sourceColumn] ?? '').trim();
+    if (source) {
+      const attributes = extractAttributes(source);
+      if (attributes.length > 0) results.push({ rowIndex, source: source.normalize('NFC'), attributes });
+    }
+    if (onProgress && ((rowIndex + 1) % PROGRESS_STEP === 0 || rowIndex === data.length - 1)) {
+      onProgress(rowIndex + 1, data.length);
+    }
+  });
+
+  return results;
+};
+
+/**
+ * Write extracted values into their columns, creating missing ones.
+ * Filled cells are kept unless overwrite is set.
+ */
+export const applyExtractedAttributes = (
+  data: ProductData[],
+  columns: string[],
+  extractions: AttributeExtraction[],
+  options: { overwrite?: boolean; minConfidence?: number; attributes?: string[] } = {}
+): { data: ProductData[]; columns: string[]; filled: number } => {
+  const { overwrite = false, minConfidence = 0, attributes } = options;
+  const allowed = attributes ? new Set(attributes) : null;
+  const updated = data.map(row => ({ ...row }));
+  const newColumns = [...columns];
+  let filled = 0;
+
+  extractions.forEach(({ rowIndex, attributes: extracted }) => {
+    const row = updated[rowIndex];
+    if (!row) return;
+
+    extracted.forEach(attr => {
+      if (attr.confidence < minConfidence || (allowed && !allowed.has(attr.attribute))) return;
+
+      const current = row[attr.attribute];
+      const isEmpty = current === undefined || current === null || String(current).trim() === '';
+      if (!isEmpty && !overwrite) return;
+
+      if (!newColumns.includes(attr.attribute)) newColumns.push(attr.attribute);
+      row[attr.attribute] = attr.value;
+      filled++;
+    });
+  });
+
+  return { data: updated, columns: newColumns, filled };
+};
@@ -0,0 +1,193 @@
+// =====================================================
+// ULTRACLEAN - Catalog History (previously processed products)
+// =====================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { HistoricalProduct, HistoryMatch, HistoryMatchType, ProductData } from './types';
+import { findBarcodeColumn, isBarcodeColumn, validateGtin } from './gtin';
+import { DEFAULT_SIMILARITY_THRESHOLD, findSimilarPairs, tokenizeForSimilarity } from './similarityIndex';
+
+const PAGE_SIZE = 1000;
+
+// Exact identifiers win over name similarity
+const MATCH_PRIORITY: Record<HistoryMatchType, number> = { gtin: 0, sku: 1, nome: 2 };
+
+const findSkuColumn = (columns: string[]): string | undefined =>
+  columns.find(col => !isBarcodeColumn(col) && /sku|c[oó]digo/i.test(col) && !/pai/i.test(col));
+
+const findNameColumn = (columns: string[]): string | undefined =>
+  columns.find(col => /^(nome|t[ií]tulo)/i.test(col.trim())) ??
+  columns.find(col => /descri/i.test(col));
+
+const normalizeSku = (value: unknown): string => String(value ?? '').trim().toUpperCase();
+
+const normalizeValidGtin = (value: unknown): string | null => {
+  const result = validateGtin(value);
+  return result.valid ? result.normalized : null;
+};
+
+/**
+ * SKU and barcode of a row, sent with the enrichment so later uploads
+ * can be matched against it even when those columns aren't analyzed
+ */
+export const getProductIdentifiers = (
+  row: ProductData,
+  columns: string[]
+): { sku?: string; gtin?: string } => {
+  const skuColumn = findSkuColumn(columns);
+  const barcodeColumn = findBarcodeColumn(columns);
+  const sku = skuColumn ? String(row[skuColumn] ?? '').trim() : '';
+  const gtin = barcodeColumn ? normalizeValidGtin(row[barcodeColumn]) : null;
+
+  return {
+    ...(sku ? { sku } : {}),
+    ...(gtin ? { gtin } : {})
+  };
+};
+
+/**
+ * Load the products the enrichment function already processed for a user
+ */
+export const loadProcessedHistory = async (
+  userId: string,
+  onlyValidated = false
+): Promise<HistoricalProduct[]> => {
+  const history: HistoricalProduct[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabase
+      .from('produtos_processados')
+      .select('id, produto_original, nome_padronizado, descricao_enriquecida, categoria_inferida, marca_inferida, origem_inferida, necessita_revisao, razao_revisao, validado, validado_em, metadata, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (onlyValidated) {
+      query = query.eq('validado', true);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Falha ao carregar histórico: ${error.message}`);
+    }
+
+    data.forEach(record => {
+      const original = (record.produto_original ?? {}) as ProductData;
+      const metadata = (record.metadata ?? {}) as Record<string, unknown>;
+      const columns = Object.keys(original);
+      const nameColumn = findNameColumn(columns);
+      const skuColumn = findSkuColumn(columns);
+      const barcodeColumn = findBarcodeColumn(columns);
+
+      history.push({
+        id: record.id,
+        sku: normalizeSku(metadata.sku ?? (skuColumn ? original[skuColumn] : '')) || null,
+        gtin: normalizeValidGtin(metadata.gtin ?? (barcodeColumn ? original[barcodeColumn] : '')),
+        name: String((nameColumn ? original[nameColumn] : '') || record.nome_padronizado || ''),
+        enriched: {
+          nome_padronizado: record.nome_padronizado ?? undefined,
+          descricao_enriquecida: record.descricao_enriquecida ?? undefined,
+          categoria_inferida: record.categoria_inferida ?? undefined,
+          marca_inferida: record.marca_inferida ?? undefined,
+          origem_inferida: record.origem_inferida ?? undefined,
+          ncm_sugerido: metadata.ncm_sugerido ?? undefined
+        },
+        necessitaRevisao: record.necessita_revisao,
+        razaoRevisao: record.razao_revisao,
+        validado: record.validado,
+        validadoEm: record.validado_em,
+        createdAt: record.created_at
+      });
+    });
+
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return history;
+};
+
+/**
+ * Persist the validation state of processed products
+ */
+export const setProcessedProductsValidated = async (ids: string[], validado: boolean): Promise<void> => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('produtos_processados')
+    .update({ validado, validado_em: validado ? new Date().toISOString() : null })
+    .in('id', ids);
+
+  if (error) {
+    throw new Error(`Falha ao salvar validação: ${error.message}`);
+  }
+};
+
+/**
+ * Match an upload against previously processed products by GTIN, SKU and
+ * name similarity. Each row gets at most one match: the strongest kind of
+ * match first, then validated records, then the most recent one.
+ */
+export const matchAgainstHistory = (
+  data: ProductData[],
+  columns: string[],
+  history: HistoricalProduct[],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD
+): HistoryMatch[] => {
+  if (data.length === 0 || history.length === 0) return [];
+
+  const skuColumn = findSkuColumn(columns);
+  const barcodeColumn = findBarcodeColumn(columns);
+  const nameColumn = findNameColumn(columns);
+
+  const bySku = new Map<string, number[]>();
+  const byGtin = new Map<string, number[]>();
+  history.forEach((record, index) => {
+    if (record.sku) bySku.set(record.sku, [...(bySku.get(record.sku) ?? []), index]);
+    if (record.gtin) byGtin.set(record.gtin, [...(byGtin.get(record.gtin) ?? []), index]);
+  });
+
+  const candidates = new Map<number, { record: number; matchType: HistoryMatchType; similarity: number }[]>();
+  const addCandidate = (rowIndex: number, record: number, matchType: HistoryMatchType, similarity: number) => {
+    candidates.set(rowIndex, [...(candidates.get(rowIndex) ?? []), { record, matchType, similarity }]);
+  };
+
+  data.forEach((row, rowIndex) => {
+    const gtin = barcodeColumn ? normalizeValidGtin(row[barcodeColumn]) : null;
+    byGtin.get(gtin)?.forEach(record => addCandidate(rowIndex, record, 'gtin', 1));
+
+    const sku = skuColumn ? normalizeSku(row[skuColumn]) : '';
+    if (sku) bySku.get(sku)?.forEach(record => addCandidate(rowIndex, record, 'sku', 1));
+  });
+
+  // Upload rows and history share one index; only pairs across the two count
+  if (nameColumn) {
+    const tokenSets = [
+      ...data.map(row => tokenizeForSimilarity(String(row[nameColumn] ?? ''))),
+      ...history.map(record => tokenizeForSimilarity(record.name))
+    ];
+    findSimilarPairs(tokenSets, threshold).forEach(({ a, b, similarity }) => {
+      const [row, other] = a < b ? [a, b] : [b, a];
+      if (row < data.length && other >= data.length) {
+        addCandidate(row, other - data.length, 'nome', similarity);
+      }
+    });
+  }
+
+  const matches: HistoryMatch[] = [];
+  candidates.forEach((list, rowIndex) => {
+    const [best] = [...list].sort((x, y) =>
+      MATCH_PRIORITY[x.matchType] - MATCH_PRIORITY[y.matchType] ||
+      y.similarity - x.similarity ||
+      Number(history[y.record].validado) - Number(history[x.record].validado) ||
+      history[y.record].createdAt.localeCompare(history[x.record].createdAt)
+    );
+    matches.push({
+      rowIndex,
+      productId: history[best.record].id,
+      matchType: best.matchType,
+      similarity: best.similarity
+    });
+  });
+
+  return matches.sort((x, y) => x.rowIndex - y.rowIndex);
+};
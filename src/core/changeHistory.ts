@@ -0,0 +1,141 @@
+// =====================================================
+// ULTRACLEAN - Change History (undo/redo)
+// =====================================================
+
+import type { ChangeHistory, HistoryEntry, HistoryPatch } from './types';
+
+// Older entries are dropped past this point; the history is saved with the session
+export const MAX_HISTORY_ENTRIES = 30;
+
+export const EMPTY_HISTORY: ChangeHistory = { past: [], future: [] };
+
+let entryCounter = 0;
+
+const sameValue = (a: unknown, b: unknown): boolean => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffValue = (key: string, before: unknown, after: unknown): HistoryPatch | null => {
+  if (before === after) return null;
+
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    const rows = after
+      .map((value, index) => ({ index, before: before[index], after: value }))
+      .filter(row => !sameValue(row.before, row.after));
+    return rows.length > 0 ? { key, kind: 'rows', rows } : null;
+  }
+
+  return sameValue(before, after) ? null : { key, kind: 'replace', before, after };
+};
+
+/**
+ * Record what changed between two snapshots of the tracked state
+ * (only the keys present in `after` are compared). Returns null when nothing changed
+ */
+export const createHistoryEntry = (
+  label: string,
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): HistoryEntry | null => {
+  const patches = Object.keys(after)
+    .map(key => diffValue(key, before[key], after[key]))
+    .filter((patch): patch is HistoryPatch => patch !== null);
+
+  if (patches.length === 0) return null;
+
+  entryCounter += 1;
+  return {
+    id: `${Date.now().toString(36)}-${entryCounter}`,
+    label,
+    createdAt: new Date().toISOString(),
+    patches,
+  };
+};
+
+/**
+ * Apply an entry backwards (undo) or forwards (redo) on the current state.
+ * Returns only the keys the entry touches
+ */
+export const applyHistoryEntry = (
+  state: Record<string, unknown>,
+  entry: HistoryEntry,
+  direction: 'undo' | 'redo'
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  const patches = direction === 'undo' ? [...entry.patches].reverse() : entry.patches;
+
+  patches.forEach(patch => {
+    if (patch.kind === 'replace') {
+      result[patch.key] = direction === 'undo' ? patch.before : patch.after;
+      return;
+    }
+
+    const current = (result[patch.key] ?? state[patch.key]) as unknown[] | undefined;
+    if (!Array.isArray(current)) {
+      throw new Error(`Histórico inconsistente: "${patch.key}" não é uma lista`);
+    }
+    const rows = [...current];
+    patch.rows.forEach(row => {
+      rows[row.index] = direction === 'undo' ? row.before : row.after;
+    });
+    result[patch.key] = rows;
+  });
+
+  return result;
+};
+
+/**
+ * Add a new entry; anything that had been undone can no longer be redone
+ */
+export const pushHistoryEntry = (
+  history: ChangeHistory,
+  entry: HistoryEntry,
+  limit = MAX_HISTORY_ENTRIES
+): ChangeHistory => ({
+  past: [...history.past, entry].slice(-limit),
+  future: [],
+});
+
+/**
+ * Undo the last `steps` entries, returning the state changes and the new history
+ */
+export const undoHistory = (
+  history: ChangeHistory,
+  state: Record<string, unknown>,
+  steps = 1
+): { history: ChangeHistory; changes: Record<string, unknown> } | null => {
+  const count = Math.min(steps, history.past.length);
+  if (count <= 0) return null;
+
+  const undone = history.past.slice(-count);
+  let changes: Record<string, unknown> = {};
+  [...undone].reverse().forEach(entry => {
+    changes = { ...changes, ...applyHistoryEntry({ ...state, ...changes }, entry, 'undo') };
+  });
+
+  return {
+    history: { past: history.past.slice(0, -count), future: [...undone, ...history.future] },
+    changes,
+  };
+};
+
+/**
+ * Redo the next `steps` undone entries, returning the state changes and the new history
+ */
+export const redoHistory = (
+  history: ChangeHistory,
+  state: Record<string, unknown>,
+  steps = 1
+): { history: ChangeHistory; changes: Record<string, unknown> } | null => {
+  const count = Math.min(steps, history.future.length);
+  if (count <= 0) return null;
+
+  const redone = history.future.slice(0, count);
+  let changes: Record<string, unknown> = {};
+  redone.forEach(entry => {
+    changes = { ...changes, ...applyHistoryEntry({ ...state, ...changes }, entry, 'redo') };
+  });
+
+  return {
+    history: { past: [...history.past, ...redone], future: history.future.slice(count) },
+    changes,
+  };
+};
@@ -0,0 +1,76 @@
+// =====================================================
+// ULTRACLEAN - Cell Change Review (dry run)
+// =====================================================
+
+import type { CellChange, ProductData } from './types';
+
+// AI fields that can replace a spreadsheet column, and how that column is recognised
+const ENRICHED_TARGETS: Array<{ field: string; column: RegExp }> = [
+  { field: 'nome_padronizado', column: /^(nome|t[ií]tulo)/i },
+  { field: 'descricao_enriquecida', column: /^descri/i },
+  { field: 'categoria_inferida', column: /^categoria/i },
+  { field: 'marca_inferida', column: /^(marca|fabricante)/i },
+  { field: 'origem_inferida', column: /^origem/i }
+];
+
+/**
+ * Identifier of a cell change, shared by the diff grid and applyCellChanges
+ */
+export const getCellChangeId = (rowIndex: number, column: string): string => `${rowIndex}:${column}`;
+
+/**
+ * Write only the accepted changes into the data; untouched rows keep their identity
+ */
+export const applyCellChanges = (
+  data: ProductData[],
+  changes: CellChange[],
+  accepted: Set<string>
+): ProductData[] => {
+  const result = [...data];
+
+  changes.forEach(change => {
+    if (!accepted.has(change.id) || !data[change.rowIndex]) return;
+    if (result[change.rowIndex] === data[change.rowIndex]) {
+      result[change.rowIndex] = { ...data[change.rowIndex] };
+    }
+    result[change.rowIndex][change.column] = change.after;
+  });
+
+  return result;
+};
+
+/**
+ * Cells the AI would rewrite: each enriched field is compared with the first
+ * column it maps to (nome_padronizado → Nome, categoria_inferida → Categoria...)
+ */
+export const diffEnrichment = (
+  products: Array<{ original: ProductData; enriched: Record<string, unknown> }>,
+  columns: string[]
+): CellChange[] => {
+  const targets = ENRICHED_TARGETS
+    .map(({ field, column }) => ({ field, column: columns.find(col => column.test(col.trim())) }))
+    .filter((target): target is { field: string; column: string } => Boolean(target.column));
+
+  const changes: CellChange[] = [];
+
+  products.forEach(({ original, enriched }, rowIndex) => {
+    targets.forEach(({ field, column }) => {
+      const suggestion = enriched[field];
+      if (typeof suggestion !== 'string' || !suggestion.trim()) return;
+
+      const before = original[column];
+      if (String(before ?? '').trim() === suggestion.trim()) return;
+
+      changes.push({
+        id: getCellChangeId(rowIndex, column),
+        rowIndex,
+        column,
+        before,
+        after: suggestion.trim(),
+        steps: [{ source: 'ai', rule: field, before, after: suggestion.trim() }]
+      });
+    });
+  });
+
+  return changes;
+};
@@ -0,0 +1,152 @@
+// =====================================================
+// ULTRACLEAN - Column Mapping
+// =====================================================
+
+import { getPresetColumnNames, matchPresetColumn } from '@/config';
+import { normalizeColumnName } from './importManager';
+import type {
+  ColumnMapping,
+  ColumnMappingSuggestion,
+  ColumnMatchType,
+  ProductData
+} from './types';
+
+// Confidence assigned to each way a column can be matched
+const MATCH_CONFIDENCE: Record<ColumnMatchType, number> = {
+  saved: 1,
+  manual: 1,
+  exact: 1,
+  normalized: 0.9,
+  partial: 0.6,
+  similar: 0.4,
+  none: 0
+};
+
+const MIN_TOKEN_SIMILARITY = 0.5;
+
+/**
+ * Dice coefficient over the words of two column names
+ */
+const tokenSimilarity = (a: string, b: string): number => {
+  const tokensA = new Set(normalizeColumnName(a).split(' ').filter(Boolean));
+  const tokensB = new Set(normalizeColumnName(b).split(' ').filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return (2 * shared) / (tokensA.size + tokensB.size);
+};
+
+/**
+ * Confidence level label shown in the mapping wizard
+ */
+export const getConfidenceLevel = (confidence: number): 'alta' | 'média' | 'baixa' => {
+  if (confidence >= 0.9) return 'alta';
+  if (confidence >= 0.6) return 'média';
+  return 'baixa';
+};
+
+/**
+ * Suggest a preset column for every detected column.
+ * A saved supplier mapping wins; otherwise the preset matcher is used,
+ * falling back to word overlap with the preset column names.
+ */
+export const suggestColumnMapping = (
+  columns: string[],
+  savedMapping: ColumnMapping = {}
+): ColumnMappingSuggestion[] => {
+  const presetColumns = getPresetColumnNames();
+
+  return columns.map(source => {
+    if (source in savedMapping) {
+      return { source, target: savedMapping[source], matchType: 'saved', confidence: MATCH_CONFIDENCE.saved };
+    }
+
+    const match = matchPresetColumn(source);
+    if (match) {
+      return { source, target: match.key, matchType: match.matchType, confidence: MATCH_CONFIDENCE[match.matchType] };
+    }
+
+    let best = { target: null as string | null, score: 0 };
+    presetColumns.forEach(target => {
+      const score = tokenSimilarity(source, target);
+      if (score > best.score) best = { target, score };
+    });
+
+    if (best.target && best.score >= MIN_TOKEN_SIMILARITY) {
+      return {
+        source,
+        target: best.target,
+        matchType: 'similar',
+        confidence: Math.round(MATCH_CONFIDENCE.similar * best.score * 100) / 100
+      };
+    }
+
+    return { source, target: null, matchType: 'none', confidence: MATCH_CONFIDENCE.none };
+  });
+};
+
+/**
+ * Turn suggestions into a plain source -> target mapping
+ */
+export const suggestionsToMapping = (suggestions: ColumnMappingSuggestion[]): ColumnMapping => {
+  return Object.fromEntries(suggestions.map(s => [s.source, s.target]));
+};
+
+/**
+ * Targets claimed by more than one source column
+ */
+export const findMappingConflicts = (mapping: ColumnMapping): Record<string, string[]> => {
+  const byTarget: Record<string, string[]> = {};
+  Object.entries(mapping).forEach(([source, target]) => {
+    if (!target) return;
+    byTarget[target] = [...(byTarget[target] || []), source];
+  });
+
+  return Object.fromEntries(Object.entries(byTarget).filter(([, sources]) => sources.length > 1));
+};
+
+/**
+ * Rename columns according to the mapping.
+ * Unmapped columns keep their name; on conflicts the first source column
+ * takes the target name and the others keep their own.
+ */
+export const applyColumnMapping = (
+  data: ProductData[],
+  columns: string[],
+  mapping: ColumnMapping
+): { data: ProductData[]; columns: string[] } => {
+  const used = new Set<string>();
+  const renamed: Record<string, string> = {};
+
+  columns.forEach(source => {
+    const target = mapping[source];
+    renamed[source] = target && !used.has(target) && (target === source || !columns.includes(target))
+      ? target
+      : source;
+    used.add(renamed[source]);
+  });
+
+  return {
+    columns: columns.map(col => renamed[col]),
+    data: data.map(row => {
+      const result: ProductData = {};
+      Object.entries(row).forEach(([key, value]) => {
+        result[renamed[key] ?? key] = value;
+      });
+      return result;
+    })
+  };
+};
+
+/**
+ * How closely two column sets match (Jaccard over normalized names),
+ * used to recognize a supplier's sheet layout
+ */
+export const columnSetSimilarity = (a: string[], b: string[]): number => {
+  const setA = new Set(a.map(normalizeColumnName));
+  const setB = new Set(b.map(normalizeColumnName));
+  if (setA.size === 0 && setB.size === 0) return 0;
+
+  const shared = [...setA].filter(col => setB.has(col)).length;
+  return shared / (setA.size + setB.size - shared);
+};
@@ -5,88 +5,155 @@
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
 import type { 
+  CellChange,
+  ChangeSource,
+  ChangeStep,
   ColumnConfig, 
+  CsvImportOptions,
+  DuplicateDetectionOptions,
   DuplicateResult, 
+  ProcessDataOptions,
   ProcessingResult, 
   ProcessingStats,
-  ProductData 
+  ProductData,
+  ProgressCallback,
+  AbbreviationChange,
+  AbbreviationCorrection,
+  AbbreviationMatch,
+  AbbreviationMatcher,
+  ExportFormat
 } from './types';
-import { DEFAULT_ABBREVIATIONS } from './types';
+import type { AbbreviationScopeRule } from '@/config';
+import { DEFAULT_ABBREVIATIONS, DEFAULT_ABBREVIATION_SCOPES } from './types';
+import { applyAbbreviations, getAbbreviationMatcher } from './abbreviationMatcher';
+import { readWorkbook, summarizeSheets, mergeSheets, getSourceLine } from './importManager';
+import {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  tokenizeForSimilarity,
+  findSimilarPairs,
+  clusterSimilarPairs
+} from './similarityIndex';
+import { findBarcodeColumn, isBarcodeColumn, validateGtin } from './gtin';
+import { compileTransformSteps, describeTransformRule } from './transformRules';
+import { getCellChangeId } from './changeSet';
+
+// Rows between progress reports in long loops
+const PROGRESS_INTERVAL = 500;
 
 /**
- * Parse Excel/CSV file and extract data
+ * Parse Excel/CSV file and extract data.
+ * Every non-empty sheet is merged unless specific sheet names are given.
  */
-export const parseFile = (file: File): Promise<{ data: ProductData[]; columns: string[] }> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (event) => {
-      try {
-        const data = new Uint8Array(event.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(data, { type: 'array' });
-        const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-        const jsonData = XLSX.utils.sheet_to_json(firstSheet) as ProductData[];
-        
-        const columns = jsonData.length > 0 ? Object.keys(jsonData[0]).filter(k => !k.startsWith('__')) : [];
-        
-        resolve({ data: jsonData, columns });
-      } catch (error) {
-        reject(new Error('Erro ao ler o arquivo. Verifique se é um Excel/CSV válido.'));
-      }
-    };
-    
-    reader.onerror = () => reject(new Error('Erro na leitura do arquivo'));
-    reader.readAsArrayBuffer(file);
-  });
+export const parseFile = async (
+  file: File,
+  sheetNames?: string[],
+  csvOptions?: CsvImportOptions
+): Promise<{ data: ProductData[]; columns: string[] }> => {
+  try {
+    const workbook = await readWorkbook(file, csvOptions);
+    const selected = sheetNames ?? summarizeSheets(workbook, 0)
+      .filter(sheet => sheet.rowCount > 0)
+      .map(sheet => sheet.name);
+
+    return mergeSheets(workbook, selected, file.name);
+  } catch (error) {
+    // Keep the reader's reason (e.g. "File is password-protected") instead of a bare "invalid"
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Erro ao ler o arquivo. Verifique se é um Excel/CSV válido. (${reason})`);
+  }
 };
 
 /**
- * Detect duplicate entries in the dataset
+ * Detect duplicate entries in the dataset.
+ * Repeated SKUs and barcodes shared by different SKUs are exact matches; similar
+ * descriptions are grouped through a MinHash/LSH index over accent-folded,
+ * abbreviation-expanded text.
  */
 export const detectDuplicates = (
   data: ProductData[],
-  columnConfig: Record<string, ColumnConfig>
+  columnConfig: Record<string, ColumnConfig>,
+  options: DuplicateDetectionOptions = {},
+  onProgress?: ProgressCallback
 ): DuplicateResult[] => {
   const duplicates: DuplicateResult[] = [];
+  // Three passes over the data: SKU, barcode, then description
+  const total = data.length * 3;
   
+  const sourceFilesOf = (indexes: number[]) =>
+    [...new Set(indexes.map(i => data[i].__source_file as string | undefined).filter(Boolean))] as string[];
+
   // Find SKU column
   const skuColumn = Object.keys(columnConfig).find(col =>
-    col.toLowerCase().includes('sku') || 
-    col.toLowerCase().includes('código') || 
-    col.toLowerCase().includes('codigo')
+    !isBarcodeColumn(col) && (
+      col.toLowerCase().includes('sku') || 
+      col.toLowerCase().includes('código') || 
+      col.toLowerCase().includes('codigo')
+    )
   );
   
   if (skuColumn) {
-    const skuMap = new Map<string, { index: number; sourceFile?: string }[]>();
+    const skuMap = new Map<string, number[]>();
     
     data.forEach((row, index) => {
+      if (index % PROGRESS_INTERVAL === 0) onProgress?.(index, total);
       const sku = String(row[skuColumn] || '').trim();
       if (sku) {
-        const entry = { index, sourceFile: row.__source_file as string | undefined };
         if (!skuMap.has(sku)) {
           skuMap.set(sku, []);
         }
-        skuMap.get(sku)!.push(entry);
+        skuMap.get(sku)!.push(index);
       }
     });
     
-    skuMap.forEach((entries, sku) => {
-      if (entries.length > 1) {
-        const sourceFiles = [...new Set(entries.map(e => e.sourceFile).filter(Boolean))] as string[];
-        const isCrossFile = sourceFiles.length > 1;
+    skuMap.forEach((indexes, sku) => {
+      if (indexes.length > 1) {
+        const sourceFiles = sourceFilesOf(indexes);
         
         duplicates.push({
           tipo: 'SKU Duplicado',
           valor: sku,
-          linhas: entries.map(e => e.index),
+          linhas: indexes,
           similaridade: 1.0,
-          isCrossFile,
+          isCrossFile: sourceFiles.length > 1,
           sourceFiles
         });
       }
     });
   }
   
+  // Same barcode on rows with different SKUs
+  const barcodeColumn = findBarcodeColumn(Object.keys(columnConfig));
+
+  if (barcodeColumn) {
+    const gtinMap = new Map<string, number[]>();
+
+    data.forEach((row, index) => {
+      if (index % PROGRESS_INTERVAL === 0) onProgress?.(data.length + index, total);
+      const gtin = validateGtin(row[barcodeColumn]);
+      if (!gtin.valid) return;
+      if (!gtinMap.has(gtin.normalized)) {
+        gtinMap.set(gtin.normalized, []);
+      }
+      gtinMap.get(gtin.normalized)!.push(index);
+    });
+
+    gtinMap.forEach((indexes, gtin) => {
+      const skus = new Set(indexes.map(i => String(skuColumn ? data[i][skuColumn] ?? '' : i).trim()));
+      if (indexes.length > 1 && skus.size > 1) {
+        const sourceFiles = sourceFilesOf(indexes);
+
+        duplicates.push({
+          tipo: 'GTIN Duplicado',
+          valor: gtin,
+          linhas: indexes,
+          similaridade: 1.0,
+          isCrossFile: sourceFiles.length > 1,
+          sourceFiles
+        });
+      }
+    });
+  }
+
   // Find description column for similarity check
   const descColumn = Object.keys(columnConfig).find(col =>
     col.toLowerCase().includes('descricao') ||
@@ -95,191 +162,212 @@ export const detectDuplicates = (
   );
   
   if (descColumn) {
-    const maxItemsForFullComparison = 500;
-    const dataLength = data.length;
-    
-    if (dataLength <= maxItemsForFullComparison) {
-      for (let i = 0; i < dataLength; i++) {
-        if (duplicates.some(d => d.linhas.includes(i) && d.tipo === 'Descrição Similar')) continue;
-        
-        const desc1 = String(data[i][descColumn] || '').toLowerCase().trim();
-        if (!desc1 || desc1.length < 5) continue;
-        
-        for (let j = i + 1; j < dataLength; j++) {
-          const desc2 = String(data[j][descColumn] || '').toLowerCase().trim();
-          if (!desc2 || desc2.length < 5) continue;
-          
-          const similarity = calculateSimilarity(desc1, desc2);
-          if (similarity > 0.85) {
-            const sourceFiles = [
-              data[i].__source_file as string,
-              data[j].__source_file as string
-            ].filter(Boolean);
-            const uniqueFiles = [...new Set(sourceFiles)];
-            
-            duplicates.push({
-              tipo: 'Descrição Similar',
-              valor: desc1.substring(0, 40) + (desc1.length > 40 ? '...' : ''),
-              linhas: [i, j],
-              similaridade: Math.round(similarity * 100) / 100,
-              isCrossFile: uniqueFiles.length > 1,
-              sourceFiles: uniqueFiles
-            });
-            break;
-          }
-        }
-      }
-    } else {
-      // Use fingerprinting for large datasets
-      const fingerprints = new Map<string, { index: number; sourceFile?: string }[]>();
-      
-      data.forEach((row, index) => {
-        const desc = String(row[descColumn] || '').toLowerCase().trim();
-        if (!desc || desc.length < 5) return;
-        
-        const words = desc.split(/\W+/).filter(w => w.length > 2).slice(0, 4);
-        const fingerprint = words.sort().join('_');
-        
-        if (fingerprint) {
-          if (!fingerprints.has(fingerprint)) {
-            fingerprints.set(fingerprint, []);
-          }
-          fingerprints.get(fingerprint)!.push({ 
-            index, 
-            sourceFile: row.__source_file as string | undefined 
-          });
-        }
-      });
-      
-      fingerprints.forEach((entries) => {
-        if (entries.length > 1) {
-          for (let i = 0; i < entries.length; i++) {
-            for (let j = i + 1; j < entries.length; j++) {
-              const idx1 = entries[i].index;
-              const idx2 = entries[j].index;
-              
-              if (duplicates.some(d => 
-                d.tipo === 'Descrição Similar' && 
-                d.linhas.includes(idx1) && 
-                d.linhas.includes(idx2)
-              )) continue;
-              
-              const desc1 = String(data[idx1][descColumn] || '').toLowerCase().trim();
-              const desc2 = String(data[idx2][descColumn] || '').toLowerCase().trim();
-              
-              const similarity = calculateSimilarity(desc1, desc2);
-              if (similarity > 0.85) {
-                const sourceFiles = [
-                  entries[i].sourceFile,
-                  entries[j].sourceFile
-                ].filter(Boolean) as string[];
-                const uniqueFiles = [...new Set(sourceFiles)];
-                
-                duplicates.push({
-                  tipo: 'Descrição Similar',
-                  valor: desc1.substring(0, 40) + (desc1.length > 40 ? '...' : ''),
-                  linhas: [idx1, idx2],
-                  similaridade: Math.round(similarity * 100) / 100,
-                  isCrossFile: uniqueFiles.length > 1,
-                  sourceFiles: uniqueFiles
-                });
-              }
-            }
-          }
-        }
+    const threshold = options.similarityThreshold ?? DEFAULT_SIMILARITY_THRESHOLD;
+    const matcher = getAbbreviationMatcher(
+      options.abbreviations ?? DEFAULT_ABBREVIATIONS,
+      options.abbreviationScopes ?? DEFAULT_ABBREVIATION_SCOPES
+    );
+
+    const tokenSets = data.map(row => {
+      const desc = String(row[descColumn] || '').trim();
+      if (desc.length < 5) return [];
+      return tokenizeForSimilarity(expandAbbreviations(desc, matcher, descColumn).expanded);
+    });
+
+    const pairs = findSimilarPairs(tokenSets, threshold, {
+      onProgress: (processed) => onProgress?.(data.length * 2 + processed, total)
+    });
+
+    // Weakest link of each group, so the score never overstates a match
+    const lowest = new Map<number, number>();
+    pairs.forEach(({ a, b, similarity }) => {
+      lowest.set(a, Math.min(lowest.get(a) ?? 1, similarity));
+      lowest.set(b, Math.min(lowest.get(b) ?? 1, similarity));
+    });
+
+    clusterSimilarPairs(pairs).forEach(indexes => {
+      const desc = String(data[indexes[0]][descColumn] || '').toLowerCase().trim();
+      const sourceFiles = sourceFilesOf(indexes);
+      const similarity = indexes.reduce((min, i) => Math.min(min, lowest.get(i) ?? 1), 1);
+
+      duplicates.push({
+        tipo: 'Descrição Similar',
+        valor: desc.substring(0, 40) + (desc.length > 40 ? '...' : ''),
+        linhas: indexes,
+        similaridade: Math.round(similarity * 100) / 100,
+        isCrossFile: sourceFiles.length > 1,
+        sourceFiles
       });
-    }
+    });
   }
   
+  onProgress?.(total, total);
   return duplicates;
 };
 
 /**
- * Calculate string similarity using Jaccard index
+ * Correct abbreviations in text. With a column, each abbreviation's scope
+ * (name or description columns only) is respected
  */
-const calculateSimilarity = (str1: string, str2: string): number => {
-  const words1 = new Set(str1.split(/\W+/).filter(w => w.length > 2));
-  const words2 = new Set(str2.split(/\W+/).filter(w => w.length > 2));
-  
-  if (words1.size === 0 || words2.size === 0) return 0;
-  
-  const intersection = new Set([...words1].filter(x => words2.has(x)));
-  const union = new Set([...words1, ...words2]);
-  
-  return intersection.size / union.size;
+export const correctAbbreviations = (
+  text: string,
+  abbreviations: Record<string, string>,
+  column?: string,
+  scopes: Record<string, AbbreviationScopeRule> = DEFAULT_ABBREVIATION_SCOPES
+): string => {
+  if (!text || typeof text !== 'string') return text;
+  return applyAbbreviations(text, getAbbreviationMatcher(abbreviations, scopes), column).expanded;
 };
 
+const toAbbreviationChange = (match: AbbreviationMatch): AbbreviationChange => ({
+  original: match.original,
+  corrigido: match.replacement,
+  tipo: 'abreviacao'
+});
+
 /**
- * Correct abbreviations in text
+ * Expand abbreviations in text, listing every replacement made
  */
-export const correctAbbreviations = (
+export const expandAbbreviations = (
   text: string,
-  abbreviations: Record<string, string>
-): string => {
-  if (!text || typeof text !== 'string') return text;
-  
-  let corrected = text;
-  Object.entries(abbreviations).forEach(([abbr, full]) => {
-    const pattern = new RegExp(`\\b${abbr}\\b`, 'gi');
-    corrected = corrected.replace(pattern, full);
+  abbreviations: Record<string, string> | AbbreviationMatcher,
+  column?: string
+): { expanded: string; changes: AbbreviationChange[] } => {
+  const matcher = abbreviations.entries instanceof Map
+    ? abbreviations as AbbreviationMatcher
+    : getAbbreviationMatcher(abbreviations as Record<string, string>, DEFAULT_ABBREVIATION_SCOPES);
+  const { expanded, matches } = applyAbbreviations(text, matcher, column);
+  return { expanded, changes: matches.map(toAbbreviationChange) };
+};
+
+/**
+ * Scan the given columns for abbreviations to expand
+ */
+export const findAbbreviationCorrections = (
+  data: ProductData[],
+  columns: string[],
+  abbreviations: Record<string, string>,
+  onProgress?: ProgressCallback,
+  scopes: Record<string, AbbreviationScopeRule> = DEFAULT_ABBREVIATION_SCOPES
+): AbbreviationCorrection[] => {
+  const matcher = getAbbreviationMatcher(abbreviations, scopes);
+  const corrections: AbbreviationCorrection[] = [];
+
+  data.forEach((row, rowIndex) => {
+    if (rowIndex % PROGRESS_INTERVAL === 0) onProgress?.(rowIndex, data.length);
+
+    columns.forEach(column => {
+      const original = row[column]?.toString() || '';
+      if (!original.trim()) return;
+
+      const { expanded, changes } = expandAbbreviations(original, matcher, column);
+      if (changes.length > 0) {
+        corrections.push({ rowIndex, column, original, corrected: expanded, alterations: changes });
+      }
+    });
   });
-  
-  return corrected;
+
+  onProgress?.(data.length, data.length);
+  return corrections;
 };
 
 /**
- * Main data processing function
+ * Main data processing function.
+ * Each column runs its action, then its transformation rules in order, then
+ * abbreviation expansion. Rules see the row as already processed so far, and
+ * also run on ignored columns; protected columns are never touched. Analyzed
+ * columns get no default value, but their rules and, when abbreviations are
+ * given, abbreviation expansion still apply; filling them is left to the AI.
+ * With trackChanges, every changed cell is listed with the steps behind it.
  */
 export const processData = (
   data: ProductData[],
   columnConfig: Record<string, ColumnConfig>,
-  abbreviations: Record<string, string>
+  abbreviations: Record<string, string>,
+  onProgress?: ProgressCallback,
+  options: ProcessDataOptions = {}
 ): ProcessingResult => {
   const enrichedData = data.map(row => ({ ...row }));
   const stats: ProcessingStats = {
     camposPreenchidos: 0,
     abreviaturasCorrigidas: 0,
     camposProtegidos: 0,
-    camposIgnorados: 0
+    camposIgnorados: 0,
+    transformacoesAplicadas: 0
   };
+  const changes: CellChange[] = [];
+  const abbreviationMatcher = getAbbreviationMatcher(
+    abbreviations,
+    options.abbreviationScopes ?? DEFAULT_ABBREVIATION_SCOPES
+  );
+
+  const transforms = new Map(
+    Object.entries(columnConfig)
+      .filter(([, config]) => config.transforms?.length)
+      .map(([column, config]) => [column, compileTransformSteps(config.transforms)])
+  );
   
   enrichedData.forEach((row, rowIndex) => {
+    if (rowIndex % PROGRESS_INTERVAL === 0) onProgress?.(rowIndex, data.length);
+
     Object.entries(columnConfig).forEach(([column, config]) => {
       const originalValue = row[column];
       let newValue = originalValue;
+      const transform = transforms.get(column);
+      const steps: ChangeStep[] = [];
+
+      const record = (source: ChangeSource, rule: string, before: unknown, after: unknown) => {
+        if (options.trackChanges) steps.push({ source, rule, before, after });
+      };
       
-      if (config.isProtected || config.action === 'ignore') {
+      if (config.isProtected || (config.action === 'ignore' && !transform)) {
         if (config.isProtected) stats.camposProtegidos++;
         if (config.action === 'ignore') stats.camposIgnorados++;
         return;
       }
       
-      if (config.action === 'default_all' && config.defaultValue) {
+      if (config.action === 'ignore') {
+        // Only the rules run on ignored columns
+      } else if (config.action === 'default_all' && config.defaultValue) {
         newValue = config.defaultValue;
         stats.camposPreenchidos++;
+        record('default', 'Valor padrão para todos', originalValue, newValue);
       } else if (config.action === 'default_empty') {
         if (!originalValue || String(originalValue).trim() === '') {
           newValue = config.defaultValue || '';
-          if (newValue) stats.camposPreenchidos++;
-        }
-      } else if (config.action === 'analyze') {
-        if (!originalValue || String(originalValue).trim() === '') {
-          newValue = enrichField(column, row, data);
-          if (newValue !== originalValue) {
+          if (newValue) {
             stats.camposPreenchidos++;
+            record('default', 'Valor padrão para vazios', originalValue, newValue);
           }
         }
       }
+
+      if (transform) {
+        const beforeRules = newValue;
+        transform.forEach(({ rule, apply }) => {
+          const transformed = apply(newValue, row);
+          if (transformed !== newValue) record('transform', describeTransformRule(rule), newValue, transformed);
+          newValue = transformed;
+        });
+        if (newValue !== beforeRules) stats.transformacoesAplicadas++;
+      }
       
-      if (typeof newValue === 'string' && Object.keys(abbreviations).length > 0) {
-        const corrected = correctAbbreviations(newValue, abbreviations);
+      if (config.action !== 'ignore' && typeof newValue === 'string' && Object.keys(abbreviations).length > 0) {
+        const { expanded: corrected, matches } = applyAbbreviations(newValue, abbreviationMatcher, column);
         if (corrected !== newValue) {
+          if (options.trackChanges) {
+            record('abbreviation', [...new Set(matches.map(match => match.abbr))].join(', '), newValue, corrected);
+          }
           newValue = corrected;
           stats.abreviaturasCorrigidas++;
         }
       }
       
       enrichedData[rowIndex][column] = newValue;
+
+      if (options.trackChanges && newValue !== originalValue) {
+        changes.push({ id: getCellChangeId(rowIndex, column), rowIndex, column, before: originalValue, after: newValue, steps });
+      }
     });
   });
   
@@ -292,44 +380,26 @@ export const processData = (
     }
   });
   
-  return { enrichedData, stats };
+  onProgress?.(data.length, data.length);
+  return options.trackChanges ? { enrichedData, stats, changes } : { enrichedData, stats };
 };
 
-/**
- * Enrich specific field based on context
- */
-const enrichField = (
-  column: string,
-  row: ProductData,
-  allData: ProductData[]
-): unknown => {
-  const columnLower = column.toLowerCase();
-  
-  if (columnLower.includes('descricao') || columnLower.includes('descrição') || columnLower.includes('nome')) {
-    if (row.sku) return `Produto ${row.sku}`;
-    if (row.codigo) return `Produto ${row.codigo}`;
-    if (row.SKU) return `Produto ${row.SKU}`;
-    if (row.Codigo) return `Produto ${row.Codigo}`;
-  }
-  
-  if (columnLower.includes('categoria') || columnLower.includes('category')) {
-    return 'Geral';
-  }
-  
-  if (columnLower.includes('marca') || columnLower.includes('brand')) {
-    return 'Sem Marca';
-  }
-  
-  return row[column];
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json'
 };
 
 /**
- * Export data to Excel file
+ * Build an export file in memory, without touching the DOM.
+ * Extra sheets (e.g. the audit log) only fit in XLSX and are left out of CSV/JSON
  */
-export const exportToExcel = (
+export const buildExportFile = (
   data: Record<string, unknown>[],
-  filename: string
-): void => {
+  format: ExportFormat,
+  sheetName: string = 'Produtos',
+  extraSheets: Array<{ name: string; data: Record<string, unknown>[] }> = []
+): { buffer: ArrayBuffer; mimeType: string } => {
   // Clean internal metadata columns
   const cleanData = data.map(row => {
     const cleaned: Record<string, unknown> = {};
@@ -340,13 +410,42 @@ export const exportToExcel = (
     });
     return cleaned;
   });
-  
+
+  if (format === 'json') {
+    const bytes = new TextEncoder().encode(JSON.stringify(cleanData, null, 2));
+    return { buffer: bytes.buffer as ArrayBuffer, mimeType: EXPORT_MIME_TYPES.json };
+  }
+
   const ws = XLSX.utils.json_to_sheet(cleanData);
+
+  if (format === 'csv') {
+    const bytes = new TextEncoder().encode(XLSX.utils.sheet_to_csv(ws));
+    return { buffer: bytes.buffer as ArrayBuffer, mimeType: EXPORT_MIME_TYPES.csv };
+  }
+
+  ws['!cols'] = Object.keys(cleanData[0] || {}).map(key => ({
+    wch: Math.max(key.length, 15)
+  }));
   const wb = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(wb, ws, 'Produtos');
-  const excelBuffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-  const blob = new Blob([excelBuffer], { type: 'application/octet-stream' });
-  saveAs(blob, `${filename}.xlsx`);
+  XLSX.utils.book_append_sheet(wb, ws, sheetName.slice(0, 31));
+  extraSheets.forEach(sheet => {
+    const extra = XLSX.utils.json_to_sheet(sheet.data);
+    extra['!cols'] = Object.keys(sheet.data[0] || {}).map(key => ({ wch: Math.max(key.length, 15) }));
+    XLSX.utils.book_append_sheet(wb, extra, sheet.name.slice(0, 31));
+  });
+  const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'array' }) as ArrayBuffer;
+  return { buffer, mimeType: EXPORT_MIME_TYPES.xlsx };
+};
+
+/**
+ * Export data to Excel file
+ */
+export const exportToExcel = (
+  data: Record<string, unknown>[],
+  filename: string
+): void => {
+  const { buffer, mimeType } = buildExportFile(data, 'xlsx');
+  saveAs(new Blob([buffer], { type: mimeType }), `${filename}.xlsx`);
 };
 
 /**
@@ -366,7 +465,10 @@ export const exportDuplicatesReport = (
       'Similaridade': `${Math.round(dup.similaridade * 100)}%`,
       'Entre_Arquivos': dup.isCrossFile ? 'Sim' : 'Não',
       'Arquivos_Origem': dup.sourceFiles?.join(', ') || '',
-      'Linha_Original': line + 2
+      'Arquivo': String(originalData[line]?.__source_file ?? ''),
+      'Aba': String(originalData[line]?.__source_sheet ?? ''),
+      // Line in the row's own spreadsheet when known
+      'Linha_Original': getSourceLine(originalData[line], line)
     }))
   );
   
@@ -0,0 +1,176 @@
+// =====================================================
+// ULTRACLEAN - Duplicate Resolution
+// =====================================================
+
+import type {
+  DuplicateResolution,
+  DuplicateResolutionSummary,
+  DuplicateResult,
+  ProductData,
+  SurvivorshipRule
+} from './types';
+
+// Columns that identify a product, used to recognise a group across sessions
+const IDENTITY_COLUMN = /sku|c[oó]d|gtin|ean|nome|descri/i;
+
+const LONG_TEXT_COLUMN = /descri|nome|t[ií]tulo|observa/i;
+
+const isEmpty = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+const normalizeValue = (value: unknown): string =>
+  String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Stable key of a duplicate group inside the current dataset
+ */
+export const getDuplicateGroupId = (group: DuplicateResult): string =>
+  `${group.tipo}:${group.linhas.join(',')}`;
+
+/**
+ * Default survivorship rule of each column.
+ * Protected columns (price, stock...) always keep the survivor's value.
+ */
+export const suggestSurvivorshipRules = (
+  columns: string[],
+  protectedColumns: string[] = []
+): Record<string, SurvivorshipRule> => {
+  const locked = new Set(protectedColumns);
+  return Object.fromEntries(
+    columns.map(col => {
+      if (locked.has(col)) return [col, 'survivor'];
+      return [col, LONG_TEXT_COLUMN.test(col) ? 'longest' : 'non_empty'];
+    })
+  );
+};
+
+/**
+ * Build the golden record of a group of rows.
+ * Starts from the survivor and fills each column following its rule;
+ * protected columns are never taken from another row.
+ */
+export const mergeDuplicateRows = (
+  rows: ProductData[],
+  survivor: ProductData,
+  rules: Record<string, SurvivorshipRule>,
+  protectedColumns: string[] = []
+): ProductData => {
+  const locked = new Set(protectedColumns);
+  // Survivor first, so ties keep its value
+  const ordered = [survivor, ...rows.filter(row => row !== survivor)];
+  const golden: ProductData = { ...survivor };
+
+  Object.entries(rules).forEach(([col, rule]) => {
+    if (locked.has(col) || rule === 'survivor') return;
+
+    const filled = ordered.filter(row => !isEmpty(row[col]));
+    if (filled.length === 0) return;
+
+    if (rule === 'non_empty') {
+      golden[col] = filled[0][col];
+    } else if (rule === 'longest') {
+      golden[col] = filled.reduce((best, row) =>
+        String(row[col]).trim().length > String(best[col]).trim().length ? row : best
+      )[col];
+    } else if (rule === 'newest_file') {
+      golden[col] = filled.reduce((best, row) =>
+        (row.__source_modified ?? 0) > (best.__source_modified ?? 0) ? row : best
+      )[col];
+    }
+  });
+
+  return golden;
+};
+
+/**
+ * Apply the decisions taken for each group to the dataset.
+ * "merge" replaces the survivor with the golden record and drops the other rows,
+ * "keep" only drops the other rows; excluded (split) rows are left as they are.
+ * A row already dropped by an earlier group is ignored by later ones.
+ */
+export const applyDuplicateResolutions = (
+  data: ProductData[],
+  groups: DuplicateResult[],
+  resolutions: Record<string, DuplicateResolution>,
+  rules: Record<string, SurvivorshipRule>,
+  protectedColumns: string[] = []
+): DuplicateResolutionSummary => {
+  const removed = new Set<number>();
+  const replaced = new Map<number, ProductData>();
+  let merged = 0;
+
+  groups.forEach(group => {
+    const resolution = resolutions[getDuplicateGroupId(group)];
+    if (!resolution || (resolution.action !== 'merge' && resolution.action !== 'keep')) return;
+
+    const excluded = new Set(resolution.excluded);
+    const members = group.linhas.filter(index => !excluded.has(index) && !removed.has(index));
+    if (members.length < 2) return;
+
+    const survivor = members.includes(resolution.survivor) ? resolution.survivor : members[0];
+    const current = (index: number) => replaced.get(index) ?? data[index];
+
+    if (resolution.action === 'merge') {
+      replaced.set(
+        survivor,
+        mergeDuplicateRows(members.map(current), current(survivor), rules, protectedColumns)
+      );
+      merged++;
+    }
+
+    members.forEach(index => {
+      if (index !== survivor) removed.add(index);
+    });
+  });
+
+  return {
+    data: data
+      .map((row, index) => replaced.get(index) ?? row)
+      .filter((_, index) => !removed.has(index)),
+    merged,
+    removed: removed.size
+  };
+};
+
+/**
+ * Content fingerprint of a row, independent of its position in the file
+ */
+export const getRowFingerprint = (row: ProductData): string => {
+  const keys = Object.keys(row).filter(key => !key.startsWith('__'));
+  const identity = keys.filter(key => IDENTITY_COLUMN.test(key));
+
+  return (identity.length > 0 ? identity : keys)
+    .sort()
+    .map(key => normalizeValue(row[key]))
+    .join('|');
+};
+
+/**
+ * Fingerprints of the rows of a group, used to remember "not a duplicate"
+ */
+export const getGroupFingerprints = (group: DuplicateResult, data: ProductData[]): string[] =>
+  [...new Set(group.linhas.map(index => getRowFingerprint(data[index])))].sort();
+
+/**
+ * Drop groups the user already marked as "not a duplicate".
+ * A group stays hidden while all its rows belong to one suppressed group;
+ * a new row joining it brings the group back for review.
+ */
+export const filterSuppressedDuplicates = (
+  groups: DuplicateResult[],
+  data: ProductData[],
+  suppressions: string[][]
+): DuplicateResult[] => {
+  if (suppressions.length === 0) return groups;
+  const suppressedSets = suppressions.map(fingerprints => new Set(fingerprints));
+
+  return groups.filter(group => {
+    const fingerprints = getGroupFingerprints(group, data);
+    return !suppressedSets.some(set => fingerprints.every(fp => set.has(fp)));
+  });
+};
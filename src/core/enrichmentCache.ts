@@ -0,0 +1,48 @@
+// =====================================================
+// ULTRACLEAN - Enrichment Cache (per user, in the database)
+// =====================================================
+// Filled and read by the enriquecer-produto edge function; the client only
+// shows the stats and invalidates it.
+
+import { supabase } from '@/integrations/supabase/client';
+import type { EnrichmentCacheStats } from './types';
+
+/**
+ * Cached enrichments of the user still valid and already past their TTL
+ */
+export const getEnrichmentCacheStats = async (userId: string): Promise<EnrichmentCacheStats> => {
+  const now = new Date().toISOString();
+  const count = () => supabase
+    .from('enrichment_cache')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId);
+  const [valid, expired] = await Promise.all([
+    count().gt('expires_at', now),
+    count().lte('expires_at', now)
+  ]);
+
+  const error = valid.error ?? expired.error;
+  if (error) {
+    throw new Error(`Falha ao consultar o cache: ${error.message}`);
+  }
+
+  return { entries: valid.count ?? 0, expired: expired.count ?? 0 };
+};
+
+/**
+ * Remove the user's cached enrichments, all of them or those of one prompt version.
+ * Returns how many were removed.
+ */
+export const invalidateEnrichmentCache = async (userId: string, promptVersion?: string): Promise<number> => {
+  let query = supabase.from('enrichment_cache').delete({ count: 'exact' }).eq('user_id', userId);
+  if (promptVersion) {
+    query = query.eq('prompt_version', promptVersion);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Falha ao limpar o cache: ${error.message}`);
+  }
+
+  return count ?? 0;
+};
@@ -0,0 +1,296 @@
+// =====================================================
+// ULTRACLEAN - Enrichment Jobs (server-side processing)
+// =====================================================
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type {
+  CellProvenance,
+  EnrichmentJob,
+  EnrichmentJobItem,
+  EnrichmentJobItemStatus,
+  EnrichmentJobStatus,
+  ProductData,
+  ReusedEnrichment
+} from './types';
+import { findBarcodeColumn, getGtinOriginHint } from './gtin';
+import { getProductIdentifiers } from './catalogHistory';
+
+type JobRow = Database['public']['Tables']['enrichment_jobs']['Row'];
+type JobItemRow = Database['public']['Tables']['enrichment_job_items']['Row'];
+
+const WORKER_FUNCTION = 'enriquecer-lote';
+
+const INSERT_CHUNK = 500;
+const PAGE_SIZE = 1000;
+
+// Jobs still holding the session: shown with progress and pause/cancel
+export const ACTIVE_JOB_STATUSES: EnrichmentJobStatus[] = ['queued', 'running', 'paused'];
+
+const toJob = (row: JobRow): EnrichmentJob => ({
+  id: row.id,
+  sessionId: row.session_id,
+  status: row.status as EnrichmentJobStatus,
+  totalItems: row.total_items,
+  itemsProcessed: row.items_processed,
+  itemsFailed: row.items_failed,
+  error: row.error,
+  appliedAt: row.applied_at,
+  finishedAt: row.finished_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const toItem = (row: JobItemRow): EnrichmentJobItem => ({
+  rowIndex: row.row_index,
+  row: row.linha as ProductData,
+  product: row.produto as ProductData,
+  hints: row.dicas as EnrichmentJobItem['hints'],
+  identifiers: row.identificadores as EnrichmentJobItem['identifiers'],
+  status: row.status as EnrichmentJobItemStatus,
+  attempts: row.attempts,
+  result: row.result as Record<string, unknown> | null,
+  error: row.error
+});
+
+/**
+ * One job item per row, with the same payload the browser sends to enriquecer-produto.
+ * Rows reused from earlier sessions go in already done.
+ */
+export const buildEnrichmentJobItems = (
+  rows: ProductData[],
+  analyzeColumns: string[],
+  allColumns: string[],
+  reused: Map<number, ReusedEnrichment> = new Map()
+): EnrichmentJobItem[] => {
+  const barcodeColumn = findBarcodeColumn(allColumns);
+
+  return rows.map((row, rowIndex) => {
+    const product: ProductData = {};
+    analyzeColumns.forEach(col => {
+      if (row[col] !== undefined && row[col] !== null) {
+        product[col] = row[col];
+      }
+    });
+    const previous = reused.get(rowIndex);
+
+    return {
+      rowIndex,
+      row,
+      product,
+      hints: barcodeColumn ? { origem: getGtinOriginHint(row[barcodeColumn]) } : {},
+      identifiers: getProductIdentifiers(row, allColumns),
+      status: previous ? 'done' : 'pending',
+      attempts: 0,
+      result: previous ? { reaproveitado: previous } : null,
+      error: null
+    };
+  });
+};
+
+/**
+ * Reused enrichment stored in a job item result, if any
+ */
+export const getReusedEnrichment = (item: EnrichmentJobItem): ReusedEnrichment | null =>
+  (item.result?.reaproveitado as ReusedEnrichment | undefined) ?? null;
+
+/**
+ * Start (or continue) the worker of a job; it answers right away and keeps going on the server
+ */
+export const startEnrichmentWorker = async (jobId: string): Promise<void> => {
+  const { error } = await supabase.functions.invoke(WORKER_FUNCTION, { body: { job_id: jobId } });
+  if (error) {
+    throw new Error(`Falha ao iniciar o processamento no servidor: ${error.message}`);
+  }
+};
+
+/**
+ * Queue the rows of a session for server-side enrichment and start the worker
+ */
+export const submitEnrichmentJob = async ({
+  userId,
+  sessionId,
+  items,
+  abbreviations,
+  provenance
+}: {
+  userId: string;
+  sessionId: string;
+  items: EnrichmentJobItem[];
+  abbreviations: Record<string, string>;
+  provenance: CellProvenance[];
+}): Promise<EnrichmentJob> => {
+  const done = items.filter(item => item.status === 'done').length;
+  const { data: job, error } = await supabase
+    .from('enrichment_jobs')
+    .insert({
+      user_id: userId,
+      session_id: sessionId,
+      status: 'queued',
+      total_items: items.length,
+      items_processed: done,
+      options: { abbreviations } as unknown as Json,
+      provenance: provenance as unknown as Json
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Falha ao criar o processamento: ${error.message}`);
+  }
+
+  for (let from = 0; from < items.length; from += INSERT_CHUNK) {
+    const { error: itemsError } = await supabase.from('enrichment_job_items').insert(
+      items.slice(from, from + INSERT_CHUNK).map(item => ({
+        job_id: job.id,
+        row_index: item.rowIndex,
+        linha: item.row as Json,
+        produto: item.product as Json,
+        dicas: item.hints as Json,
+        identificadores: item.identifiers as Json,
+        status: item.status,
+        result: item.result as Json
+      }))
+    );
+
+    if (itemsError) {
+      // Half-submitted jobs are removed instead of left for the worker
+      await supabase.from('enrichment_jobs').delete().eq('id', job.id);
+      throw new Error(`Falha ao enviar os itens: ${itemsError.message}`);
+    }
+  }
+
+  await startEnrichmentWorker(job.id);
+  return toJob(job);
+};
+
+const updateJobStatus = async (
+  jobId: string,
+  status: EnrichmentJobStatus,
+  from: EnrichmentJobStatus[]
+): Promise<EnrichmentJob | null> => {
+  const { data, error } = await supabase
+    .from('enrichment_jobs')
+    .update({ status })
+    .eq('id', jobId)
+    .in('status', from)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Falha ao atualizar o processamento: ${error.message}`);
+  }
+
+  return data ? toJob(data) : null;
+};
+
+/**
+ * Pause a job; the worker stops after the chunk it is on. Null if it had already stopped.
+ */
+export const pauseEnrichmentJob = (jobId: string): Promise<EnrichmentJob | null> =>
+  updateJobStatus(jobId, 'paused', ['queued', 'running']);
+
+/**
+ * Put a paused job back in the queue and start a worker for it
+ */
+export const resumeEnrichmentJob = async (jobId: string): Promise<EnrichmentJob | null> => {
+  const job = await updateJobStatus(jobId, 'queued', ['paused']);
+  if (job) await startEnrichmentWorker(jobId);
+  return job;
+};
+
+/**
+ * Cancel a job; items not processed yet are left as they are
+ */
+export const cancelEnrichmentJob = (jobId: string): Promise<EnrichmentJob | null> =>
+  updateJobStatus(jobId, 'cancelled', ACTIVE_JOB_STATUSES);
+
+/**
+ * Most recent job of a session
+ */
+export const getLatestEnrichmentJob = async (sessionId: string): Promise<EnrichmentJob | null> => {
+  const { data, error } = await supabase
+    .from('enrichment_jobs')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Falha ao carregar o processamento: ${error.message}`);
+  }
+
+  return data ? toJob(data) : null;
+};
+
+/**
+ * Items of a job and the rule provenance submitted with it, in row order
+ */
+export const loadEnrichmentJobResults = async (
+  jobId: string
+): Promise<{ items: EnrichmentJobItem[]; provenance: CellProvenance[] }> => {
+  const { data: job, error: jobError } = await supabase
+    .from('enrichment_jobs')
+    .select('provenance')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError) {
+    throw new Error(`Falha ao carregar o processamento: ${jobError.message}`);
+  }
+
+  const items: EnrichmentJobItem[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('enrichment_job_items')
+      .select('*')
+      .eq('job_id', jobId)
+      .order('row_index')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Falha ao carregar os resultados: ${error.message}`);
+    }
+
+    items.push(...data.map(toItem));
+    if (data.length < PAGE_SIZE) break;
+  }
+
+  return { items, provenance: (job.provenance as unknown as CellProvenance[]) ?? [] };
+};
+
+/**
+ * Record that the results were loaded into the session
+ */
+export const markEnrichmentJobApplied = async (jobId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('enrichment_jobs')
+    .update({ applied_at: new Date().toISOString() })
+    .eq('id', jobId);
+
+  if (error) {
+    throw new Error(`Falha ao atualizar o processamento: ${error.message}`);
+  }
+};
+
+/**
+ * Follow a job's progress through Realtime; returns the unsubscribe function
+ */
+export const subscribeToEnrichmentJob = (
+  jobId: string,
+  onChange: (job: EnrichmentJob) => void
+): (() => void) => {
+  const channel = supabase
+    .channel(`enrichment-job-${jobId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'enrichment_jobs', filter: `id=eq.${jobId}` },
+      payload => onChange(toJob(payload.new as JobRow))
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,194 @@
+// =====================================================
+// ULTRACLEAN - Enrichment Scheduler
+// =====================================================
+
+import type { ConcurrencyChangeReason, SchedulerFailure, SchedulerOptions, SchedulerOutcome } from './types';
+
+const PAUSE_POLL_MS = 200;
+
+const DEFAULTS = {
+  initialConcurrency: 3,
+  minConcurrency: 1,
+  maxConcurrency: 10,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  healthyStreak: 5
+};
+
+interface QueuedRetry {
+  index: number;
+  attempt: number;
+  readyAt: number;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Retry-After header in ms, from seconds ("30") or an HTTP date
+ */
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value?.trim()) return undefined;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+/**
+ * Rate limits, timeouts and server errors are worth another try; other 4xx are not.
+ * Errors without a status (network failures) are retried too.
+ */
+export const isRetryableStatus = (status: number | undefined): boolean =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
+
+/**
+ * Reads `status` and `retryAfterMs` set on the error by the caller
+ */
+export const classifySchedulerError = (error: unknown): SchedulerFailure => {
+  const { status, retryAfterMs } = (error ?? {}) as { status?: number; retryAfterMs?: number };
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    retryable: isRetryableStatus(status),
+    status,
+    retryAfterMs
+  };
+};
+
+/**
+ * Exponential backoff with jitter (between half and the full delay),
+ * never shorter than what the server asked for
+ */
+export const getRetryDelay = (
+  attempt: number,
+  retryAfterMs: number | undefined,
+  baseDelayMs: number = DEFAULTS.baseDelayMs,
+  maxDelayMs: number = DEFAULTS.maxDelayMs,
+  random: () => number = Math.random
+): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  const jittered = Math.round(exponential / 2 + random() * (exponential / 2));
+  return Math.max(jittered, retryAfterMs ?? 0);
+};
+
+/**
+ * Run `worker` once per index with adaptive concurrency: rate limits and server
+ * errors halve the number of parallel calls (and a Retry-After holds every call
+ * back), a streak of successes adds one. Retryable failures go back to the queue
+ * with backoff until `maxRetries`; the rest are reported as failed outcomes.
+ * Cancelling stops new calls and waits for the running ones.
+ */
+export const runEnrichmentScheduler = async <R>(
+  indices: number[],
+  worker: (index: number, attempt: number) => Promise<R>,
+  options: SchedulerOptions<R> = {}
+): Promise<SchedulerOutcome<R>[]> => {
+  const settings = { ...DEFAULTS, ...options };
+  const {
+    minConcurrency,
+    maxConcurrency,
+    maxRetries,
+    baseDelayMs,
+    maxDelayMs,
+    healthyStreak,
+    classifyError = classifySchedulerError,
+    isCancelled = () => false,
+    isPaused = () => false,
+    now = Date.now,
+    random = Math.random,
+    sleep = defaultSleep
+  } = settings;
+
+  const clamp = (value: number) => Math.min(maxConcurrency, Math.max(minConcurrency, value));
+  // First attempts run in order; retries wait in a short list until they are due
+  let nextFresh = 0;
+  const retries: QueuedRetry[] = [];
+  const outcomes: SchedulerOutcome<R>[] = [];
+  const running = new Set<Promise<void>>();
+  let concurrency = clamp(settings.initialConcurrency);
+  let successes = 0;
+  // No call starts before this (Retry-After)
+  let holdUntil = 0;
+  // One slowdown per burst of failures from the calls already in flight
+  let lastThrottleAt = -Infinity;
+
+  const setConcurrency = (value: number, reason: ConcurrencyChangeReason) => {
+    const next = clamp(value);
+    if (next === concurrency) return;
+    concurrency = next;
+    options.onConcurrencyChange?.(concurrency, reason);
+  };
+
+  const settle = (outcome: SchedulerOutcome<R>) => {
+    outcomes.push(outcome);
+    options.onSettled?.(outcome, outcomes.length, indices.length);
+  };
+
+  const call = async (index: number, attempt: number) => {
+    try {
+      const value = await worker(index, attempt);
+      successes++;
+      if (successes >= healthyStreak) {
+        successes = 0;
+        setConcurrency(concurrency + 1, 'healthy');
+      }
+      settle({ index, ok: true, value, attempts: attempt });
+    } catch (error) {
+      const failure = classifyError(error);
+      if (!failure.retryable) {
+        settle({ index, ok: false, error: failure, attempts: attempt });
+        return;
+      }
+
+      successes = 0;
+      const time = now();
+      if (failure.retryAfterMs) holdUntil = Math.max(holdUntil, time + failure.retryAfterMs);
+      if (time - lastThrottleAt >= baseDelayMs) {
+        lastThrottleAt = time;
+        setConcurrency(Math.floor(concurrency / 2), 'throttled');
+      }
+
+      if (attempt > maxRetries) {
+        settle({ index, ok: false, error: failure, attempts: attempt });
+        return;
+      }
+      const delay = getRetryDelay(attempt, failure.retryAfterMs, baseDelayMs, maxDelayMs, random);
+      retries.push({ index, attempt: attempt + 1, readyAt: time + delay });
+      options.onRetry?.(index, attempt + 1, delay, failure);
+    }
+  };
+
+  while (nextFresh < indices.length || retries.length > 0 || running.size > 0) {
+    if (isCancelled()) {
+      await Promise.all(running);
+      break;
+    }
+
+    const time = now();
+    const due = retries.findIndex(item => item.readyAt <= time);
+    const earliest = nextFresh < indices.length || due !== -1
+      ? time
+      : retries.reduce((min, item) => Math.min(min, item.readyAt), Infinity);
+    const readyAt = Math.max(holdUntil, earliest);
+
+    if (!isPaused() && running.size < concurrency && readyAt <= time) {
+      // Due retries go first, so a failed row does not wait for the whole catalog
+      const next = due !== -1 ? retries.splice(due, 1)[0] : { index: indices[nextFresh++], attempt: 1 };
+      const task: Promise<void> = call(next.index, next.attempt).finally(() => running.delete(task));
+      running.add(task);
+      continue;
+    }
+
+    // Wait for a running call to finish or for the next queued one to be due
+    const waitMs = isPaused() ? PAUSE_POLL_MS : readyAt - time;
+    if (running.size >= concurrency || (running.size > 0 && !Number.isFinite(waitMs))) {
+      await Promise.race(running);
+    } else if (running.size > 0) {
+      await Promise.race([...running, sleep(waitMs)]);
+    } else {
+      await sleep(waitMs);
+    }
+  }
+
+  return outcomes.sort((a, b) => a.index - b.index);
+};
@@ -0,0 +1,6 @@
+// =====================================================
+// ULTRACLEAN - Enrichment Response Schema
+// =====================================================
+// The source lives in supabase/functions/_shared, where the edge functions can bundle it.
+
+export * from '../../supabase/functions/_shared/enrichmentSchema';
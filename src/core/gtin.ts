@@ -0,0 +1,184 @@
+// =====================================================
+// ULTRACLEAN - GTIN / EAN Validation
+// =====================================================
+
+import type { GtinType, GtinValidation, ProductData } from './types';
+
+const BARCODE_COLUMN = /gtin|\bean\b|c[oó]d(igo)?\.?\s*(de\s*)?barras|barcode/i;
+
+// GS1 member organisation prefixes (first three digits of a GTIN-13).
+// The prefix tells where the company registered the code, not where the
+// product was made, so it is only a hint for the product origin.
+const GS1_PREFIXES: [number, number, string][] = [
+  [0, 19, 'EUA/Canadá'],
+  [30, 39, 'EUA/Canadá'],
+  [60, 139, 'EUA/Canadá'],
+  [300, 379, 'França'],
+  [380, 380, 'Bulgária'],
+  [383, 383, 'Eslovênia'],
+  [385, 385, 'Croácia'],
+  [400, 440, 'Alemanha'],
+  [450, 459, 'Japão'],
+  [460, 469, 'Rússia'],
+  [471, 471, 'Taiwan'],
+  [489, 489, 'Hong Kong'],
+  [490, 499, 'Japão'],
+  [500, 509, 'Reino Unido'],
+  [520, 521, 'Grécia'],
+  [539, 539, 'Irlanda'],
+  [540, 549, 'Bélgica/Luxemburgo'],
+  [560, 560, 'Portugal'],
+  [570, 579, 'Dinamarca'],
+  [590, 590, 'Polônia'],
+  [600, 601, 'África do Sul'],
+  [640, 649, 'Finlândia'],
+  [690, 699, 'China'],
+  [700, 709, 'Noruega'],
+  [729, 729, 'Israel'],
+  [730, 739, 'Suécia'],
+  [750, 750, 'México'],
+  [754, 755, 'Canadá'],
+  [760, 769, 'Suíça'],
+  [770, 771, 'Colômbia'],
+  [773, 773, 'Uruguai'],
+  [775, 775, 'Peru'],
+  [778, 779, 'Argentina'],
+  [780, 780, 'Chile'],
+  [784, 784, 'Paraguai'],
+  [786, 786, 'Equador'],
+  [789, 790, 'Brasil'],
+  [800, 839, 'Itália'],
+  [840, 849, 'Espanha'],
+  [858, 858, 'Eslováquia'],
+  [859, 859, 'República Tcheca'],
+  [868, 869, 'Turquia'],
+  [870, 879, 'Holanda'],
+  [880, 880, 'Coreia do Sul'],
+  [885, 885, 'Tailândia'],
+  [888, 888, 'Singapura'],
+  [890, 890, 'Índia'],
+  [893, 893, 'Vietnã'],
+  [899, 899, 'Indonésia'],
+  [900, 919, 'Áustria'],
+  [930, 939, 'Austrália'],
+  [940, 949, 'Nova Zelândia'],
+  [955, 955, 'Malásia']
+];
+
+const TYPES_BY_LENGTH: Record<number, GtinType> = {
+  8: 'EAN-8',
+  12: 'UPC-A',
+  13: 'EAN-13',
+  14: 'GTIN-14'
+};
+
+/**
+ * Check whether a column holds barcodes (GTIN, EAN, "Código de Barras")
+ */
+export const isBarcodeColumn = (column: string): boolean => BARCODE_COLUMN.test(column);
+
+/**
+ * First barcode column of a dataset, if any
+ */
+export const findBarcodeColumn = (columns: string[]): string | undefined =>
+  columns.find(isBarcodeColumn);
+
+/**
+ * GS1 check digit (mod 10, weights 3 and 1 from the right) for a code without it
+ */
+export const computeGtinCheckDigit = (body: string): number => {
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) {
+    const digit = Number(body[body.length - 1 - i]);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Strip formatting and extra leading zeros.
+ * Codes padded to 14 digits shrink back to GTIN-13, UPC-A or EAN-8.
+ */
+export const normalizeGtin = (value: unknown): string => {
+  // Spreadsheets sometimes turn long codes into floats ("7891234567895.0")
+  let digits = String(value ?? '').trim().replace(/\.0+$/, '');
+  digits = digits.replace(/[\s.-]/g, '');
+  if (!/^\d+$/.test(digits)) return digits;
+
+  if (digits.length < 8) return digits;
+  if (digits.length < 12) digits = digits.padStart(12, '0');
+  if (digits.length === 14 && digits.startsWith('0')) digits = digits.slice(1);
+  if (digits.length === 13 && digits.startsWith('0')) digits = digits.slice(1);
+  if (digits.length === 12 && digits.startsWith('0000')) digits = digits.slice(4);
+  return digits;
+};
+
+/**
+ * GS1 country of a valid GTIN, from its company prefix.
+ * EAN-8 codes carry their own GS1-8 prefix; those starting with 0 or 2 are
+ * restricted to internal use and tell nothing about the origin.
+ */
+export const getGs1Country = (gtin: string): string | undefined => {
+  if (gtin.length === 8 && (gtin[0] === '0' || gtin[0] === '2')) return undefined;
+  const code = gtin.length === 8 ? gtin : gtin.padStart(14, '0').slice(1);
+  const prefix = Number(code.slice(0, 3));
+  return GS1_PREFIXES.find(([start, end]) => prefix >= start && prefix <= end)?.[2];
+};
+
+// Codes that pass the check digit but obviously aren't real products
+const isPlaceholderGtin = (gtin: string): boolean => {
+  const body = gtin.slice(0, -1);
+  if (/^(\d)\1+$/.test(body)) return true;
+  if (/^0*123456789/.test(body)) return true;
+  // Company prefix followed only by zeros, e.g. 7890000000000
+  const gtin13 = gtin.padStart(13, '0');
+  return /^\d{3}0{9}$/.test(gtin13.slice(0, 12));
+};
+
+/**
+ * Validate a barcode value (EAN-8, UPC-A, EAN-13 or GTIN-14)
+ */
+export const validateGtin = (value: unknown): GtinValidation => {
+  const raw = String(value ?? '').trim();
+  const normalized = normalizeGtin(raw);
+  const base = { raw, normalized, type: null, valid: false };
+
+  if (!raw) return { ...base, error: 'empty' };
+  if (!/^\d+$/.test(normalized)) return { ...base, error: 'non_numeric' };
+
+  const type = TYPES_BY_LENGTH[normalized.length];
+  if (!type) return { ...base, error: 'invalid_length' };
+
+  const expected = computeGtinCheckDigit(normalized.slice(0, -1));
+  if (expected !== Number(normalized.slice(-1))) {
+    return { ...base, type, error: 'invalid_check_digit' };
+  }
+
+  if (isPlaceholderGtin(normalized)) return { ...base, type, error: 'placeholder' };
+
+  return { ...base, type, valid: true, country: getGs1Country(normalized) };
+};
+
+/**
+ * Validate the barcode column of every row
+ */
+export const validateGtinColumn = (
+  data: ProductData[],
+  column: string
+): { rowIndex: number; result: GtinValidation }[] =>
+  data
+    .map((row, rowIndex) => ({ rowIndex, result: validateGtin(row[column]) }))
+    .filter(({ result }) => result.error !== 'empty');
+
+/**
+ * Origin hint for the AI enrichment from the GS1 prefix.
+ * Brazilian prefixes (789/790) suggest "Nacional"; anything else only
+ * tells where the code was registered.
+ */
+export const getGtinOriginHint = (value: unknown): string | undefined => {
+  const result = validateGtin(value);
+  if (!result.valid || !result.country) return undefined;
+  return result.country === 'Brasil'
+    ? 'Código de barras registrado no Brasil (prefixo GS1 789/790)'
+    : `Código de barras registrado em: ${result.country}`;
+};
@@ -0,0 +1,705 @@
+// =====================================================
+// ULTRACLEAN - Spreadsheet Import
+// =====================================================
+
+import * as XLSX from 'xlsx';
+import type {
+  CsvDelimiter,
+  CsvDetectionResult,
+  CsvEncoding,
+  CsvImportOptions,
+  HeaderDetection,
+  HeaderSelection,
+  ParsedWorkbook,
+  ProductData,
+  ProgressCallback,
+  SheetSummary
+} from './types';
+
+const DELIMITER_CANDIDATES: CsvDelimiter[] = [';', ',', '\t', '|'];
+
+// Title/logo blocks above the real header rarely go past this
+const MAX_HEADER_SCAN = 20;
+const RAW_PREVIEW_ROWS = 15;
+
+// Identifier columns keep their text form even when they look numeric
+const IDENTIFIER_COLUMN_REGEX = /sku|c[oó]d|gtin|ean|barras|ncm|cest|^id$|refer/i;
+
+/**
+ * Check whether a file should go through the CSV import layer
+ */
+export const isCsvFile = (file: File): boolean => {
+  return /\.(csv|txt)$/i.test(file.name) || file.type === 'text/csv';
+};
+
+/**
+ * Detect text encoding from BOM and byte patterns
+ */
+export const detectEncoding = (bytes: Uint8Array): { encoding: CsvEncoding; hasBom: boolean } => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: 'utf-8', hasBom: true };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { encoding: 'utf-16le', hasBom: true };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { encoding: 'utf-16be', hasBom: true };
+  }
+
+  const sample = bytes.subarray(0, 65536);
+  try {
+    // Streaming mode tolerates a multi-byte sequence cut at the sample boundary
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return { encoding: 'utf-8', hasBom: false };
+  } catch {
+    // Bytes 0x80-0x9F are control characters in ISO-8859-1 but printable
+    // punctuation (curly quotes, dashes) in Windows-1252
+    const usesCp1252Range = sample.some(b => b >= 0x80 && b <= 0x9f);
+    return { encoding: usesCp1252Range ? 'windows-1252' : 'iso-8859-1', hasBom: false };
+  }
+};
+
+/**
+ * Decode bytes with the given encoding, dropping any BOM
+ */
+export const decodeText = (bytes: Uint8Array, encoding: CsvEncoding): string => {
+  const text = new TextDecoder(encoding).decode(bytes);
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+};
+
+/**
+ * Split CSV text into rows of raw cell strings, honoring quoted fields
+ */
+export const parseCsv = (
+  text: string,
+  delimiter: string,
+  quoteChar: string = '"',
+  maxRows: number = Infinity
+): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quoteChar) {
+        if (text[i + 1] === quoteChar) {
+          field += quoteChar;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === quoteChar && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if ((field !== '' || row.length > 0) && rows.length < maxRows) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop fully blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Pick the quote character used at field boundaries
+ */
+export const detectQuoteChar = (text: string): '"' | "'" => {
+  const sample = text.slice(0, 65536);
+  const count = (quote: string) =>
+    (sample.match(new RegExp(`(^|[;,\\t|])${quote}`, 'gm')) || []).length;
+  return count("'") > count('"') ? "'" : '"';
+};
+
+/**
+ * Pick the delimiter that yields the most consistent column count
+ */
+export const detectDelimiter = (text: string, quoteChar: string = '"'): CsvDelimiter => {
+  const sample = text.slice(0, 65536);
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    const rows = parseCsv(sample, delimiter, quoteChar, 30);
+    // The last sampled row may be truncated
+    const counts = rows.slice(0, Math.max(1, rows.length - 1)).map(r => r.length);
+    if (counts.length === 0 || counts[0] < 2) return;
+
+    const header = counts[0];
+    const consistent = counts.filter(c => c === header).length / counts.length;
+    const score = consistent * header;
+
+    if (score > best.score) {
+      best = { delimiter, score };
+    }
+  });
+
+  return best.delimiter;
+};
+
+/**
+ * Infer decimal and thousands separators from numeric-looking cells
+ */
+export const detectNumberFormat = (
+  rows: string[][]
+): Pick<CsvImportOptions, 'decimalSeparator' | 'thousandsSeparator'> => {
+  let commaDecimal = 0;
+  let dotDecimal = 0;
+  let dotThousands = 0;
+  let commaThousands = 0;
+
+  rows.slice(1).forEach(row => {
+    row.forEach(raw => {
+      const value = raw.trim().replace(/^R\$\s*/, '');
+      if (/^-?\d{1,3}(\.\d{3})+(,\d+)?$/.test(value)) {
+        dotThousands++;
+        if (value.includes(',')) commaDecimal++;
+      } else if (/^-?\d{1,3}(,\d{3})+(\.\d+)?$/.test(value)) {
+        commaThousands++;
+        if (value.includes('.')) dotDecimal++;
+      } else if (/^-?\d+,\d+$/.test(value)) {
+        commaDecimal++;
+      } else if (/^-?\d+\.\d+$/.test(value)) {
+        dotDecimal++;
+      }
+    });
+  });
+
+  if (commaDecimal + dotThousands >= dotDecimal + commaThousands && commaDecimal + dotThousands > 0) {
+    return { decimalSeparator: ',', thousandsSeparator: dotThousands > 0 ? '.' : '' };
+  }
+  if (dotDecimal + commaThousands > 0) {
+    return { decimalSeparator: '.', thousandsSeparator: commaThousands > 0 ? ',' : '' };
+  }
+  // Brazilian default when the sample holds no decimals at all
+  return { decimalSeparator: ',', thousandsSeparator: '.' };
+};
+
+/**
+ * Parse a number written with the given separators, or null if it isn't one
+ */
+export const parseLocaleNumber = (
+  raw: string,
+  decimalSeparator: ',' | '.',
+  thousandsSeparator: '.' | ',' | ''
+): number | null => {
+  const value = raw.trim().replace(/^R\$\s*/, '');
+  const d = decimalSeparator === ',' ? ',' : '\\.';
+  const t = thousandsSeparator === '.' ? '\\.' : thousandsSeparator;
+  const pattern = t
+    ? new RegExp(`^-?(\\d{1,3}(${t}\\d{3})+|\\d+)(${d}\\d+)?$`)
+    : new RegExp(`^-?\\d+(${d}\\d+)?$`);
+
+  if (!pattern.test(value)) return null;
+
+  const normalized = (thousandsSeparator ? value.split(thousandsSeparator).join('') : value)
+    .replace(decimalSeparator, '.');
+  const parsed = Number(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Convert a raw CSV cell to a typed value
+ */
+const coerceCell = (raw: string, column: string, options: CsvImportOptions): string | number => {
+  const value = raw.trim();
+  if (value === '' || IDENTIFIER_COLUMN_REGEX.test(column)) return value;
+
+  // Leading zeros and long digit runs are codes, not quantities
+  if (/^0\d/.test(value) || /^\d{13,}$/.test(value)) return value;
+
+  const parsed = parseLocaleNumber(value, options.decimalSeparator, options.thousandsSeparator);
+  return parsed ?? value;
+};
+
+/**
+ * Sniff encoding, delimiter, quote character and number format of a CSV buffer
+ */
+export const sniffCsv = (bytes: Uint8Array): CsvDetectionResult => {
+  const { encoding, hasBom } = detectEncoding(bytes);
+  const text = decodeText(bytes.subarray(0, 262144), encoding);
+  const quoteChar = detectQuoteChar(text);
+  const delimiter = detectDelimiter(text, quoteChar);
+  const rows = parseCsv(text, delimiter, quoteChar, 200);
+
+  return {
+    encoding,
+    hasBom,
+    delimiter,
+    quoteChar,
+    ...detectNumberFormat(rows),
+    sampleRows: rows.length
+  };
+};
+
+/**
+ * Sniff CSV settings straight from a file
+ */
+export const sniffCsvFile = async (file: File): Promise<CsvDetectionResult> => {
+  const buffer = await file.arrayBuffer();
+  return sniffCsv(new Uint8Array(buffer));
+};
+
+/**
+ * Build a single-sheet workbook from CSV bytes with typed cell values
+ */
+export const csvToWorkbook = (
+  bytes: Uint8Array,
+  options: CsvImportOptions,
+  sheetName: string = 'CSV'
+): XLSX.WorkBook => {
+  const text = decodeText(bytes, options.encoding);
+  const rows = parseCsv(text, options.delimiter, options.quoteChar);
+
+  // Locate the header first so identifier columns are known before coercion
+  const { headerRow, headerRows } = detectHeaderRow(rows);
+  const dataStart = headerRow + headerRows;
+  const columns = buildHeaderNames(rows, { headerRow, headerRows });
+
+  const aoa: (string | number)[][] = rows.map((row, r) =>
+    r < dataStart
+      ? row.map(cell => cell.trim())
+      : row.map((cell, i) => coerceCell(cell, columns[i] ?? '', options))
+  );
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(aoa), sheetName.slice(0, 31));
+  return workbook;
+};
+
+/**
+ * Read an Excel/CSV file into a workbook.
+ * CSV files go through the sniffing layer unless explicit options are given.
+ */
+export const readWorkbook = async (
+  file: File,
+  csvOptions?: CsvImportOptions
+): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer();
+
+  if (isCsvFile(file)) {
+    const bytes = new Uint8Array(buffer);
+    const sheetName = file.name.replace(/\.[^.]+$/, '') || 'CSV';
+    return csvToWorkbook(bytes, csvOptions ?? sniffCsv(bytes), sheetName);
+  }
+
+  return XLSX.read(buffer, { type: 'array' });
+};
+
+const isFilled = (value: unknown): boolean => String(value ?? '').trim() !== '';
+
+// Labels are non-empty text that doesn't read as a number, price or date
+const isLabel = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  const text = value.trim();
+  return text !== '' && !/^[-+\d.,\s%R$/:]+$/.test(text);
+};
+
+/**
+ * Read a sheet as a padded matrix of cell values plus its merged ranges,
+ * both relative to the sheet's used range
+ */
+const sheetToMatrix = (
+  workbook: XLSX.WorkBook,
+  sheetName: string
+): { matrix: unknown[][]; merges: XLSX.Range[]; firstColumn: number; firstRow: number } => {
+  const worksheet = workbook.Sheets[sheetName];
+  if (!worksheet || !worksheet['!ref']) return { matrix: [], merges: [], firstColumn: 0, firstRow: 0 };
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(worksheet, {
+    header: 1,
+    defval: '',
+    blankrows: true,
+    // Cell values, not Excel's display text: "7.89123E+12" would lose barcode digits
+    raw: true
+  });
+
+  const width = range.e.c - range.s.c + 1;
+  matrix.forEach(row => {
+    while (row.length < width) row.push('');
+  });
+
+  const merges = (worksheet['!merges'] || []).map(m => ({
+    s: { r: m.s.r - range.s.r, c: m.s.c - range.s.c },
+    e: { r: m.e.r - range.s.r, c: m.e.c - range.s.c }
+  }));
+
+  return { matrix, merges, firstColumn: range.s.c, firstRow: range.s.r };
+};
+
+/**
+ * Find the header row among the first rows of a sheet.
+ * Scores each candidate on coverage, label ratio, uniqueness and how well
+ * the rows below line up with it; title blocks with a single cell never win.
+ */
+export const detectHeaderRow = (
+  matrix: unknown[][],
+  merges: XLSX.Range[] = []
+): HeaderDetection => {
+  const fallback: HeaderDetection = { headerRow: 0, headerRows: 1, confidence: 0, hasMergedHeader: false };
+  if (matrix.length === 0) return fallback;
+
+  const filledCount = (r: number) => (matrix[r] || []).filter(isFilled).length;
+  const labelRatio = (r: number) => {
+    const filled = (matrix[r] || []).filter(isFilled);
+    return filled.length ? filled.filter(isLabel).length / filled.length : 0;
+  };
+
+  const width = Math.max(1, ...matrix.slice(0, MAX_HEADER_SCAN + 10).map((_, r) => filledCount(r)));
+  let best = { row: -1, score: 0 };
+
+  for (let r = 0; r < Math.min(MAX_HEADER_SCAN, matrix.length); r++) {
+    const filled = (matrix[r] || []).filter(isFilled).map(v => String(v).trim().toLowerCase());
+    if (filled.length < 2) continue;
+
+    const coverage = filled.length / width;
+    const uniqueness = new Set(filled).size / filled.length;
+    const below = matrix.slice(r + 1, r + 6).map((_, i) => filledCount(r + 1 + i)).filter(n => n > 0);
+    const alignment = below.length
+      ? below.reduce((sum, n) => sum + Math.min(n, filled.length) / filled.length, 0) / below.length
+      : 0;
+
+    const score = coverage * 0.4 + labelRatio(r) * 0.3 + uniqueness * 0.1 + alignment * 0.2;
+    if (score > best.score) best = { row: r, score };
+  }
+
+  if (best.row < 0) return fallback;
+
+  const spansColumns = (r: number) => merges.some(m => m.s.r === r && m.e.c > m.s.c);
+  // A grouping row sits above the column labels ("Dimensões" over "Altura | Largura")
+  const isGroupRow = (r: number) =>
+    r >= 0 &&
+    r + 1 < matrix.length &&
+    filledCount(r) >= 2 &&
+    labelRatio(r) === 1 &&
+    labelRatio(r + 1) === 1 &&
+    (spansColumns(r) || filledCount(r) < filledCount(r + 1));
+
+  const confidence = Math.min(1, best.score);
+
+  if (isGroupRow(best.row - 1)) {
+    return { headerRow: best.row - 1, headerRows: 2, confidence, hasMergedHeader: spansColumns(best.row - 1) };
+  }
+  if (spansColumns(best.row) && isGroupRow(best.row)) {
+    return { headerRow: best.row, headerRows: 2, confidence, hasMergedHeader: true };
+  }
+
+  return { headerRow: best.row, headerRows: 1, confidence, hasMergedHeader: spansColumns(best.row) };
+};
+
+/**
+ * Read the header label of every column, joining two-row headers
+ * ("Dimensões Altura") and spreading merged cells across their range
+ */
+const resolveHeaderLabels = (
+  matrix: unknown[][],
+  header: HeaderSelection,
+  merges: XLSX.Range[]
+): string[] => {
+  const width = matrix.reduce((max, row) => Math.max(max, row.length), 0);
+  const labelAt = (r: number) => {
+    const labels = Array.from({ length: width }, (_, c) => String(matrix[r]?.[c] ?? '').trim());
+    merges
+      .filter(m => m.s.r <= r && m.e.r >= r)
+      .forEach(m => {
+        const value = String(matrix[m.s.r]?.[m.s.c] ?? '').trim();
+        for (let c = m.s.c; c <= m.e.c && c < width; c++) labels[c] = value;
+      });
+    return labels;
+  };
+
+  const top = labelAt(header.headerRow);
+  if (header.headerRows === 1) return top;
+
+  const bottom = labelAt(header.headerRow + 1);
+  // Without merges, a group label covers the blank cells to its right
+  const parents = merges.length > 0
+    ? top
+    : top.reduce<string[]>((acc, label, c) => {
+        acc.push(label || (bottom[c] ? acc[c - 1] || '' : ''));
+        return acc;
+      }, []);
+
+  return parents.map((parent, c) => {
+    const child = bottom[c];
+    if (parent && child && parent !== child) return `${parent} ${child}`;
+    return child || parent;
+  });
+};
+
+/**
+ * Turn header labels into unique column names; blanks become "Coluna X"
+ */
+const buildHeaderNames = (
+  matrix: unknown[][],
+  header: HeaderSelection,
+  merges: XLSX.Range[] = [],
+  firstColumn: number = 0
+): string[] => {
+  const seen = new Map<string, number>();
+  return resolveHeaderLabels(matrix, header, merges).map((label, c) => {
+    const base = label || `Coluna ${XLSX.utils.encode_col(firstColumn + c)}`;
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} (${count})` : base;
+  });
+};
+
+/**
+ * Build product rows from a sheet matrix below the selected header.
+ * Columns with neither a header label nor any data are dropped.
+ */
+const matrixToRows = (
+  matrix: unknown[][],
+  merges: XLSX.Range[],
+  firstColumn: number,
+  header: HeaderSelection,
+  firstRow: number = 0
+): ProductData[] => {
+  const labels = resolveHeaderLabels(matrix, header, merges);
+  const names = buildHeaderNames(matrix, header, merges, firstColumn);
+  const bodyStart = header.headerRow + header.headerRows;
+  // Keep each row's 1-based line in the spreadsheet, past the header and blank rows
+  const body = matrix
+    .slice(bodyStart)
+    .map((cells, i) => ({ cells, line: firstRow + bodyStart + i + 1 }))
+    .filter(({ cells }) => cells.some(isFilled));
+
+  const keep = names
+    .map((name, c) => ({ name, c }))
+    .filter(({ c }) => labels[c] !== '' || body.some(({ cells }) => isFilled(cells[c])));
+
+  return body.map(({ cells, line }) => {
+    const product: ProductData = {};
+    keep.forEach(({ name, c }) => {
+      product[name] = cells[c] ?? '';
+    });
+    product.__row_number = line;
+    return product;
+  });
+};
+
+/**
+ * Detect the header row of a sheet in the workbook
+ */
+export const detectSheetHeader = (
+  workbook: XLSX.WorkBook,
+  sheetName: string
+): HeaderDetection => {
+  const { matrix, merges } = sheetToMatrix(workbook, sheetName);
+  return detectHeaderRow(matrix, merges);
+};
+
+/**
+ * Convert a single sheet into product rows.
+ * The header row is auto-detected unless a selection is given.
+ */
+export const sheetToRows = (
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  header?: HeaderSelection
+): ProductData[] => {
+  const { matrix, merges, firstColumn, firstRow } = sheetToMatrix(workbook, sheetName);
+  if (matrix.length === 0) return [];
+
+  return matrixToRows(matrix, merges, firstColumn, header ?? detectHeaderRow(matrix, merges), firstRow);
+};
+
+/**
+ * Collect column names in order of first appearance, skipping internal metadata
+ */
+const collectColumns = (rows: ProductData[]): string[] => {
+  const seen = new Set<string>();
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!key.startsWith('__')) seen.add(key);
+    });
+  });
+  return [...seen];
+};
+
+/**
+ * Parse every sheet of the workbook in a single pass:
+ * overview (header, columns, preview) plus all rows
+ */
+export const parseWorkbook = (
+  workbook: XLSX.WorkBook,
+  headers: Record<string, HeaderSelection> = {},
+  previewSize: number = 5,
+  onProgress?: ProgressCallback
+): ParsedWorkbook => {
+  const rowsBySheet: Record<string, ProductData[]> = {};
+  const total = workbook.SheetNames.length;
+
+  const sheets = workbook.SheetNames.map((name, index) => {
+    const { matrix, merges, firstColumn, firstRow } = sheetToMatrix(workbook, name);
+    const detected = detectHeaderRow(matrix, merges);
+    const header: HeaderDetection = headers[name]
+      ? { ...detected, ...headers[name] }
+      : detected;
+    const rows = matrix.length ? matrixToRows(matrix, merges, firstColumn, header, firstRow) : [];
+    rowsBySheet[name] = rows;
+    onProgress?.(index + 1, total);
+
+    return {
+      name,
+      rowCount: rows.length,
+      columns: collectColumns(rows),
+      preview: rows.slice(0, previewSize),
+      header,
+      rawPreview: matrix
+        .slice(0, RAW_PREVIEW_ROWS)
+        .map(row => row.map(cell => String(cell ?? '').trim()))
+    };
+  });
+
+  return { sheets, rowsBySheet };
+};
+
+/**
+ * List every sheet in the workbook with row count, columns and a short preview
+ */
+export const summarizeSheets = (
+  workbook: XLSX.WorkBook,
+  previewSize: number = 5,
+  headers: Record<string, HeaderSelection> = {}
+): SheetSummary[] => {
+  return parseWorkbook(workbook, headers, previewSize).sheets;
+};
+
+/**
+ * Merge already parsed sheet rows into one dataset, tagging each row with its origin
+ */
+export const mergeSheetRows = (
+  rowsBySheet: Record<string, ProductData[]>,
+  sheetNames: string[],
+  sourceFile?: string,
+  sourceModified?: number
+): { data: ProductData[]; columns: string[] } => {
+  const sheets = sheetNames
+    .filter(name => rowsBySheet[name])
+    .map(name => ({ name, rows: rowsBySheet[name] }));
+
+  const columns = collectColumns(sheets.flatMap(sheet => sheet.rows));
+
+  const data = sheets.flatMap(sheet =>
+    sheet.rows.map((row, index) => {
+      const merged: ProductData = {};
+      columns.forEach(col => {
+        merged[col] = row[col] ?? '';
+      });
+      merged.__source_sheet = sheet.name;
+      merged.__row_index = index;
+      if (typeof row.__row_number === 'number') merged.__row_number = row.__row_number;
+      if (sourceFile) merged.__source_file = sourceFile;
+      if (sourceModified) merged.__source_modified = sourceModified;
+      return merged;
+    })
+  );
+
+  return { data, columns };
+};
+
+/**
+ * 1-based line of a row in its source spreadsheet, for messages like "linha 12".
+ * Rows imported before the line was kept fall back to their position below the header
+ */
+export const getSourceLine = (row: ProductData | undefined, index: number): number => {
+  if (typeof row?.__row_number === 'number') return row.__row_number;
+  return (typeof row?.__row_index === 'number' ? row.__row_index : index) + 2;
+};
+
+/**
+ * Merge the selected sheets into one dataset, tagging each row with its origin
+ */
+export const mergeSheets = (
+  workbook: XLSX.WorkBook,
+  sheetNames: string[],
+  sourceFile?: string,
+  headers: Record<string, HeaderSelection> = {}
+): { data: ProductData[]; columns: string[] } => {
+  const rowsBySheet = Object.fromEntries(
+    sheetNames
+      .filter(name => workbook.Sheets[name])
+      .map(name => [name, sheetToRows(workbook, name, headers[name])])
+  );
+  return mergeSheetRows(rowsBySheet, sheetNames, sourceFile);
+};
+
+/**
+ * Normalize a column name for cross-file matching (case, accents, spacing)
+ */
+export const normalizeColumnName = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+};
+
+/**
+ * Align several datasets into one, matching columns by normalized name.
+ * The first spelling seen for a column wins; every row keeps its source file.
+ */
+export const alignDatasets = (
+  datasets: { data: ProductData[]; columns: string[]; sourceFile: string }[]
+): { data: ProductData[]; columns: string[]; columnSources: Record<string, string[]> } => {
+  const canonical = new Map<string, string>();
+  const columnSources: Record<string, string[]> = {};
+
+  datasets.forEach(({ columns, sourceFile }) => {
+    columns.forEach(col => {
+      const key = normalizeColumnName(col) || col;
+      if (!canonical.has(key)) canonical.set(key, col);
+      const name = canonical.get(key)!;
+      columnSources[name] = [...new Set([...(columnSources[name] || []), sourceFile])];
+    });
+  });
+
+  const columns = [...canonical.values()];
+
+  const data = datasets.flatMap(({ data: rows, sourceFile }) =>
+    rows.map(row => {
+      const aligned: ProductData = {};
+      columns.forEach(col => {
+        aligned[col] = '';
+      });
+      Object.entries(row).forEach(([key, value]) => {
+        if (key.startsWith('__')) {
+          aligned[key] = value;
+          return;
+        }
+        const col = canonical.get(normalizeColumnName(key) || key);
+        // Two spellings of one column in the same file: keep the first filled value
+        if (col && (aligned[col] === '' || aligned[col] == null)) aligned[col] = value ?? '';
+      });
+      aligned.__source_file = sourceFile;
+      return aligned;
+    })
+  );
+
+  return { data, columns, columnSources };
+};
@@ -10,7 +10,10 @@ export {
   parseFile,
   detectDuplicates,
   correctAbbreviations,
+  expandAbbreviations,
+  findAbbreviationCorrections,
   processData,
+  buildExportFile,
   exportToExcel,
   exportDuplicatesReport,
   getDefaultAbbreviations,
@@ -19,6 +22,240 @@ export {
   findProductsWithoutTags
 } from './dataProcessor';
 
+// Abbreviation Matching
+export {
+  getAbbreviationColumnKind,
+  compileAbbreviationMatcher,
+  getAbbreviationMatcher,
+  preserveCase,
+  findAbbreviationMatches,
+  applyAbbreviations,
+  findAbbreviationConflicts
+} from './abbreviationMatcher';
+
+// Abbreviation Mining
+export { mineAbbreviations } from './abbreviationMiner';
+
+// Shared Abbreviation Dictionaries
+export {
+  diffAbbreviationDictionaries,
+  mergeAbbreviationDictionaries,
+  findDictionaryConflicts,
+  resolveDictionaryConflicts
+} from './abbreviationDictionaries';
+
+// Spreadsheet Import
+export {
+  readWorkbook,
+  isCsvFile,
+  sniffCsv,
+  sniffCsvFile,
+  csvToWorkbook,
+  detectEncoding,
+  decodeText,
+  detectDelimiter,
+  detectQuoteChar,
+  detectNumberFormat,
+  parseCsv,
+  parseLocaleNumber,
+  detectHeaderRow,
+  detectSheetHeader,
+  sheetToRows,
+  parseWorkbook,
+  summarizeSheets,
+  mergeSheetRows,
+  mergeSheets,
+  getSourceLine,
+  normalizeColumnName,
+  alignDatasets
+} from './importManager';
+
+// Column Mapping
+export {
+  suggestColumnMapping,
+  suggestionsToMapping,
+  findMappingConflicts,
+  applyColumnMapping,
+  columnSetSimilarity,
+  getConfidenceLevel
+} from './columnMapping';
+
+// Similarity Index
+export {
+  DEFAULT_SIMILARITY_THRESHOLD,
+  tokenizeForSimilarity,
+  jaccardSimilarity,
+  computeMinHash,
+  chooseLshBands,
+  findSimilarPairs,
+  clusterSimilarPairs
+} from './similarityIndex';
+
+// GTIN / EAN
+export {
+  isBarcodeColumn,
+  findBarcodeColumn,
+  computeGtinCheckDigit,
+  normalizeGtin,
+  getGs1Country,
+  validateGtin,
+  validateGtinColumn,
+  getGtinOriginHint
+} from './gtin';
+
+// Duplicate Resolution
+export {
+  getDuplicateGroupId,
+  suggestSurvivorshipRules,
+  mergeDuplicateRows,
+  applyDuplicateResolutions,
+  getRowFingerprint,
+  getGroupFingerprints,
+  filterSuppressedDuplicates
+} from './duplicateResolver';
+
+// Variants (parent/child)
+export {
+  PARENT_SKU_COLUMN,
+  extractVariantAttributes,
+  findVariantNameColumn,
+  suggestParentSku,
+  detectVariantGroups,
+  joinVariantGroups,
+  formatVariantAttributes,
+  buildVariantRows
+} from './variantDetector';
+
+// Attribute Extraction
+export {
+  extractAttributes,
+  extractAttributesFromData,
+  applyExtractedAttributes
+} from './attributeExtractor';
+
+// Units of Measure
+export {
+  resolveUnit,
+  parseDecimal,
+  formatDecimal,
+  parseQuantity,
+  convertQuantity,
+  isPlausibleQuantity,
+  normalizeUnitsInText,
+  normalizeUnitValue,
+  findUnitColumnTargets,
+  normalizeUnits
+} from './unitNormalizer';
+
+// Change Review (dry run)
+export {
+  getCellChangeId,
+  applyCellChanges,
+  diffEnrichment
+} from './changeSet';
+
+// Change Provenance (audit log)
+export {
+  CHANGE_SOURCE_LABELS,
+  describeRow,
+  diffRowsProvenance,
+  cellChangesToProvenance,
+  groupProvenanceByRow,
+  buildAuditSheet
+} from './provenance';
+
+// Change History (undo/redo)
+export {
+  MAX_HISTORY_ENTRIES,
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  applyHistoryEntry,
+  pushHistoryEntry,
+  undoHistory,
+  redoHistory
+} from './changeHistory';
+
+// Catalog History
+export {
+  getProductIdentifiers,
+  loadProcessedHistory,
+  setProcessedProductsValidated,
+  matchAgainstHistory
+} from './catalogHistory';
+
+// Transformation Rules
+export {
+  validateTransformRule,
+  compileTransformSteps,
+  compileTransformRules,
+  applyTransformRules,
+  describeTransformRule
+} from './transformRules';
+
+// Text Templates
+export {
+  parseTemplate,
+  validateTemplate,
+  getTemplateFields,
+  truncateByWord,
+  renderTemplate,
+  composeProductText
+} from './templateComposer';
+
+// Enrichment Response Schema
+export {
+  formatNcmCode,
+  normalizeOrigin,
+  validateEnrichmentResponse,
+  describeEnrichmentIssues,
+  parseEnrichmentContent
+} from './enrichmentSchema';
+export type {
+  NcmConfidence,
+  ProductOrigin,
+  EnrichmentNcm,
+  EnrichmentResponse,
+  EnrichmentIssueSeverity,
+  EnrichmentIssue,
+  EnrichmentValidation
+} from './enrichmentSchema';
+
+// Enrichment Cache
+export {
+  normalizeEnrichmentInput,
+  hashEnrichmentInput,
+  derivePromptVersion
+} from './enrichmentCacheKey';
+export {
+  getEnrichmentCacheStats,
+  invalidateEnrichmentCache
+} from './enrichmentCache';
+
+// Enrichment Scheduler
+export {
+  parseRetryAfter,
+  isRetryableStatus,
+  classifySchedulerError,
+  getRetryDelay,
+  runEnrichmentScheduler
+} from './enrichmentScheduler';
+
+// Enrichment Jobs (server-side processing)
+export {
+  ACTIVE_JOB_STATUSES,
+  buildEnrichmentJobItems,
+  getReusedEnrichment,
+  startEnrichmentWorker,
+  submitEnrichmentJob,
+  pauseEnrichmentJob,
+  resumeEnrichmentJob,
+  cancelEnrichmentJob,
+  getLatestEnrichmentJob,
+  loadEnrichmentJobResults,
+  markEnrichmentJobApplied,
+  subscribeToEnrichmentJob
+} from './enrichmentJobs';
+
 // Image Management
 export {
   urlToBlob,
@@ -0,0 +1,124 @@
+// =====================================================
+// ULTRACLEAN - Change Provenance (audit log)
+// =====================================================
+
+import { getProductIdentifiers } from './catalogHistory';
+import { getSourceLine } from './importManager';
+import type { CellChange, CellProvenance, ChangeSource, ProductData, ProvenanceContext } from './types';
+
+export const CHANGE_SOURCE_LABELS: Record<ChangeSource, string> = {
+  default: 'Valor padrão',
+  transform: 'Regra',
+  abbreviation: 'Abreviação',
+  ai: 'IA',
+  spelling: 'Correção ortográfica',
+  manual: 'Edição manual'
+};
+
+/**
+ * Identify a row the same way before and after steps that add or remove rows:
+ * source file, sheet and line when imported, else SKU, else position
+ */
+export const describeRow = (
+  row: ProductData,
+  index: number,
+  columns: string[]
+): Pick<CellProvenance, 'rowKey' | 'sku' | 'location'> => {
+  const { sku } = getProductIdentifiers(row, columns);
+  const hasLine = typeof row.__row_index === 'number';
+  const line = getSourceLine(row, index);
+  const location = [row.__source_file, row.__source_sheet, `linha ${line}`].filter(Boolean).join(' › ');
+  // Sheets of one workbook restart the line count, so the sheet is part of the key
+  const source = `${row.__source_file ?? ''}${row.__source_sheet ? `/${row.__source_sheet}` : ''}`;
+  const rowKey = hasLine ? `${source}#${row.__row_index}` : sku ? `sku:${sku}` : `#${index}`;
+
+  return { rowKey, ...(sku ? { sku } : {}), location };
+};
+
+const sameCell = (a: unknown, b: unknown): boolean => String(a ?? '') === String(b ?? '');
+
+/**
+ * Cell-level log of what changed between two versions of the data, all with the same origin.
+ * Rows are matched by describeRow, so added or removed rows are left out
+ */
+export const diffRowsProvenance = (
+  before: ProductData[],
+  after: ProductData[],
+  columns: string[],
+  context: ProvenanceContext,
+  timestamp = new Date().toISOString()
+): CellProvenance[] => {
+  const previous = new Map<string, ProductData>();
+  if (before.length === after.length) {
+    after.forEach((row, index) => previous.set(describeRow(row, index, columns).rowKey, before[index]));
+  } else {
+    before.forEach((row, index) => previous.set(describeRow(row, index, columns).rowKey, row));
+  }
+
+  const records: CellProvenance[] = [];
+  after.forEach((row, index) => {
+    const identity = describeRow(row, index, columns);
+    const old = previous.get(identity.rowKey);
+    if (!old || old === row) return;
+
+    new Set([...Object.keys(old), ...Object.keys(row)]).forEach(column => {
+      if (column.startsWith('__') || sameCell(old[column], row[column])) return;
+      records.push({ ...identity, column, before: old[column], after: row[column], ...context, timestamp });
+    });
+  });
+
+  return records;
+};
+
+/**
+ * Log of reviewed cell changes, one record per step (rule, abbreviation, AI field...)
+ */
+export const cellChangesToProvenance = (
+  changes: CellChange[],
+  rows: ProductData[],
+  columns: string[],
+  context: Omit<ProvenanceContext, 'source' | 'detail'> = {},
+  timestamp = new Date().toISOString()
+): CellProvenance[] =>
+  changes.flatMap(change => {
+    const row = rows[change.rowIndex];
+    if (!row) return [];
+    const identity = describeRow(row, change.rowIndex, columns);
+    return change.steps.map(step => ({
+      ...identity,
+      column: change.column,
+      before: step.before,
+      after: step.after,
+      source: step.source,
+      detail: step.rule,
+      ...context,
+      timestamp
+    }));
+  });
+
+/**
+ * Per-row change log, keyed like describeRow
+ */
+export const groupProvenanceByRow = (log: CellProvenance[]): Map<string, CellProvenance[]> => {
+  const byRow = new Map<string, CellProvenance[]>();
+  log.forEach(record => byRow.set(record.rowKey, [...(byRow.get(record.rowKey) ?? []), record]));
+  return byRow;
+};
+
+/**
+ * Audit sheet rows for the export: each changed cell with its origin and time
+ */
+export const buildAuditSheet = (log: CellProvenance[]): Record<string, unknown>[] =>
+  log.map(record => ({
+    'SKU': record.sku ?? '',
+    'Linha': record.location,
+    'Coluna': record.column,
+    'Valor Anterior': String(record.before ?? ''),
+    'Novo Valor': String(record.after ?? ''),
+    'Origem': CHANGE_SOURCE_LABELS[record.source],
+    'Detalhe': record.detail,
+    'Modelo IA': record.model ?? '',
+    'Versão do Prompt': record.promptVersion ?? '',
+    'Usuário': record.user ?? '',
+    'Data/Hora': record.timestamp
+  }));
@@ -0,0 +1,225 @@
+// =====================================================
+// ULTRACLEAN - Similarity Index (MinHash + LSH)
+// =====================================================
+
+import type { ProgressCallback, SimilarPair } from './types';
+
+export const DEFAULT_SIMILARITY_THRESHOLD = 0.85;
+
+const DEFAULT_NUM_HASHES = 128;
+
+// Chance that a pair exactly at the threshold shares at least one bucket
+const MIN_RECALL = 0.99;
+
+// Rows between progress reports while hashing
+const PROGRESS_INTERVAL = 500;
+
+// Buckets larger than this only compare members inside a sliding window,
+// so a very common band (e.g. many "Kit ..." rows) can't go quadratic
+const MAX_BUCKET_COMPARISONS = 50;
+
+/**
+ * Split text into accent-folded, lowercase word tokens.
+ * Numbers are kept even when short, since "10" vs "12" tells products apart.
+ */
+export const tokenizeForSimilarity = (text: string): string[] => {
+  const words = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 || (word.length > 0 && /\d/.test(word)));
+
+  return [...new Set(words)];
+};
+
+/**
+ * Exact Jaccard similarity between two token lists
+ */
+export const jaccardSimilarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 || b.length === 0) return 0;
+
+  const setA = new Set(a);
+  let intersection = 0;
+  b.forEach(token => {
+    if (setA.has(token)) intersection++;
+  });
+
+  return intersection / (setA.size + b.length - intersection);
+};
+
+// FNV-1a, good enough to spread tokens over 32 bits
+const hashToken = (token: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Murmur3 finalizer, used to derive independent hash functions from one seed each
+const mix = (value: number, seed: number): number => {
+  let h = (value ^ seed) >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+};
+
+const seedCache = new Map<number, Uint32Array>();
+
+// Fixed seeds so signatures are stable between runs and workers
+const getSeeds = (numHashes: number): Uint32Array => {
+  let seeds = seedCache.get(numHashes);
+  if (!seeds) {
+    seeds = new Uint32Array(numHashes);
+    let state = 0x9e3779b9;
+    for (let i = 0; i < numHashes; i++) {
+      state ^= state << 13;
+      state ^= state >>> 17;
+      state ^= state << 5;
+      seeds[i] = state >>> 0;
+    }
+    seedCache.set(numHashes, seeds);
+  }
+  return seeds;
+};
+
+/**
+ * MinHash signature of a token list
+ */
+export const computeMinHash = (tokens: string[], numHashes: number = DEFAULT_NUM_HASHES): Uint32Array => {
+  const seeds = getSeeds(numHashes);
+  const signature = new Uint32Array(numHashes).fill(0xffffffff);
+
+  tokens.forEach(token => {
+    const base = hashToken(token);
+    for (let i = 0; i < numHashes; i++) {
+      const value = mix(base, seeds[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+
+  return signature;
+};
+
+/**
+ * Pick the LSH band layout for a similarity threshold.
+ * A pair at similarity s becomes a candidate with probability
+ * 1 - (1 - s^rows)^bands; this takes the most selective layout that still
+ * catches pairs right at the threshold almost always. Exact verification
+ * then drops the extra candidates.
+ */
+export const chooseLshBands = (
+  threshold: number,
+  numHashes: number = DEFAULT_NUM_HASHES
+): { bands: number; rows: number } => {
+  let best = { bands: numHashes, rows: 1 };
+
+  for (let rows = 1; rows <= numHashes; rows++) {
+    if (numHashes % rows !== 0) continue;
+    const bands = numHashes / rows;
+    const recall = 1 - Math.pow(1 - Math.pow(threshold, rows), bands);
+    if (recall >= MIN_RECALL) best = { bands, rows };
+  }
+
+  return best;
+};
+
+/**
+ * Find every pair of token lists whose Jaccard similarity reaches the threshold.
+ * Candidates come from LSH buckets, so the cost grows close to linearly with
+ * the number of rows; every candidate is verified with the exact similarity.
+ * Empty token lists never match.
+ */
+export const findSimilarPairs = (
+  tokenSets: string[][],
+  threshold: number = DEFAULT_SIMILARITY_THRESHOLD,
+  options: { numHashes?: number; onProgress?: ProgressCallback } = {}
+): SimilarPair[] => {
+  const numHashes = options.numHashes ?? DEFAULT_NUM_HASHES;
+  const { bands, rows } = chooseLshBands(threshold, numHashes);
+  const buckets = new Map<string, number[]>();
+  const total = tokenSets.length;
+
+  tokenSets.forEach((tokens, index) => {
+    if (index % PROGRESS_INTERVAL === 0) options.onProgress?.(index, total);
+    if (tokens.length === 0) return;
+
+    const signature = computeMinHash(tokens, numHashes);
+    for (let band = 0; band < bands; band++) {
+      const key = `${band}:${signature.subarray(band * rows, (band + 1) * rows).join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(key, [index]);
+      }
+    }
+  });
+
+  const checked = new Set<number>();
+  const pairs: SimilarPair[] = [];
+
+  buckets.forEach(members => {
+    for (let i = 0; i < members.length; i++) {
+      const last = Math.min(members.length, i + 1 + MAX_BUCKET_COMPARISONS);
+      for (let j = i + 1; j < last; j++) {
+        const a = members[i];
+        const b = members[j];
+        const pairKey = a * total + b;
+        if (checked.has(pairKey)) continue;
+        checked.add(pairKey);
+
+        const similarity = jaccardSimilarity(tokenSets[a], tokenSets[b]);
+        if (similarity >= threshold) {
+          pairs.push({ a, b, similarity });
+        }
+      }
+    }
+  });
+
+  options.onProgress?.(total, total);
+  return pairs;
+};
+
+/**
+ * Group similar pairs into clusters (union-find), ignoring singletons
+ */
+export const clusterSimilarPairs = (pairs: SimilarPair[]): number[][] => {
+  const parent = new Map<number, number>();
+
+  const find = (x: number): number => {
+    let root = x;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    // Path compression
+    while (parent.get(x) !== root) {
+      const next = parent.get(x)!;
+      parent.set(x, root);
+      x = next;
+    }
+    return root;
+  };
+
+  pairs.forEach(({ a, b }) => {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(Math.max(rootA, rootB), Math.min(rootA, rootB));
+  });
+
+  const clusters = new Map<number, number[]>();
+  parent.forEach((_, node) => {
+    const root = find(node);
+    if (!clusters.has(root)) clusters.set(root, []);
+    clusters.get(root)!.push(node);
+  });
+
+  return [...clusters.values()]
+    .map(cluster => cluster.sort((x, y) => x - y))
+    .sort((x, y) => x[0] - y[0]);
+};
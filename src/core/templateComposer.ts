@@ -0,0 +1,176 @@
+// =====================================================
+// ULTRACLEAN - Title / Description Templates
+// =====================================================
+//
+// Syntax:
+//   {Coluna}         value of a column or enriched field (nome_padronizado, marca_inferida, ncm...)
+//   [ - {Cor}]       optional section, dropped when any placeholder inside it is empty
+//   \{ \[            literal brace or bracket
+
+import type { ComposeTemplate, ProductData, TemplateNode } from './types';
+
+type FieldResolver = (name: string) => unknown;
+
+const normalizeKey = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+/**
+ * Parse a template into text, field and optional-section nodes
+ */
+export const parseTemplate = (template: string): TemplateNode[] => {
+  const stack: TemplateNode[][] = [[]];
+  let text = '';
+
+  const flushText = () => {
+    if (text) stack[stack.length - 1].push({ kind: 'text', value: text });
+    text = '';
+  };
+
+  for (let i = 0; i < template.length; i++) {
+    const char = template[i];
+
+    if (char === '\\' && i + 1 < template.length) {
+      text += template[++i];
+    } else if (char === '{') {
+      const end = template.indexOf('}', i);
+      if (end === -1) throw new Error('Chave "{" sem fechamento');
+      const name = template.slice(i + 1, end).trim();
+      if (!name) throw new Error('Campo vazio "{}"');
+      flushText();
+      stack[stack.length - 1].push({ kind: 'field', name });
+      i = end;
+    } else if (char === '}') {
+      throw new Error('Chave "}" sem abertura');
+    } else if (char === '[') {
+      flushText();
+      stack.push([]);
+    } else if (char === ']') {
+      if (stack.length === 1) throw new Error('Colchete "]" sem abertura');
+      flushText();
+      const children = stack.pop()!;
+      stack[stack.length - 1].push({ kind: 'optional', children });
+    } else {
+      text += char;
+    }
+  }
+
+  if (stack.length > 1) throw new Error('Colchete "[" sem fechamento');
+  flushText();
+  return stack[0];
+};
+
+/**
+ * Check a template; returns the problem or null
+ */
+export const validateTemplate = (template: string): string | null => {
+  try {
+    parseTemplate(template);
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+};
+
+/**
+ * Names of every placeholder used in a template
+ */
+export const getTemplateFields = (template: string): string[] => {
+  const fields = new Set<string>();
+  const visit = (nodes: TemplateNode[]) =>
+    nodes.forEach(node => {
+      if (node.kind === 'field') fields.add(node.name);
+      if (node.kind === 'optional') visit(node.children);
+    });
+
+  try {
+    visit(parseTemplate(template));
+  } catch {
+    // Invalid templates simply have no fields yet
+  }
+  return [...fields];
+};
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+// An optional section is dropped (null) when a field directly inside it is empty;
+// nested sections decide for themselves
+const renderNodes = (nodes: TemplateNode[], resolve: FieldResolver, optional = false): string | null => {
+  let output = '';
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.value;
+    } else if (node.kind === 'field') {
+      const value = resolve(node.name);
+      if (isEmptyValue(value)) {
+        if (optional) return null;
+        continue;
+      }
+      output += String(value).trim();
+    } else {
+      output += renderNodes(node.children, resolve, true) ?? '';
+    }
+  }
+  return output;
+};
+
+const TRAILING_SEPARATORS = /[\s,;:|/\-–]+$/;
+const LEADING_SEPARATORS = /^[\s,;:|/\-–]+/;
+
+/**
+ * Cut text at a word boundary so it fits in maxLength characters
+ */
+export const truncateByWord = (text: string, maxLength: number): string => {
+  if (!maxLength || text.length <= maxLength) return text;
+
+  const cut = text.slice(0, maxLength + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  const truncated = lastSpace > 0 ? cut.slice(0, lastSpace) : text.slice(0, maxLength);
+  return truncated.replace(TRAILING_SEPARATORS, '');
+};
+
+/**
+ * Render a template with a field resolver.
+ * Required placeholders that are empty just disappear; the result has its
+ * whitespace collapsed and dangling separators removed before truncation.
+ */
+export const renderTemplate = (template: ComposeTemplate, resolve: FieldResolver): string => {
+  const rendered = renderNodes(parseTemplate(template.template), resolve)
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,;:.!?])/g, '$1')
+    .replace(LEADING_SEPARATORS, '')
+    .replace(TRAILING_SEPARATORS, '');
+
+  return truncateByWord(rendered, template.maxLength ?? 0);
+};
+
+/**
+ * Compose a product text from its row and AI-enriched fields.
+ * Placeholders match column names ignoring case and accents; enriched fields
+ * are looked up by key ("nome_padronizado"), and "ncm" reads the suggested code.
+ */
+export const composeProductText = (
+  template: ComposeTemplate,
+  row: ProductData,
+  enriched: Record<string, unknown> = {}
+): string => {
+  const values = new Map<string, unknown>();
+
+  Object.entries(enriched).forEach(([key, value]) => {
+    if (key === 'ncm_sugerido') {
+      values.set('ncm', (value as { codigo?: string } | undefined)?.codigo);
+    } else {
+      values.set(normalizeKey(key), value);
+    }
+  });
+  // Spreadsheet columns win over enriched fields with the same name
+  Object.entries(row).forEach(([key, value]) => {
+    if (!key.startsWith('__') && !isEmptyValue(value)) values.set(normalizeKey(key), value);
+  });
+
+  return renderTemplate(template, name => values.get(normalizeKey(name)));
+};
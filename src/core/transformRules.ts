@@ -0,0 +1,196 @@
+// =====================================================
+// ULTRACLEAN - Column Transformation Rules
+// =====================================================
+
+import type { CaseStyle, ProductData, TransformCondition, TransformRule } from './types';
+
+type CompiledTransform = (value: unknown, row: ProductData) => unknown;
+
+// Lowercase connectors kept in title case ("Chave de Fenda", "Cabo com Plugue")
+const TITLE_CASE_CONNECTORS = new Set(['a', 'e', 'o', 'as', 'os', 'da', 'de', 'do', 'das', 'dos', 'em', 'na', 'no', 'com', 'para', 'por', 'sem']);
+
+const CASE_LABELS: Record<CaseStyle, string> = {
+  upper: 'MAIÚSCULAS',
+  lower: 'minúsculas',
+  title: 'Título',
+  sentence: 'Frase'
+};
+
+const OPERATOR_LABELS: Record<TransformCondition['operator'], string> = {
+  contains: 'contém',
+  equals: 'é igual a',
+  starts_with: 'começa com',
+  matches: 'corresponde a',
+  empty: 'está vazio',
+  not_empty: 'está preenchido'
+};
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const foldText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+const capitalize = (word: string): string =>
+  word.charAt(0).toLocaleUpperCase('pt-BR') + word.slice(1);
+
+const applyCase = (text: string, style: CaseStyle): string => {
+  switch (style) {
+    case 'upper':
+      return text.toLocaleUpperCase('pt-BR');
+    case 'lower':
+      return text.toLocaleLowerCase('pt-BR');
+    case 'sentence':
+      return capitalize(text.toLocaleLowerCase('pt-BR'));
+    case 'title':
+      return text
+        .toLocaleLowerCase('pt-BR')
+        .split(/(\s+)/)
+        .map((word, index) => (index > 0 && TITLE_CASE_CONNECTORS.has(word) ? word : capitalize(word)))
+        .join('');
+  }
+};
+
+const isEmptyValue = (value: unknown): boolean =>
+  value === undefined || value === null || String(value).trim() === '';
+
+const compileCondition = (condition: TransformCondition): ((row: ProductData) => boolean) => {
+  const expected = foldText(condition.value ?? '');
+
+  switch (condition.operator) {
+    case 'empty':
+      return row => isEmptyValue(row[condition.column]);
+    case 'not_empty':
+      return row => !isEmptyValue(row[condition.column]);
+    case 'matches': {
+      const regex = new RegExp(condition.value ?? '', 'i');
+      return row => regex.test(String(row[condition.column] ?? ''));
+    }
+    case 'equals':
+      return row => foldText(String(row[condition.column] ?? '')) === expected;
+    case 'starts_with':
+      return row => foldText(String(row[condition.column] ?? '')).startsWith(expected);
+    case 'contains':
+      return row => foldText(String(row[condition.column] ?? '')).includes(expected);
+  }
+};
+
+// Text transforms leave numbers and empty cells alone
+const onText = (transform: (text: string) => string): CompiledTransform =>
+  value => (typeof value === 'string' ? transform(value) : value);
+
+const compileRule = (rule: TransformRule): CompiledTransform => {
+  switch (rule.type) {
+    case 'trim':
+      return onText(text => text.replace(/\s+/g, ' ').trim());
+
+    case 'case':
+      return onText(text => applyCase(text, rule.style));
+
+    case 'regex_replace': {
+      const regex = new RegExp(rule.pattern, rule.flags ?? 'g');
+      return onText(text => text.replace(regex, rule.replacement));
+    }
+
+    case 'replace_table': {
+      const lookup = new Map(Object.entries(rule.entries).map(([from, to]) => [from.toLowerCase(), to]));
+      if (lookup.size === 0) return value => value;
+
+      // One alternation, longest terms first so "aço inox" wins over "aço"
+      const terms = [...lookup.keys()].sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+      const regex = rule.wholeWord
+        ? new RegExp(`(?<![\\p{L}\\p{N}])(${terms})(?![\\p{L}\\p{N}])`, 'giu')
+        : new RegExp(`(${terms})`, 'gi');
+      return onText(text => text.replace(regex, match => lookup.get(match.toLowerCase()) ?? match));
+    }
+
+    case 'set_if': {
+      const matches = compileCondition(rule.condition);
+      return (value, row) => (matches(row) ? rule.value : value);
+    }
+
+    case 'concatenate':
+      return (value, row) => {
+        if (rule.onlyEmpty && !isEmptyValue(value)) return value;
+        const joined = rule.columns
+          .map(column => String(row[column] ?? '').trim())
+          .filter(Boolean)
+          .join(rule.separator);
+        return joined || value;
+      };
+  }
+};
+
+/**
+ * Check a rule before saving it; returns the problem or null
+ */
+export const validateTransformRule = (rule: TransformRule): string | null => {
+  try {
+    if (rule.type === 'regex_replace') {
+      if (!rule.pattern) return 'Informe a expressão regular';
+      new RegExp(rule.pattern, rule.flags ?? 'g');
+    }
+    if (rule.type === 'set_if') {
+      if (!rule.condition.column) return 'Escolha a coluna da condição';
+      if (rule.condition.operator === 'matches') new RegExp(rule.condition.value ?? '', 'i');
+    }
+    if (rule.type === 'concatenate' && rule.columns.length === 0) return 'Escolha ao menos uma coluna';
+    if (rule.type === 'replace_table' && Object.keys(rule.entries).length === 0) return 'Adicione ao menos uma substituição';
+  } catch (err) {
+    return `Expressão regular inválida: ${err instanceof Error ? err.message : err}`;
+  }
+  return null;
+};
+
+/**
+ * Compile each valid rule on its own, keeping the rule for change tracking
+ */
+export const compileTransformSteps = (
+  rules: TransformRule[] = []
+): Array<{ rule: TransformRule; apply: CompiledTransform }> =>
+  rules.filter(rule => validateTransformRule(rule) === null).map(rule => ({ rule, apply: compileRule(rule) }));
+
+/**
+ * Compile a column's rules into a single function; invalid rules are skipped
+ */
+export const compileTransformRules = (rules: TransformRule[] = []): CompiledTransform => {
+  const steps = compileTransformSteps(rules).map(step => step.apply);
+  return (value, row) => steps.reduce((current, step) => step(current, row), value);
+};
+
+/**
+ * Apply a column's rules to one value
+ */
+export const applyTransformRules = (
+  value: unknown,
+  rules: TransformRule[],
+  row: ProductData
+): unknown => compileTransformRules(rules)(value, row);
+
+/**
+ * Short pt-BR description of a rule for lists and logs
+ */
+export const describeTransformRule = (rule: TransformRule): string => {
+  switch (rule.type) {
+    case 'trim':
+      return 'Remover espaços extras';
+    case 'case':
+      return `Converter para ${CASE_LABELS[rule.style]}`;
+    case 'regex_replace':
+      return `Substituir /${rule.pattern}/ por "${rule.replacement}"`;
+    case 'replace_table':
+      return `Tabela de substituição (${Object.keys(rule.entries).length} termos)`;
+    case 'set_if': {
+      const { column, operator, value } = rule.condition;
+      const condition = operator === 'empty' || operator === 'not_empty'
+        ? `${column} ${OPERATOR_LABELS[operator]}`
+        : `${column} ${OPERATOR_LABELS[operator]} "${value ?? ''}"`;
+      return `Se ${condition}, definir "${rule.value}"`;
+    }
+    case 'concatenate':
+      return `Juntar ${rule.columns.join(` "${rule.separator}" `)}${rule.onlyEmpty ? ' (se vazio)' : ''}`;
+  }
+};
@@ -2,14 +2,48 @@
 // ULTRACLEAN - Core Types
 // =====================================================
 
-import { getAbbreviations } from '@/config';
+import { getAbbreviations, getAbbreviationScopes, type AbbreviationScopeRule } from '@/config';
 
 export interface ColumnConfig {
   action: 'ignore' | 'analyze' | 'default_all' | 'default_empty';
   defaultValue: string;
   isProtected: boolean;
+  // Applied in order after the action
+  transforms?: TransformRule[];
 }
 
+export type CaseStyle = 'upper' | 'lower' | 'title' | 'sentence';
+
+export type ConditionOperator = 'contains' | 'equals' | 'starts_with' | 'matches' | 'empty' | 'not_empty';
+
+export interface TransformCondition {
+  column: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+// One step of a column's transformation pipeline
+export type TransformRule =
+  | { type: 'trim' }
+  | { type: 'case'; style: CaseStyle }
+  | { type: 'regex_replace'; pattern: string; flags?: string; replacement: string }
+  | { type: 'replace_table'; entries: Record<string, string>; wholeWord?: boolean }
+  | { type: 'set_if'; condition: TransformCondition; value: string }
+  | { type: 'concatenate'; columns: string[]; separator: string; onlyEmpty?: boolean };
+
+export type TransformRuleType = TransformRule['type'];
+
+// Text composed from a template, e.g. "{Tipo} {Marca} {Modelo}[ {Cor}]"
+export interface ComposeTemplate {
+  template: string;
+  maxLength?: number;
+}
+
+export type TemplateNode =
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; name: string }
+  | { kind: 'optional'; children: TemplateNode[] };
+
 export interface DuplicateResult {
   tipo: string;
   valor: string;
@@ -19,23 +53,502 @@ export interface DuplicateResult {
   sourceFiles?: string[];
 }
 
+export interface DuplicateDetectionOptions {
+  /** Minimum Jaccard similarity (0–1) for "Descrição Similar" groups */
+  similarityThreshold?: number;
+  /** Abbreviations expanded before comparing descriptions */
+  abbreviations?: Record<string, string>;
+  /** Where each abbreviation may be expanded (defaults to abbreviations.json) */
+  abbreviationScopes?: Record<string, AbbreviationScopeRule>;
+}
+
+export interface SimilarPair {
+  a: number;
+  b: number;
+  similarity: number;
+}
+
+export type GtinType = 'EAN-8' | 'UPC-A' | 'EAN-13' | 'GTIN-14';
+
+export type GtinError = 'empty' | 'non_numeric' | 'invalid_length' | 'invalid_check_digit' | 'placeholder';
+
+export interface GtinValidation {
+  raw: string;
+  normalized: string;
+  type: GtinType | null;
+  valid: boolean;
+  error?: GtinError;
+  // GS1 member country of the company prefix (e.g. "Brasil" for 789/790)
+  country?: string;
+}
+
+// Where each column of a merged (golden) record takes its value from
+export type SurvivorshipRule = 'survivor' | 'non_empty' | 'longest' | 'newest_file';
+
+export type DuplicateAction = 'pending' | 'merge' | 'keep' | 'not_duplicate';
+
+// Decision taken for one duplicate group
+export interface DuplicateResolution {
+  action: DuplicateAction;
+  // Row whose values win by default (and the only row left on "keep")
+  survivor: number;
+  // Rows split off the group, left untouched
+  excluded: number[];
+}
+
+export interface DuplicateResolutionSummary {
+  data: ProductData[];
+  merged: number;
+  removed: number;
+}
+
+// Variation (child) of a parent product, e.g. "Camiseta Básica" in size P
+export interface VariantChild {
+  rowIndex: number;
+  // Axis → value, e.g. { Cor: 'Preta', Tamanho: 'P' }
+  attributes: Record<string, string>;
+}
+
+export interface VariantGroup {
+  id: string;
+  parentName: string;
+  parentSku: string;
+  axes: string[];
+  children: VariantChild[];
+}
+
+// Attribute pulled out of a product name, e.g. Voltagem "220V" from "Furadeira 500W 220V"
+export interface ExtractedAttribute {
+  attribute: string;
+  value: string;
+  // Substring of the source text that produced the value
+  match: string;
+  start: number;
+  end: number;
+  confidence: number;
+}
+
+export interface AttributeExtraction {
+  rowIndex: number;
+  source: string;
+  attributes: ExtractedAttribute[];
+}
+
+export type QuantityKind = 'length' | 'weight' | 'volume';
+
+export interface ParsedQuantity {
+  value: number;
+  unit: string;
+  kind: QuantityKind;
+}
+
+// Unit a column is converted to, e.g. Peso → kg
+export interface UnitTarget {
+  kind: QuantityKind;
+  unit: string;
+}
+
+export type UnitIssueType = 'unparsed' | 'unit_mismatch' | 'implausible';
+
+export interface UnitChange {
+  rowIndex: number;
+  column: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface UnitIssue {
+  rowIndex: number;
+  column: string;
+  value: string;
+  type: UnitIssueType;
+}
+
+export interface UnitNormalizationOptions {
+  columnTargets: Record<string, UnitTarget>;
+  // Text columns whose quantities are rewritten ("50 MM" → "50mm")
+  textColumns?: string[];
+  // Convert quantities in text to these units; kinds left out keep their unit
+  textUnits?: Partial<Record<QuantityKind, string>>;
+}
+
+export interface UnitNormalizationResult {
+  data: ProductData[];
+  changes: UnitChange[];
+  issues: UnitIssue[];
+}
+
+// Product already enriched in an earlier session (produtos_processados)
+export interface HistoricalProduct {
+  id: string;
+  sku: string | null;
+  gtin: string | null;
+  name: string;
+  enriched: Record<string, unknown>;
+  necessitaRevisao: boolean;
+  razaoRevisao: string | null;
+  validado: boolean;
+  validadoEm: string | null;
+  createdAt: string;
+}
+
+export type HistoryMatchType = 'gtin' | 'sku' | 'nome';
+
+export interface HistoryMatch {
+  rowIndex: number;
+  productId: string;
+  matchType: HistoryMatchType;
+  similarity: number;
+}
+
 export interface ProcessingStats {
   camposPreenchidos: number;
   abreviaturasCorrigidas: number;
   camposProtegidos: number;
   camposIgnorados: number;
+  transformacoesAplicadas: number;
 }
 
 export interface ProcessingResult {
   enrichedData: Record<string, unknown>[];
   stats: ProcessingStats;
+  // Only filled when processData runs with trackChanges
+  changes?: CellChange[];
+}
+
+export interface ProcessDataOptions {
+  // Dry run: list every changed cell and the steps that changed it
+  trackChanges?: boolean;
+  // Where each abbreviation may be expanded (defaults to abbreviations.json)
+  abbreviationScopes?: Record<string, AbbreviationScopeRule>;
+}
+
+// What changed a cell: a default value, a generic fallback, a transformation
+// rule, an abbreviation, an AI suggestion, a spelling correction or a manual edit
+export type ChangeSource = 'default' | 'transform' | 'abbreviation' | 'ai' | 'spelling' | 'manual';
+
+export interface ChangeStep {
+  source: ChangeSource;
+  // Rule description, abbreviations or enriched field behind the step
+  rule: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface CellChange {
+  // "<rowIndex>:<column>"
+  id: string;
+  rowIndex: number;
+  column: string;
+  before: unknown;
+  after: unknown;
+  steps: ChangeStep[];
+}
+
+// Change log behind the audit sheet: one changed cell and where the change came from
+export interface CellProvenance {
+  // Matches the row across steps that add or remove rows (source file and line, SKU or position)
+  rowKey: string;
+  sku?: string;
+  // "arquivo › linha N", as in the duplicate and GTIN reports
+  location: string;
+  column: string;
+  before: unknown;
+  after: unknown;
+  source: ChangeSource;
+  // Rule, abbreviation, corrected words or enriched field behind the change
+  detail: string;
+  model?: string;
+  promptVersion?: string;
+  user?: string;
+  timestamp: string;
+  // Undo/redo entry that applied the change; undone entries leave the audit
+  entryId?: string;
+}
+
+export type ProvenanceContext = Pick<CellProvenance, 'source' | 'detail' | 'model' | 'promptVersion' | 'user'>;
+
+// Undo/redo: each entry keeps what one editing step changed in the tracked
+// state. Arrays of the same length store only the rows that differ; anything
+// else (rows added or removed, columns) stores the whole value
+export type HistoryPatch =
+  | { key: string; kind: 'rows'; rows: Array<{ index: number; before: unknown; after: unknown }> }
+  | { key: string; kind: 'replace'; before: unknown; after: unknown };
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  createdAt: string;
+  patches: HistoryPatch[];
+}
+
+export interface ChangeHistory {
+  // Oldest first; the last entry is the next one to undo
+  past: HistoryEntry[];
+  // Most recently undone first
+  future: HistoryEntry[];
 }
 
+// Reports progress of long-running operations (processed out of total)
+export type ProgressCallback = (processed: number, total: number) => void;
+
 // Product data with enrichment fields
 export interface ProductData {
   [key: string]: unknown;
   __source_file?: string;
+  __source_sheet?: string;
   __row_index?: number;
+  // 1-based line in the source spreadsheet (header and blank rows included)
+  __row_number?: number;
+  // Last-modified timestamp of the source file, used by "newest file wins"
+  __source_modified?: number;
+}
+
+// Header row position inside a sheet (0-based, one or two stacked rows)
+export interface HeaderSelection {
+  headerRow: number;
+  headerRows: 1 | 2;
+}
+
+export interface HeaderDetection extends HeaderSelection {
+  confidence: number;
+  hasMergedHeader: boolean;
+}
+
+// Workbook sheet overview shown before import
+export interface SheetSummary {
+  name: string;
+  rowCount: number;
+  columns: string[];
+  preview: ProductData[];
+  header: HeaderDetection;
+  rawPreview: string[][];
+}
+
+// Parsed workbook: sheet overview plus the rows of every sheet
+export interface ParsedWorkbook {
+  sheets: SheetSummary[];
+  rowsBySheet: Record<string, ProductData[]>;
+}
+
+// Column mapping onto the Bling preset columns
+export type ColumnMatchType = 'saved' | 'exact' | 'normalized' | 'partial' | 'similar' | 'manual' | 'none';
+
+export type ColumnMapping = Record<string, string | null>;
+
+export interface ColumnMappingSuggestion {
+  source: string;
+  target: string | null;
+  matchType: ColumnMatchType;
+  confidence: number;
+}
+
+// Abbreviation expansion found in a cell
+export interface AbbreviationChange {
+  original: string;
+  corrigido: string;
+  tipo: string;
+}
+
+// Abbreviation dictionary compiled into a single case-insensitive pattern
+export interface AbbreviationMatcher {
+  pattern: RegExp | null;
+  // Lowercase abbreviation → entry as written in the dictionary
+  entries: Map<string, { abbr: string; full: string; scope: AbbreviationScopeRule }>;
+}
+
+export interface AbbreviationMatch {
+  abbr: string;
+  full: string;
+  // Text as found in the cell and its case-preserving expansion
+  original: string;
+  replacement: string;
+  start: number;
+  end: number;
+}
+
+// duplicate: same abbreviation in different case; overlap: a shorter entry
+// inside a longer one; chain: an expansion contains another abbreviation
+export type AbbreviationConflictType = 'duplicate' | 'overlap' | 'chain';
+
+export interface AbbreviationConflict {
+  type: AbbreviationConflictType;
+  abbreviations: [string, string];
+  message: string;
+}
+
+// Abbreviation found in the catalog with its proposed expansion.
+// context: written in place of the full word next to the same words;
+// prefix: start of a catalog word; letters: its letters, in order, in a catalog word
+export type AbbreviationEvidence = 'context' | 'prefix' | 'letters';
+
+export interface AbbreviationSuggestion {
+  // Dictionary key, lowercase and as written ("sext.", "c/", "paraf")
+  abbr: string;
+  full: string;
+  // Other catalog words it could stand for, best first
+  alternatives: string[];
+  // Cells where it appears, and a few of them
+  occurrences: number;
+  examples: string[];
+  evidence: AbbreviationEvidence;
+  confidence: number;
+}
+
+export interface AbbreviationMiningOptions {
+  // Abbreviations already in the dictionary are not suggested again
+  existing?: Record<string, string>;
+  // Fewer cells than this and a token is ignored (default 2)
+  minOccurrences?: number;
+  // Longest abbreviation considered, in letters (default 8)
+  maxLength?: number;
+}
+
+// Abbreviations with their scopes, as kept in a personal or team-shared dictionary
+export interface AbbreviationDictionary {
+  abbreviations: Record<string, string>;
+  scopes: Record<string, AbbreviationScopeRule>;
+}
+
+export type AbbreviationDiffType = 'added' | 'removed' | 'changed';
+
+export interface AbbreviationDiffEntry {
+  abbr: string;
+  type: AbbreviationDiffType;
+  before?: string;
+  after?: string;
+  // Same expansion, different scope (or both changed)
+  scopeChanged: boolean;
+}
+
+// Personal entry that expands differently from a subscribed shared dictionary
+export interface AbbreviationDictionaryConflict {
+  abbr: string;
+  mine: string;
+  shared: string;
+  dictionary: string;
+}
+
+export interface AbbreviationCorrection {
+  rowIndex: number;
+  column: string;
+  original: string;
+  corrected: string;
+  alterations: AbbreviationChange[];
+}
+
+// Why a scheduled call failed; "retryable" failures go back to the queue
+export interface SchedulerFailure {
+  message: string;
+  retryable: boolean;
+  // HTTP status, when the failure came from a response (429, 5xx...)
+  status?: number;
+  // Wait asked by the server (Retry-After), in ms
+  retryAfterMs?: number;
+}
+
+export interface SchedulerOutcome<R> {
+  index: number;
+  ok: boolean;
+  // Worker result, when ok
+  value?: R;
+  // Last failure, when not ok
+  error?: SchedulerFailure;
+  attempts: number;
+}
+
+export type ConcurrencyChangeReason = 'throttled' | 'healthy';
+
+export interface SchedulerOptions<R = unknown> {
+  initialConcurrency?: number;
+  minConcurrency?: number;
+  maxConcurrency?: number;
+  // Retries after the first attempt
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Successes in a row before one more call runs in parallel
+  healthyStreak?: number;
+  classifyError?: (error: unknown) => SchedulerFailure;
+  isCancelled?: () => boolean;
+  isPaused?: () => boolean;
+  onSettled?: (outcome: SchedulerOutcome<R>, settled: number, total: number) => void;
+  onRetry?: (index: number, attempt: number, delayMs: number, failure: SchedulerFailure) => void;
+  onConcurrencyChange?: (concurrency: number, reason: ConcurrencyChangeReason) => void;
+  // Injectable clock, jitter and timer (tests)
+  now?: () => number;
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Server-side enrichment job, processed by the enriquecer-lote edge function
+export type EnrichmentJobStatus = 'queued' | 'running' | 'paused' | 'cancelled' | 'completed' | 'failed';
+
+export interface EnrichmentJob {
+  id: string;
+  sessionId: string;
+  status: EnrichmentJobStatus;
+  totalItems: number;
+  // Done or failed
+  itemsProcessed: number;
+  itemsFailed: number;
+  error: string | null;
+  // Results already loaded into the session
+  appliedAt: string | null;
+  finishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type EnrichmentJobItemStatus = 'pending' | 'processing' | 'done' | 'failed';
+
+// Enrichment reused from an earlier session, stored as the item result
+export interface ReusedEnrichment {
+  registroId: string;
+  enriched: Record<string, unknown>;
+  reusedFrom: string;
+}
+
+export interface EnrichmentJobItem {
+  rowIndex: number;
+  // Row after the rules
+  row: ProductData;
+  // Analyzed columns sent to the AI, GS1 origin hint and SKU/GTIN
+  product: ProductData;
+  hints: { origem?: string };
+  identifiers: { sku?: string; gtin?: string };
+  status: EnrichmentJobItemStatus;
+  attempts: number;
+  // enriquecer-produto response (or the reused enrichment) once done
+  result: Record<string, unknown> | null;
+  error: string | null;
+}
+
+// Per-user enrichment cache (enrichment_cache table)
+export interface EnrichmentCacheStats {
+  entries: number;
+  // Past their TTL, ignored by the enrichment function
+  expired: number;
+}
+
+// Export file formats
+export type ExportFormat = 'xlsx' | 'csv' | 'json';
+
+// CSV import settings (detected automatically, overridable on upload)
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-1' | 'utf-16le' | 'utf-16be';
+export type CsvDelimiter = ';' | ',' | '\t' | '|';
+
+export interface CsvImportOptions {
+  encoding: CsvEncoding;
+  delimiter: CsvDelimiter;
+  quoteChar: '"' | "'";
+  decimalSeparator: ',' | '.';
+  thousandsSeparator: '.' | ',' | '';
+}
+
+export interface CsvDetectionResult extends CsvImportOptions {
+  hasBom: boolean;
+  sampleRows: number;
 }
 
 // Image-related types
@@ -124,3 +637,4 @@ export const BLING_STANDARD_COLUMNS: BlingColumn[] = [
 
 // Default abbreviations - loaded from JSON config
 export const DEFAULT_ABBREVIATIONS: Record<string, string> = getAbbreviations();
+export const DEFAULT_ABBREVIATION_SCOPES: Record<string, AbbreviationScopeRule> = getAbbreviationScopes();
@@ -0,0 +1,259 @@
+// =====================================================
+// ULTRACLEAN - Units of Measure
+// =====================================================
+
+import { getUnitAliases, getUnitColumnTargets, getUnitKinds } from '@/config';
+import type {
+  ParsedQuantity,
+  ProductData,
+  ProgressCallback,
+  QuantityKind,
+  UnitChange,
+  UnitIssue,
+  UnitIssueType,
+  UnitNormalizationOptions,
+  UnitNormalizationResult,
+  UnitTarget
+} from './types';
+
+const PROGRESS_STEP = 200;
+
+// Single-letter units written apart and in capitals are usually sizes ("Tam 2 M"), not meters
+const SIZE_LETTERS = /^[MGTP]$/;
+
+interface UnitInfo {
+  kind: QuantityKind;
+  factor: number;
+}
+
+let unitIndex: Map<string, UnitInfo> | null = null;
+let aliasIndex: Map<string, string> | null = null;
+let quantityRegex: RegExp | null = null;
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const normalizeKey = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+// Same length as the input, so match positions can be used on the original
+const foldText = (text: string): string =>
+  text
+    .split('')
+    .map(char => char.normalize('NFD').charAt(0).toLowerCase().charAt(0))
+    .join('');
+
+const getUnitIndex = (): Map<string, UnitInfo> => {
+  if (!unitIndex) {
+    unitIndex = new Map();
+    Object.entries(getUnitKinds()).forEach(([kind, rule]) => {
+      Object.entries(rule.units).forEach(([symbol, factor]) => {
+        unitIndex!.set(symbol, { kind: kind as QuantityKind, factor });
+      });
+    });
+  }
+  return unitIndex;
+};
+
+const getAliasIndex = (): Map<string, string> => {
+  if (!aliasIndex) aliasIndex = new Map(Object.entries(getUnitAliases()));
+  return aliasIndex;
+};
+
+// "10 x 20 x 5 cm", "50mm", "1,5 litros" in accent-free lowercase text
+const getQuantityRegex = (): RegExp => {
+  if (!quantityRegex) {
+    const units = [...getAliasIndex().keys()].sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+    const number = '\\d+(?:[.,]\\d+)*';
+    quantityRegex = new RegExp(
+      `(?<![\\p{L}\\p{N}.,])(${number}(?:\\s?x\\s?${number}){0,2})\\s?(${units})(\\.?)(?![\\p{L}\\p{N}])`,
+      'gu'
+    );
+  }
+  return quantityRegex;
+};
+
+/**
+ * Resolve a unit spelling ("Kgs", "centímetros", "lt") to its symbol
+ */
+export const resolveUnit = (unit: string): string | null =>
+  getAliasIndex().get(normalizeKey(unit).replace(/\.$/, '')) ?? null;
+
+/**
+ * Parse a number written the Brazilian way: "0,05", "1.250,5", "2.000" (thousands)
+ */
+export const parseDecimal = (text: string): number => {
+  const clean = text.trim().replace(/\s/g, '');
+  if (!/^-?[\d.,]+$/.test(clean)) return NaN;
+  if (clean.includes(',')) return Number(clean.replace(/\./g, '').replace(',', '.'));
+  if (/^-?\d{1,3}(\.\d{3})+$/.test(clean)) return Number(clean.replace(/\./g, ''));
+  return Number(clean);
+};
+
+/**
+ * Format a number with a decimal comma and at most three decimals
+ */
+export const formatDecimal = (value: number): string =>
+  String(Math.round(value * 1000) / 1000).replace('.', ',');
+
+/**
+ * Parse "50mm", "0,05 m", "2000 g"; a bare number takes the default unit
+ */
+export const parseQuantity = (text: string, defaultUnit?: string): ParsedQuantity | null => {
+  const match = text.trim().match(/^(-?\d[\d.,]*)\s*([\p{L}]+\.?)?$/u);
+  if (!match) return null;
+
+  const value = parseDecimal(match[1]);
+  const unit = match[2] ? resolveUnit(match[2]) : defaultUnit ?? null;
+  const info = unit ? getUnitIndex().get(unit) : undefined;
+  if (isNaN(value) || !unit || !info) return null;
+
+  return { value, unit, kind: info.kind };
+};
+
+/**
+ * Convert a value between two units of the same kind
+ */
+export const convertQuantity = (value: number, from: string, to: string): number => {
+  const source = getUnitIndex().get(from);
+  const target = getUnitIndex().get(to);
+  if (!source || !target) throw new Error(`Unidade desconhecida: ${!source ? from : to}`);
+  if (source.kind !== target.kind) throw new Error(`Não é possível converter ${from} em ${to}`);
+  return (value * source.factor) / target.factor;
+};
+
+/**
+ * Whether a quantity is within the plausible range of its kind (no 3-ton screwdrivers)
+ */
+export const isPlausibleQuantity = (value: number, unit: string): boolean => {
+  const info = getUnitIndex().get(unit);
+  if (!info) return false;
+  const { min, max } = getUnitKinds()[info.kind].plausible;
+  const base = value * info.factor;
+  return base >= min && base <= max;
+};
+
+/**
+ * Rewrite every quantity in a text with one notation ("50 MM" → "50mm",
+ * "10 x 20 cm" → "10x20cm"), converting kinds listed in textUnits.
+ * Returns the quantities that look implausible.
+ */
+export const normalizeUnitsInText = (
+  text: string,
+  textUnits: Partial<Record<QuantityKind, string>> = {}
+): { text: string; implausible: string[] } => {
+  const source = text.normalize('NFC');
+  const folded = foldText(source);
+  const implausible: string[] = [];
+  let result = '';
+  let cursor = 0;
+
+  for (const match of folded.matchAll(getQuantityRegex())) {
+    const start = match.index!;
+    const end = start + match[0].length;
+    const original = source.slice(start, end);
+    const unitEnd = end - match[3].length;
+    const unitText = source.slice(unitEnd - match[2].length, unitEnd);
+    const symbol = getAliasIndex().get(match[2])!;
+    const info = getUnitIndex().get(symbol)!;
+
+    if (unitText.length === 1 && /\s/.test(original) && SIZE_LETTERS.test(unitText)) continue;
+
+    const target = textUnits[info.kind] ?? symbol;
+    const values = match[1].split(/\s?x\s?/).map(part => convertQuantity(parseDecimal(part), symbol, target));
+    if (values.some(value => isNaN(value))) continue;
+    if (values.some(value => !isPlausibleQuantity(value, target))) implausible.push(original);
+
+    result += source.slice(cursor, start) + `${values.map(formatDecimal).join('x')}${target}`;
+    cursor = end;
+  }
+
+  return { text: result + source.slice(cursor), implausible };
+};
+
+/**
+ * Convert one cell of a dimension/weight column to the target unit.
+ * Numbers without a unit are taken as already in the target unit.
+ */
+export const normalizeUnitValue = (
+  value: unknown,
+  target: UnitTarget
+): { value: unknown; issue?: UnitIssueType } => {
+  if (value === undefined || value === null || String(value).trim() === '') return { value };
+
+  const parsed = typeof value === 'number'
+    ? { value, unit: target.unit, kind: target.kind }
+    : parseQuantity(String(value), target.unit);
+
+  if (!parsed) return { value, issue: 'unparsed' };
+  if (parsed.kind !== target.kind) return { value, issue: 'unit_mismatch' };
+
+  const converted = Math.round(convertQuantity(parsed.value, parsed.unit, target.unit) * 1000) / 1000;
+  return isPlausibleQuantity(converted, target.unit)
+    ? { value: converted }
+    : { value: converted, issue: 'implausible' };
+};
+
+/**
+ * Preset dimension/weight columns present in the sheet, with their target unit
+ */
+export const findUnitColumnTargets = (columns: string[]): Record<string, UnitTarget> => {
+  const rules = Object.entries(getUnitColumnTargets());
+  const targets: Record<string, UnitTarget> = {};
+
+  columns.forEach(col => {
+    const rule = rules.find(([name]) => normalizeKey(name) === normalizeKey(col));
+    if (rule) targets[col] = { kind: rule[1].kind as QuantityKind, unit: rule[1].unit };
+  });
+
+  return targets;
+};
+
+/**
+ * Normalize dimension/weight columns and the quantities written in text columns
+ */
+export const normalizeUnits = (
+  data: ProductData[],
+  options: UnitNormalizationOptions,
+  onProgress?: ProgressCallback
+): UnitNormalizationResult => {
+  const { columnTargets, textColumns = [], textUnits = {} } = options;
+  const changes: UnitChange[] = [];
+  const issues: UnitIssue[] = [];
+
+  const updated = data.map((row, rowIndex) => {
+    const next = { ...row };
+
+    Object.entries(columnTargets).forEach(([column, target]) => {
+      const before = row[column];
+      const { value, issue } = normalizeUnitValue(before, target);
+      if (issue) issues.push({ rowIndex, column, value: String(before ?? ''), type: issue });
+      if (value !== before) {
+        next[column] = value;
+        if (String(value) !== String(before)) changes.push({ rowIndex, column, before, after: value });
+      }
+    });
+
+    textColumns.forEach(column => {
+      const before = row[column];
+      if (typeof before !== 'string' || !before.trim()) return;
+
+      const { text, implausible } = normalizeUnitsInText(before, textUnits);
+      implausible.forEach(value => issues.push({ rowIndex, column, value, type: 'implausible' }));
+      if (text !== before) {
+        next[column] = text;
+        changes.push({ rowIndex, column, before, after: text });
+      }
+    });
+
+    if (onProgress && ((rowIndex + 1) % PROGRESS_STEP === 0 || rowIndex === data.length - 1)) {
+      onProgress(rowIndex + 1, data.length);
+    }
+    return next;
+  });
+
+  return { data: updated, changes, issues };
+};
@@ -0,0 +1,340 @@
+// =====================================================
+// ULTRACLEAN - Variant Detection (parent/child products)
+// =====================================================
+
+import { getVariantAxes, getVariantSeparators, type VariantAxisRule } from '@/config';
+import type { ProductData, ProgressCallback, VariantChild, VariantGroup } from './types';
+import { isBarcodeColumn } from './gtin';
+import { clusterSimilarPairs, findSimilarPairs, tokenizeForSimilarity } from './similarityIndex';
+
+// Bling links each variation to its parent through this column
+export const PARENT_SKU_COLUMN = 'Código Pai';
+
+// Base names must be nearly identical for rows to be variations of one product
+const VARIANT_NAME_THRESHOLD = 0.9;
+
+const WORD = /[A-Za-zÀ-ÿ0-9]+(?:[.,]\d+)?/g;
+
+interface NameToken {
+  text: string;
+  key: string;
+  start: number;
+  end: number;
+}
+
+interface CompiledAxis {
+  name: string;
+  labels: Set<string>;
+  values: Set<string>;
+  pattern?: RegExp;
+  labeledPattern?: RegExp;
+}
+
+const normalizeKey = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+
+let compiledAxes: CompiledAxis[] | null = null;
+
+const getCompiledAxes = (): CompiledAxis[] => {
+  if (!compiledAxes) {
+    compiledAxes = Object.entries(getVariantAxes()).map(([name, rule]: [string, VariantAxisRule]) => ({
+      name,
+      labels: new Set(rule.labels),
+      values: new Set(rule.values),
+      pattern: rule.pattern ? new RegExp(rule.pattern, 'i') : undefined,
+      labeledPattern: rule.labeledPattern ? new RegExp(rule.labeledPattern, 'i') : undefined
+    }));
+  }
+  return compiledAxes;
+};
+
+const tokenize = (text: string): NameToken[] =>
+  [...text.matchAll(WORD)].map(match => ({
+    text: match[0],
+    key: normalizeKey(match[0]),
+    start: match.index!,
+    end: match.index! + match[0].length
+  }));
+
+// Short letter-only values ("P", "M", "G") only count when written in capitals,
+// so "10 m" or "kit c/ 2 g" aren't read as sizes
+const isShortValue = (key: string): boolean => key.length <= 3 && !/\d/.test(key);
+
+/**
+ * Match a value of the axis starting at a token (one or two words)
+ */
+const matchAxisValue = (
+  axis: CompiledAxis,
+  tokens: NameToken[],
+  index: number,
+  labeled: boolean
+): number => {
+  const token = tokens[index];
+  const next = tokens[index + 1];
+
+  if (next && axis.values.has(`${token.key} ${next.key}`)) return 2;
+  if (next && axis.pattern?.test(`${token.key}${next.key}`)) return 2;
+
+  if (axis.values.has(token.key)) {
+    if (labeled || !isShortValue(token.key) || token.text === token.text.toUpperCase()) return 1;
+  }
+  if (axis.pattern?.test(token.key)) return 1;
+  if (labeled && axis.labeledPattern?.test(token.key)) return 1;
+  return 0;
+};
+
+const escapeRegex = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Remove separators left dangling once variation values are cut out of a name
+const cleanBaseName = (name: string): string => {
+  const separators = [...getVariantSeparators(), ':', '(', ')'].map(escapeRegex).join('');
+  const edge = new RegExp(`^[\\s${separators}]+|[\\s${separators}]+$`, 'g');
+  const repeated = new RegExp(`(\\s*[${separators}]\\s*){2,}`, 'g');
+
+  return name
+    .replace(/\(\s*\)/g, ' ')
+    .replace(repeated, ' - ')
+    .replace(/\s+/g, ' ')
+    .replace(edge, '')
+    .trim();
+};
+
+/**
+ * Split a product name into its base name and variation attributes.
+ * Values already known from attribute columns (e.g. a "Cor" column) are
+ * taken as-is and also cut out of the name.
+ */
+export const extractVariantAttributes = (
+  name: string,
+  explicit: Record<string, string> = {}
+): { baseName: string; attributes: Record<string, string> } => {
+  const tokens = tokenize(name);
+  const attributes: Record<string, string> = {};
+  const spans: [number, number][] = [];
+
+  // Values from attribute columns, matched word by word
+  Object.entries(explicit).forEach(([axis, value]) => {
+    const valueKeys = tokenize(value).map(t => t.key);
+    if (valueKeys.length === 0) return;
+    attributes[axis] = value.trim();
+
+    for (let i = 0; i + valueKeys.length <= tokens.length; i++) {
+      if (valueKeys.every((key, offset) => tokens[i + offset].key === key)) {
+        spans.push([tokens[i].start, tokens[i + valueKeys.length - 1].end]);
+        break;
+      }
+    }
+  });
+
+  const axes = getCompiledAxes().filter(axis => !attributes[axis.name]);
+
+  // The first word names the product ("Rosa do Deserto"), never a variation
+  for (let i = 1; i < tokens.length; i++) {
+    for (const axis of axes) {
+      if (attributes[axis.name]) continue;
+
+      const labeled = axis.labels.has(tokens[i].key) && i + 1 < tokens.length;
+      const start = labeled ? i + 1 : i;
+      const length = matchAxisValue(axis, tokens, start, labeled);
+      if (length === 0) continue;
+
+      const last = tokens[start + length - 1];
+      attributes[axis.name] = name.slice(tokens[start].start, last.end);
+      spans.push([tokens[i].start, last.end]);
+      i = start + length - 1;
+      break;
+    }
+  }
+
+  if (spans.length === 0) return { baseName: name.trim(), attributes };
+
+  let baseName = '';
+  let cursor = 0;
+  spans
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([start, end]) => {
+      if (start < cursor) return;
+      baseName += name.slice(cursor, start) + ' ';
+      cursor = end;
+    });
+  baseName += name.slice(cursor);
+
+  return { baseName: cleanBaseName(baseName), attributes };
+};
+
+/**
+ * Column holding the product name, preferring "Nome"/"Título" over descriptions
+ */
+export const findVariantNameColumn = (columns: string[]): string | undefined =>
+  columns.find(col => /^(nome|t[ií]tulo)/i.test(col.trim())) ??
+  columns.find(col => /descri/i.test(col));
+
+const findSkuColumn = (columns: string[]): string | undefined =>
+  columns.find(col => col !== PARENT_SKU_COLUMN && !isBarcodeColumn(col) && /sku|c[oó]digo/i.test(col));
+
+/**
+ * Parent SKU shared by the variations: their common prefix ("CAM-001-P",
+ * "CAM-001-M" → "CAM-001"), or the first SKU with a "-PAI" suffix
+ */
+export const suggestParentSku = (skus: string[]): string => {
+  const filled = skus.map(sku => sku.trim()).filter(Boolean);
+  if (filled.length === 0) return '';
+
+  let prefix = filled[0];
+  filled.forEach(sku => {
+    while (!sku.startsWith(prefix)) prefix = prefix.slice(0, -1);
+  });
+  prefix = prefix.replace(/[\s\-_./]+$/, '');
+
+  return prefix.length >= 3 && !filled.includes(prefix) ? prefix : `${filled[0]}-PAI`;
+};
+
+/**
+ * Group rows whose names differ only by variation values (Cor, Tamanho, Voltagem).
+ * Base names are compared with the same MinHash/LSH index used for duplicates;
+ * groups where every row has the same values are duplicates, not variations.
+ */
+export const detectVariantGroups = (
+  data: ProductData[],
+  columns: string[],
+  threshold: number = VARIANT_NAME_THRESHOLD,
+  onProgress?: ProgressCallback
+): VariantGroup[] => {
+  const nameColumn = findVariantNameColumn(columns);
+  if (!nameColumn) return [];
+
+  const skuColumn = findSkuColumn(columns);
+  const axisNames = getCompiledAxes().map(axis => axis.name);
+  const attributeColumns = axisNames
+    .map(axis => [axis, columns.find(col => normalizeKey(col) === normalizeKey(axis))] as const)
+    .filter(([, col]) => col);
+
+  const extracted = data.map(row => {
+    const explicit: Record<string, string> = {};
+    attributeColumns.forEach(([axis, col]) => {
+      const value = String(row[col!] ?? '').trim();
+      if (value) explicit[axis] = value;
+    });
+    return extractVariantAttributes(String(row[nameColumn] ?? ''), explicit);
+  });
+
+  const tokenSets = extracted.map(({ baseName, attributes }) =>
+    Object.keys(attributes).length > 0 ? tokenizeForSimilarity(baseName) : []
+  );
+
+  return clusterSimilarPairs(findSimilarPairs(tokenSets, threshold, { onProgress }))
+    .map(rows => {
+      const children: VariantChild[] = rows.map(rowIndex => ({
+        rowIndex,
+        attributes: extracted[rowIndex].attributes
+      }));
+      const combos = new Set(children.map(child => JSON.stringify(child.attributes)));
+      if (combos.size < 2) return null;
+
+      return {
+        id: `variant:${rows.join(',')}`,
+        parentName: extracted[rows[0]].baseName,
+        parentSku: suggestParentSku(rows.map(i => String(skuColumn ? data[i][skuColumn] ?? '' : ''))),
+        axes: axisNames.filter(axis => children.some(child => child.attributes[axis])),
+        children
+      };
+    })
+    .filter((group): group is VariantGroup => group !== null);
+};
+
+/**
+ * Join several groups into one, keeping the first group's parent
+ */
+export const joinVariantGroups = (groups: VariantGroup[]): VariantGroup => {
+  const [first] = groups;
+  const children = groups.flatMap(group => group.children).sort((a, b) => a.rowIndex - b.rowIndex);
+  const axes = getCompiledAxes()
+    .map(axis => axis.name)
+    .filter(axis => groups.some(group => group.axes.includes(axis)));
+
+  return {
+    ...first,
+    id: `variant:${children.map(child => child.rowIndex).join(',')}`,
+    axes,
+    children
+  };
+};
+
+/**
+ * Describe a variation the way Bling expects in its name: "Cor:Preta;Tamanho:P"
+ */
+export const formatVariantAttributes = (group: VariantGroup, child: VariantChild): string =>
+  group.axes
+    .filter(axis => child.attributes[axis])
+    .map(axis => `${axis}:${child.attributes[axis]}`)
+    .join(';');
+
+/**
+ * Rewrite the dataset in Bling's parent/child layout.
+ * Each group gets a parent row (shared values, base name, parent SKU) placed
+ * before its variations; variations point to it through "Código Pai" and are
+ * named "<base name> Cor:Preta;Tamanho:P".
+ */
+export const buildVariantRows = (
+  data: ProductData[],
+  columns: string[],
+  groups: VariantGroup[]
+): { data: ProductData[]; columns: string[] } => {
+  const nameColumn = findVariantNameColumn(columns);
+  const skuColumn = findSkuColumn(columns);
+  const outputColumns = columns.includes(PARENT_SKU_COLUMN) ? columns : [...columns, PARENT_SKU_COLUMN];
+  const attributeColumns = new Map(
+    getCompiledAxes()
+      .map(axis => [axis.name, columns.find(col => normalizeKey(col) === normalizeKey(axis.name))] as const)
+      .filter(([, col]) => col)
+  );
+
+  const groupOfRow = new Map<number, VariantGroup>();
+  groups.forEach(group => group.children.forEach(child => groupOfRow.set(child.rowIndex, group)));
+
+  const emitted = new Set<VariantGroup>();
+  const result: ProductData[] = [];
+
+  data.forEach((row, index) => {
+    const group = groupOfRow.get(index);
+    if (!group) {
+      result.push(columns.includes(PARENT_SKU_COLUMN) ? row : { ...row, [PARENT_SKU_COLUMN]: '' });
+      return;
+    }
+    if (emitted.has(group)) return;
+    emitted.add(group);
+
+    const childRows = group.children.map(child => data[child.rowIndex]);
+
+    // Parent keeps only what every variation agrees on
+    const parent: ProductData = { ...childRows[0] };
+    outputColumns.forEach(col => {
+      const values = new Set(childRows.map(child => String(child[col] ?? '')));
+      parent[col] = values.size === 1 ? childRows[0][col] ?? '' : '';
+    });
+    attributeColumns.forEach(col => {
+      parent[col] = '';
+    });
+    if (nameColumn) parent[nameColumn] = group.parentName;
+    if (skuColumn) parent[skuColumn] = group.parentSku;
+    parent[PARENT_SKU_COLUMN] = '';
+    result.push(parent);
+
+    group.children.forEach(child => {
+      const variation: ProductData = { ...data[child.rowIndex], [PARENT_SKU_COLUMN]: group.parentSku };
+      if (nameColumn) {
+        variation[nameColumn] = `${group.parentName} ${formatVariantAttributes(group, child)}`;
+      }
+      attributeColumns.forEach((col, axis) => {
+        if (child.attributes[axis]) variation[col] = child.attributes[axis];
+      });
+      result.push(variation);
+    });
+  });
+
+  return { data: result, columns: outputColumns };
+};
@@ -0,0 +1,53 @@
+import { useState, useCallback } from 'react';
+import {
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  pushHistoryEntry,
+  undoHistory,
+  redoHistory,
+  type ChangeHistory,
+  type HistoryEntry,
+} from '@/core';
+
+export function useChangeHistory<T extends object>() {
+  const [history, setHistory] = useState<ChangeHistory>(EMPTY_HISTORY);
+
+  // Record an editing step; `after` holds only the keys the step changes.
+  // Returns the new entry, or null when nothing changed
+  const record = useCallback((label: string, before: T, after: Partial<T>): HistoryEntry | null => {
+    const entry = createHistoryEntry(label, before as Record<string, unknown>, after as Record<string, unknown>);
+    if (entry) setHistory(prev => pushHistoryEntry(prev, entry));
+    return entry;
+  }, []);
+
+  // Undo the last `steps` entries; returns the state changes to apply, if any
+  const undo = useCallback((state: T, steps = 1): Partial<T> | null => {
+    const result = undoHistory(history, state as Record<string, unknown>, steps);
+    if (!result) return null;
+    setHistory(result.history);
+    return result.changes as Partial<T>;
+  }, [history]);
+
+  // Redo the next `steps` undone entries; returns the state changes to apply, if any
+  const redo = useCallback((state: T, steps = 1): Partial<T> | null => {
+    const result = redoHistory(history, state as Record<string, unknown>, steps);
+    if (!result) return null;
+    setHistory(result.history);
+    return result.changes as Partial<T>;
+  }, [history]);
+
+  // Start over (new upload) or restore the history saved with a session
+  const reset = useCallback((restored?: ChangeHistory) => {
+    setHistory(restored ?? EMPTY_HISTORY);
+  }, []);
+
+  return {
+    history,
+    record,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,43 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { getDataWorkerPool } from '@/workers/workerPool';
+import type { DataTaskPayload, DataTaskResult, DataTaskType, TaskProgress } from '@/workers/dataTasks';
+
+export function useDataTask() {
+  const [progress, setProgress] = useState<TaskProgress | null>(null);
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Run a task on the shared worker pool, tracking its progress
+  const run = useCallback(async <T extends DataTaskType>(
+    type: T,
+    payload: DataTaskPayload<T>
+  ): Promise<DataTaskResult<T>> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setProgress(null);
+
+    try {
+      return await getDataWorkerPool().run(type, payload, {
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setRunning(false);
+        setProgress(null);
+      }
+    }
+  }, []);
+
+  // Cancel the task currently running
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Don't leave work running for an unmounted component
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { run, cancel, progress, running };
+}
@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { Json } from '@/integrations/supabase/types';
+
+export function useDuplicateSuppressions() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  // Each entry lists the row fingerprints of a group marked "not a duplicate"
+  const [suppressions, setSuppressions] = useState<string[][]>([]);
+
+  // Load suppressions from Supabase
+  useEffect(() => {
+    if (!user) {
+      // Sem login, as marcações valem só para esta sessão
+      setLoading(false);
+      return;
+    }
+
+    const loadSuppressions = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('user_configurations')
+          .select('duplicate_suppressions')
+          .eq('user_id', user.id)
+          .maybeSingle();
+
+        if (error) {
+          console.error('Erro ao carregar duplicidades ignoradas:', error);
+        } else if (Array.isArray(data?.duplicate_suppressions)) {
+          setSuppressions(data.duplicate_suppressions as string[][]);
+        }
+      } catch (err) {
+        console.error('Erro:', err);
+      }
+      setLoading(false);
+    };
+
+    loadSuppressions();
+  }, [user]);
+
+  // Remember new "not a duplicate" groups
+  const addSuppressions = useCallback(async (groups: string[][]) => {
+    if (groups.length === 0) return true;
+
+    const updated = [...suppressions, ...groups];
+    setSuppressions(updated);
+    if (!user) return true;
+
+    setSaving(true);
+    try {
+      const { data: existing } = await supabase
+        .from('user_configurations')
+        .select('id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const { error } = existing
+        ? await supabase
+            .from('user_configurations')
+            .update({ duplicate_suppressions: updated as unknown as Json })
+            .eq('user_id', user.id)
+        : await supabase
+            .from('user_configurations')
+            .insert({ user_id: user.id, duplicate_suppressions: updated as unknown as Json });
+
+      if (error) {
+        console.error('Erro ao salvar:', error);
+        toast({
+          title: 'Erro ao salvar',
+          description: 'Não foi possível lembrar os grupos marcados como "não é duplicado".',
+          variant: 'destructive',
+        });
+        return false;
+      }
+      return true;
+    } catch (err) {
+      console.error('Erro:', err);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  }, [user, suppressions, toast]);
+
+  // Forget every suppression
+  const clearSuppressions = useCallback(async () => {
+    setSuppressions([]);
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('user_configurations')
+      .update({ duplicate_suppressions: [] as unknown as Json })
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Erro ao limpar:', error);
+    }
+  }, [user]);
+
+  return {
+    suppressions,
+    loading,
+    saving,
+    addSuppressions,
+    clearSuppressions,
+  };
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  ACTIVE_JOB_STATUSES,
+  cancelEnrichmentJob,
+  getLatestEnrichmentJob,
+  getReusedEnrichment,
+  loadEnrichmentJobResults,
+  markEnrichmentJobApplied,
+  pauseEnrichmentJob,
+  resumeEnrichmentJob,
+  submitEnrichmentJob,
+  subscribeToEnrichmentJob,
+  validateEnrichmentResponse,
+  type CellProvenance,
+  type EnrichmentJob,
+  type EnrichmentJobItem,
+} from '@/core';
+import type { ProductRow, ProcessedProduct } from '@/pages/UltraData';
+
+/**
+ * Product built from an enriquecer-produto response, checked against the shared
+ * schema so older or cached responses are coerced too
+ */
+export const enrichmentToProcessedProduct = (
+  row: ProductRow,
+  data: Record<string, unknown>
+): ProcessedProduct => {
+  const { value: enrichment } = validateEnrichmentResponse(data);
+
+  return {
+    original: row,
+    enriched: {
+      nome_padronizado: enrichment.nome_padronizado,
+      descricao_enriquecida: enrichment.descricao_enriquecida,
+      categoria_inferida: enrichment.categoria_inferida,
+      marca_inferida: enrichment.marca_inferida,
+      origem_inferida: enrichment.origem_inferida,
+      ncm_sugerido: enrichment.ncm_sugerido,
+    },
+    necessita_revisao: enrichment.status_inferencia.necessita_revisao,
+    razao_revisao: enrichment.status_inferencia.razao || undefined,
+    validado: false,
+    tempo_processamento_ms: data.tempo_processamento_ms as number | undefined,
+    modelo_ia: data.modelo_ia as string | undefined,
+    versao_prompt: data.versao_prompt as string | undefined,
+    processado_em: new Date().toISOString(),
+    registro_id: (data.registro_id as string | null) ?? undefined,
+  };
+};
+
+const itemToProcessedProduct = (item: EnrichmentJobItem): ProcessedProduct => {
+  const row = item.row as ProductRow;
+  const reused = getReusedEnrichment(item);
+  if (reused) {
+    return {
+      original: row,
+      enriched: reused.enriched as ProcessedProduct['enriched'],
+      necessita_revisao: false,
+      validado: true,
+      registro_id: reused.registroId,
+      reaproveitado_de: reused.reusedFrom,
+    };
+  }
+  if (item.status === 'done' && item.result) {
+    return enrichmentToProcessedProduct(row, item.result);
+  }
+  return {
+    original: row,
+    enriched: {},
+    necessita_revisao: true,
+    razao_revisao: item.error || 'Não processado',
+    validado: false,
+  };
+};
+
+export interface EnrichmentJobResults {
+  rows: ProductRow[];
+  products: ProcessedProduct[];
+  provenance: CellProvenance[];
+  // Rows that failed or were never processed (cancelled job)
+  failedRows: number[];
+}
+
+/**
+ * Latest server-side enrichment job of a session, kept up to date through Realtime.
+ * `onFinished` runs once per job that stopped (completed, cancelled or failed)
+ * with results not loaded yet.
+ */
+export const useEnrichmentJob = (
+  sessionId: string | null | undefined,
+  onFinished?: (job: EnrichmentJob) => void
+) => {
+  const [job, setJob] = useState<EnrichmentJob | null>(null);
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+  const notifiedRef = useRef<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!sessionId) {
+      setJob(null);
+      return;
+    }
+    try {
+      setJob(await getLatestEnrichmentJob(sessionId));
+    } catch (err) {
+      console.error('Erro ao carregar processamento no servidor:', err);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const jobId = job?.id;
+  const active = job !== null && ACTIVE_JOB_STATUSES.includes(job.status);
+
+  useEffect(() => {
+    if (!jobId || !active) return;
+    const unsubscribe = subscribeToEnrichmentJob(jobId, setJob);
+    // Catch up with changes made before the channel was ready
+    refresh();
+    return unsubscribe;
+  }, [jobId, active, refresh]);
+
+  useEffect(() => {
+    if (!job || active || job.appliedAt || notifiedRef.current === job.id) return;
+    notifiedRef.current = job.id;
+    onFinishedRef.current?.(job);
+  }, [job, active]);
+
+  const submit = useCallback(async (input: Parameters<typeof submitEnrichmentJob>[0]) => {
+    const submitted = await submitEnrichmentJob(input);
+    setJob(submitted);
+    return submitted;
+  }, []);
+
+  // Pause, resume and cancel return null when the job had already moved on; reload it then
+  const control = useCallback(async (action: (id: string) => Promise<EnrichmentJob | null>) => {
+    if (!jobId) return;
+    const updated = await action(jobId);
+    if (updated) setJob(updated);
+    else await refresh();
+  }, [jobId, refresh]);
+
+  const pause = useCallback(() => control(pauseEnrichmentJob), [control]);
+  const resume = useCallback(() => control(resumeEnrichmentJob), [control]);
+  const cancel = useCallback(() => control(cancelEnrichmentJob), [control]);
+
+  // Results of the job by row index, then marked as applied so they load only once
+  const loadResults = useCallback(async (): Promise<EnrichmentJobResults | null> => {
+    if (!jobId) return null;
+    const { items, provenance } = await loadEnrichmentJobResults(jobId);
+    await markEnrichmentJobApplied(jobId);
+    setJob(prev => (prev && prev.id === jobId ? { ...prev, appliedAt: new Date().toISOString() } : prev));
+
+    return {
+      rows: items.map(item => item.row as ProductRow),
+      products: items.map(itemToProcessedProduct),
+      provenance,
+      failedRows: items.filter(item => item.status !== 'done').map(item => item.rowIndex),
+    };
+  }, [jobId]);
+
+  return { job, active, submit, pause, resume, cancel, loadResults, refresh };
+};
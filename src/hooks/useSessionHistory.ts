@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { CellProvenance, ChangeHistory } from '@/core';
 import type { ProductRow, FieldConfig, ProcessedProduct } from '@/pages/UltraData';
 
 export interface SessionData {
@@ -17,6 +18,8 @@ export interface SessionData {
     fieldConfigs?: FieldConfig[];
     processedProducts?: ProcessedProduct[];
     currentTab?: string;
+    history?: ChangeHistory;
+    changeLog?: CellProvenance[];
   };
 }
 
@@ -112,9 +115,13 @@ export const useSessionHistory = (userId: string | undefined) => {
     updates: {
       status?: SessionData['status'];
       itemsProcessed?: number;
+      rawData?: ProductRow[];
+      columns?: string[];
       fieldConfigs?: FieldConfig[];
       processedProducts?: ProcessedProduct[];
       currentTab?: string;
+      history?: ChangeHistory;
+      changeLog?: CellProvenance[];
     }
   ): Promise<boolean> => {
     if (!userId) return false;
@@ -133,6 +140,12 @@ export const useSessionHistory = (userId: string | undefined) => {
       const currentMetadata = (current?.metadata as SessionData['metadata']) || {};
       const newMetadata = { ...currentMetadata };
 
+      if (updates.rawData) {
+        newMetadata.rawData = updates.rawData;
+      }
+      if (updates.columns) {
+        newMetadata.columns = updates.columns;
+      }
       if (updates.fieldConfigs) {
         newMetadata.fieldConfigs = updates.fieldConfigs;
       }
@@ -142,6 +155,12 @@ export const useSessionHistory = (userId: string | undefined) => {
       if (updates.currentTab) {
         newMetadata.currentTab = updates.currentTab;
       }
+      if (updates.history) {
+        newMetadata.history = updates.history;
+      }
+      if (updates.changeLog) {
+        newMetadata.changeLog = updates.changeLog;
+      }
 
       const updateData: Record<string, unknown> = {
         updated_at: new Date().toISOString(),
@@ -0,0 +1,314 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import type { AbbreviationDictionary } from '@/core';
+import type { AbbreviationScopeRule } from '@/config';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface SharedDictionary {
+  id: string;
+  name: string;
+  description: string | null;
+  createdBy: string;
+  currentVersion: number;
+  content: AbbreviationDictionary;
+  updatedAt: string;
+}
+
+export interface SharedDictionaryVersion {
+  id: string;
+  version: number;
+  content: AbbreviationDictionary;
+  note: string | null;
+  authorEmail: string | null;
+  createdAt: string;
+}
+
+// Postgres unique violation: someone published this version number first
+const UNIQUE_VIOLATION = '23505';
+
+const toContent = (abbreviations: Json, scopes: Json): AbbreviationDictionary => ({
+  abbreviations: (abbreviations as unknown as Record<string, string>) || {},
+  scopes: (scopes as unknown as Record<string, AbbreviationScopeRule>) || {},
+});
+
+export function useSharedAbbreviations() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [dictionaries, setDictionaries] = useState<SharedDictionary[]>([]);
+  // Ids of the shared dictionaries the user follows, in the order they were added
+  const [subscriptions, setSubscriptions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Load the team's dictionaries and the user's subscriptions
+  const loadDictionaries = useCallback(async () => {
+    if (!user) {
+      setDictionaries([]);
+      setSubscriptions([]);
+      return;
+    }
+
+    setLoading(true);
+    const [{ data, error }, { data: config }] = await Promise.all([
+      supabase.from('shared_abbreviation_dictionaries').select('*').order('name'),
+      supabase.from('user_configurations').select('subscribed_dictionaries').eq('user_id', user.id).maybeSingle(),
+    ]);
+
+    if (error) {
+      console.error('Erro ao carregar dicionários compartilhados:', error);
+      toast({
+        title: 'Erro ao carregar dicionários',
+        description: 'Não foi possível carregar os dicionários da equipe.',
+        variant: 'destructive',
+      });
+    } else if (data) {
+      setDictionaries(data.map(d => ({
+        id: d.id,
+        name: d.name,
+        description: d.description,
+        createdBy: d.created_by,
+        currentVersion: d.current_version,
+        content: toContent(d.abbreviations, d.scopes),
+        updatedAt: d.updated_at,
+      })));
+    }
+    if (Array.isArray(config?.subscribed_dictionaries)) {
+      setSubscriptions(config.subscribed_dictionaries as string[]);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  useEffect(() => {
+    loadDictionaries();
+  }, [loadDictionaries]);
+
+  // Followed dictionaries, skipping any that were deleted
+  const subscribed = useMemo(
+    () => subscriptions
+      .map(id => dictionaries.find(d => d.id === id))
+      .filter((d): d is SharedDictionary => d !== undefined),
+    [subscriptions, dictionaries]
+  );
+
+  // Layers to stack under the personal dictionary
+  const layers = useMemo(() => subscribed.map(d => d.content), [subscribed]);
+
+  const saveSubscriptions = useCallback(async (ids: string[]) => {
+    if (!user) return false;
+
+    const { data: existing } = await supabase
+      .from('user_configurations')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    const { error } = existing
+      ? await supabase
+          .from('user_configurations')
+          .update({ subscribed_dictionaries: ids as unknown as Json })
+          .eq('user_id', user.id)
+      : await supabase
+          .from('user_configurations')
+          .insert({ user_id: user.id, subscribed_dictionaries: ids as unknown as Json });
+
+    if (error) {
+      console.error('Erro ao salvar inscrições:', error);
+      toast({
+        title: 'Erro ao salvar',
+        description: 'Não foi possível atualizar seus dicionários seguidos.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+    setSubscriptions(ids);
+    return true;
+  }, [user, toast]);
+
+  // Follow or stop following a shared dictionary
+  const setSubscribed = useCallback((dictionaryId: string, follow: boolean) => {
+    const ids = subscriptions.filter(id => id !== dictionaryId);
+    return saveSubscriptions(follow ? [...ids, dictionaryId] : ids);
+  }, [subscriptions, saveSubscriptions]);
+
+  // Version history of a dictionary, newest first
+  const loadVersions = useCallback(async (dictionaryId: string): Promise<SharedDictionaryVersion[]> => {
+    const { data, error } = await supabase
+      .from('shared_abbreviation_versions')
+      .select('*')
+      .eq('dictionary_id', dictionaryId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      console.error('Erro ao carregar versões:', error);
+      toast({
+        title: 'Erro ao carregar histórico',
+        description: 'Não foi possível carregar as versões do dicionário.',
+        variant: 'destructive',
+      });
+      return [];
+    }
+
+    return (data || []).map(v => ({
+      id: v.id,
+      version: v.version,
+      content: toContent(v.abbreviations, v.scopes),
+      note: v.note,
+      authorEmail: v.author_email,
+      createdAt: v.created_at,
+    }));
+  }, [toast]);
+
+  const insertVersion = useCallback(async (
+    dictionaryId: string,
+    version: number,
+    content: AbbreviationDictionary,
+    note: string
+  ) => {
+    if (!user) return null;
+    const { error } = await supabase
+      .from('shared_abbreviation_versions')
+      .insert({
+        dictionary_id: dictionaryId,
+        version,
+        abbreviations: content.abbreviations as unknown as Json,
+        scopes: content.scopes as unknown as Json,
+        note: note || null,
+        created_by: user.id,
+        author_email: user.email ?? null,
+      });
+    return error;
+  }, [user]);
+
+  // Publish new content as the next version; fails if someone else published first
+  const publishVersion = useCallback(async (
+    dictionary: SharedDictionary,
+    content: AbbreviationDictionary,
+    note: string
+  ): Promise<boolean> => {
+    if (!user) return false;
+
+    setSaving(true);
+    const version = dictionary.currentVersion + 1;
+    const error = await insertVersion(dictionary.id, version, content, note);
+    setSaving(false);
+
+    if (error) {
+      console.error('Erro ao publicar versão:', error);
+      toast({
+        title: error.code === UNIQUE_VIOLATION ? 'Dicionário desatualizado' : 'Erro ao publicar',
+        description: error.code === UNIQUE_VIOLATION
+          ? 'Outra pessoa publicou uma versão nova. Revise as mudanças e publique de novo.'
+          : 'Não foi possível publicar a nova versão.',
+        variant: 'destructive',
+      });
+      await loadDictionaries();
+      return false;
+    }
+
+    toast({
+      title: `Versão ${version} publicada`,
+      description: `"${dictionary.name}" tem ${Object.keys(content.abbreviations).length} abreviações.`,
+    });
+    await loadDictionaries();
+    return true;
+  }, [user, insertVersion, loadDictionaries, toast]);
+
+  // Rolling back publishes the old content as a new version, so the history is kept
+  const rollbackToVersion = useCallback((dictionary: SharedDictionary, version: SharedDictionaryVersion) =>
+    publishVersion(dictionary, version.content, `Restaurada a versão ${version.version}`),
+  [publishVersion]);
+
+  // Create a dictionary from the given content (version 1) and follow it
+  const createDictionary = useCallback(async (
+    name: string,
+    description: string,
+    content: AbbreviationDictionary
+  ): Promise<boolean> => {
+    if (!user) {
+      toast({
+        title: 'Login necessário',
+        description: 'Faça login para compartilhar abreviações com a equipe.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('shared_abbreviation_dictionaries')
+      .insert({ name: name.trim(), description: description.trim() || null, created_by: user.id })
+      .select('id')
+      .single();
+
+    const versionError = data ? await insertVersion(data.id, 1, content, 'Versão inicial') : null;
+    if (data && versionError) {
+      // Don't leave an empty dictionary (version 0) behind
+      await supabase.from('shared_abbreviation_dictionaries').delete().eq('id', data.id);
+    }
+    setSaving(false);
+
+    if (error || versionError || !data) {
+      console.error('Erro ao criar dicionário:', error ?? versionError);
+      toast({
+        title: 'Erro ao criar dicionário',
+        description: error?.code === UNIQUE_VIOLATION
+          ? `Já existe um dicionário chamado "${name.trim()}".`
+          : 'Não foi possível criar o dicionário compartilhado.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    await saveSubscriptions([...subscriptions.filter(id => id !== data.id), data.id]);
+    await loadDictionaries();
+    toast({
+      title: 'Dicionário compartilhado',
+      description: `"${name.trim()}" já está disponível para a equipe.`,
+    });
+    return true;
+  }, [user, subscriptions, insertVersion, saveSubscriptions, loadDictionaries, toast]);
+
+  // Only the creator can delete a dictionary (and its history)
+  const deleteDictionary = useCallback(async (dictionaryId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('shared_abbreviation_dictionaries')
+      .delete()
+      .eq('id', dictionaryId);
+
+    if (error) {
+      console.error('Erro ao excluir dicionário:', error);
+      toast({
+        title: 'Erro ao excluir',
+        description: 'Não foi possível excluir o dicionário.',
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    await saveSubscriptions(subscriptions.filter(id => id !== dictionaryId));
+    await loadDictionaries();
+    return true;
+  }, [user, subscriptions, saveSubscriptions, loadDictionaries, toast]);
+
+  return {
+    dictionaries,
+    subscriptions,
+    subscribed,
+    layers,
+    loading,
+    saving,
+    isLoggedIn: !!user,
+    userId: user?.id ?? null,
+    setSubscribed,
+    loadVersions,
+    publishVersion,
+    rollbackToVersion,
+    createDictionary,
+    deleteDictionary,
+    refreshDictionaries: loadDictionaries,
+  };
+}
@@ -0,0 +1,165 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { useToast } from './use-toast';
+import { columnSetSimilarity, type ColumnMapping, type HeaderSelection } from '@/core';
+import type { Json } from '@/integrations/supabase/types';
+
+export interface SupplierMapping {
+  id: string;
+  supplierName: string;
+  sourceColumns: string[];
+  mapping: ColumnMapping;
+  header: HeaderSelection;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Column sets this similar are treated as the same supplier layout
+const LAYOUT_MATCH_THRESHOLD = 0.7;
+
+export function useSupplierMappings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [mappings, setMappings] = useState<SupplierMapping[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  // Load mappings from database
+  const loadMappings = useCallback(async () => {
+    if (!user) {
+      setMappings([]);
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('supplier_column_mappings')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading supplier mappings:', error);
+      toast({
+        title: 'Erro ao carregar mapeamentos',
+        description: 'Não foi possível carregar os mapeamentos de fornecedores.',
+        variant: 'destructive'
+      });
+    } else if (data) {
+      setMappings(data.map(m => ({
+        id: m.id,
+        supplierName: m.supplier_name,
+        sourceColumns: (m.source_columns as unknown as string[]) || [],
+        mapping: (m.mapping as unknown as ColumnMapping) || {},
+        header: {
+          headerRow: m.header_row,
+          headerRows: m.header_rows === 2 ? 2 : 1
+        },
+        createdAt: m.created_at,
+        updatedAt: m.updated_at
+      })));
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  // Load mappings on mount and user change
+  useEffect(() => {
+    loadMappings();
+  }, [loadMappings]);
+
+  // Find the saved supplier whose layout best matches the detected columns
+  const findMatchingSupplier = useCallback((columns: string[]): SupplierMapping | null => {
+    let best: { mapping: SupplierMapping | null; score: number } = { mapping: null, score: 0 };
+
+    mappings.forEach(mapping => {
+      const score = columnSetSimilarity(columns, mapping.sourceColumns);
+      if (score > best.score) best = { mapping, score };
+    });
+
+    return best.score >= LAYOUT_MATCH_THRESHOLD ? best.mapping : null;
+  }, [mappings]);
+
+  // Save (or update) the mapping for a supplier
+  const saveMapping = useCallback(async (
+    supplierName: string,
+    sourceColumns: string[],
+    mapping: ColumnMapping,
+    header: HeaderSelection
+  ): Promise<boolean> => {
+    if (!user) {
+      toast({
+        title: 'Faça login',
+        description: 'Você precisa estar logado para salvar mapeamentos na nuvem.',
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('supplier_column_mappings')
+      .upsert({
+        user_id: user.id,
+        supplier_name: supplierName,
+        source_columns: sourceColumns as unknown as Json,
+        mapping: mapping as unknown as Json,
+        header_row: header.headerRow,
+        header_rows: header.headerRows
+      }, { onConflict: 'user_id,supplier_name' });
+
+    if (error) {
+      console.error('Error saving supplier mapping:', error);
+      toast({
+        title: 'Erro ao salvar',
+        description: 'Não foi possível salvar o mapeamento do fornecedor.',
+        variant: 'destructive'
+      });
+      setSaving(false);
+      return false;
+    }
+
+    toast({
+      title: 'Mapeamento salvo',
+      description: `O mapeamento de "${supplierName}" será sugerido nas próximas importações.`
+    });
+
+    await loadMappings();
+    setSaving(false);
+    return true;
+  }, [user, loadMappings, toast]);
+
+  // Delete a supplier mapping
+  const deleteMapping = useCallback(async (mappingId: string): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('supplier_column_mappings')
+      .delete()
+      .eq('id', mappingId);
+
+    if (error) {
+      console.error('Error deleting supplier mapping:', error);
+      toast({
+        title: 'Erro ao excluir',
+        description: 'Não foi possível excluir o mapeamento.',
+        variant: 'destructive'
+      });
+      return false;
+    }
+
+    await loadMappings();
+    return true;
+  }, [user, loadMappings, toast]);
+
+  return {
+    mappings,
+    loading,
+    saving,
+    findMatchingSupplier,
+    saveMapping,
+    deleteMapping,
+    refreshMappings: loadMappings
+  };
+}
@@ -3,6 +3,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { useToast } from './use-toast';
 import { BLING_ABBREVIATIONS } from '@/data/blingPreset';
+import { DEFAULT_ABBREVIATION_SCOPES, type AbbreviationDictionary } from '@/core';
+import type { AbbreviationScopeRule } from '@/config';
 import type { Json } from '@/integrations/supabase/types';
 
 export interface AbbreviationEntry {
@@ -16,6 +18,7 @@ export function useUserAbbreviations() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [abbreviations, setAbbreviations] = useState<Record<string, string>>({});
+  const [scopes, setScopes] = useState<Record<string, AbbreviationScopeRule>>(DEFAULT_ABBREVIATION_SCOPES);
   const [hasChanges, setHasChanges] = useState(false);
 
   // Load user abbreviations from Supabase
@@ -23,6 +26,7 @@ export function useUserAbbreviations() {
     if (!user) {
       // Se não logado, usa o padrão BLING
       setAbbreviations(BLING_ABBREVIATIONS);
+      setScopes(DEFAULT_ABBREVIATION_SCOPES);
       setLoading(false);
       return;
     }
@@ -32,10 +36,13 @@ export function useUserAbbreviations() {
       try {
         const { data, error } = await supabase
           .from('user_configurations')
-          .select('abbreviations')
+          .select('abbreviations, abbreviation_scopes')
           .eq('user_id', user.id)
           .maybeSingle();
 
+        const loadedScopes = data?.abbreviation_scopes as Record<string, AbbreviationScopeRule> | undefined;
+        setScopes({ ...DEFAULT_ABBREVIATION_SCOPES, ...loadedScopes });
+
         if (error) {
           console.error('Erro ao carregar abreviações:', error);
           setAbbreviations(BLING_ABBREVIATIONS);
@@ -61,7 +68,10 @@ export function useUserAbbreviations() {
   }, [user]);
 
   // Save abbreviations to Supabase
-  const saveAbbreviations = useCallback(async (newAbbreviations: Record<string, string>) => {
+  const saveAbbreviations = useCallback(async (
+    newAbbreviations: Record<string, string>,
+    newScopes: Record<string, AbbreviationScopeRule> = scopes
+  ) => {
     if (!user) {
       toast({
         title: 'Login necessário',
@@ -86,6 +96,7 @@ export function useUserAbbreviations() {
           .from('user_configurations')
           .update({
             abbreviations: newAbbreviations as unknown as Json,
+            abbreviation_scopes: newScopes as unknown as Json,
             updated_at: new Date().toISOString(),
           })
           .eq('user_id', user.id);
@@ -96,6 +107,7 @@ export function useUserAbbreviations() {
           .insert({
             user_id: user.id,
             abbreviations: newAbbreviations as unknown as Json,
+            abbreviation_scopes: newScopes as unknown as Json,
             column_config: {} as unknown as Json,
           });
         error = result.error;
@@ -112,6 +124,7 @@ export function useUserAbbreviations() {
       }
 
       setAbbreviations(newAbbreviations);
+      setScopes(newScopes);
       setHasChanges(false);
       toast({
         title: 'Abreviações salvas',
@@ -129,7 +142,7 @@ export function useUserAbbreviations() {
     } finally {
       setSaving(false);
     }
-  }, [user, toast]);
+  }, [user, toast, scopes]);
 
   // Add single abbreviation
   const addAbbreviation = useCallback((abbr: string, full: string) => {
@@ -153,17 +166,43 @@ export function useUserAbbreviations() {
       delete updated[abbr];
       return updated;
     });
+    setScopes(prev => {
+      const updated = { ...prev };
+      delete updated[abbr];
+      return updated;
+    });
     setHasChanges(true);
   }, []);
 
   // Update single abbreviation
   const updateAbbreviation = useCallback((oldAbbr: string, newAbbr: string, full: string) => {
+    const normalizedAbbr = newAbbr.toLowerCase().trim();
     setAbbreviations(prev => {
       const updated = { ...prev };
-      if (oldAbbr !== newAbbr.toLowerCase().trim()) {
+      if (oldAbbr !== normalizedAbbr) {
         delete updated[oldAbbr];
       }
-      updated[newAbbr.toLowerCase().trim()] = full.trim();
+      updated[normalizedAbbr] = full.trim();
+      return updated;
+    });
+    // The scope follows a renamed abbreviation
+    setScopes(prev => {
+      if (oldAbbr === normalizedAbbr || !prev[oldAbbr]) return prev;
+      const { [oldAbbr]: scope, ...rest } = prev;
+      return { ...rest, [normalizedAbbr]: scope };
+    });
+    setHasChanges(true);
+  }, []);
+
+  // Set where an abbreviation may be expanded; null goes back to "everywhere"
+  const updateScope = useCallback((abbr: string, scope: AbbreviationScopeRule | null) => {
+    setScopes(prev => {
+      const updated = { ...prev };
+      if (scope) {
+        updated[abbr] = scope;
+      } else {
+        delete updated[abbr];
+      }
       return updated;
     });
     setHasChanges(true);
@@ -172,6 +211,7 @@ export function useUserAbbreviations() {
   // Reset to BLING defaults
   const resetToDefaults = useCallback(() => {
     setAbbreviations(BLING_ABBREVIATIONS);
+    setScopes(DEFAULT_ABBREVIATION_SCOPES);
     setHasChanges(true);
   }, []);
 
@@ -181,6 +221,10 @@ export function useUserAbbreviations() {
       ...BLING_ABBREVIATIONS,
       ...prev, // User's take precedence
     }));
+    setScopes(prev => ({
+      ...DEFAULT_ABBREVIATION_SCOPES,
+      ...prev,
+    }));
     setHasChanges(true);
   }, []);
 
@@ -198,6 +242,13 @@ export function useUserAbbreviations() {
     return Object.keys(jsonData).length;
   }, []);
 
+  // Replace the whole dictionary (merge with a shared one, resolved conflicts)
+  const replaceDictionary = useCallback((content: AbbreviationDictionary) => {
+    setAbbreviations(content.abbreviations);
+    setScopes(content.scopes);
+    setHasChanges(true);
+  }, []);
+
   // Export to JSON
   const exportAbbreviations = useCallback(() => {
     return abbreviations;
@@ -205,6 +256,7 @@ export function useUserAbbreviations() {
 
   return {
     abbreviations,
+    scopes,
     loading,
     saving,
     hasChanges,
@@ -212,10 +264,12 @@ export function useUserAbbreviations() {
     addAbbreviation,
     removeAbbreviation,
     updateAbbreviation,
+    updateScope,
     saveAbbreviations,
     resetToDefaults,
     mergeWithDefaults,
     importAbbreviations,
+    replaceDictionary,
     exportAbbreviations,
   };
 }
@@ -44,6 +44,166 @@ export type Database = {
         }
         Relationships: []
       }
+      enrichment_cache: {
+        Row: {
+          content_hash: string
+          created_at: string
+          expires_at: string
+          hits: number
+          id: string
+          last_hit_at: string | null
+          model: string
+          prompt_version: string
+          response: Json
+          user_id: string
+        }
+        Insert: {
+          content_hash: string
+          created_at?: string
+          expires_at: string
+          hits?: number
+          id?: string
+          last_hit_at?: string | null
+          model: string
+          prompt_version: string
+          response: Json
+          user_id: string
+        }
+        Update: {
+          content_hash?: string
+          created_at?: string
+          expires_at?: string
+          hits?: number
+          id?: string
+          last_hit_at?: string | null
+          model?: string
+          prompt_version?: string
+          response?: Json
+          user_id?: string
+        }
+        Relationships: []
+      }
+      enrichment_job_items: {
+        Row: {
+          attempts: number
+          created_at: string
+          dicas: Json
+          error: string | null
+          id: string
+          identificadores: Json
+          job_id: string
+          linha: Json
+          not_before: string | null
+          produto: Json
+          result: Json | null
+          row_index: number
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          dicas?: Json
+          error?: string | null
+          id?: string
+          identificadores?: Json
+          job_id: string
+          linha: Json
+          not_before?: string | null
+          produto: Json
+          result?: Json | null
+          row_index: number
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          dicas?: Json
+          error?: string | null
+          id?: string
+          identificadores?: Json
+          job_id?: string
+          linha?: Json
+          not_before?: string | null
+          produto?: Json
+          result?: Json | null
+          row_index?: number
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrichment_job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "enrichment_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      enrichment_jobs: {
+        Row: {
+          applied_at: string | null
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          items_failed: number
+          items_processed: number
+          locked_until: string | null
+          options: Json
+          provenance: Json
+          session_id: string
+          status: string
+          total_items: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          applied_at?: string | null
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          items_failed?: number
+          items_processed?: number
+          locked_until?: string | null
+          options?: Json
+          provenance?: Json
+          session_id: string
+          status?: string
+          total_items?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          applied_at?: string | null
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          items_failed?: number
+          items_processed?: number
+          locked_until?: string | null
+          options?: Json
+          provenance?: Json
+          session_id?: string
+          status?: string
+          total_items?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrichment_jobs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "product_enrichment_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       generated_tags: {
         Row: {
           ai_model: string | null
@@ -344,28 +504,153 @@ export type Database = {
         }
         Relationships: []
       }
+      shared_abbreviation_dictionaries: {
+        Row: {
+          abbreviations: Json
+          created_at: string
+          created_by: string
+          current_version: number
+          description: string | null
+          id: string
+          name: string
+          scopes: Json
+          updated_at: string
+        }
+        Insert: {
+          abbreviations?: Json
+          created_at?: string
+          created_by: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          name: string
+          scopes?: Json
+          updated_at?: string
+        }
+        Update: {
+          abbreviations?: Json
+          created_at?: string
+          created_by?: string
+          current_version?: number
+          description?: string | null
+          id?: string
+          name?: string
+          scopes?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      shared_abbreviation_versions: {
+        Row: {
+          abbreviations: Json
+          author_email: string | null
+          created_at: string
+          created_by: string
+          dictionary_id: string
+          id: string
+          note: string | null
+          scopes: Json
+          version: number
+        }
+        Insert: {
+          abbreviations?: Json
+          author_email?: string | null
+          created_at?: string
+          created_by: string
+          dictionary_id: string
+          id?: string
+          note?: string | null
+          scopes?: Json
+          version: number
+        }
+        Update: {
+          abbreviations?: Json
+          author_email?: string | null
+          created_at?: string
+          created_by?: string
+          dictionary_id?: string
+          id?: string
+          note?: string | null
+          scopes?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_abbreviation_versions_dictionary_id_fkey"
+            columns: ["dictionary_id"]
+            isOneToOne: false
+            referencedRelation: "shared_abbreviation_dictionaries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_column_mappings: {
+        Row: {
+          created_at: string
+          header_row: number
+          header_rows: number
+          id: string
+          mapping: Json
+          source_columns: Json
+          supplier_name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          header_row?: number
+          header_rows?: number
+          id?: string
+          mapping?: Json
+          source_columns?: Json
+          supplier_name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          header_row?: number
+          header_rows?: number
+          id?: string
+          mapping?: Json
+          source_columns?: Json
+          supplier_name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_configurations: {
         Row: {
+          abbreviation_scopes: Json
           abbreviations: Json | null
           column_config: Json | null
           created_at: string
+          duplicate_suppressions: Json
           id: string
+          subscribed_dictionaries: Json
           updated_at: string
           user_id: string
         }
         Insert: {
+          abbreviation_scopes?: Json
           abbreviations?: Json | null
           column_config?: Json | null
           created_at?: string
+          duplicate_suppressions?: Json
           id?: string
+          subscribed_dictionaries?: Json
           updated_at?: string
           user_id: string
         }
         Update: {
+          abbreviation_scopes?: Json
           abbreviations?: Json | null
           column_config?: Json | null
           created_at?: string
+          duplicate_suppressions?: Json
           id?: string
+          subscribed_dictionaries?: Json
           updated_at?: string
           user_id?: string
         }
@@ -406,7 +691,25 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_enrichment_job_items: {
+        Args: { p_job_id: string; p_limit: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          dicas: Json
+          error: string | null
+          id: string
+          identificadores: Json
+          job_id: string
+          linha: Json
+          not_before: string | null
+          produto: Json
+          result: Json | null
+          row_index: number
+          status: string
+          updated_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,14 +1,20 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Link } from 'react-router-dom';
-import { Upload, Settings2, Sparkles, CheckCircle, SpellCheck, BookA, History, Database, User, LogOut, Camera, Zap } from 'lucide-react';
+import { Upload, Settings2, Sparkles, CheckCircle, SpellCheck, BookA, History, Database, User, LogOut, Camera, Zap, Copy, Layers } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Toaster } from '@/components/ui/toaster';
 import { useAuth } from '@/hooks/useAuth';
 import { useSessionHistory, type SessionData } from '@/hooks/useSessionHistory';
+import { useChangeHistory } from '@/hooks/useChangeHistory';
+import { useToast } from '@/hooks/use-toast';
 import { AuthModal } from '@/components/AuthModal';
+import { diffRowsProvenance, type CellProvenance, type ChangeHistory, type ComposeTemplate, type TransformRule } from '@/core';
+import { getTemplateTargets } from '@/config';
 import UltraDataUpload from '@/components/ultradata/UltraDataUpload';
 import UltraDataFieldConfig from '@/components/ultradata/UltraDataFieldConfig';
+import UltraDataDuplicateResolution from '@/components/ultradata/UltraDataDuplicateResolution';
+import UltraDataVariantGrouping from '@/components/ultradata/UltraDataVariantGrouping';
 import UltraDataProcessing from '@/components/ultradata/UltraDataProcessing';
 import UltraDataValidation from '@/components/ultradata/UltraDataValidation';
 import UltraDataTextCorrection from '@/components/ultradata/UltraDataTextCorrection';
@@ -16,6 +22,7 @@ import UltraDataAbbreviations from '@/components/ultradata/UltraDataAbbreviation
 import UltraDataSessionHistory from '@/components/ultradata/UltraDataSessionHistory';
 import UltraDataImageSearch from '@/components/ultradata/UltraDataImageSearch';
 import UltraDataEnrichmentModal from '@/components/ultradata/UltraDataEnrichmentModal';
+import UltraDataHistoryPanel from '@/components/ultradata/UltraDataHistoryPanel';
 
 export interface ProductRow {
   [key: string]: string | number | null;
@@ -26,6 +33,7 @@ export interface FieldConfig {
   action: 'ignore' | 'analyze' | 'fill_empty' | 'use_default';
   defaultValue?: string;
   isLocked: boolean;
+  transforms?: TransformRule[];
 }
 
 export interface NcmSugerido {
@@ -49,10 +57,34 @@ export interface ProcessedProduct {
   razao_revisao?: string;
   validado: boolean;
   tempo_processamento_ms?: number;
+  // Model and prompt version behind the enrichment, for the audit sheet
+  modelo_ia?: string;
+  versao_prompt?: string;
+  processado_em?: string;
+  // Row in produtos_processados holding this enrichment
+  registro_id?: string;
+  // Validation date of the earlier enrichment reused instead of a new AI call
+  reaproveitado_de?: string;
 }
 
+// Data covered by undo/redo
+interface EditableState {
+  rawData: ProductRow[];
+  columns: string[];
+  processedProducts: ProcessedProduct[];
+}
+
+// Edits are saved to the session once they settle for this long
+const HISTORY_SAVE_DELAY_MS = 1500;
+
+// Typing in a field keeps the browser's own undo
+const isTextInput = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
 const UltraData = () => {
   const { user, loading: authLoading, signOut } = useAuth();
+  const { toast } = useToast();
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [showImageSearch, setShowImageSearch] = useState(false);
   const [showEnrichmentModal, setShowEnrichmentModal] = useState(false);
@@ -73,11 +105,103 @@ const UltraData = () => {
   const [columns, setColumns] = useState<string[]>([]);
   const [fieldConfigs, setFieldConfigs] = useState<FieldConfig[]>([]);
   const [processedProducts, setProcessedProducts] = useState<ProcessedProduct[]>([]);
+  const [templates, setTemplates] = useState<Record<string, ComposeTemplate>>(() =>
+    Object.fromEntries(
+      Object.entries(getTemplateTargets()).map(([target, rule]) => [target, { template: '', maxLength: rule.maxLength }])
+    )
+  );
   
   // UI state
   const [activeTab, setActiveTab] = useState('upload');
   const [isProcessing, setIsProcessing] = useState(false);
 
+  // Undo/redo across the tabs
+  const changeHistory = useChangeHistory<EditableState>();
+  const savedHistoryRef = useRef<ChangeHistory | null>(null);
+  // Where each changed cell came from; records of undone steps stay out of the audit
+  const [changeLog, setChangeLog] = useState<CellProvenance[]>([]);
+  const editableState: EditableState = { rawData, columns, processedProducts };
+
+  const applyEditableState = (changes: Partial<EditableState>) => {
+    if (changes.rawData) setRawData(changes.rawData);
+    if (changes.columns) setColumns(changes.columns);
+    if (changes.processedProducts) setProcessedProducts(changes.processedProducts);
+  };
+
+  // Every editing step goes through here so it can be undone and audited.
+  // Without explicit provenance, changed cells are logged as manual edits
+  const commitEdit = (label: string, changes: Partial<EditableState>, provenance?: CellProvenance[]) => {
+    const entry = changeHistory.record(label, editableState, changes);
+    applyEditableState(changes);
+    if (!entry) return;
+
+    const records = provenance ??
+      (changes.rawData ? diffRowsProvenance(rawData, changes.rawData, columns, { source: 'manual', detail: label }) : []);
+    // Steps undone before this one can no longer be redone
+    const discarded = new Set(changeHistory.history.future.map(e => e.id));
+    setChangeLog(prev => [
+      ...prev.filter(record => !record.entryId || !discarded.has(record.entryId)),
+      ...records.map(record => ({ ...record, user: record.user ?? user?.email, entryId: entry.id })),
+    ]);
+  };
+
+  const activeChangeLog = useMemo(() => {
+    const undone = new Set(changeHistory.history.future.map(e => e.id));
+    return changeLog.filter(record => !record.entryId || !undone.has(record.entryId));
+  }, [changeLog, changeHistory.history]);
+
+  const handleUndo = (steps = 1) => {
+    const entry = changeHistory.history.past[changeHistory.history.past.length - steps];
+    const changes = changeHistory.undo(editableState, steps);
+    if (!changes) return;
+    applyEditableState(changes);
+    toast({
+      title: 'Alteração desfeita',
+      description: steps > 1 ? `${steps} etapas desfeitas, até "${entry.label}".` : entry.label,
+    });
+  };
+
+  const handleRedo = (steps = 1) => {
+    const entry = changeHistory.history.future[steps - 1];
+    const changes = changeHistory.redo(editableState, steps);
+    if (!changes) return;
+    applyEditableState(changes);
+    toast({
+      title: 'Alteração refeita',
+      description: steps > 1 ? `${steps} etapas refeitas, até "${entry.label}".` : entry.label,
+    });
+  };
+
+  // Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || isTextInput(event.target)) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Save the edited data with its history so a resumed session can still be rolled back
+  useEffect(() => {
+    const history = changeHistory.history;
+    if (!currentSessionId || !user || history === savedHistoryRef.current) return;
+    if (history.past.length === 0 && history.future.length === 0) return;
+
+    const timer = setTimeout(() => {
+      savedHistoryRef.current = history;
+      updateSession(currentSessionId, { rawData, columns, processedProducts, history, changeLog });
+    }, HISTORY_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [changeHistory.history, currentSessionId, user, rawData, columns, processedProducts, changeLog, updateSession]);
+
   // Auto-save session on tab change
   const handleTabChange = useCallback(async (newTab: string) => {
     setActiveTab(newTab);
@@ -95,6 +219,8 @@ const UltraData = () => {
     setRawData(data);
     setColumns(cols);
     setCurrentFilename(filename || 'planilha.xlsx');
+    changeHistory.reset();
+    setChangeLog([]);
     
     // Initialize field configs
     const configs: FieldConfig[] = cols.map(col => {
@@ -118,8 +244,8 @@ const UltraData = () => {
     setActiveTab('config');
   };
 
-  const handleProcessingComplete = async (products: ProcessedProduct[]) => {
-    setProcessedProducts(products);
+  const handleProcessingComplete = async (products: ProcessedProduct[], provenance?: CellProvenance[]) => {
+    commitEdit('Processamento IA', { processedProducts: products }, provenance);
     
     // Update session with processed products
     if (currentSessionId) {
@@ -134,12 +260,25 @@ const UltraData = () => {
     setActiveTab('validation');
   };
 
-  const handleValidationComplete = (validatedProducts: ProcessedProduct[]) => {
-    setProcessedProducts(validatedProducts);
+  const handleValidationComplete = (validatedProducts: ProcessedProduct[], provenance?: CellProvenance[]) => {
+    commitEdit(provenance ? 'Sugestões da IA' : 'Validação', { processedProducts: validatedProducts }, provenance);
+  };
+
+  // The label names the step in the undo history
+  const handleDataUpdate = (label: string) => (updatedData: ProductRow[], provenance?: CellProvenance[]) => {
+    commitEdit(label, { rawData: updatedData }, provenance);
   };
 
-  const handleDataUpdate = (updatedData: ProductRow[]) => {
-    setRawData(updatedData);
+  // Variant grouping adds the parent rows and the "Código Pai" column
+  const handleVariantsGrouped = (updatedData: ProductRow[], updatedColumns: string[]) => {
+    commitEdit('Variações e atributos', { rawData: updatedData, columns: updatedColumns });
+    // Configs of columns an undo removes are harmless, so they are not part of the history
+    setFieldConfigs(prev => [
+      ...prev,
+      ...updatedColumns
+        .filter(col => !prev.some(fc => fc.column === col))
+        .map(col => ({ column: col, action: 'ignore' as const, isLocked: true })),
+    ]);
   };
 
   // Resume session from history
@@ -148,10 +287,17 @@ const UltraData = () => {
     sessionColumns: string[],
     sessionFieldConfigs: FieldConfig[],
     sessionProcessedProducts: ProcessedProduct[],
-    targetTab: string
+    targetTab: string,
+    sessionId: string,
+    sessionHistory?: ChangeHistory,
+    sessionChangeLog?: CellProvenance[]
   ) => {
     setRawData(sessionRawData);
     setColumns(sessionColumns);
+    setCurrentSessionId(sessionId);
+    savedHistoryRef.current = sessionHistory ?? null;
+    changeHistory.reset(sessionHistory);
+    setChangeLog(sessionChangeLog ?? []);
     
     if (sessionFieldConfigs.length > 0) {
       setFieldConfigs(sessionFieldConfigs);
@@ -217,6 +363,9 @@ const UltraData = () => {
             </div>
 
             <div className="flex items-center gap-3">
+              {rawData.length > 0 && (
+                <UltraDataHistoryPanel history={changeHistory.history} onUndo={handleUndo} onRedo={handleRedo} />
+              )}
               {user ? (
                 <>
                   <Link to="/profile" className="hidden sm:flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground transition-colors">
@@ -272,7 +421,7 @@ const UltraData = () => {
         </div>
 
         <Tabs value={activeTab} onValueChange={handleTabChange} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7 h-auto p-1">
+          <TabsList className="grid w-full grid-cols-9 h-auto p-1">
             <TabsTrigger 
               value="upload" 
               className="flex items-center gap-2 py-3"
@@ -295,6 +444,22 @@ const UltraData = () => {
               <Settings2 className="h-4 w-4" />
               <span className="hidden sm:inline">Configurar</span>
             </TabsTrigger>
+            <TabsTrigger 
+              value="duplicates" 
+              disabled={rawData.length === 0}
+              className="flex items-center gap-2 py-3"
+            >
+              <Copy className="h-4 w-4" />
+              <span className="hidden sm:inline">Duplicados</span>
+            </TabsTrigger>
+            <TabsTrigger 
+              value="variants" 
+              disabled={rawData.length === 0}
+              className="flex items-center gap-2 py-3"
+            >
+              <Layers className="h-4 w-4" />
+              <span className="hidden sm:inline">Variações</span>
+            </TabsTrigger>
             <TabsTrigger 
               value="abbreviations" 
               className="flex items-center gap-2 py-3"
@@ -348,14 +513,35 @@ const UltraData = () => {
                 fieldConfigs={fieldConfigs}
                 onConfigChange={setFieldConfigs}
                 sampleData={rawData.slice(0, 5)}
+                templates={templates}
+                onTemplatesChange={setTemplates}
                 onNext={() => {
                   if (requireAuth()) {
-                    handleTabChange('text-correction');
+                    handleTabChange('duplicates');
                   }
                 }}
               />
             </TabsContent>
 
+            <TabsContent value="duplicates" className="mt-0">
+              <UltraDataDuplicateResolution
+                rawData={rawData}
+                columns={columns}
+                fieldConfigs={fieldConfigs}
+                onResolved={handleDataUpdate('Resolução de duplicados')}
+                onNext={() => handleTabChange('variants')}
+              />
+            </TabsContent>
+
+            <TabsContent value="variants" className="mt-0">
+              <UltraDataVariantGrouping
+                rawData={rawData}
+                columns={columns}
+                onGrouped={handleVariantsGrouped}
+                onNext={() => handleTabChange('text-correction')}
+              />
+            </TabsContent>
+
             <TabsContent value="abbreviations" className="mt-0">
               <UltraDataAbbreviations />
             </TabsContent>
@@ -365,7 +551,7 @@ const UltraData = () => {
                 rawData={rawData}
                 columns={columns}
                 fieldConfigs={fieldConfigs}
-                onDataUpdate={handleDataUpdate}
+                onDataUpdate={handleDataUpdate('Correção de texto')}
               />
             </TabsContent>
 
@@ -377,7 +563,7 @@ const UltraData = () => {
                 isProcessing={isProcessing}
                 setIsProcessing={setIsProcessing}
                 onComplete={handleProcessingComplete}
-                onDataUpdate={handleDataUpdate}
+                onDataUpdate={handleDataUpdate('Imagem adicionada')}
                 sessionId={currentSessionId}
                 onSessionUpdate={updateSession}
               />
@@ -387,6 +573,8 @@ const UltraData = () => {
               <UltraDataValidation
                 processedProducts={processedProducts}
                 columns={columns}
+                templates={templates}
+                changeLog={activeChangeLog}
                 onValidationChange={handleValidationComplete}
               />
             </TabsContent>
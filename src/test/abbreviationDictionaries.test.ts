@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffAbbreviationDictionaries,
+  findDictionaryConflicts,
+  mergeAbbreviationDictionaries,
+  resolveDictionaryConflicts
+} from '@/core/abbreviationDictionaries';
+
+const team = {
+  abbreviations: { cx: 'caixa', pct: 'pacote', 'c/': 'com' },
+  scopes: { cx: { beforeNumber: true } }
+};
+
+const personal = {
+  abbreviations: { CX: 'Caixinha', sext: 'sextavado' },
+  scopes: {}
+};
+
+describe('diffAbbreviationDictionaries', () => {
+  it('lists added, removed and changed entries, including scope changes', () => {
+    const next = {
+      abbreviations: { cx: 'caixa', pct: 'pacotes', sext: 'sextavado' },
+      scopes: { cx: { beforeNumber: true, columns: 'name' as const } }
+    };
+
+    expect(diffAbbreviationDictionaries(team, next)).toEqual([
+      { abbr: 'c/', type: 'removed', before: 'com', scopeChanged: false },
+      { abbr: 'cx', type: 'changed', before: 'caixa', after: 'caixa', scopeChanged: true },
+      { abbr: 'pct', type: 'changed', before: 'pacote', after: 'pacotes', scopeChanged: false },
+      { abbr: 'sext', type: 'added', after: 'sextavado', scopeChanged: false }
+    ]);
+    expect(diffAbbreviationDictionaries(team, team)).toEqual([]);
+  });
+});
+
+describe('mergeAbbreviationDictionaries', () => {
+  it('lets later layers override earlier ones regardless of case', () => {
+    const merged = mergeAbbreviationDictionaries([team, personal]);
+
+    expect(merged.abbreviations).toEqual({ CX: 'Caixinha', pct: 'pacote', 'c/': 'com', sext: 'sextavado' });
+    expect(merged.scopes).toEqual({});
+  });
+});
+
+describe('dictionary conflicts', () => {
+  it('finds personal entries that differ from the shared ones and resolves them', () => {
+    const conflicts = findDictionaryConflicts(personal, [{ name: 'Ferragens', dictionary: team }]);
+
+    expect(conflicts).toEqual([{ abbr: 'CX', mine: 'Caixinha', shared: 'caixa', dictionary: 'Ferragens' }]);
+
+    const resolved = resolveDictionaryConflicts(personal, ['CX']);
+    expect(resolved.abbreviations).toEqual({ sext: 'sextavado' });
+    expect(mergeAbbreviationDictionaries([team, resolved]).abbreviations.cx).toBe('caixa');
+  });
+});
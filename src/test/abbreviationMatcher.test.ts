@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyAbbreviations,
+  compileAbbreviationMatcher,
+  findAbbreviationConflicts,
+  getAbbreviationColumnKind
+} from '@/core/abbreviationMatcher';
+import { correctAbbreviations, findAbbreviationCorrections } from '@/core/dataProcessor';
+
+describe('applyAbbreviations', () => {
+  it('escapes special characters and keeps the case of the text', () => {
+    const matcher = compileAbbreviationMatcher({ 'c/': 'com', 'c.': 'cinza', paraf: 'parafuso' });
+
+    expect(applyAbbreviations('Porca c/ arruela', matcher).expanded).toBe('Porca com arruela');
+    expect(applyAbbreviations('PARAF SEXTAVADO C/ PORCA', matcher).expanded).toBe('PARAFUSO SEXTAVADO COM PORCA');
+    expect(applyAbbreviations('Paraf cabeça chata', matcher).expanded).toBe('Parafuso cabeça chata');
+    expect(applyAbbreviations('abc/def cx', matcher).expanded).toBe('abc/def cx');
+    expect(applyAbbreviations('cabo c.', matcher).expanded).toBe('cabo cinza');
+  });
+
+  it('prefers the longest abbreviation and expands in a single pass', () => {
+    const matcher = compileAbbreviationMatcher({ tam: 'tamanho', 'tam-p': 'tamanho pequeno', un: 'unidade' });
+
+    const { expanded, matches } = applyAbbreviations('camiseta tam-p 1 un', matcher);
+    expect(expanded).toBe('camiseta tamanho pequeno 1 unidade');
+    expect(matches.map(match => match.abbr)).toEqual(['tam-p', 'un']);
+  });
+
+  it('respects column, number and standalone scopes', () => {
+    const matcher = compileAbbreviationMatcher(
+      { p: 'pequeno', ref: 'referência', med: 'médio' },
+      { ref: { beforeNumber: true }, med: { columns: 'name' } }
+    );
+
+    expect(applyAbbreviations('Camiseta P', matcher, 'Nome').expanded).toBe('Camiseta Pequeno');
+    expect(applyAbbreviations('CAM-P-01', matcher, 'SKU').expanded).toBe('CAM-P-01');
+    expect(applyAbbreviations('ref 123 e ref. antiga', matcher).expanded).toBe('referência 123 e ref. antiga');
+    expect(applyAbbreviations('Copo med', matcher, 'Nome').expanded).toBe('Copo médio');
+    expect(applyAbbreviations('Copo med', matcher, 'Descrição Curta').expanded).toBe('Copo med');
+  });
+});
+
+describe('getAbbreviationColumnKind', () => {
+  it('tells name and description columns apart', () => {
+    expect(getAbbreviationColumnKind('Nome')).toBe('name');
+    expect(getAbbreviationColumnKind('Título SEO')).toBe('name');
+    expect(getAbbreviationColumnKind('Descrição Completa')).toBe('description');
+    expect(getAbbreviationColumnKind('Marca')).toBe('all');
+  });
+});
+
+describe('findAbbreviationConflicts', () => {
+  it('reports duplicates, overlaps and chained expansions', () => {
+    const conflicts = findAbbreviationConflicts({ cx: 'caixa', CX: 'caixas', tam: 'tamanho', 'tam-p': 'tamanho p', p: 'pequeno' });
+
+    expect(conflicts.map(conflict => [conflict.type, ...conflict.abbreviations])).toEqual([
+      ['duplicate', 'cx', 'CX'],
+      ['overlap', 'tam', 'tam-p'],
+      ['overlap', 'p', 'tam-p'],
+      ['chain', 'tam-p', 'p']
+    ]);
+  });
+});
+
+describe('dataProcessor abbreviation helpers', () => {
+  it('scopes abbreviations by column', () => {
+    const data = [{ Nome: 'Copo med', Marca: 'Med Brasil' }];
+
+    expect(correctAbbreviations('Copo med', { med: 'médio' }, 'Nome')).toBe('Copo médio');
+    expect(findAbbreviationCorrections(data, ['Nome', 'Marca'], { med: 'médio' })).toEqual([
+      { rowIndex: 0, column: 'Nome', original: 'Copo med', corrected: 'Copo médio', alterations: [{ original: 'med', corrigido: 'médio', tipo: 'abreviacao' }] }
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { mineAbbreviations } from '@/core/abbreviationMiner';
+
+const data = [
+  { Nome: 'Parafuso sextavado inox 10mm', Descrição: 'Porca com arruela' },
+  { Nome: 'Parafuso Sext. zincado 8mm', Descrição: 'Porca c/ arruela' },
+  { Nome: 'Parafus. Sext. inox 6mm', Descrição: 'Porca c/ arruela' },
+  { Nome: 'Paraf sextavado latão', Descrição: 'Parafus. com porca' },
+  { Nome: 'Paraf sextavado aço', Descrição: 'Pct com 10 unidades' },
+  { Nome: 'Pacote de pregos', Descrição: 'Pct com 20 unidades' }
+];
+
+describe('mineAbbreviations', () => {
+  it('proposes expansions from full words found elsewhere in the catalog', () => {
+    const suggestions = mineAbbreviations(data, ['Nome', 'Descrição']);
+    const byAbbr = new Map(suggestions.map(suggestion => [suggestion.abbr, suggestion]));
+
+    expect(byAbbr.get('sext.')).toMatchObject({ full: 'sextavado', evidence: 'context', occurrences: 2 });
+    expect(byAbbr.get('c/')).toMatchObject({ full: 'com', evidence: 'context' });
+    expect(byAbbr.get('paraf')).toMatchObject({ full: 'parafuso', evidence: 'context' });
+    expect(byAbbr.get('parafus.')).toMatchObject({ full: 'parafuso' });
+    expect(byAbbr.get('pct')).toMatchObject({ full: 'pacote', evidence: 'letters', confidence: 0.4 });
+    expect(byAbbr.get('sext.')!.examples).toEqual(['Parafuso Sext. zincado 8mm', 'Parafus. Sext. inox 6mm']);
+  });
+
+  it('leaves out known abbreviations, rare tokens and plain words', () => {
+    const suggestions = mineAbbreviations(data, ['Nome', 'Descrição'], { existing: { sext: 'sextavado', 'c/': 'com' } });
+    const abbrs = suggestions.map(suggestion => suggestion.abbr);
+
+    expect(abbrs).not.toContain('sext.');
+    expect(abbrs).not.toContain('c/');
+    expect(abbrs).not.toContain('porca');
+    expect(mineAbbreviations(data, ['Nome'], { minOccurrences: 3 })).toEqual([]);
+  });
+});
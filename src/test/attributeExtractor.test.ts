@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { applyExtractedAttributes, extractAttributes, extractAttributesFromData } from '@/core/attributeExtractor';
+import type { ProductData } from '@/core/types';
+
+const valuesOf = (text: string) =>
+  Object.fromEntries(extractAttributes(text).map(attr => [attr.attribute, attr.value]));
+
+describe('extractAttributes', () => {
+  it('reads thread, length and material from a screw name', () => {
+    expect(valuesOf('Parafuso Sextavado M8 x 50mm Zincado')).toEqual({ Rosca: 'M8', Medida: '50mm', Material: 'Zincado' });
+  });
+
+  it('reads wattage, voltage and color', () => {
+    expect(valuesOf('Furadeira 500W 220V Azul')).toEqual({ Potência: '500W', Voltagem: '220V', Cor: 'Azul' });
+    expect(valuesOf('Liquidificador 110/220v 1,5 Litros Preto')).toEqual({ Voltagem: '110/220V', Capacidade: '1,5L', Cor: 'Preto' });
+  });
+
+  it('points at the substring that produced each value, accents included', () => {
+    const [medida, material] = extractAttributes('Chapa 10 x 20 cm Aço Inox');
+    expect(medida).toMatchObject({ attribute: 'Medida', value: '10x20cm', match: '10 x 20 cm', start: 6 });
+    expect(material).toMatchObject({ attribute: 'Material', value: 'Aço Inox', match: 'Aço Inox', start: 17, end: 25 });
+  });
+
+  it('lowers the confidence when an attribute has conflicting values', () => {
+    const [rosca] = extractAttributes('Kit Parafusos M6 e M8');
+    expect(rosca.value).toBe('M6');
+    expect(rosca.confidence).toBeLessThan(0.9);
+  });
+});
+
+describe('applyExtractedAttributes', () => {
+  it('fills empty cells, creates columns and respects the confidence floor', () => {
+    const data: ProductData[] = [
+      { Nome: 'Furadeira 500W 220V Azul', Cor: '' },
+      { Nome: 'Cabo PP 10 m Preto', Cor: 'Vermelho' }
+    ];
+    const extractions = extractAttributesFromData(data, 'Nome');
+    const result = applyExtractedAttributes(data, ['Nome', 'Cor'], extractions, { minConfidence: 0.8 });
+
+    expect(result.columns).toEqual(['Nome', 'Cor', 'Potência', 'Voltagem']);
+    expect(result.data[0]).toMatchObject({ Cor: 'Azul', Potência: '500W', Voltagem: '220V' });
+    expect(result.data[1]).toEqual({ Nome: 'Cabo PP 10 m Preto', Cor: 'Vermelho' });
+    expect(result.filled).toBe(3);
+    expect(data[0].Cor).toBe('');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { getProductIdentifiers, matchAgainstHistory } from '@/core/catalogHistory';
+import type { HistoricalProduct, ProductData } from '@/core/types';
+
+const record = (overrides: Partial<HistoricalProduct>): HistoricalProduct => ({
+  id: 'r1',
+  sku: null,
+  gtin: null,
+  name: '',
+  enriched: {},
+  necessitaRevisao: false,
+  razaoRevisao: null,
+  validado: false,
+  validadoEm: null,
+  createdAt: '2026-03-01T10:00:00Z',
+  ...overrides
+});
+
+const columns = ['SKU', 'GTIN', 'Nome'];
+
+describe('getProductIdentifiers', () => {
+  it('returns the SKU and a normalized valid GTIN', () => {
+    expect(getProductIdentifiers({ SKU: ' A1 ', GTIN: '7891234567895.0', Nome: 'x' }, columns)).toEqual({
+      sku: 'A1',
+      gtin: '7891234567895'
+    });
+    expect(getProductIdentifiers({ SKU: '', GTIN: '123', Nome: 'x' }, columns)).toEqual({});
+  });
+});
+
+describe('matchAgainstHistory', () => {
+  const data: ProductData[] = [
+    { SKU: 'x-1', GTIN: '', Nome: 'Parafuso' },
+    { SKU: 'B9', GTIN: '7891234567895', Nome: 'Porca' },
+    { SKU: 'Z0', GTIN: '', Nome: 'Furadeira de impacto Bosch 650W' },
+    { SKU: 'Z1', GTIN: '', Nome: 'Cadeira de escritório' }
+  ];
+
+  it('matches by GTIN, SKU and name similarity', () => {
+    const history = [
+      record({ id: 'sku', sku: 'X-1' }),
+      record({ id: 'gtin', sku: 'OTHER', gtin: '7891234567895' }),
+      record({ id: 'name', name: 'Furadeira de impacto Bosch 650W' })
+    ];
+
+    expect(matchAgainstHistory(data, columns, history)).toEqual([
+      { rowIndex: 0, productId: 'sku', matchType: 'sku', similarity: 1 },
+      { rowIndex: 1, productId: 'gtin', matchType: 'gtin', similarity: 1 },
+      { rowIndex: 2, productId: 'name', matchType: 'nome', similarity: 1 }
+    ]);
+  });
+
+  it('prefers validated and then the most recent record', () => {
+    const history = [
+      record({ id: 'old', sku: 'X-1', validado: true, createdAt: '2026-01-01T00:00:00Z' }),
+      record({ id: 'new', sku: 'X-1', createdAt: '2026-03-01T00:00:00Z' }),
+      record({ id: 'newest', sku: 'X-1', validado: true, createdAt: '2026-03-14T00:00:00Z' })
+    ];
+
+    expect(matchAgainstHistory(data, columns, history)[0].productId).toBe('newest');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_HISTORY,
+  createHistoryEntry,
+  pushHistoryEntry,
+  redoHistory,
+  undoHistory
+} from '@/core/changeHistory';
+
+const rows = [
+  { SKU: 'A1', Nome: 'paraf sext' },
+  { SKU: 'A2', Nome: 'Arruela' }
+];
+
+describe('createHistoryEntry', () => {
+  it('keeps only the rows that changed when the length is the same', () => {
+    const corrected = [{ SKU: 'A1', Nome: 'Parafuso Sextavado' }, rows[1]];
+    const entry = createHistoryEntry('Correção de texto', { rawData: rows }, { rawData: corrected })!;
+
+    expect(entry.label).toBe('Correção de texto');
+    expect(entry.patches).toEqual([
+      { key: 'rawData', kind: 'rows', rows: [{ index: 0, before: rows[0], after: corrected[0] }] }
+    ]);
+  });
+
+  it('stores the whole value when rows are added or removed, and nothing when unchanged', () => {
+    const entry = createHistoryEntry('Resolução de duplicados', { rawData: rows }, { rawData: [rows[0]] })!;
+    expect(entry.patches).toEqual([{ key: 'rawData', kind: 'replace', before: rows, after: [rows[0]] }]);
+
+    expect(createHistoryEntry('Validação', { rawData: rows }, { rawData: rows.map(row => ({ ...row })) })).toBeNull();
+  });
+});
+
+describe('undoHistory / redoHistory', () => {
+  it('rolls several steps back and forward', () => {
+    const step1 = [{ SKU: 'A1', Nome: 'Parafuso' }, rows[1]];
+    const step2 = [...step1, { SKU: 'A3', Nome: 'Porca' }];
+    const columns = ['SKU', 'Nome'];
+
+    let history = pushHistoryEntry(EMPTY_HISTORY, createHistoryEntry('Correção', { rawData: rows }, { rawData: step1 })!);
+    history = pushHistoryEntry(
+      history,
+      createHistoryEntry('Variações', { rawData: step1, columns }, { rawData: step2, columns: [...columns, 'Código Pai'] })!
+    );
+
+    const undone = undoHistory(history, { rawData: step2, columns: [...columns, 'Código Pai'] }, 2)!;
+    expect(undone.changes).toEqual({ rawData: rows, columns });
+    expect(undone.history.past).toHaveLength(0);
+    expect(undone.history.future.map(entry => entry.label)).toEqual(['Correção', 'Variações']);
+
+    const redone = redoHistory(undone.history, { rawData: rows, columns })!;
+    expect(redone.changes).toEqual({ rawData: step1 });
+    expect(redone.history.past.map(entry => entry.label)).toEqual(['Correção']);
+
+    expect(undoHistory(EMPTY_HISTORY, {})).toBeNull();
+  });
+
+  it('drops the redo branch on a new edit and caps the entries', () => {
+    const entry = createHistoryEntry('Validação', { rawData: rows }, { rawData: [rows[1], rows[0]] })!;
+    const history = pushHistoryEntry({ past: [entry, entry, entry], future: [entry] }, entry, 3);
+
+    expect(history.past).toHaveLength(3);
+    expect(history.future).toHaveLength(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { applyCellChanges, diffEnrichment } from '@/core/changeSet';
+import { processData } from '@/core/dataProcessor';
+import type { ColumnConfig, ProductData } from '@/core/types';
+
+const data: ProductData[] = [
+  { SKU: 'A1', Nome: '  paraf sextavado ', Unidade: '', Preço: 10 },
+  { SKU: 'A2', Nome: 'Arruela', Unidade: 'CX', Preço: 5 }
+];
+
+const columnConfig: Record<string, ColumnConfig> = {
+  Nome: { action: 'analyze', defaultValue: '', isProtected: false, transforms: [{ type: 'trim' }, { type: 'case', style: 'upper' }] },
+  Unidade: { action: 'default_empty', defaultValue: 'UN', isProtected: false },
+  Preço: { action: 'ignore', defaultValue: '', isProtected: true }
+};
+
+describe('processData with trackChanges', () => {
+  it('lists each changed cell with the steps behind it', () => {
+    const { changes, enrichedData } = processData(data, columnConfig, { paraf: 'parafuso' }, undefined, { trackChanges: true });
+
+    expect(changes).toHaveLength(3);
+    const nome = changes!.find(change => change.id === '0:Nome')!;
+    expect(nome.before).toBe('  paraf sextavado ');
+    expect(nome.after).toBe(enrichedData[0].Nome);
+    expect(nome.steps.map(step => [step.source, step.rule])).toEqual([
+      ['transform', 'Remover espaços extras'],
+      ['transform', 'Converter para MAIÚSCULAS'],
+      ['abbreviation', 'paraf']
+    ]);
+    expect(changes!.find(change => change.id === '0:Unidade')!.steps[0]).toMatchObject({ source: 'default', after: 'UN' });
+    expect(changes!.some(change => change.column === 'Preço')).toBe(false);
+  });
+
+  it('leaves changes out unless asked', () => {
+    expect(processData(data, columnConfig, {}).changes).toBeUndefined();
+  });
+});
+
+describe('applyCellChanges', () => {
+  it('writes only the accepted cells', () => {
+    const { changes } = processData(data, columnConfig, {}, undefined, { trackChanges: true });
+    const result = applyCellChanges(data, changes!, new Set(['0:Unidade']));
+
+    expect(result[0]).toEqual({ ...data[0], Unidade: 'UN' });
+    expect(result[1]).toBe(data[1]);
+    expect(data[0].Unidade).toBe('');
+  });
+});
+
+describe('diffEnrichment', () => {
+  it('maps AI suggestions onto the matching columns', () => {
+    const changes = diffEnrichment(
+      [
+        { original: { Nome: 'paraf sext', Categoria: 'Ferragens' }, enriched: { nome_padronizado: 'Parafuso Sextavado', categoria_inferida: 'Ferragens' } }
+      ],
+      ['Nome', 'Categoria']
+    );
+
+    expect(changes).toEqual([
+      {
+        id: '0:Nome',
+        rowIndex: 0,
+        column: 'Nome',
+        before: 'paraf sext',
+        after: 'Parafuso Sextavado',
+        steps: [{ source: 'ai', rule: 'nome_padronizado', before: 'paraf sext', after: 'Parafuso Sextavado' }]
+      }
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  suggestColumnMapping,
+  suggestionsToMapping,
+  findMappingConflicts,
+  applyColumnMapping,
+  columnSetSimilarity
+} from '@/core/columnMapping';
+
+describe('suggestColumnMapping', () => {
+  it('ranks exact, accent-insensitive and partial matches', () => {
+    const [exact, normalized, partial, none] = suggestColumnMapping(['SKU', 'descricao', 'Preço Custo Unit', 'Xyz']);
+
+    expect(exact).toMatchObject({ target: 'SKU', matchType: 'exact', confidence: 1 });
+    expect(normalized).toMatchObject({ target: 'Descrição', matchType: 'normalized' });
+    expect(partial.matchType).toBe('partial');
+    expect(none).toMatchObject({ target: null, matchType: 'none' });
+  });
+
+  it('prefers a saved supplier mapping', () => {
+    const [suggestion] = suggestColumnMapping(['Desc. Fornecedor'], { 'Desc. Fornecedor': 'Descrição Curta' });
+    expect(suggestion).toMatchObject({ target: 'Descrição Curta', matchType: 'saved' });
+  });
+});
+
+describe('applyColumnMapping', () => {
+  it('renames mapped columns and keeps the first source on conflicts', () => {
+    const mapping = { Ref: 'SKU', Cod: 'SKU', Titulo: 'Nome', Extra: null };
+    expect(findMappingConflicts(mapping)).toEqual({ SKU: ['Ref', 'Cod'] });
+
+    const { data, columns } = applyColumnMapping(
+      [{ Ref: 'A1', Cod: '9', Titulo: 'Caixa', Extra: 'x', __source_file: 'f.xlsx' }],
+      ['Ref', 'Cod', 'Titulo', 'Extra'],
+      mapping
+    );
+    expect(columns).toEqual(['SKU', 'Cod', 'Nome', 'Extra']);
+    expect(data[0]).toEqual({ SKU: 'A1', Cod: '9', Nome: 'Caixa', Extra: 'x', __source_file: 'f.xlsx' });
+  });
+
+  it('round-trips suggestions into a mapping', () => {
+    expect(suggestionsToMapping(suggestColumnMapping(['Marca']))).toEqual({ Marca: 'Marca' });
+  });
+});
+
+describe('columnSetSimilarity', () => {
+  it('recognizes the same layout regardless of case and accents', () => {
+    expect(columnSetSimilarity(['Código', 'Descrição'], ['codigo', 'DESCRICAO'])).toBe(1);
+    expect(columnSetSimilarity(['A', 'B'], ['C'])).toBe(0);
+  });
+});
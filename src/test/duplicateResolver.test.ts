@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  suggestSurvivorshipRules,
+  mergeDuplicateRows,
+  applyDuplicateResolutions,
+  getDuplicateGroupId,
+  getGroupFingerprints,
+  filterSuppressedDuplicates
+} from '@/core/duplicateResolver';
+import type { DuplicateResult, ProductData } from '@/core/types';
+
+const data: ProductData[] = [
+  { SKU: 'A1', Descrição: 'Parafuso inox', Marca: '', Preço: 10, __source_modified: 1 },
+  { SKU: 'A1', Descrição: 'Parafuso sextavado inox 10mm', Marca: 'Ciser', Preço: 12, __source_modified: 2 },
+  { SKU: 'B2', Descrição: 'Porca', Marca: 'Ciser', Preço: 1 }
+];
+
+const group: DuplicateResult = { tipo: 'SKU Duplicado', valor: 'A1', linhas: [0, 1], similaridade: 1 };
+
+describe('suggestSurvivorshipRules', () => {
+  it('protects locked columns and prefers longer descriptions', () => {
+    expect(suggestSurvivorshipRules(['SKU', 'Descrição', 'Preço'], ['Preço'])).toEqual({
+      SKU: 'non_empty',
+      Descrição: 'longest',
+      Preço: 'survivor'
+    });
+  });
+});
+
+describe('mergeDuplicateRows', () => {
+  it('fills the golden record without touching protected columns', () => {
+    const golden = mergeDuplicateRows(
+      [data[0], data[1]],
+      data[0],
+      { SKU: 'non_empty', Descrição: 'longest', Marca: 'non_empty', Preço: 'newest_file' },
+      ['Preço']
+    );
+
+    expect(golden).toMatchObject({
+      SKU: 'A1',
+      Descrição: 'Parafuso sextavado inox 10mm',
+      Marca: 'Ciser',
+      Preço: 10
+    });
+  });
+
+  it('takes values from the newest file', () => {
+    const golden = mergeDuplicateRows([data[0], data[1]], data[0], { Preço: 'newest_file' });
+    expect(golden.Preço).toBe(12);
+  });
+});
+
+describe('applyDuplicateResolutions', () => {
+  it('merges a group into its survivor', () => {
+    const result = applyDuplicateResolutions(
+      data,
+      [group],
+      { [getDuplicateGroupId(group)]: { action: 'merge', survivor: 1, excluded: [] } },
+      { Descrição: 'longest' }
+    );
+
+    expect(result).toMatchObject({ merged: 1, removed: 1 });
+    expect(result.data.map(row => row.SKU)).toEqual(['A1', 'B2']);
+    expect(result.data[0].Preço).toBe(12);
+  });
+
+  it('leaves split rows alone', () => {
+    const result = applyDuplicateResolutions(
+      data,
+      [group],
+      { [getDuplicateGroupId(group)]: { action: 'keep', survivor: 0, excluded: [1] } },
+      {}
+    );
+
+    expect(result.removed).toBe(0);
+    expect(result.data).toHaveLength(3);
+  });
+});
+
+describe('filterSuppressedDuplicates', () => {
+  it('hides groups marked as not a duplicate until a new row joins', () => {
+    const suppressed = [getGroupFingerprints(group, data)];
+    expect(filterSuppressedDuplicates([group], data, suppressed)).toEqual([]);
+
+    const withNewRow = [...data, { SKU: 'A1', Descrição: 'Parafuso zincado', Marca: '', Preço: 9 }];
+    const grown = { ...group, linhas: [0, 1, 3] };
+    expect(filterSuppressedDuplicates([grown], withNewRow, suppressed)).toEqual([grown]);
+  });
+});
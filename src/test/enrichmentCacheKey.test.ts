@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { derivePromptVersion, hashEnrichmentInput, normalizeEnrichmentInput } from '@/core/enrichmentCacheKey';
+
+describe('normalizeEnrichmentInput', () => {
+  it('ignores column order, stray whitespace, empty values and number vs text', () => {
+    const a = { Nome: 'furadeira  500w ', 'Preço': 199, Marca: '', origem: 'nacional' };
+    const b = { origem: 'nacional', ' Preço': '199', Nome: 'furadeira 500w', Cor: null };
+
+    expect(normalizeEnrichmentInput(a)).toBe(normalizeEnrichmentInput(b));
+    expect(normalizeEnrichmentInput(a)).toBe('{"Nome":"furadeira 500w","Preço":"199","origem":"nacional"}');
+  });
+
+  it('keeps case and content differences', () => {
+    expect(normalizeEnrichmentInput({ Nome: 'Furadeira' })).not.toBe(normalizeEnrichmentInput({ Nome: 'furadeira' }));
+    expect(normalizeEnrichmentInput({})).toBe('{}');
+  });
+});
+
+describe('hashEnrichmentInput', () => {
+  it('hashes equivalent inputs to the same SHA-256 key', async () => {
+    const first = await hashEnrichmentInput({ Nome: 'furadeira 500w', 'Preço': 199 });
+    const second = await hashEnrichmentInput({ 'Preço': '199', Nome: ' furadeira 500w' });
+    const other = await hashEnrichmentInput({ Nome: 'parafusadeira', 'Preço': 199 });
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(second).toBe(first);
+    expect(other).not.toBe(first);
+  });
+});
+
+describe('derivePromptVersion', () => {
+  it('changes with any edit to the prompt text', async () => {
+    const version = await derivePromptVersion('enriquecer', 'Você é o motor de enriquecimento.');
+
+    expect(version).toMatch(/^enriquecer-[0-9a-f]{12}$/);
+    expect(await derivePromptVersion('enriquecer', 'Você é o motor de enriquecimento.')).toBe(version);
+    expect(await derivePromptVersion('enriquecer', 'Você é o motor de enriquecimento!')).not.toBe(version);
+  });
+});
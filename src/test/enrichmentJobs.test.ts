@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { buildEnrichmentJobItems, getReusedEnrichment } from '@/core/enrichmentJobs';
+import type { ReusedEnrichment } from '@/core/types';
+
+const columns = ['SKU', 'GTIN', 'Nome', 'Preço'];
+
+const rows = [
+  { SKU: 'A1', GTIN: '7891234567895', Nome: 'furadeira 500w', 'Preço': 199 },
+  { SKU: 'A2', GTIN: '', Nome: null, 'Preço': 10 }
+];
+
+describe('buildEnrichmentJobItems', () => {
+  it('sends only the analyzed columns, with the origin hint and identifiers', () => {
+    const [first, second] = buildEnrichmentJobItems(rows, ['Nome'], columns);
+
+    expect(first).toMatchObject({
+      rowIndex: 0,
+      row: rows[0],
+      product: { Nome: 'furadeira 500w' },
+      identifiers: { sku: 'A1', gtin: '7891234567895' },
+      status: 'pending',
+      result: null
+    });
+    expect(first.hints.origem).toBeTruthy();
+    expect(second.product).toEqual({});
+    expect(second.identifiers).toEqual({ sku: 'A2' });
+  });
+
+  it('marks rows reused from earlier sessions as done', () => {
+    const reused: ReusedEnrichment = {
+      registroId: 'r1',
+      enriched: { nome_padronizado: 'Furadeira 500W' },
+      reusedFrom: '2026-03-01T10:00:00Z'
+    };
+    const items = buildEnrichmentJobItems(rows, ['Nome'], columns, new Map([[1, reused]]));
+
+    expect(items.map(item => item.status)).toEqual(['pending', 'done']);
+    expect(getReusedEnrichment(items[1])).toEqual(reused);
+    expect(getReusedEnrichment(items[0])).toBeNull();
+  });
+});
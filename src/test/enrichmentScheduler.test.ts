@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifySchedulerError,
+  getRetryDelay,
+  parseRetryAfter,
+  runEnrichmentScheduler
+} from '@/core/enrichmentScheduler';
+
+// Virtual clock: sleeping advances time instantly
+const createClock = () => {
+  let time = 0;
+  return {
+    now: () => time,
+    sleep: async (ms: number) => {
+      time += ms;
+    },
+    random: () => 1
+  };
+};
+
+const httpError = (status: number, retryAfterMs?: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, retryAfterMs });
+
+describe('retry helpers', () => {
+  it('parses Retry-After in seconds or as an HTTP date', () => {
+    expect(parseRetryAfter('30')).toBe(30000);
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:10 GMT', 4000)).toBe(6000);
+    expect(parseRetryAfter('')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('logo')).toBeUndefined();
+  });
+
+  it('retries rate limits, server and network errors only', () => {
+    expect(classifySchedulerError(httpError(429, 2000))).toEqual({
+      message: 'HTTP 429',
+      retryable: true,
+      status: 429,
+      retryAfterMs: 2000
+    });
+    expect(classifySchedulerError(httpError(503)).retryable).toBe(true);
+    expect(classifySchedulerError(new Error('Failed to fetch')).retryable).toBe(true);
+    expect(classifySchedulerError(httpError(400)).retryable).toBe(false);
+  });
+
+  it('backs off exponentially with jitter, capped, and never below Retry-After', () => {
+    expect(getRetryDelay(1, undefined, 1000, 30000, () => 1)).toBe(1000);
+    expect(getRetryDelay(3, undefined, 1000, 30000, () => 1)).toBe(4000);
+    expect(getRetryDelay(3, undefined, 1000, 30000, () => 0)).toBe(2000);
+    expect(getRetryDelay(10, undefined, 1000, 30000, () => 1)).toBe(30000);
+    expect(getRetryDelay(1, 5000, 1000, 30000, () => 1)).toBe(5000);
+  });
+});
+
+describe('runEnrichmentScheduler', () => {
+  it('retries a rate-limited call after Retry-After and keeps results in index order', async () => {
+    const clock = createClock();
+    const calls: { index: number; attempt: number; at: number }[] = [];
+
+    const outcomes = await runEnrichmentScheduler(
+      [0, 1, 2],
+      async (index, attempt) => {
+        calls.push({ index, attempt, at: clock.now() });
+        if (index === 1 && attempt === 1) throw httpError(429, 5000);
+        return `item ${index}`;
+      },
+      { ...clock, initialConcurrency: 1 }
+    );
+
+    expect(outcomes.map(o => [o.index, o.ok, o.value, o.attempts])).toEqual([
+      [0, true, 'item 0', 1],
+      [1, true, 'item 1', 2],
+      [2, true, 'item 2', 1]
+    ]);
+    const retry = calls.find(call => call.index === 1 && call.attempt === 2)!;
+    expect(retry.at).toBeGreaterThanOrEqual(5000);
+    // Nothing else starts while the server asked to wait
+    expect(calls.find(call => call.index === 2)!.at).toBeGreaterThanOrEqual(5000);
+  });
+
+  it('gives up on non-retryable errors and after maxRetries', async () => {
+    const clock = createClock();
+    const retries: number[] = [];
+
+    const outcomes = await runEnrichmentScheduler(
+      [0, 1],
+      async index => {
+        throw index === 0 ? httpError(400) : httpError(503);
+      },
+      { ...clock, maxRetries: 2, onRetry: index => retries.push(index) }
+    );
+
+    expect(outcomes[0]).toMatchObject({ index: 0, ok: false, attempts: 1, error: { status: 400, retryable: false } });
+    expect(outcomes[1]).toMatchObject({ index: 1, ok: false, attempts: 3, error: { status: 503, retryable: true } });
+    expect(retries).toEqual([1, 1]);
+  });
+
+  it('halves concurrency on throttling and grows it back when healthy', async () => {
+    const clock = createClock();
+    const changes: [number, string][] = [];
+    let running = 0;
+    let peak = 0;
+
+    await runEnrichmentScheduler(
+      Array.from({ length: 12 }, (_, i) => i),
+      async (index, attempt) => {
+        running++;
+        peak = Math.max(peak, running);
+        await clock.sleep(10);
+        running--;
+        if (index === 0 && attempt === 1) throw httpError(429);
+        return index;
+      },
+      {
+        ...clock,
+        initialConcurrency: 4,
+        maxConcurrency: 5,
+        healthyStreak: 3,
+        onConcurrencyChange: (concurrency, reason) => changes.push([concurrency, reason])
+      }
+    );
+
+    expect(peak).toBeLessThanOrEqual(5);
+    expect(changes[0]).toEqual([2, 'throttled']);
+    expect(changes.slice(1).every(([, reason]) => reason === 'healthy')).toBe(true);
+    expect(changes[changes.length - 1][0]).toBeGreaterThan(2);
+  });
+
+  it('stops starting calls once cancelled', async () => {
+    const clock = createClock();
+    let cancelled = false;
+
+    const outcomes = await runEnrichmentScheduler(
+      [0, 1, 2, 3],
+      async index => {
+        if (index === 1) cancelled = true;
+        return index;
+      },
+      { ...clock, initialConcurrency: 1, isCancelled: () => cancelled }
+    );
+
+    expect(outcomes.map(o => o.index)).toEqual([0, 1]);
+  });
+});
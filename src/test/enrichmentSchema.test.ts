@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatNcmCode,
+  normalizeOrigin,
+  parseEnrichmentContent,
+  validateEnrichmentResponse
+} from '@/core/enrichmentSchema';
+
+const validResponse = {
+  nome_padronizado: 'Furadeira Black+Decker 500W',
+  descricao_enriquecida: 'Furadeira elétrica Black+Decker com potência de 500 Watts',
+  categoria_inferida: 'Ferramentas > Elétricas > Furadeiras',
+  marca_inferida: 'Black+Decker',
+  origem_inferida: '',
+  ncm_sugerido: { codigo: '8467.21.00', descricao: 'Furadeiras', confianca: 'alta', observacao: '' },
+  status_inferencia: { necessita_revisao: false, razao: '' }
+};
+
+describe('field coercion', () => {
+  it('formats NCM codes and rejects placeholders', () => {
+    expect(formatNcmCode('84672100')).toBe('8467.21.00');
+    expect(formatNcmCode(84672100)).toBe('8467.21.00');
+    expect(formatNcmCode('8467-21-00')).toBe('8467.21.00');
+    expect(formatNcmCode('')).toBe('');
+    expect(formatNcmCode('8205.XX.XX')).toBeNull();
+    expect(formatNcmCode('8467.21')).toBeNull();
+  });
+
+  it('maps origin spellings to the enum', () => {
+    expect(normalizeOrigin('nacional')).toBe('Nacional');
+    expect(normalizeOrigin('Importada (China)')).toBe('Importado');
+    expect(normalizeOrigin(undefined)).toBe('');
+    expect(normalizeOrigin('China')).toBeNull();
+  });
+});
+
+describe('validateEnrichmentResponse', () => {
+  it('accepts a well-formed response as is', () => {
+    const result = validateEnrichmentResponse(validResponse);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.value).toEqual(validResponse);
+  });
+
+  it('coerces fixable fields without sending the product to review', () => {
+    const result = validateEnrichmentResponse({
+      ...validResponse,
+      origem_inferida: 'nacional',
+      ncm_sugerido: { ...validResponse.ncm_sugerido, codigo: '84672100', confianca: 'Média' }
+    });
+
+    expect(result.valid).toBe(true);
+    expect(result.value.origem_inferida).toBe('Nacional');
+    expect(result.value.ncm_sugerido).toMatchObject({ codigo: '8467.21.00', confianca: 'media' });
+    expect(result.value.status_inferencia.necessita_revisao).toBe(false);
+    expect(result.issues.map(issue => issue.field)).toEqual(['origem_inferida', 'ncm_sugerido.codigo']);
+  });
+
+  it('blanks invalid fields and explains them in the review reason', () => {
+    const { status_inferencia: _status, ...withoutStatus } = validResponse;
+    const result = validateEnrichmentResponse({
+      ...withoutStatus,
+      ncm_sugerido: { ...validResponse.ncm_sugerido, codigo: '8467.XX.XX' }
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.value.ncm_sugerido.codigo).toBe('');
+    expect(result.value.status_inferencia.necessita_revisao).toBe(true);
+    expect(result.value.status_inferencia.razao).toMatch(/^Resposta inválida da IA: .*ncm_sugerido\.codigo/);
+    expect(result.value.status_inferencia.razao).toContain('status_inferencia.necessita_revisao ausente');
+  });
+
+  it('flags answers that are not JSON objects', () => {
+    const result = validateEnrichmentResponse(parseEnrichmentContent('Desculpe, não consegui.'));
+
+    expect(result.valid).toBe(false);
+    expect(result.value.nome_padronizado).toBe('');
+    expect(result.value.status_inferencia.razao).toBe('Resposta inválida da IA: resposta não é um objeto JSON');
+  });
+});
+
+describe('parseEnrichmentContent', () => {
+  it('reads JSON wrapped in code fences or text', () => {
+    expect(parseEnrichmentContent('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(parseEnrichmentContent('Segue: {"a": 1} ok')).toEqual({ a: 1 });
+    expect(parseEnrichmentContent('{"a":')).toBeUndefined();
+  });
+});
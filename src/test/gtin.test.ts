@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeGtinCheckDigit,
+  normalizeGtin,
+  validateGtin,
+  getGtinOriginHint,
+  isBarcodeColumn
+} from '@/core/gtin';
+import { detectDuplicates } from '@/core/dataProcessor';
+import type { ColumnConfig } from '@/core/types';
+
+describe('validateGtin', () => {
+  it('accepts valid EAN-13, EAN-8, UPC-A and GTIN-14 codes', () => {
+    expect(validateGtin('7891000315507')).toMatchObject({ valid: true, type: 'EAN-13', country: 'Brasil' });
+    expect(validateGtin('96385074')).toMatchObject({ valid: true, type: 'EAN-8' });
+    expect(validateGtin('036000291452')).toMatchObject({ valid: true, type: 'UPC-A', country: 'EUA/Canadá' });
+    expect(validateGtin('17891000315504')).toMatchObject({ valid: true, type: 'GTIN-14', country: 'Brasil' });
+  });
+
+  it('flags wrong check digits, lengths and placeholders', () => {
+    expect(validateGtin('7891000315508').error).toBe('invalid_check_digit');
+    expect(validateGtin('789100031550712').error).toBe('invalid_length');
+    expect(validateGtin('789-ABC').error).toBe('non_numeric');
+    expect(validateGtin('7890000000000').error).toBe('placeholder');
+    expect(validateGtin('').error).toBe('empty');
+  });
+});
+
+describe('normalizeGtin', () => {
+  it('drops formatting and padding zeros', () => {
+    expect(normalizeGtin('0 7891000-315507')).toBe('7891000315507');
+    expect(normalizeGtin('00036000291452')).toBe('036000291452');
+    expect(normalizeGtin('000096385074')).toBe('96385074');
+    expect(normalizeGtin(36000291452)).toBe('036000291452');
+  });
+
+  it('reads codes a spreadsheet turned into floats', () => {
+    expect(normalizeGtin('7891000315507.0')).toBe('7891000315507');
+    expect(normalizeGtin(' 7891000315507.00 ')).toBe('7891000315507');
+    expect(validateGtin('7891000315507.0')).toMatchObject({ valid: true, type: 'EAN-13' });
+  });
+
+  it('computes GS1 check digits', () => {
+    expect(computeGtinCheckDigit('789100031550')).toBe(7);
+  });
+});
+
+describe('barcode helpers', () => {
+  it('recognises barcode columns', () => {
+    expect(isBarcodeColumn('Código de Barras')).toBe(true);
+    expect(isBarcodeColumn('GTIN/EAN')).toBe(true);
+    expect(isBarcodeColumn('Código')).toBe(false);
+  });
+
+  it('hints a Brazilian origin from the GS1 prefix', () => {
+    expect(getGtinOriginHint('7891000315507')).toContain('Brasil');
+    expect(getGtinOriginHint('7891000315508')).toBeUndefined();
+  });
+
+  it('reads the GS1-8 prefix of EAN-8 codes', () => {
+    expect(validateGtin('78912342')).toMatchObject({ type: 'EAN-8', country: 'Brasil' });
+    expect(validateGtin('40012346')).toMatchObject({ type: 'EAN-8', country: 'Alemanha' });
+    expect(validateGtin('20123451').country).toBeUndefined();
+    expect(getGtinOriginHint('78912342')).toContain('Brasil');
+  });
+});
+
+describe('detectDuplicates with barcodes', () => {
+  const columnConfig: Record<string, ColumnConfig> = {
+    Código: { action: 'analyze', defaultValue: '', isProtected: false },
+    'Código de Barras': { action: 'ignore', defaultValue: '', isProtected: true }
+  };
+
+  it('reports the same barcode on different SKUs', () => {
+    const data = [
+      { Código: 'A1', 'Código de Barras': '7891000315507' },
+      { Código: 'B2', 'Código de Barras': '07891000315507' },
+      { Código: 'C3', 'Código de Barras': '7890000000000' },
+      { Código: 'D4', 'Código de Barras': '7890000000000' }
+    ];
+
+    const duplicates = detectDuplicates(data, columnConfig);
+    expect(duplicates).toEqual([
+      expect.objectContaining({ tipo: 'GTIN Duplicado', valor: '7891000315507', linhas: [0, 1] })
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  detectEncoding,
+  detectDelimiter,
+  detectNumberFormat,
+  parseCsv,
+  parseLocaleNumber,
+  sniffCsv,
+  csvToWorkbook,
+  sheetToRows,
+  alignDatasets,
+  detectHeaderRow,
+  getSourceLine,
+  mergeSheets,
+  summarizeSheets
+} from '@/core/importManager';
+
+// Encode text as Windows-1252 (Latin-1 range is byte-identical)
+const toCp1252 = (text: string): Uint8Array =>
+  Uint8Array.from([...text].map(char => char.charCodeAt(0)));
+
+describe('detectEncoding', () => {
+  it('recognizes a UTF-8 BOM', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, 0x41]);
+    expect(detectEncoding(bytes)).toEqual({ encoding: 'utf-8', hasBom: true });
+  });
+
+  it('falls back to a single-byte encoding for invalid UTF-8', () => {
+    const { encoding } = detectEncoding(toCp1252('Descrição;Preço\n'));
+    expect(['windows-1252', 'iso-8859-1']).toContain(encoding);
+  });
+
+  it('keeps plain UTF-8 as UTF-8', () => {
+    const bytes = new TextEncoder().encode('Descrição;Preço\n');
+    expect(detectEncoding(bytes)).toEqual({ encoding: 'utf-8', hasBom: false });
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const rows = parseCsv('a;b\n"x;y";"diz ""oi""\nlinha 2"\r\n', ';');
+    expect(rows).toEqual([['a', 'b'], ['x;y', 'diz "oi"\nlinha 2']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('prefers the delimiter with consistent column counts', () => {
+    const text = 'SKU;Nome;Preço\n1;Caneta, azul;12,50\n2;Lápis;3,00\n';
+    expect(detectDelimiter(text)).toBe(';');
+  });
+
+  it('detects tabs', () => {
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3\n')).toBe('\t');
+  });
+});
+
+describe('number format', () => {
+  it('detects Brazilian decimals and thousands', () => {
+    const rows = parseCsv('Preço;Estoque\n1.234,56;10\n12,50;3\n', ';');
+    expect(detectNumberFormat(rows)).toEqual({ decimalSeparator: ',', thousandsSeparator: '.' });
+  });
+
+  it('parses locale numbers and rejects text', () => {
+    expect(parseLocaleNumber('1.234,56', ',', '.')).toBe(1234.56);
+    expect(parseLocaleNumber('R$ 12,50', ',', '.')).toBe(12.5);
+    expect(parseLocaleNumber('1,234.56', '.', ',')).toBe(1234.56);
+    expect(parseLocaleNumber('12 un', ',', '.')).toBeNull();
+  });
+});
+
+describe('Bling CSV import', () => {
+  const csv = 'Código;Descrição;Preço;GTIN/EAN;Estoque\n' +
+    '00123;Camiseta Algodão;"1.299,90";07891234567895;5\n' +
+    '00124;Calça Jeans;59,9;7891234567802;0\n';
+
+  it('sniffs encoding, delimiter and number format', () => {
+    const detection = sniffCsv(toCp1252(csv));
+    expect(detection.delimiter).toBe(';');
+    expect(detection.quoteChar).toBe('"');
+    expect(detection.decimalSeparator).toBe(',');
+    expect(detection.thousandsSeparator).toBe('.');
+    expect(detection.hasBom).toBe(false);
+  });
+
+  it('produces typed rows without mojibake and keeps identifiers as text', () => {
+    const bytes = toCp1252(csv);
+    const workbook = csvToWorkbook(bytes, sniffCsv(bytes), 'produtos');
+    const rows = sheetToRows(workbook, 'produtos');
+
+    expect(Object.keys(rows[0])).toContain('Descrição');
+    expect(rows[0]['Descrição']).toBe('Camiseta Algodão');
+    expect(rows[0]['Preço']).toBe(1299.9);
+    expect(rows[1]['Preço']).toBe(59.9);
+    expect(rows[0]['Código']).toBe('00123');
+    expect(rows[0]['GTIN/EAN']).toBe('07891234567895');
+    expect(rows[1]['Estoque']).toBe(0);
+  });
+});
+
+describe('alignDatasets', () => {
+  it('matches columns across files ignoring case and accents', () => {
+    const { data, columns, columnSources } = alignDatasets([
+      { data: [{ SKU: 'A1', 'Descrição': 'Caneta' }], columns: ['SKU', 'Descrição'], sourceFile: 'erp.csv' },
+      { data: [{ sku: 'A1', DESCRICAO: 'Caneta azul', Marca: 'Bic' }], columns: ['sku', 'DESCRICAO', 'Marca'], sourceFile: 'fornecedor.xlsx' }
+    ]);
+
+    expect(columns).toEqual(['SKU', 'Descrição', 'Marca']);
+    expect(data[1]).toMatchObject({ SKU: 'A1', 'Descrição': 'Caneta azul', Marca: 'Bic', __source_file: 'fornecedor.xlsx' });
+    expect(data[0].Marca).toBe('');
+    expect(columnSources.SKU).toEqual(['erp.csv', 'fornecedor.xlsx']);
+  });
+});
+
+describe('header row detection', () => {
+  const buildWorkbook = (aoa: unknown[][], merges: XLSX.Range[] = []) => {
+    const sheet = XLSX.utils.aoa_to_sheet(aoa);
+    sheet['!merges'] = merges;
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Fornecedor');
+    return workbook;
+  };
+
+  it('skips a title block above the real header', () => {
+    const workbook = buildWorkbook([
+      ['Distribuidora XYZ - Tabela de Preços'],
+      [''],
+      ['Código', 'Descrição', 'Preço', ''],
+      ['001', 'Caneta Azul', 2.5, ''],
+      ['002', 'Lápis HB', 1.2, '']
+    ], [{ s: { r: 0, c: 0 }, e: { r: 0, c: 3 } }]);
+
+    const rows = sheetToRows(workbook, 'Fornecedor');
+    expect(rows).toHaveLength(2);
+    expect(Object.keys(rows[0])).toEqual(['Código', 'Descrição', 'Preço', '__row_number']);
+    expect(rows[1]['Descrição']).toBe('Lápis HB');
+  });
+
+  it('keeps the spreadsheet line of each row past the header and blank rows', () => {
+    const workbook = buildWorkbook([
+      ['Tabela de Preços'],
+      [''],
+      ['SKU', 'Nome'],
+      ['A1', 'Caneta'],
+      ['', ''],
+      ['A2', 'Lápis']
+    ]);
+
+    const { data } = mergeSheets(workbook, ['Fornecedor'], 'fornecedor.xlsx');
+    expect(data.map(row => [row.SKU, row.__row_index, row.__row_number])).toEqual([
+      ['A1', 0, 4],
+      ['A2', 1, 6]
+    ]);
+    expect(data.map((row, index) => getSourceLine(row, index))).toEqual([4, 6]);
+    expect(getSourceLine({ __row_index: 3 }, 0)).toBe(5);
+    expect(getSourceLine(undefined, 7)).toBe(9);
+  });
+
+  it('joins two-row headers with merged group cells', () => {
+    const matrix = [
+      ['SKU', 'Nome', 'Dimensões', '', ''],
+      ['', '', 'Altura', 'Largura', 'Profundidade'],
+      ['A1', 'Caixa', '10', '20', '30']
+    ];
+    const merges = [
+      { s: { r: 0, c: 0 }, e: { r: 1, c: 0 } },
+      { s: { r: 0, c: 1 }, e: { r: 1, c: 1 } },
+      { s: { r: 0, c: 2 }, e: { r: 0, c: 4 } }
+    ];
+    expect(detectHeaderRow(matrix, merges)).toMatchObject({ headerRow: 0, headerRows: 2, hasMergedHeader: true });
+
+    const rows = sheetToRows(buildWorkbook(matrix, merges), 'Fornecedor');
+    expect(Object.keys(rows[0])).toEqual(['SKU', 'Nome', 'Dimensões Altura', 'Dimensões Largura', 'Dimensões Profundidade', '__row_number']);
+  });
+
+  it('names unlabeled data columns instead of inventing __EMPTY keys', () => {
+    const rows = sheetToRows(buildWorkbook([
+      ['SKU', 'Nome', ''],
+      ['A1', 'Caixa', 'obs']
+    ]), 'Fornecedor', { headerRow: 0, headerRows: 1 });
+    expect(Object.keys(rows[0])).toEqual(['SKU', 'Nome', 'Coluna C', '__row_number']);
+  });
+});
+
+describe('multi-sheet workbooks', () => {
+  const buildWorkbook = () => {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['SKU', 'Nome', 'Preço'],
+      ['F1', 'Furadeira', 199],
+      ['F2', 'Parafusadeira', 249]
+    ]), 'Ferramentas');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+      ['SKU', 'Nome', 'Voltagem'],
+      ['E1', 'Fio 2,5mm', '']
+    ]), 'Elétrica');
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([]), 'Vazia');
+    return workbook;
+  };
+
+  it('lists every sheet with its row count and columns', () => {
+    expect(summarizeSheets(buildWorkbook()).map(sheet => [sheet.name, sheet.rowCount, sheet.columns])).toEqual([
+      ['Ferramentas', 2, ['SKU', 'Nome', 'Preço']],
+      ['Elétrica', 1, ['SKU', 'Nome', 'Voltagem']],
+      ['Vazia', 0, []]
+    ]);
+  });
+
+  it('merges the selected sheets with the union of their columns, tagging each row', () => {
+    const { data, columns } = mergeSheets(buildWorkbook(), ['Ferramentas', 'Elétrica'], 'fornecedor.xlsx');
+
+    expect(columns).toEqual(['SKU', 'Nome', 'Preço', 'Voltagem']);
+    expect(data).toHaveLength(3);
+    expect(data[0]).toMatchObject({ SKU: 'F1', 'Preço': 199, Voltagem: '', __source_sheet: 'Ferramentas', __source_file: 'fornecedor.xlsx' });
+    expect(data[2]).toMatchObject({ SKU: 'E1', Nome: 'Fio 2,5mm', 'Preço': '', __source_sheet: 'Elétrica', __row_index: 0 });
+  });
+
+  it('keeps numeric cells as numbers, without losing barcode digits', () => {
+    const sheet = XLSX.utils.aoa_to_sheet([['GTIN', 'Nome', 'Preço'], [7891234567895, 'Caneta', 12.5]]);
+    const source = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(source, sheet, 'Produtos');
+    // Written and read back like an uploaded .xlsx, so the cells carry Excel's display text too
+    const workbook = XLSX.read(XLSX.write(source, { type: 'array', bookType: 'xlsx' }), { type: 'array' });
+
+    const [row] = sheetToRows(workbook, 'Produtos');
+    expect(row.GTIN).toBe(7891234567895);
+    expect(row['Preço']).toBe(12.5);
+  });
+
+  it('only merges the sheets that were selected', () => {
+    const { data, columns } = mergeSheets(buildWorkbook(), ['Elétrica', 'Inexistente']);
+
+    expect(columns).toEqual(['SKU', 'Nome', 'Voltagem']);
+    expect(data.map(row => row.__source_sheet)).toEqual(['Elétrica']);
+    expect(data[0].__source_file).toBeUndefined();
+  });
+});
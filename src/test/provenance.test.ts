@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  buildAuditSheet,
+  cellChangesToProvenance,
+  describeRow,
+  diffRowsProvenance,
+  groupProvenanceByRow
+} from '@/core/provenance';
+import { buildExportFile } from '@/core/dataProcessor';
+import type { ProductData } from '@/core/types';
+
+const columns = ['SKU', 'Nome', 'Marca'];
+const TIMESTAMP = '2026-01-05T10:00:00.000Z';
+
+describe('describeRow', () => {
+  it('prefers the imported file line, then the SKU, then the position', () => {
+    expect(describeRow({ SKU: 'A1', __source_file: 'fornecedor.xlsx', __row_index: 3 }, 0, columns)).toEqual({
+      rowKey: 'fornecedor.xlsx#3',
+      sku: 'A1',
+      location: 'fornecedor.xlsx › linha 5'
+    });
+    expect(describeRow({ SKU: 'A1' }, 0, columns).rowKey).toBe('sku:A1');
+    expect(describeRow({ Nome: 'Porca' }, 4, columns)).toEqual({ rowKey: '#4', location: 'linha 6' });
+  });
+});
+
+describe('diffRowsProvenance', () => {
+  it('logs each changed cell, matching rows when some were removed', () => {
+    const before: ProductData[] = [
+      { SKU: 'A1', Nome: 'paraf', Marca: '' },
+      { SKU: 'A2', Nome: 'Porca', Marca: 'X' },
+      { SKU: 'A3', Nome: 'Arruela', Marca: '' }
+    ];
+    const after: ProductData[] = [{ ...before[0], Marca: 'Tramontina' }, before[2]];
+
+    const log = diffRowsProvenance(before, after, columns, { source: 'manual', detail: 'Resolução de duplicados' }, TIMESTAMP);
+
+    expect(log).toEqual([
+      {
+        rowKey: 'sku:A1',
+        sku: 'A1',
+        location: 'linha 2',
+        column: 'Marca',
+        before: '',
+        after: 'Tramontina',
+        source: 'manual',
+        detail: 'Resolução de duplicados',
+        timestamp: TIMESTAMP
+      }
+    ]);
+  });
+
+  it('tells apart rows at the same line on different sheets of one workbook', () => {
+    const row = (sheet: string, index: number, nome: string): ProductData =>
+      ({ Nome: nome, __source_file: 'fornecedor.xlsx', __source_sheet: sheet, __row_index: index });
+    const before = [row('Ferragens', 0, 'paraf'), row('Ferragens', 1, 'porca'), row('Elétrica', 0, 'fio')];
+    const after = [{ ...before[0], Nome: 'Parafuso' }, { ...before[2], Nome: 'Fio' }];
+
+    expect(describeRow(before[2], 2, columns)).toEqual({
+      rowKey: 'fornecedor.xlsx/Elétrica#0',
+      location: 'fornecedor.xlsx › Elétrica › linha 2'
+    });
+
+    const log = diffRowsProvenance(before, after, columns, { source: 'manual', detail: 'Edição' }, TIMESTAMP);
+    expect(log.map(record => [record.rowKey, record.before, record.after])).toEqual([
+      ['fornecedor.xlsx/Ferragens#0', 'paraf', 'Parafuso'],
+      ['fornecedor.xlsx/Elétrica#0', 'fio', 'Fio']
+    ]);
+  });
+});
+
+describe('cellChangesToProvenance', () => {
+  it('keeps one record per step with the AI model and prompt version', () => {
+    const rows: ProductData[] = [{ SKU: 'A1', Nome: 'paraf sext' }];
+    const log = cellChangesToProvenance(
+      [
+        {
+          id: '0:Nome',
+          rowIndex: 0,
+          column: 'Nome',
+          before: 'paraf sext',
+          after: 'Parafuso Sextavado',
+          steps: [{ source: 'ai', rule: 'nome_padronizado', before: 'paraf sext', after: 'Parafuso Sextavado' }]
+        }
+      ],
+      rows,
+      columns,
+      { model: 'deepseek-chat', promptVersion: 'enriquecer-v1' },
+      TIMESTAMP
+    );
+
+    expect(buildAuditSheet(log)).toEqual([
+      {
+        'SKU': 'A1',
+        'Linha': 'linha 2',
+        'Coluna': 'Nome',
+        'Valor Anterior': 'paraf sext',
+        'Novo Valor': 'Parafuso Sextavado',
+        'Origem': 'IA',
+        'Detalhe': 'nome_padronizado',
+        'Modelo IA': 'deepseek-chat',
+        'Versão do Prompt': 'enriquecer-v1',
+        'Usuário': '',
+        'Data/Hora': TIMESTAMP
+      }
+    ]);
+    expect(groupProvenanceByRow(log).get('sku:A1')).toHaveLength(1);
+  });
+});
+
+describe('buildExportFile with an audit sheet', () => {
+  it('adds the extra sheets to XLSX exports', () => {
+    const { buffer } = buildExportFile([{ SKU: 'A1' }], 'xlsx', 'Produtos', [
+      { name: 'Auditoria', data: [{ Coluna: 'Nome' }] }
+    ]);
+
+    expect(XLSX.read(buffer, { type: 'array' }).SheetNames).toEqual(['Produtos', 'Auditoria']);
+  });
+});
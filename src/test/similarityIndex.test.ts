@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  tokenizeForSimilarity,
+  jaccardSimilarity,
+  chooseLshBands,
+  findSimilarPairs,
+  clusterSimilarPairs
+} from '@/core/similarityIndex';
+import { detectDuplicates } from '@/core/dataProcessor';
+import type { ColumnConfig } from '@/core/types';
+
+describe('tokenizeForSimilarity', () => {
+  it('folds accents and keeps short numbers', () => {
+    expect(tokenizeForSimilarity('Torneira Elétrica 220V 5 Litros')).toEqual(
+      ['torneira', 'eletrica', '220v', '5', 'litros']
+    );
+  });
+});
+
+describe('findSimilarPairs', () => {
+  it('finds near-duplicates and skips unrelated rows', () => {
+    const texts = [
+      'parafuso sextavado aco inox 10mm caixa com 100',
+      'caixa com 100 parafuso sextavado aco inox 10mm',
+      'parafuso sextavado aco inox 12mm caixa com 100',
+      'lampada led bulbo 9w branca fria'
+    ];
+    const tokens = texts.map(tokenizeForSimilarity);
+    const pairs = findSimilarPairs(tokens, 0.85);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]).toMatchObject({ a: 0, b: 1, similarity: 1 });
+  });
+
+  it('respects a lower threshold', () => {
+    const tokens = [
+      'parafuso sextavado aco inox 10mm caixa com 100',
+      'parafuso sextavado aco inox 12mm caixa com 100'
+    ].map(tokenizeForSimilarity);
+    const expected = jaccardSimilarity(tokens[0], tokens[1]);
+
+    expect(findSimilarPairs(tokens, 0.85)).toHaveLength(0);
+    expect(findSimilarPairs(tokens, 0.7)[0].similarity).toBeCloseTo(expected);
+  });
+
+  it('scales to large catalogs', () => {
+    const tokens = Array.from({ length: 5000 }, (_, i) =>
+      tokenizeForSimilarity(`produto modelo ${i} linha ${i % 7} cor ${i % 13}`)
+    );
+    tokens.push(tokenizeForSimilarity('produto modelo 42 linha 0 cor 3'));
+
+    const pairs = findSimilarPairs(tokens, 0.9);
+    expect(pairs).toContainEqual({ a: 42, b: 5000, similarity: 1 });
+  });
+});
+
+describe('chooseLshBands', () => {
+  it('uses more rows per band for stricter thresholds', () => {
+    expect(chooseLshBands(0.9).rows).toBeGreaterThan(chooseLshBands(0.5).rows);
+  });
+});
+
+describe('clusterSimilarPairs', () => {
+  it('merges chained pairs into one group', () => {
+    const clusters = clusterSimilarPairs([
+      { a: 4, b: 7, similarity: 0.9 },
+      { a: 7, b: 9, similarity: 0.9 },
+      { a: 1, b: 2, similarity: 1 }
+    ]);
+    expect(clusters).toEqual([[1, 2], [4, 7, 9]]);
+  });
+});
+
+describe('detectDuplicates', () => {
+  const columnConfig: Record<string, ColumnConfig> = {
+    Descrição: { action: 'analyze', defaultValue: '', isProtected: false }
+  };
+
+  it('groups descriptions after expanding abbreviations', () => {
+    const data = [
+      { Descrição: 'Parafuso sext inox com porca 10mm' },
+      { Descrição: 'Parafuso sextavado inox com porca 10mm' },
+      { Descrição: 'Lâmpada LED bulbo 9W' }
+    ];
+
+    const [group] = detectDuplicates(data, columnConfig, { abbreviations: { sext: 'sextavado' } });
+    expect(group).toMatchObject({ tipo: 'Descrição Similar', linhas: [0, 1] });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { composeProductText, getTemplateFields, parseTemplate, truncateByWord, validateTemplate } from '@/core/templateComposer';
+import type { ProductData } from '@/core/types';
+
+const row: ProductData = { Tipo: 'Furadeira', Marca: 'Bosch', Modelo: 'GSB 13 RE', Cor: '', Voltagem: '220V' };
+
+describe('parseTemplate', () => {
+  it('parses fields, optional sections and escapes', () => {
+    expect(parseTemplate('{Tipo}[ - {Cor}] \\{x\\}')).toEqual([
+      { kind: 'field', name: 'Tipo' },
+      { kind: 'optional', children: [{ kind: 'text', value: ' - ' }, { kind: 'field', name: 'Cor' }] },
+      { kind: 'text', value: ' {x}' }
+    ]);
+    expect(getTemplateFields('{Tipo} [{Marca} {Tipo}]')).toEqual(['Tipo', 'Marca']);
+  });
+
+  it('reports unbalanced braces and brackets', () => {
+    expect(validateTemplate('{Tipo')).toMatch(/sem fechamento/);
+    expect(validateTemplate('Tipo]')).toMatch(/sem abertura/);
+    expect(validateTemplate('[{Tipo}')).toMatch(/sem fechamento/);
+    expect(validateTemplate('{}')).toMatch(/vazio/);
+    expect(validateTemplate('{Tipo} {Marca}')).toBeNull();
+  });
+});
+
+describe('composeProductText', () => {
+  it('drops optional sections with empty fields and dangling separators', () => {
+    expect(composeProductText({ template: '{Tipo} {Marca} {Modelo}[ {Cor}][ - {Voltagem}]' }, row)).toBe(
+      'Furadeira Bosch GSB 13 RE - 220V'
+    );
+    expect(composeProductText({ template: '{Tipo} - {Cor}' }, row)).toBe('Furadeira');
+  });
+
+  it('looks up columns ignoring case and accents, falling back to enriched fields', () => {
+    const enriched = { nome_padronizado: 'Furadeira de Impacto', ncm_sugerido: { codigo: '8467.21.00' } };
+    expect(composeProductText({ template: '{nome_padronizado} | NCM {NCM} | {MARCA}' }, row, enriched)).toBe(
+      'Furadeira de Impacto | NCM 8467.21.00 | Bosch'
+    );
+    expect(composeProductText({ template: '{Descrição}' }, { Descricao: 'Compacta' })).toBe('Compacta');
+  });
+
+  it('truncates at a word boundary', () => {
+    expect(composeProductText({ template: '{Tipo} {Marca} {Modelo}', maxLength: 20 }, row)).toBe('Furadeira Bosch GSB');
+    expect(truncateByWord('Cabo flexível - preto', 16)).toBe('Cabo flexível');
+    expect(truncateByWord('Supercalifragilistico', 5)).toBe('Super');
+  });
+});
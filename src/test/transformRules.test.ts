@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { applyTransformRules, describeTransformRule, validateTransformRule } from '@/core/transformRules';
+import { processData } from '@/core/dataProcessor';
+import type { ColumnConfig, ProductData, TransformRule } from '@/core/types';
+
+const row: ProductData = { SKU: 'A1', Nome: '  PARAFUSO   SEXTAVADO de aço  ', Categoria: 'Ferramentas Manuais', Marca: 'Ciser', Preço: 10 };
+
+describe('applyTransformRules', () => {
+  it('runs text rules in order', () => {
+    const rules: TransformRule[] = [
+      { type: 'trim' },
+      { type: 'case', style: 'title' },
+      { type: 'regex_replace', pattern: 'aço', flags: 'gi', replacement: 'Aço Carbono' }
+    ];
+    expect(applyTransformRules(row.Nome, rules, row)).toBe('Parafuso Sextavado de Aço Carbono');
+  });
+
+  it('replaces whole words from a table, longest term first', () => {
+    const rule: TransformRule = { type: 'replace_table', entries: { inox: 'Inoxidável', 'aço inox': 'Aço Inoxidável 304' }, wholeWord: true };
+    expect(applyTransformRules('Pia aço inox e inoxidável', [rule], row)).toBe('Pia Aço Inoxidável 304 e inoxidável');
+  });
+
+  it('sets values conditionally and concatenates columns', () => {
+    const setUnit: TransformRule = { type: 'set_if', condition: { column: 'Categoria', operator: 'contains', value: 'ferramentas' }, value: 'UN' };
+    expect(applyTransformRules('', [setUnit], row)).toBe('UN');
+    expect(applyTransformRules('CX', [setUnit], { ...row, Categoria: 'Embalagens' })).toBe('CX');
+
+    const join: TransformRule = { type: 'concatenate', columns: ['Marca', 'SKU'], separator: ' - ', onlyEmpty: true };
+    expect(applyTransformRules('', [join], row)).toBe('Ciser - A1');
+    expect(applyTransformRules('Já preenchido', [join], row)).toBe('Já preenchido');
+  });
+
+  it('leaves numbers untouched by text rules', () => {
+    expect(applyTransformRules(10, [{ type: 'trim' }, { type: 'case', style: 'upper' }], row)).toBe(10);
+  });
+});
+
+describe('validateTransformRule', () => {
+  it('reports invalid expressions', () => {
+    expect(validateTransformRule({ type: 'regex_replace', pattern: '(', replacement: '' })).toMatch(/inválida/);
+    expect(validateTransformRule({ type: 'trim' })).toBeNull();
+    expect(describeTransformRule({ type: 'case', style: 'upper' })).toBe('Converter para MAIÚSCULAS');
+  });
+});
+
+describe('processData with transforms', () => {
+  it('counts transformed fields and never touches protected columns', () => {
+    const columnConfig: Record<string, ColumnConfig> = {
+      Nome: { action: 'ignore', defaultValue: '', isProtected: false, transforms: [{ type: 'trim' }] },
+      Unidade: {
+        action: 'ignore',
+        defaultValue: '',
+        isProtected: false,
+        transforms: [{ type: 'set_if', condition: { column: 'Categoria', operator: 'contains', value: 'Ferramentas' }, value: 'UN' }]
+      },
+      Preço: { action: 'ignore', defaultValue: '', isProtected: true, transforms: [{ type: 'concatenate', columns: ['SKU'], separator: '' }] }
+    };
+
+    const { enrichedData, stats } = processData([row], columnConfig, {});
+
+    expect(enrichedData[0]).toMatchObject({ Nome: 'PARAFUSO SEXTAVADO de aço', Unidade: 'UN', Preço: 10 });
+    expect(stats.transformacoesAplicadas).toBe(2);
+    expect(stats.camposProtegidos).toBe(1);
+  });
+
+  it('leaves empty analyzed columns to the AI instead of inventing values', () => {
+    const columnConfig: Record<string, ColumnConfig> = {
+      Nome: { action: 'analyze', defaultValue: '', isProtected: false },
+      Categoria: { action: 'analyze', defaultValue: '', isProtected: false },
+      Marca: { action: 'analyze', defaultValue: '', isProtected: false }
+    };
+
+    const { enrichedData, stats } = processData([{ SKU: 'A1', Nome: '', Categoria: '', Marca: '' }], columnConfig, {});
+
+    expect(enrichedData[0]).toEqual({ SKU: 'A1', Nome: '', Categoria: '', Marca: '' });
+    expect(stats.camposPreenchidos).toBe(0);
+  });
+});
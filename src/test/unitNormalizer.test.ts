@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  convertQuantity,
+  findUnitColumnTargets,
+  normalizeUnits,
+  normalizeUnitsInText,
+  normalizeUnitValue,
+  parseDecimal,
+  parseQuantity
+} from '@/core/unitNormalizer';
+import type { ProductData } from '@/core/types';
+
+describe('parseQuantity', () => {
+  it('reads Brazilian decimals and unit spellings', () => {
+    expect(parseDecimal('0,05')).toBe(0.05);
+    expect(parseDecimal('1.250,5')).toBe(1250.5);
+    expect(parseDecimal('2.000')).toBe(2000);
+    expect(parseDecimal('1.5')).toBe(1.5);
+
+    expect(parseQuantity('50mm')).toEqual({ value: 50, unit: 'mm', kind: 'length' });
+    expect(parseQuantity('2000 gr')).toEqual({ value: 2000, unit: 'g', kind: 'weight' });
+    expect(parseQuantity('1,5 litros')).toEqual({ value: 1.5, unit: 'L', kind: 'volume' });
+    expect(parseQuantity('3 Quilos')).toEqual({ value: 3, unit: 'kg', kind: 'weight' });
+    expect(parseQuantity('12', 'cm')).toEqual({ value: 12, unit: 'cm', kind: 'length' });
+    expect(parseQuantity('12 polegadas')).toBeNull();
+  });
+
+  it('converts within a kind only', () => {
+    expect(convertQuantity(0.05, 'm', 'cm')).toBeCloseTo(5);
+    expect(convertQuantity(2000, 'g', 'kg')).toBe(2);
+    expect(() => convertQuantity(1, 'kg', 'cm')).toThrow(/converter/);
+  });
+});
+
+describe('normalizeUnitValue', () => {
+  it('converts column values and flags what cannot be trusted', () => {
+    const weight = { kind: 'weight' as const, unit: 'kg' };
+    expect(normalizeUnitValue('2000 g', weight)).toEqual({ value: 2 });
+    expect(normalizeUnitValue('0,5', weight)).toEqual({ value: 0.5 });
+    expect(normalizeUnitValue(3000, weight)).toEqual({ value: 3000, issue: 'implausible' });
+    expect(normalizeUnitValue('5 cm', weight)).toEqual({ value: '5 cm', issue: 'unit_mismatch' });
+    expect(normalizeUnitValue('aprox. 2', weight)).toEqual({ value: 'aprox. 2', issue: 'unparsed' });
+    expect(normalizeUnitValue('', weight)).toEqual({ value: '' });
+  });
+});
+
+describe('normalizeUnitsInText', () => {
+  it('rewrites quantities in one notation, leaving sizes alone', () => {
+    expect(normalizeUnitsInText('Parafuso 6,3 X 50 MM').text).toBe('Parafuso 6,3x50mm');
+    expect(normalizeUnitsInText('Chapa 10 x 20 cm e Balde 5 Lts').text).toBe('Chapa 10x20cm e Balde 5L');
+    expect(normalizeUnitsInText('Camiseta Tam 2 M').text).toBe('Camiseta Tam 2 M');
+  });
+
+  it('converts to the chosen units and reports implausible values', () => {
+    expect(normalizeUnitsInText('Trena 0,05m', { length: 'cm' }).text).toBe('Trena 5cm');
+    expect(normalizeUnitsInText('Chave de Fenda 3 ton').implausible).toEqual(['3 ton']);
+  });
+});
+
+describe('normalizeUnits', () => {
+  it('normalizes preset columns and text columns, listing changes and issues', () => {
+    const data: ProductData[] = [
+      { Nome: 'Cabo 10 mts', Peso: '500 g', Largura: '0,05m' },
+      { Nome: 'Martelo', Peso: 3000, Largura: 12 }
+    ];
+    const columnTargets = findUnitColumnTargets(['Nome', 'PESO', 'Largura']);
+    expect(columnTargets).toEqual({ PESO: { kind: 'weight', unit: 'kg' }, Largura: { kind: 'length', unit: 'cm' } });
+
+    const result = normalizeUnits(data, {
+      columnTargets: { Peso: columnTargets.PESO, Largura: columnTargets.Largura },
+      textColumns: ['Nome']
+    });
+
+    expect(result.data[0]).toEqual({ Nome: 'Cabo 10m', Peso: 0.5, Largura: 5 });
+    expect(result.changes).toHaveLength(3);
+    expect(result.issues).toEqual([{ rowIndex: 1, column: 'Peso', value: '3000', type: 'implausible' }]);
+  });
+});
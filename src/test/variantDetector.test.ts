@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PARENT_SKU_COLUMN,
+  extractVariantAttributes,
+  suggestParentSku,
+  detectVariantGroups,
+  joinVariantGroups,
+  buildVariantRows
+} from '@/core/variantDetector';
+import type { ProductData } from '@/core/types';
+
+const columns = ['SKU', 'Nome', 'Marca', 'Preço'];
+
+const data: ProductData[] = [
+  { SKU: 'CAM-001-P', Nome: 'Camiseta Básica Algodão Preta P', Marca: 'Hering', Preço: 39.9 },
+  { SKU: 'CAM-001-M', Nome: 'Camiseta Básica Algodão Preta M', Marca: 'Hering', Preço: 39.9 },
+  { SKU: 'CAM-001-G', Nome: 'Camiseta Básica Algodão Branca G', Marca: 'Hering', Preço: 42.9 },
+  { SKU: 'LIQ-220', Nome: 'Liquidificador Turbo 600W 220V', Marca: 'Arno', Preço: 199 },
+  { SKU: 'MAN-10', Nome: 'Mangueira Jardim 10 m', Marca: 'Tramontina', Preço: 59 }
+];
+
+describe('extractVariantAttributes', () => {
+  it('separates color and size from the base name', () => {
+    expect(extractVariantAttributes('Camiseta Básica - Azul Marinho - GG')).toEqual({
+      baseName: 'Camiseta Básica',
+      attributes: { Cor: 'Azul Marinho', Tamanho: 'GG' }
+    });
+  });
+
+  it('reads labeled sizes and voltages', () => {
+    expect(extractVariantAttributes('Tênis Corrida Nº 42 Preto')).toMatchObject({
+      attributes: { Tamanho: '42', Cor: 'Preto' }
+    });
+    expect(extractVariantAttributes('Furadeira Impacto 220 V').attributes).toEqual({ Voltagem: '220 V' });
+  });
+
+  it('ignores lowercase units and the leading product word', () => {
+    expect(extractVariantAttributes('Mangueira Jardim 10 m').attributes).toEqual({});
+    expect(extractVariantAttributes('Rosa do Deserto').attributes).toEqual({});
+  });
+
+  it('uses values from attribute columns', () => {
+    expect(extractVariantAttributes('Caneca Petróleo Fosco', { Cor: 'Petróleo Fosco' })).toEqual({
+      baseName: 'Caneca',
+      attributes: { Cor: 'Petróleo Fosco' }
+    });
+  });
+});
+
+describe('suggestParentSku', () => {
+  it('uses the common prefix or falls back to a suffix', () => {
+    expect(suggestParentSku(['CAM-001-P', 'CAM-001-M'])).toBe('CAM-001');
+    expect(suggestParentSku(['A1', 'B2'])).toBe('A1-PAI');
+  });
+});
+
+describe('detectVariantGroups', () => {
+  it('groups rows that differ only by variation values', () => {
+    const groups = detectVariantGroups(data, columns);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0]).toMatchObject({
+      parentName: 'Camiseta Básica Algodão',
+      parentSku: 'CAM-001',
+      axes: ['Cor', 'Tamanho']
+    });
+    expect(groups[0].children.map(child => child.rowIndex)).toEqual([0, 1, 2]);
+  });
+
+  it('leaves exact repeats to the duplicate step', () => {
+    expect(detectVariantGroups([data[0], { ...data[0] }], columns)).toEqual([]);
+  });
+});
+
+describe('buildVariantRows', () => {
+  it('emits the parent before its variations in Bling layout', () => {
+    const groups = detectVariantGroups(data, columns);
+    const result = buildVariantRows(data, columns, groups);
+
+    expect(result.columns).toEqual([...columns, PARENT_SKU_COLUMN]);
+    expect(result.data).toHaveLength(6);
+    expect(result.data[0]).toMatchObject({
+      SKU: 'CAM-001',
+      Nome: 'Camiseta Básica Algodão',
+      Marca: 'Hering',
+      Preço: '',
+      [PARENT_SKU_COLUMN]: ''
+    });
+    expect(result.data[1]).toMatchObject({
+      SKU: 'CAM-001-P',
+      Nome: 'Camiseta Básica Algodão Cor:Preta;Tamanho:P',
+      [PARENT_SKU_COLUMN]: 'CAM-001'
+    });
+    expect(result.data[4]).toMatchObject({ SKU: 'LIQ-220', [PARENT_SKU_COLUMN]: '' });
+  });
+
+  it('keeps the first parent when groups are joined', () => {
+    const [group] = detectVariantGroups(data, columns);
+    const first = { ...group, children: group.children.slice(0, 2) };
+    const second = { ...group, parentName: 'Outro', children: group.children.slice(2) };
+
+    const joined = joinVariantGroups([second, first]);
+    expect(joined.parentName).toBe('Outro');
+    expect(joined.children.map(child => child.rowIndex)).toEqual([0, 1, 2]);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createWorkerPool, isTaskCancelled } from '@/workers/workerPool';
+import type { ColumnConfig } from '@/core';
+
+const columnConfig: Record<string, ColumnConfig> = {
+  SKU: { action: 'analyze', defaultValue: '', isProtected: false },
+  Nome: { action: 'analyze', defaultValue: '', isProtected: false },
+};
+
+describe('createWorkerPool', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('runs tasks inline when Worker is unavailable', async () => {
+    const pool = createWorkerPool(1);
+    const stages: string[] = [];
+
+    const duplicates = await pool.run(
+      'detectDuplicates',
+      {
+        data: [
+          { SKU: 'A1', Nome: 'Parafuso' },
+          { SKU: 'A1', Nome: 'Porca' },
+        ],
+        columnConfig,
+      },
+      { onProgress: progress => stages.push(progress.stage) }
+    );
+
+    expect(duplicates.some(d => d.tipo === 'SKU Duplicado' && d.valor === 'A1')).toBe(true);
+    expect(stages).toContain('Detectando duplicidades');
+  });
+
+  it('falls back to inline when a worker cannot be created', async () => {
+    vi.stubGlobal('Worker', class {
+      constructor() {
+        throw new Error('Module workers not supported');
+      }
+    });
+    const pool = createWorkerPool(1);
+
+    const duplicates = await pool.run('detectDuplicates', {
+      data: [
+        { SKU: 'A1', Nome: 'Parafuso' },
+        { SKU: 'A1', Nome: 'Porca' },
+      ],
+      columnConfig,
+    });
+
+    expect(duplicates.some(d => d.tipo === 'SKU Duplicado')).toBe(true);
+  });
+
+  it('builds export buffers without internal columns', async () => {
+    const pool = createWorkerPool(1);
+    const { buffer, mimeType } = await pool.run('buildExport', {
+      data: [{ SKU: 'A1', __source_file: 'a.csv' }],
+      format: 'json',
+    });
+
+    expect(mimeType).toContain('json');
+    expect(JSON.parse(new TextDecoder().decode(buffer))).toEqual([{ SKU: 'A1' }]);
+  });
+
+  it('rejects tasks whose signal is already aborted', async () => {
+    const pool = createWorkerPool(1);
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await pool
+      .run('detectDuplicates', { data: [], columnConfig }, { signal: controller.signal })
+      .catch(err => err);
+
+    expect(isTaskCancelled(error)).toBe(true);
+  });
+});
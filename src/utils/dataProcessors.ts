@@ -1,11 +1,13 @@
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
 import { getAbbreviations } from '@/config';
+import type { TransformRule } from '@/core/types';
 
 export interface ColumnConfig {
   action: 'ignore' | 'analyze' | 'default_all' | 'default_empty';
   defaultValue: string;
   isProtected: boolean;
+  transforms?: TransformRule[];
 }
 
 export interface DuplicateResult {
@@ -0,0 +1,206 @@
+// =====================================================
+// ULTRACLEAN - Data Tasks (shared by worker and inline fallback)
+// =====================================================
+
+import {
+  readWorkbook,
+  parseWorkbook,
+  isCsvFile,
+  sniffCsvFile,
+  detectDuplicates,
+  detectVariantGroups,
+  extractAttributesFromData,
+  normalizeUnits,
+  processData,
+  findAbbreviationCorrections,
+  mineAbbreviations,
+  buildExportFile,
+  type AbbreviationCorrection,
+  type AbbreviationMiningOptions,
+  type AbbreviationSuggestion,
+  type AttributeExtraction,
+  type ColumnConfig,
+  type CsvDetectionResult,
+  type CsvImportOptions,
+  type DuplicateDetectionOptions,
+  type DuplicateResult,
+  type ExportFormat,
+  type HeaderSelection,
+  type ParsedWorkbook,
+  type ProcessDataOptions,
+  type ProcessingResult,
+  type ProductData,
+  type UnitNormalizationOptions,
+  type UnitNormalizationResult,
+  type VariantGroup
+} from '@/core';
+import type { AbbreviationScopeRule } from '@/config';
+
+export interface TaskProgress {
+  stage: string;
+  processed: number;
+  total: number;
+}
+
+export interface DataTaskMap {
+  parseFile: {
+    payload: {
+      file: File;
+      csvOptions?: CsvImportOptions;
+      csvDetection?: CsvDetectionResult | null;
+      headers?: Record<string, HeaderSelection>;
+    };
+    result: ParsedWorkbook & {
+      csvDetection: CsvDetectionResult | null;
+      csvOptions: CsvImportOptions | null;
+    };
+  };
+  detectDuplicates: {
+    payload: {
+      data: ProductData[];
+      columnConfig: Record<string, ColumnConfig>;
+      options?: DuplicateDetectionOptions;
+    };
+    result: DuplicateResult[];
+  };
+  detectVariants: {
+    payload: { data: ProductData[]; columns: string[] };
+    result: VariantGroup[];
+  };
+  extractAttributes: {
+    payload: { data: ProductData[]; sourceColumn: string };
+    result: AttributeExtraction[];
+  };
+  normalizeUnits: {
+    payload: { data: ProductData[]; options: UnitNormalizationOptions };
+    result: UnitNormalizationResult;
+  };
+  processData: {
+    payload: {
+      data: ProductData[];
+      columnConfig: Record<string, ColumnConfig>;
+      abbreviations: Record<string, string>;
+      options?: ProcessDataOptions;
+    };
+    result: ProcessingResult;
+  };
+  findAbbreviations: {
+    payload: {
+      data: ProductData[];
+      columns: string[];
+      abbreviations: Record<string, string>;
+      scopes?: Record<string, AbbreviationScopeRule>;
+    };
+    result: AbbreviationCorrection[];
+  };
+  mineAbbreviations: {
+    payload: { data: ProductData[]; columns: string[]; options?: AbbreviationMiningOptions };
+    result: AbbreviationSuggestion[];
+  };
+  buildExport: {
+    payload: {
+      data: Record<string, unknown>[];
+      format: ExportFormat;
+      sheetName?: string;
+      extraSheets?: Array<{ name: string; data: Record<string, unknown>[] }>;
+    };
+    result: { buffer: ArrayBuffer; mimeType: string };
+  };
+}
+
+export type DataTaskType = keyof DataTaskMap;
+export type DataTaskPayload<T extends DataTaskType> = DataTaskMap[T]['payload'];
+export type DataTaskResult<T extends DataTaskType> = DataTaskMap[T]['result'];
+
+export type ReportProgress = (progress: TaskProgress) => void;
+
+type TaskHandler<T extends DataTaskType> = (
+  payload: DataTaskPayload<T>,
+  report: ReportProgress
+) => Promise<DataTaskResult<T>> | DataTaskResult<T>;
+
+const handlers: { [T in DataTaskType]: TaskHandler<T> } = {
+  parseFile: async ({ file, csvOptions, csvDetection, headers }, report) => {
+    report({ stage: 'Lendo arquivo', processed: 0, total: 1 });
+
+    let detection: CsvDetectionResult | null = null;
+    let options: CsvImportOptions | null = null;
+    if (isCsvFile(file)) {
+      detection = csvDetection ?? await sniffCsvFile(file);
+      const { encoding, delimiter, quoteChar, decimalSeparator, thousandsSeparator } = detection;
+      options = csvOptions ?? { encoding, delimiter, quoteChar, decimalSeparator, thousandsSeparator };
+    }
+
+    const workbook = await readWorkbook(file, options ?? undefined);
+    const parsed = parseWorkbook(workbook, headers, 5, (processed, total) =>
+      report({ stage: 'Lendo abas', processed, total })
+    );
+
+    return { ...parsed, csvDetection: detection, csvOptions: options };
+  },
+
+  detectDuplicates: ({ data, columnConfig, options }, report) =>
+    detectDuplicates(data, columnConfig, options, (processed, total) =>
+      report({ stage: 'Detectando duplicidades', processed, total })
+    ),
+
+  detectVariants: ({ data, columns }, report) =>
+    detectVariantGroups(data, columns, undefined, (processed, total) =>
+      report({ stage: 'Agrupando variações', processed, total })
+    ),
+
+  extractAttributes: ({ data, sourceColumn }, report) =>
+    extractAttributesFromData(data, sourceColumn, (processed, total) =>
+      report({ stage: 'Extraindo atributos', processed, total })
+    ),
+
+  normalizeUnits: ({ data, options }, report) =>
+    normalizeUnits(data, options, (processed, total) =>
+      report({ stage: 'Normalizando unidades', processed, total })
+    ),
+
+  processData: ({ data, columnConfig, abbreviations, options }, report) =>
+    processData(
+      data,
+      columnConfig,
+      abbreviations,
+      (processed, total) => report({ stage: 'Processando dados', processed, total }),
+      options
+    ),
+
+  findAbbreviations: ({ data, columns, abbreviations, scopes }, report) =>
+    findAbbreviationCorrections(
+      data,
+      columns,
+      abbreviations,
+      (processed, total) => report({ stage: 'Expandindo abreviações', processed, total }),
+      scopes
+    ),
+
+  mineAbbreviations: ({ data, columns, options }, report) =>
+    mineAbbreviations(data, columns, options, (processed, total) =>
+      report({ stage: 'Procurando abreviações', processed, total })
+    ),
+
+  buildExport: ({ data, format, sheetName, extraSheets }, report) => {
+    report({ stage: 'Gerando arquivo', processed: 0, total: 1 });
+    const file = buildExportFile(data, format, sheetName, extraSheets);
+    report({ stage: 'Gerando arquivo', processed: 1, total: 1 });
+    return file;
+  }
+};
+
+/**
+ * Run a data task in the current thread
+ */
+export const runDataTask = async <T extends DataTaskType>(
+  type: T,
+  payload: DataTaskPayload<T>,
+  report: ReportProgress = () => {}
+): Promise<DataTaskResult<T>> => {
+  const handler = handlers[type] as TaskHandler<T>;
+  if (!handler) {
+    throw new Error(`Tarefa desconhecida: ${type}`);
+  }
+  return handler(payload, report);
+};
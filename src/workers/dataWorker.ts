@@ -0,0 +1,43 @@
+// =====================================================
+// ULTRACLEAN - Data Worker
+// =====================================================
+
+import { runDataTask, type DataTaskType, type TaskProgress } from './dataTasks';
+
+export type WorkerRequest = {
+  id: number;
+  type: DataTaskType;
+  payload: unknown;
+};
+
+export type WorkerResponse =
+  | { id: number; kind: 'progress'; progress: TaskProgress }
+  | { id: number; kind: 'result'; result: unknown }
+  | { id: number; kind: 'error'; message: string };
+
+// Keep the main thread responsive: at most one progress message per interval
+const PROGRESS_THROTTLE_MS = 100;
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const { id, type, payload } = event.data;
+  let lastReport = 0;
+
+  const post = (message: WorkerResponse, transfer: Transferable[] = []) => {
+    self.postMessage(message, { transfer });
+  };
+
+  try {
+    const result = await runDataTask(type, payload as never, progress => {
+      const now = Date.now();
+      if (now - lastReport < PROGRESS_THROTTLE_MS && progress.processed < progress.total) return;
+      lastReport = now;
+      post({ id, kind: 'progress', progress });
+    });
+
+    // Export buffers are moved instead of copied
+    const buffer = (result as { buffer?: unknown })?.buffer;
+    post({ id, kind: 'result', result }, buffer instanceof ArrayBuffer ? [buffer] : []);
+  } catch (error) {
+    post({ id, kind: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,228 @@
+// =====================================================
+// ULTRACLEAN - Worker Pool
+// =====================================================
+
+import {
+  runDataTask,
+  type DataTaskPayload,
+  type DataTaskResult,
+  type DataTaskType,
+  type TaskProgress
+} from './dataTasks';
+import type { WorkerRequest, WorkerResponse } from './dataWorker';
+
+export interface RunTaskOptions {
+  onProgress?: (progress: TaskProgress) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingTask {
+  id: number;
+  type: DataTaskType;
+  payload: unknown;
+  options: RunTaskOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerSlot {
+  worker: Worker;
+  task: PendingTask | null;
+}
+
+const MAX_WORKERS = 4;
+
+/**
+ * Error raised when a task is cancelled through its AbortSignal
+ */
+const cancelledError = (): Error => {
+  const error = new Error('Operação cancelada');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * Check whether an error comes from a cancelled task
+ */
+export const isTaskCancelled = (error: unknown): boolean => {
+  return error instanceof Error && error.name === 'AbortError';
+};
+
+const defaultPoolSize = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_WORKERS, cores - 1));
+};
+
+const spawnWorker = (): Worker =>
+  new Worker(new URL('./dataWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Create a pool of data workers.
+ * Tasks queue until a worker is free; cancelling a running task terminates
+ * its worker and spawns a fresh one. Without Worker support (tests, old
+ * browsers) or after a worker fails to load, tasks run inline.
+ */
+export const createWorkerPool = (size: number = defaultPoolSize()) => {
+  const slots: WorkerSlot[] = [];
+  const queue: PendingTask[] = [];
+  let nextId = 1;
+  let inline = typeof Worker === 'undefined';
+
+  const runInline = (task: PendingTask) => {
+    const { signal, onProgress } = task.options;
+    runDataTask(task.type, task.payload as never, progress => {
+      // Inline tasks can only stop between progress reports
+      if (signal?.aborted) throw cancelledError();
+      onProgress?.(progress);
+    })
+      .then(task.resolve)
+      .catch(error => task.reject(signal?.aborted ? cancelledError() : error));
+  };
+
+  const dispatch = () => {
+    while (queue.length > 0) {
+      if (inline) {
+        runInline(queue.shift()!);
+        continue;
+      }
+
+      const slot = slots.find(s => !s.task) ?? (slots.length < size ? createSlot() : null);
+      if (!slot) {
+        // The worker could not be created: run this task (and the rest) inline
+        if (inline) continue;
+        return;
+      }
+
+      const task = queue.shift()!;
+      slot.task = task;
+      const request: WorkerRequest = { id: task.id, type: task.type, payload: task.payload };
+      slot.worker.postMessage(request);
+    }
+  };
+
+  const finish = (slot: WorkerSlot) => {
+    slot.task = null;
+    dispatch();
+  };
+
+  const replace = (slot: WorkerSlot) => {
+    slot.worker.terminate();
+    const index = slots.indexOf(slot);
+    if (index >= 0) slots.splice(index, 1);
+  };
+
+  function createSlot(): WorkerSlot | null {
+    let worker: Worker;
+    try {
+      worker = spawnWorker();
+    } catch {
+      inline = true;
+      return null;
+    }
+
+    const slot: WorkerSlot = { worker, task: null };
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      const task = slot.task;
+      if (!task || task.id !== message.id) return;
+
+      if (message.kind === 'progress') {
+        task.options.onProgress?.(message.progress);
+      } else if (message.kind === 'result') {
+        finish(slot);
+        task.resolve(message.result);
+      } else {
+        finish(slot);
+        task.reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = event => {
+      // The worker script itself failed (e.g. unsupported module workers)
+      event.preventDefault();
+      const task = slot.task;
+      replace(slot);
+      inline = true;
+      if (task) {
+        queue.unshift(task);
+      }
+      dispatch();
+    };
+
+    slots.push(slot);
+    return slot;
+  }
+
+  const cancel = (task: PendingTask) => {
+    const queued = queue.indexOf(task);
+    if (queued >= 0) {
+      queue.splice(queued, 1);
+      task.reject(cancelledError());
+      return;
+    }
+
+    const slot = slots.find(s => s.task === task);
+    if (slot) {
+      replace(slot);
+      task.reject(cancelledError());
+      dispatch();
+    }
+  };
+
+  /**
+   * Run a task on the pool, resolving with its result
+   */
+  const run = <T extends DataTaskType>(
+    type: T,
+    payload: DataTaskPayload<T>,
+    options: RunTaskOptions = {}
+  ): Promise<DataTaskResult<T>> => {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(cancelledError());
+        return;
+      }
+
+      const task: PendingTask = {
+        id: nextId++,
+        type,
+        payload,
+        options,
+        resolve: resolve as (result: unknown) => void,
+        reject
+      };
+
+      options.signal?.addEventListener('abort', () => cancel(task), { once: true });
+      queue.push(task);
+      dispatch();
+    });
+  };
+
+  /**
+   * Stop every worker and reject pending tasks
+   */
+  const terminate = () => {
+    queue.splice(0).forEach(task => task.reject(cancelledError()));
+    slots.splice(0).forEach(slot => {
+      slot.worker.terminate();
+      slot.task?.reject(cancelledError());
+    });
+  };
+
+  return { run, terminate, size };
+};
+
+export type WorkerPool = ReturnType<typeof createWorkerPool>;
+
+let sharedPool: WorkerPool | null = null;
+
+/**
+ * Pool shared by the whole app, created on first use
+ */
+export const getDataWorkerPool = (): WorkerPool => {
+  if (!sharedPool) {
+    sharedPool = createWorkerPool();
+  }
+  return sharedPool;
+};
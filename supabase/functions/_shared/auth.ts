@@ -0,0 +1,20 @@
+// Quem chamou a edge function, a partir do header Authorization.
+// O user_id enviado no corpo não prova nada: só chamadas internas com a chave de serviço
+// (ex.: o worker enriquecer-lote) podem agir em nome de outro usuário.
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+
+export interface Chamador {
+  // Chamada interna com a chave de serviço
+  servico: boolean;
+  // Usuário do token de login; null com a chave anônima ou token inválido
+  userId: string | null;
+}
+
+export const identificarChamador = async (supabase: SupabaseClient, req: Request): Promise<Chamador> => {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  if (!token) return { servico: false, userId: null };
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) return { servico: true, userId: null };
+
+  const { data, error } = await supabase.auth.getUser(token);
+  return { servico: false, userId: error ? null : data.user?.id ?? null };
+};
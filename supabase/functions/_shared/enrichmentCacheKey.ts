@@ -0,0 +1,48 @@
+// =====================================================
+// ULTRACLEAN - Enrichment Cache Key
+// =====================================================
+// Lives with the edge functions so the Deno bundler ships it; the frontend
+// re-exports it from src/core. Must stay free of imports.
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const normalize = (value: unknown): unknown => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'string') return collapse(value) || undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .map(([key, item]) => [collapse(key), normalize(item)] as const)
+      .filter(([key, item]) => key !== '' && item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+  }
+  return String(value);
+};
+
+/**
+ * Canonical JSON of what the AI sees for a product: keys sorted, whitespace
+ * collapsed, empty values dropped and numbers as text, so column order, stray
+ * spaces or a price read as 10 instead of "10" don't change the key
+ */
+export const normalizeEnrichmentInput = (input: Record<string, unknown>): string =>
+  JSON.stringify(normalize(input) ?? {});
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * SHA-256 (hex) of the normalized input
+ */
+export const hashEnrichmentInput = (input: Record<string, unknown>): Promise<string> =>
+  sha256(normalizeEnrichmentInput(input));
+
+/**
+ * Prompt version taken from the prompt text itself (e.g. "enriquecer-3f9a1c0b7e2d"),
+ * so editing the prompt always changes the version and the cache key
+ */
+export const derivePromptVersion = async (name: string, prompt: string): Promise<string> =>
+  `${name}-${(await sha256(prompt)).slice(0, 12)}`;
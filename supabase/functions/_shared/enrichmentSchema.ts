@@ -0,0 +1,229 @@
+// =====================================================
+// ULTRACLEAN - Enrichment Response Schema
+// =====================================================
+// Lives with the edge functions so the Deno bundler ships it; the frontend
+// re-exports it from src/core. Must stay free of imports.
+
+export type NcmConfidence = 'alta' | 'media' | 'baixa';
+
+export type ProductOrigin = 'Nacional' | 'Importado' | '';
+
+export interface EnrichmentNcm {
+  codigo: string;
+  descricao: string;
+  confianca: NcmConfidence;
+  observacao: string;
+}
+
+export interface EnrichmentResponse {
+  nome_padronizado: string;
+  descricao_enriquecida: string;
+  categoria_inferida: string;
+  marca_inferida: string;
+  origem_inferida: ProductOrigin;
+  ncm_sugerido: EnrichmentNcm;
+  status_inferencia: {
+    necessita_revisao: boolean;
+    razao: string;
+  };
+}
+
+// 'coerced': reformatted without losing meaning ("84672100" → "8467.21.00");
+// 'invalid': missing or unusable, replaced by an empty value
+export type EnrichmentIssueSeverity = 'coerced' | 'invalid';
+
+export interface EnrichmentIssue {
+  field: string;
+  severity: EnrichmentIssueSeverity;
+  message: string;
+}
+
+export interface EnrichmentValidation {
+  value: EnrichmentResponse;
+  issues: EnrichmentIssue[];
+  // No invalid fields (coerced ones are fine)
+  valid: boolean;
+}
+
+const INVALID_OUTPUT_REASON = 'Resposta inválida da IA';
+
+const ORIGINS: Record<string, ProductOrigin> = {
+  nacional: 'Nacional',
+  brasil: 'Nacional',
+  brasileiro: 'Nacional',
+  brasileira: 'Nacional',
+  importado: 'Importado',
+  importada: 'Importado',
+  estrangeiro: 'Importado',
+  estrangeira: 'Importado'
+};
+
+const CONFIDENCES: NcmConfidence[] = ['alta', 'media', 'baixa'];
+
+const fold = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .trim()
+    .toLowerCase();
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * NCM code as XXXX.XX.XX; '' when empty, null when it is not 8 digits
+ * (placeholders such as "8205.XX.XX" included)
+ */
+export const formatNcmCode = (value: unknown): string | null => {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim();
+  if (!text) return '';
+  if (!/^[\d.\s-]+$/.test(text)) return null;
+  const digits = text.replace(/\D/g, '');
+  if (digits.length !== 8) return null;
+  return `${digits.slice(0, 4)}.${digits.slice(4, 6)}.${digits.slice(6)}`;
+};
+
+/**
+ * "Nacional", "Importado" or '' from the spellings the model tends to use; null if unknown
+ */
+export const normalizeOrigin = (value: unknown): ProductOrigin | null => {
+  if (value === null || value === undefined) return '';
+  if (typeof value !== 'string') return null;
+  const folded = fold(value);
+  if (!folded) return '';
+  return ORIGINS[folded] ?? ORIGINS[folded.split(/[\s(/-]/)[0]] ?? null;
+};
+
+/**
+ * One line per field, for review reasons and for asking the model to fix its answer
+ */
+export const describeEnrichmentIssues = (issues: EnrichmentIssue[]): string =>
+  issues.map(issue => `${issue.field} ${issue.message}`).join('; ');
+
+/**
+ * Check an enrichment response field by field. Values in the wrong format are
+ * coerced; missing or unusable ones become empty and send the product to review
+ * with a reason saying the AI output was invalid.
+ */
+export const validateEnrichmentResponse = (raw: unknown): EnrichmentValidation => {
+  if (!isRecord(raw)) {
+    const issue: EnrichmentIssue = { field: 'resposta', severity: 'invalid', message: 'não é um objeto JSON' };
+    return {
+      value: {
+        nome_padronizado: '',
+        descricao_enriquecida: '',
+        categoria_inferida: '',
+        marca_inferida: '',
+        origem_inferida: '',
+        ncm_sugerido: { codigo: '', descricao: '', confianca: 'baixa', observacao: '' },
+        status_inferencia: { necessita_revisao: true, razao: `${INVALID_OUTPUT_REASON}: ${describeEnrichmentIssues([issue])}` }
+      },
+      issues: [issue],
+      valid: false
+    };
+  }
+
+  const issues: EnrichmentIssue[] = [];
+
+  const readString = (record: Record<string, unknown>, key: string, field = key): string => {
+    const value = record[key];
+    if (typeof value === 'string') return value.trim();
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      issues.push({ field, severity: 'coerced', message: 'convertido para texto' });
+      return String(value);
+    }
+    issues.push({ field, severity: 'invalid', message: value === undefined ? 'ausente' : 'não é texto' });
+    return '';
+  };
+
+  const rawOrigin = raw.origem_inferida;
+  const origin = rawOrigin === undefined ? null : normalizeOrigin(rawOrigin);
+  if (origin === null) {
+    issues.push({
+      field: 'origem_inferida',
+      severity: 'invalid',
+      message: rawOrigin === undefined ? 'ausente' : `"${String(rawOrigin)}" não é Nacional, Importado ou vazio`
+    });
+  } else if (origin !== rawOrigin) {
+    issues.push({ field: 'origem_inferida', severity: 'coerced', message: `"${String(rawOrigin)}" → "${origin}"` });
+  }
+
+  const ncmSource = isRecord(raw.ncm_sugerido) ? raw.ncm_sugerido : {};
+  if (!isRecord(raw.ncm_sugerido)) {
+    issues.push({ field: 'ncm_sugerido', severity: 'invalid', message: 'ausente' });
+  }
+  const ncmCode = formatNcmCode(ncmSource.codigo);
+  if (ncmCode === null) {
+    issues.push({ field: 'ncm_sugerido.codigo', severity: 'invalid', message: `"${String(ncmSource.codigo)}" não tem 8 dígitos` });
+  } else if (ncmCode !== (ncmSource.codigo ?? '')) {
+    issues.push({ field: 'ncm_sugerido.codigo', severity: 'coerced', message: `"${String(ncmSource.codigo)}" → "${ncmCode}"` });
+  }
+  const confidence = typeof ncmSource.confianca === 'string'
+    ? CONFIDENCES.find(c => c === fold(ncmSource.confianca as string))
+    : undefined;
+  if (!confidence && isRecord(raw.ncm_sugerido)) {
+    issues.push({ field: 'ncm_sugerido.confianca', severity: 'coerced', message: 'considerada baixa' });
+  }
+
+  const statusSource = isRecord(raw.status_inferencia) ? raw.status_inferencia : {};
+  let needsReview = true;
+  if (typeof statusSource.necessita_revisao === 'boolean') {
+    needsReview = statusSource.necessita_revisao;
+  } else if (typeof statusSource.necessita_revisao === 'string' && ['true', 'false', 'sim', 'nao'].includes(fold(statusSource.necessita_revisao))) {
+    needsReview = ['true', 'sim'].includes(fold(statusSource.necessita_revisao));
+    issues.push({ field: 'status_inferencia.necessita_revisao', severity: 'coerced', message: 'convertido para booleano' });
+  } else {
+    issues.push({ field: 'status_inferencia.necessita_revisao', severity: 'invalid', message: 'ausente' });
+  }
+
+  const value: EnrichmentResponse = {
+    nome_padronizado: readString(raw, 'nome_padronizado'),
+    descricao_enriquecida: readString(raw, 'descricao_enriquecida'),
+    categoria_inferida: readString(raw, 'categoria_inferida'),
+    marca_inferida: readString(raw, 'marca_inferida'),
+    origem_inferida: origin ?? '',
+    ncm_sugerido: {
+      codigo: ncmCode ?? '',
+      descricao: isRecord(raw.ncm_sugerido) ? readString(ncmSource, 'descricao', 'ncm_sugerido.descricao') : '',
+      confianca: confidence ?? 'baixa',
+      observacao: typeof ncmSource.observacao === 'string' ? ncmSource.observacao.trim() : ''
+    },
+    status_inferencia: {
+      necessita_revisao: needsReview,
+      razao: typeof statusSource.razao === 'string' ? statusSource.razao.trim() : ''
+    }
+  };
+
+  const invalid = issues.filter(issue => issue.severity === 'invalid');
+  if (invalid.length > 0) {
+    const reason = `${INVALID_OUTPUT_REASON}: ${describeEnrichmentIssues(invalid)}`;
+    value.status_inferencia = {
+      necessita_revisao: true,
+      razao: value.status_inferencia.razao ? `${reason}. ${value.status_inferencia.razao}` : reason
+    };
+  }
+
+  return { value, issues, valid: invalid.length === 0 };
+};
+
+/**
+ * JSON object in a model answer, tolerating ```json fences and text around it;
+ * undefined when there is none
+ */
+export const parseEnrichmentContent = (content: string): unknown => {
+  const text = content.trim().replace(/^```(?:json)?\s*|\s*```$/g, '');
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) return undefined;
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+};
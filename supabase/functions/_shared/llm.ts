@@ -0,0 +1,269 @@
+// Camada de provedores de IA compartilhada pelas edge functions.
+// Provedor, modelo, temperatura e timeout de cada tarefa vêm de _shared/prompts.json
+// (também lido pelo frontend em src/config);
+// a variável LLM_PROVIDER força um provedor em todas as tarefas (ex.: "mock" para testes/offline).
+import prompts from "./prompts.json" with { type: "json" };
+
+export type LlmTask = 'enriquecer_produto' | 'corrigir_texto' | 'gerar_tags' | 'gerar_imagem';
+
+export type LlmErrorCode = 'config' | 'timeout' | 'rate_limit' | 'credits' | 'http' | 'invalid_response';
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmMockReply {
+  content: string;
+  images?: string[];
+}
+
+export interface LlmRequest {
+  task: LlmTask;
+  messages: LlmMessage[];
+  // Pede ao provedor uma resposta em JSON (response_format)
+  json?: boolean;
+  modalities?: string[];
+  // Resposta determinística usada pelo provedor mock
+  mock?: (messages: LlmMessage[]) => LlmMockReply;
+}
+
+export interface LlmUsage {
+  provider: string;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  latency_ms: number;
+}
+
+export interface LlmResult {
+  content: string;
+  images: string[];
+  usage: LlmUsage;
+}
+
+interface ProviderConfig {
+  type: 'openai' | 'mock';
+  base_url?: string;
+  // Variável de ambiente que substitui base_url (endpoints compatíveis com OpenAI)
+  base_url_env?: string;
+  api_key_env?: string;
+}
+
+interface TaskConfig {
+  provider: string;
+  model: string;
+  temperature?: number;
+  timeout_ms?: number;
+}
+
+interface ProviderReply {
+  content: string;
+  images: string[];
+  tokens?: { prompt: number; completion: number };
+}
+
+interface LlmProvider {
+  complete: (request: LlmRequest, task: TaskConfig, signal: AbortSignal) => Promise<ProviderReply>;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+const config = prompts as unknown as { providers: Record<string, ProviderConfig> } & Record<LlmTask, TaskConfig>;
+
+// HTTP status devolvido ao cliente para cada tipo de erro
+const ERROR_STATUS: Record<LlmErrorCode, number> = {
+  config: 500,
+  timeout: 504,
+  rate_limit: 429,
+  credits: 402,
+  http: 502,
+  invalid_response: 502,
+};
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    readonly code: LlmErrorCode,
+    readonly provider: string,
+    // Retry-After do provedor, repassado ao cliente
+    readonly retryAfter: string | null = null
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+// Estimativa grosseira (~4 caracteres por token) para provedores que não informam o uso
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const createOpenAiCompatibleProvider = (name: string, provider: ProviderConfig): LlmProvider => ({
+  complete: async (request, task, signal) => {
+    const baseUrl = (provider.base_url_env && Deno.env.get(provider.base_url_env)) || provider.base_url;
+    const apiKey = provider.api_key_env ? Deno.env.get(provider.api_key_env) : undefined;
+    if (!baseUrl) throw new LlmError(`URL do provedor ${name} não configurada`, 'config', name);
+    if (provider.api_key_env && !apiKey) throw new LlmError(`${provider.api_key_env} não configurada`, 'config', name);
+
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: "POST",
+      headers: {
+        ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: task.model,
+        messages: request.messages,
+        ...(task.temperature !== undefined ? { temperature: task.temperature } : {}),
+        ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        ...(request.modalities ? { modalities: request.modalities } : {}),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Erro ${name}:`, response.status, errorText);
+      if (response.status === 429) {
+        throw new LlmError(
+          "Limite de requisições atingido. Tente novamente mais tarde.",
+          'rate_limit',
+          name,
+          response.headers.get("Retry-After")
+        );
+      }
+      if (response.status === 402) {
+        throw new LlmError("Créditos de IA esgotados. Adicione créditos para continuar.", 'credits', name);
+      }
+      if (response.status === 401 || response.status === 403) {
+        throw new LlmError(`Chave de API recusada por ${name}`, 'config', name);
+      }
+      throw new LlmError(`Falha na API ${name}: ${response.status}`, 'http', name, response.headers.get("Retry-After"));
+    }
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message;
+    if (!message) throw new LlmError(`Resposta de ${name} sem conteúdo`, 'invalid_response', name);
+
+    return {
+      content: typeof message.content === 'string' ? message.content : '',
+      images: (message.images || [])
+        .map((image: { image_url?: { url?: string } }) => image.image_url?.url)
+        .filter((url: string | undefined): url is string => !!url),
+      tokens: data.usage
+        ? { prompt: data.usage.prompt_tokens ?? 0, completion: data.usage.completion_tokens ?? 0 }
+        : undefined,
+    };
+  },
+});
+
+// Sem rede: devolve a resposta simulada da função, ou a última mensagem do usuário
+const mockProvider: LlmProvider = {
+  complete: async (request) => {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content ?? '';
+    const reply = request.mock?.(request.messages) ?? { content: request.json ? '{}' : lastUser };
+    return { content: reply.content, images: reply.images ?? [] };
+  },
+};
+
+const getProvider = (name: string): LlmProvider => {
+  const provider = config.providers[name];
+  if (!provider) throw new LlmError(`Provedor de IA desconhecido: ${name}`, 'config', name);
+  return provider.type === 'mock' ? mockProvider : createOpenAiCompatibleProvider(name, provider);
+};
+
+/**
+ * Provedor e modelo que a tarefa vai usar, já considerando LLM_PROVIDER
+ */
+export const resolveTaskModel = (taskName: LlmTask): { provider: string; model: string } => {
+  const task = config[taskName];
+  const provider = Deno.env.get("LLM_PROVIDER") || task.provider;
+  return { provider, model: config.providers[provider]?.type === 'mock' ? 'mock' : task.model };
+};
+
+/**
+ * Envia as mensagens ao provedor configurado para a tarefa, com timeout,
+ * erros padronizados (LlmError) e uso de tokens.
+ */
+export const completeChat = async (request: LlmRequest): Promise<LlmResult> => {
+  const task = config[request.task];
+  const { provider: providerName, model } = resolveTaskModel(request.task);
+  const timeoutMs = task.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  const provider = getProvider(providerName);
+
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let reply: ProviderReply;
+  try {
+    reply = await provider.complete(request, { ...task, model }, controller.signal);
+  } catch (error) {
+    if (error instanceof LlmError) throw error;
+    if (controller.signal.aborted) {
+      throw new LlmError(`${providerName} não respondeu em ${timeoutMs / 1000}s`, 'timeout', providerName);
+    }
+    throw new LlmError(
+      `Falha ao chamar ${providerName}: ${error instanceof Error ? error.message : 'erro desconhecido'}`,
+      'http',
+      providerName
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const promptTokens = reply.tokens?.prompt ?? estimateTokens(request.messages.map(m => m.content).join('\n'));
+  const completionTokens = reply.tokens?.completion ?? estimateTokens(reply.content);
+  const usage: LlmUsage = {
+    provider: providerName,
+    model,
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+    latency_ms: Date.now() - startTime,
+  };
+  console.log(`[${request.task}] ${providerName}/${model}: ${usage.total_tokens} tokens em ${usage.latency_ms}ms`);
+
+  return { content: reply.content, images: reply.images, usage };
+};
+
+/**
+ * Uso somado de várias chamadas da mesma tarefa (lotes, pedidos de correção)
+ */
+export const sumUsage = (usages: LlmUsage[]): LlmUsage | null =>
+  usages.length === 0
+    ? null
+    : usages.reduce((total, usage) => ({
+        ...total,
+        prompt_tokens: total.prompt_tokens + usage.prompt_tokens,
+        completion_tokens: total.completion_tokens + usage.completion_tokens,
+        total_tokens: total.total_tokens + usage.total_tokens,
+        latency_ms: total.latency_ms + usage.latency_ms,
+      }));
+
+/**
+ * Resposta de erro no formato comum às funções: { error, mensagem, codigo, provedor }
+ */
+export const llmErrorResponse = (
+  error: unknown,
+  headers: Record<string, string>,
+  extra: Record<string, unknown> = {}
+): Response => {
+  const isLlmError = error instanceof LlmError;
+  const retryAfter = isLlmError && error.retryAfter
+    ? { "Retry-After": error.retryAfter, "Access-Control-Expose-Headers": "Retry-After" }
+    : {};
+  return new Response(
+    JSON.stringify({
+      error: true,
+      mensagem: error instanceof Error ? error.message : "Erro desconhecido",
+      codigo: isLlmError ? error.code : 'internal',
+      provedor: isLlmError ? error.provider : null,
+      ...extra,
+    }),
+    {
+      status: isLlmError ? ERROR_STATUS[error.code] : 500,
+      headers: { ...headers, ...retryAfter, "Content-Type": "application/json" },
+    }
+  );
+};
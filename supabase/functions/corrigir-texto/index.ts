@@ -1,10 +1,16 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { completeChat, llmErrorResponse, sumUsage, type LlmUsage } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Modelo e versão do prompt vão na resposta (proveniência na exportação).
+// Incrementar VERSAO_PROMPT sempre que SISTEMA_PROMPT mudar.
+// Provedor e modelo: "corrigir_texto" em _shared/prompts.json.
+const VERSAO_PROMPT = "corrigir-v1";
+
 // Prompt otimizado para correção de texto em produtos brasileiros
 const SISTEMA_PROMPT = `
 Você é um especialista em correção de textos para catálogos de produtos brasileiros.
@@ -91,6 +97,19 @@ interface ResultadoCorrecao {
   erro?: string;
 }
 
+// Provedor mock: só normaliza os espaços, sem chamar a IA
+const simularCorrecao = (texto: string) => {
+  const corrigido = texto.replace(/\s+/g, ' ').trim();
+  const houveAlteracao = corrigido !== texto;
+  return {
+    content: JSON.stringify({
+      texto_corrigido: corrigido,
+      alteracoes: houveAlteracao ? [{ original: texto, corrigido, tipo: "espacos" }] : [],
+      houve_alteracao: houveAlteracao,
+    }),
+  };
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -111,15 +130,8 @@ serve(async (req) => {
       );
     }
 
-    const deepseekApiKey = Deno.env.get("DEEPSEEK_API_KEY");
-    if (!deepseekApiKey) {
-      return new Response(
-        JSON.stringify({ error: true, mensagem: "DEEPSEEK_API_KEY não configurada" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     const resultados: ResultadoCorrecao[] = [];
+    const usos: LlmUsage[] = [];
 
     // Processar em batches para evitar timeout
     const batchSize = 5;
@@ -139,29 +151,17 @@ serve(async (req) => {
         }
 
         try {
-          const deepseekResponse = await fetch("https://api.deepseek.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-              "Authorization": `Bearer ${deepseekApiKey}`,
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              model: "deepseek-chat",
-              messages: [
-                { role: "system", content: SISTEMA_PROMPT },
-                { role: "user", content: item.texto }
-              ],
-              temperature: 0.1,
-              response_format: { type: "json_object" }
-            }),
+          const resposta = await completeChat({
+            task: "corrigir_texto",
+            messages: [
+              { role: "system", content: SISTEMA_PROMPT },
+              { role: "user", content: item.texto }
+            ],
+            json: true,
+            mock: () => simularCorrecao(item.texto),
           });
-
-          if (!deepseekResponse.ok) {
-            throw new Error(`API retornou ${deepseekResponse.status}`);
-          }
-
-          const deepseekData = await deepseekResponse.json();
-          const resultado = JSON.parse(deepseekData.choices[0].message.content);
+          usos.push(resposta.usage);
+          const resultado = JSON.parse(resposta.content);
 
           return {
             id: item.id,
@@ -195,11 +195,16 @@ serve(async (req) => {
     }
 
     const tempoProcessamento = Date.now() - startTime;
+    // Uso somado das chamadas; o modelo é o mesmo em todas
+    const uso = sumUsage(usos);
     const totalAlterados = resultados.filter(r => r.houve_alteracao).length;
 
     return new Response(
       JSON.stringify({
         resultados,
+        modelo_ia: uso?.model ?? null,
+        versao_prompt: VERSAO_PROMPT,
+        usage: uso,
         estatisticas: {
           total: textos.length,
           alterados: totalAlterados,
@@ -212,12 +217,6 @@ serve(async (req) => {
 
   } catch (error) {
     console.error("Erro no processamento:", error);
-    return new Response(
-      JSON.stringify({ 
-        error: true, 
-        mensagem: error instanceof Error ? error.message : "Erro desconhecido",
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
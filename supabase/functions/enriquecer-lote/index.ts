@@ -0,0 +1,335 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import { identificarChamador } from "../_shared/auth.ts";
+
+// Worker dos jobs de enriquecimento (tabelas enrichment_jobs / enrichment_job_items).
+// Responde na hora e continua em segundo plano: reserva itens em lotes, chama
+// enriquecer-produto para cada um e atualiza o progresso do job e da sessão.
+// Perto do limite de tempo da função, chama a si mesma para continuar.
+
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void };
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Itens reservados por rodada, enriquecidos em paralelo
+const TAMANHO_LOTE = 5;
+// Tentativas por item em erros temporários (429, 5xx, rede) antes de marcá-lo como falha
+const MAX_TENTATIVAS = 3;
+// Espera antes de tentar o item de novo: dobra a cada tentativa, até o máximo
+const ESPERA_BASE_MS = 5_000;
+const ESPERA_MAX_MS = 60_000;
+// Tempo de trabalho por invocação, abaixo do limite das edge functions
+const ORCAMENTO_MS = 120_000;
+// Reserva do job: um segundo worker desiste enquanto ela valer; expira se o worker cair
+const RESERVA_MS = 60_000;
+// Espera máxima quando só restam itens em espera ou reservados por um worker que caiu
+const ESPERA_ITENS_PRESOS_MS = 15_000;
+// Durante as esperas, de quanto em quanto tempo conferir se o job foi pausado ou cancelado
+const INTERVALO_VERIFICACAO_MS = 5_000;
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL") ?? "";
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+interface Job {
+  id: string;
+  user_id: string;
+  session_id: string;
+  status: string;
+  options: { abbreviations?: Record<string, string> };
+}
+
+interface Item {
+  id: string;
+  row_index: number;
+  produto: Record<string, unknown>;
+  dicas: Record<string, unknown>;
+  identificadores: Record<string, unknown>;
+  attempts: number;
+}
+
+interface Resultado {
+  status: "done" | "pending" | "failed";
+  result: unknown;
+  error: string | null;
+  // Retry-After pedido pelo provedor
+  esperaMs: number;
+}
+
+const esperar = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const chamarFuncao = (nome: string, body: unknown) =>
+  fetch(`${SUPABASE_URL}/functions/v1/${nome}`, {
+    method: "POST",
+    headers: { "Authorization": `Bearer ${SERVICE_ROLE_KEY}`, "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+const reserva = () => new Date(Date.now() + RESERVA_MS).toISOString();
+
+const esperaDaTentativa = (tentativa: number) =>
+  Math.min(ESPERA_MAX_MS, ESPERA_BASE_MS * 2 ** Math.max(0, tentativa - 1));
+
+const enriquecerItem = async (job: Job, item: Item): Promise<Resultado> => {
+  try {
+    const resposta = await chamarFuncao("enriquecer-produto", {
+      produto: item.produto,
+      user_id: job.user_id,
+      session_id: job.session_id,
+      abbreviations: job.options.abbreviations ?? {},
+      dicas: item.dicas,
+      identificadores: item.identificadores,
+    });
+    const corpo = await resposta.json().catch(() => null);
+    if (resposta.ok && corpo && !corpo.error) {
+      return { status: "done", result: corpo, error: null, esperaMs: 0 };
+    }
+
+    const mensagem = corpo?.mensagem || `Falha na função de enriquecimento (${resposta.status})`;
+    const temporario = resposta.status === 408 || resposta.status === 429 || resposta.status >= 500;
+    const retryAfter = Number(resposta.headers.get("Retry-After"));
+    return {
+      status: temporario && item.attempts < MAX_TENTATIVAS ? "pending" : "failed",
+      result: null,
+      error: mensagem,
+      esperaMs: Number.isFinite(retryAfter) ? retryAfter * 1000 : 0,
+    };
+  } catch (error) {
+    const mensagem = error instanceof Error ? error.message : "Erro desconhecido";
+    return { status: item.attempts < MAX_TENTATIVAS ? "pending" : "failed", result: null, error: mensagem, esperaMs: 0 };
+  }
+};
+
+const contarItens = async (supabase: SupabaseClient, jobId: string, status: string[]) => {
+  const { count, error } = await supabase
+    .from("enrichment_job_items")
+    .select("id", { count: "exact", head: true })
+    .eq("job_id", jobId)
+    .in("status", status);
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// Quanto falta para o próximo item em backoff ficar livre, limitado a ESPERA_ITENS_PRESOS_MS
+const esperaProximoItem = async (supabase: SupabaseClient, jobId: string) => {
+  const { data, error } = await supabase
+    .from("enrichment_job_items")
+    .select("not_before")
+    .eq("job_id", jobId)
+    .eq("status", "pending")
+    .not("not_before", "is", null)
+    .order("not_before")
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return ESPERA_ITENS_PRESOS_MS;
+  return Math.min(ESPERA_ITENS_PRESOS_MS, Math.max(1_000, new Date(data.not_before).getTime() - Date.now()));
+};
+
+// Renova a reserva (e grava o progresso, se houver) e confere o status do job.
+// Devolve true quando o job foi pausado ou cancelado e o worker deve parar.
+const verificarJob = async (
+  supabase: SupabaseClient,
+  jobId: string,
+  progresso: { items_processed?: number; items_failed?: number } = {}
+) => {
+  const { data: atual, error } = await supabase
+    .from("enrichment_jobs")
+    .update({ ...progresso, locked_until: reserva() })
+    .eq("id", jobId)
+    .select("status, session_id")
+    .single();
+  if (error) throw error;
+
+  // A sessão acompanha o job mesmo sem nenhuma aba aberta (cancelado vira "failed", como no navegador)
+  if (atual.status === "paused" || atual.status === "cancelled") {
+    await supabase.from("enrichment_jobs").update({ locked_until: null }).eq("id", jobId);
+    await supabase
+      .from("product_enrichment_sessions")
+      .update({ status: atual.status === "paused" ? "paused" : "failed" })
+      .eq("id", atual.session_id);
+    console.log(`Job ${jobId} ${atual.status === "paused" ? "pausado" : "cancelado"}`);
+    return true;
+  }
+  // Retomado enquanto este worker ainda rodava
+  if (atual.status === "queued") {
+    await supabase.from("enrichment_jobs").update({ status: "running" }).eq("id", jobId).eq("status", "queued");
+    await supabase.from("product_enrichment_sessions").update({ status: "processing" }).eq("id", atual.session_id);
+  }
+  return false;
+};
+
+// Espera em pedaços, conferindo se o job foi pausado ou cancelado; devolve true nesse caso
+const aguardar = async (supabase: SupabaseClient, jobId: string, ms: number) => {
+  const fim = Date.now() + ms;
+  while (Date.now() < fim) {
+    await esperar(Math.min(INTERVALO_VERIFICACAO_MS, fim - Date.now()));
+    if (await verificarJob(supabase, jobId)) return true;
+  }
+  return false;
+};
+
+const processarJob = async (supabase: SupabaseClient, jobId: string) => {
+  const inicio = Date.now();
+  const restante = () => Math.max(0, ORCAMENTO_MS - (Date.now() - inicio));
+
+  // Reserva o job; outro worker ativo (ex.: pausa e retomada rápidas) mantém a dele
+  const { data: job, error: reservaError } = await supabase
+    .from("enrichment_jobs")
+    .update({ status: "running", locked_until: reserva() })
+    .eq("id", jobId)
+    .in("status", ["queued", "running"])
+    .or(`locked_until.is.null,locked_until.lt.${new Date().toISOString()}`)
+    .select("id, user_id, session_id, status, options")
+    .maybeSingle();
+  if (reservaError) throw reservaError;
+  if (!job) {
+    console.log(`Job ${jobId} parado ou com outro worker ativo`);
+    return;
+  }
+
+  await supabase.from("product_enrichment_sessions").update({ status: "processing" }).eq("id", job.session_id);
+
+  while (Date.now() - inicio < ORCAMENTO_MS) {
+    const { data: itens, error } = await supabase.rpc("claim_enrichment_job_items", {
+      p_job_id: jobId,
+      p_limit: TAMANHO_LOTE,
+    });
+    if (error) throw error;
+
+    if (!itens || itens.length === 0) {
+      const restantes = await contarItens(supabase, jobId, ["pending", "processing"]);
+      if (restantes === 0) {
+        const processados = await contarItens(supabase, jobId, ["done", "failed"]);
+        const falhas = await contarItens(supabase, jobId, ["failed"]);
+        const { data: concluido, error: concluirError } = await supabase
+          .from("enrichment_jobs")
+          .update({
+            status: "completed",
+            items_processed: processados,
+            items_failed: falhas,
+            locked_until: null,
+            finished_at: new Date().toISOString(),
+          })
+          .eq("id", jobId)
+          .in("status", ["queued", "running"])
+          .select("id")
+          .maybeSingle();
+        if (concluirError) throw concluirError;
+        // Pausado ou cancelado no último instante: a sessão fica com esse status
+        if (!concluido) {
+          await verificarJob(supabase, jobId, { items_processed: processados, items_failed: falhas });
+          return;
+        }
+        await supabase
+          .from("product_enrichment_sessions")
+          .update({ status: "completed", items_processed: processados })
+          .eq("id", job.session_id);
+        console.log(`Job ${jobId} concluído: ${processados} itens, ${falhas} falhas`);
+        return;
+      }
+      // Itens em backoff, ou presos na reserva de um worker que caiu (livres em alguns minutos)
+      if (await aguardar(supabase, jobId, Math.min(await esperaProximoItem(supabase, jobId), restante()))) return;
+      continue;
+    }
+
+    const resultados = await Promise.all((itens as Item[]).map(item => enriquecerItem(job as Job, item)));
+    // Item com erro temporário volta para a fila só depois do backoff (ou do Retry-After, se maior)
+    await Promise.all((itens as Item[]).map((item, i) =>
+      supabase
+        .from("enrichment_job_items")
+        .update({
+          status: resultados[i].status,
+          result: resultados[i].result,
+          error: resultados[i].error,
+          not_before: resultados[i].status === "pending"
+            ? new Date(Date.now() + Math.max(resultados[i].esperaMs, esperaDaTentativa(item.attempts))).toISOString()
+            : null,
+        })
+        .eq("id", item.id)
+    ));
+
+    const processados = await contarItens(supabase, jobId, ["done", "failed"]);
+    const falhas = await contarItens(supabase, jobId, ["failed"]);
+    await supabase
+      .from("product_enrichment_sessions")
+      .update({ items_processed: processados })
+      .eq("id", job.session_id);
+
+    // Pausado ou cancelado em qualquer aparelho: para depois do lote atual
+    if (await verificarJob(supabase, jobId, { items_processed: processados, items_failed: falhas })) return;
+
+    // Provedor pediu para esperar (Retry-After): vale para todos os itens, não só os que falharam
+    const espera = Math.max(...resultados.map(resultado => resultado.esperaMs));
+    if (espera > 0 && await aguardar(supabase, jobId, Math.min(espera, restante()))) return;
+  }
+
+  // Tempo esgotado: libera a reserva e continua em uma nova invocação
+  await supabase.from("enrichment_jobs").update({ locked_until: null }).eq("id", jobId);
+  await chamarFuncao("enriquecer-lote", { job_id: jobId });
+};
+
+// Só o dono do job (token de login) ou o próprio worker (chave de serviço) podem iniciá-lo
+const podeIniciar = async (supabase: SupabaseClient, req: Request, jobId: string) => {
+  const { servico, userId } = await identificarChamador(supabase, req);
+  if (servico) return true;
+  if (!userId) return false;
+
+  const { data: job } = await supabase.from("enrichment_jobs").select("user_id").eq("id", jobId).maybeSingle();
+  return job?.user_id === userId;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { job_id } = await req.json();
+
+    if (!job_id) {
+      return new Response(
+        JSON.stringify({ error: true, mensagem: "Job não informado" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SERVICE_ROLE_KEY);
+    if (!(await podeIniciar(supabase, req, job_id))) {
+      return new Response(
+        JSON.stringify({ error: true, mensagem: "Sem permissão para processar este job" }),
+        { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    EdgeRuntime.waitUntil(
+      processarJob(supabase, job_id).catch(async (error) => {
+        console.error(`Erro no job ${job_id}:`, error);
+        const mensagem = error instanceof Error ? error.message : String(error?.message ?? error);
+        const { data: job } = await supabase
+          .from("enrichment_jobs")
+          .update({ status: "failed", error: mensagem, locked_until: null, finished_at: new Date().toISOString() })
+          .eq("id", job_id)
+          .select("session_id")
+          .maybeSingle();
+        if (job) {
+          await supabase.from("product_enrichment_sessions").update({ status: "failed" }).eq("id", job.session_id);
+        }
+      })
+    );
+
+    return new Response(
+      JSON.stringify({ job_id, aceito: true }),
+      { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Erro ao iniciar o job:", error);
+    return new Response(
+      JSON.stringify({ error: true, mensagem: error instanceof Error ? error.message : "Erro desconhecido" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
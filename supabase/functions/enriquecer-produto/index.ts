@@ -1,103 +1,57 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.38.1";
+import prompts from "../_shared/prompts.json" with { type: "json" };
+import {
+  completeChat,
+  llmErrorResponse,
+  resolveTaskModel,
+  sumUsage,
+  type LlmMessage,
+  type LlmUsage,
+} from "../_shared/llm.ts";
+import { identificarChamador } from "../_shared/auth.ts";
+import {
+  describeEnrichmentIssues,
+  parseEnrichmentContent,
+  validateEnrichmentResponse,
+  type EnrichmentValidation,
+} from "../_shared/enrichmentSchema.ts";
+import { derivePromptVersion, hashEnrichmentInput } from "../_shared/enrichmentCacheKey.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// SISTEMA DE PROMPT OTIMIZADO PARA PRODUTOS BRASILEIROS COM NCM
-const SISTEMA_PROMPT = `
-Você é o motor de enriquecimento do UltraData, especialista em e-commerce brasileiro.
-
-<REGRA DE OURO>
-NUNCA INVENTE VALORES. Sua tarefa é PADRONIZAR, NÃO CRIAR.
-Se um dado não puder ser inferido com 95% de confiança a partir do contexto, deixe vazio e sinalize para revisão.
-</REGRA DE OURO>
-
-<FORMATO DE RESPOSTA OBRIGATÓRIO>
-Responda APENAS com este JSON:
-{
-  "nome_padronizado": "string (corrige grafia, acentos, maiúsculas conforme padrão de catálogo)",
-  "descricao_enriquecida": "string (melhora a descrição mantendo APENAS fatos existentes, expande abreviações)",
-  "categoria_inferida": "string (formato: 'Categoria > Subcategoria' ou vazio se incerto)",
-  "marca_inferida": "string (SÓ se for explícita ou óbvia no contexto. Senão, vazio)",
-  "origem_inferida": "Nacional" | "Importado" | "",
-  "ncm_sugerido": {
-    "codigo": "string (código NCM de 8 dígitos no formato XXXX.XX.XX ou vazio)",
-    "descricao": "string (descrição resumida da posição NCM)",
-    "confianca": "alta" | "media" | "baixa",
-    "observacao": "string (explicação sobre a classificação sugerida)"
-  },
-  "status_inferencia": {
-    "necessita_revisao": boolean,
-    "razao": "string (explicação clara do que é incerto)"
-  }
-}
-</FORMATO DE RESPOSTA>
-
-<REGRAS NCM>
-1. O NCM (Nomenclatura Comum do Mercosul) deve ser sugerido APENAS se houver informação suficiente sobre o produto.
-2. Use a estrutura de 8 dígitos: XXXX.XX.XX (Capítulo.Posição.Subposição.Item)
-3. SEMPRE marque "confianca": "baixa" ou "media" e inclua observação indicando que é uma SUGESTÃO para pesquisa.
-4. Exemplos comuns:
-   - Ferramentas manuais: 8205.XX.XX
-   - Produtos eletrônicos: 8471.XX.XX (computadores), 8528.XX.XX (monitores/TVs)
-   - Móveis: 9403.XX.XX
-   - Vestuário: 61XX.XX.XX (malha), 62XX.XX.XX (tecido plano)
-5. Se não for possível determinar, deixe o campo codigo vazio e explique na observação.
-</REGRAS NCM>
-
-<EXEMPLOS>
-1. Entrada: {"nome": "mouse gamer rgb logitech g502"}
-   Saída: {
-     "nome_padronizado": "Mouse Gamer RGB Logitech G502",
-     "descricao_enriquecida": "Mouse gamer Logitech modelo G502 com iluminação RGB",
-     "categoria_inferida": "Informática > Periféricos > Mouses",
-     "marca_inferida": "Logitech",
-     "origem_inferida": "Importado",
-     "ncm_sugerido": {
-       "codigo": "8471.60.53",
-       "descricao": "Mouses para máquinas automáticas de processamento de dados",
-       "confianca": "media",
-       "observacao": "Sugestão baseada em mouse para computador. Confirmar com contador/despachante."
-     },
-     "status_inferencia": {"necessita_revisao": false, "razao": ""}
-   }
-
-2. Entrada: {"nome": "Furadeira Black+Decker 500W", "categoria": ""}
-   Saída: {
-     "nome_padronizado": "Furadeira Black+Decker 500W",
-     "descricao_enriquecida": "Furadeira elétrica Black+Decker com potência de 500 Watts",
-     "categoria_inferida": "Ferramentas > Elétricas > Furadeiras",
-     "marca_inferida": "Black+Decker",
-     "origem_inferida": "",
-     "ncm_sugerido": {
-       "codigo": "8467.21.00",
-       "descricao": "Furadeiras de todos os tipos, incluindo perfuratrizes",
-       "confianca": "alta",
-       "observacao": "NCM comum para furadeiras elétricas manuais."
-     },
-     "status_inferencia": {"necessita_revisao": false, "razao": ""}
-   }
-
-3. Entrada: {"nome": "camiseta preta básica"}
-   Saída: {
-     "nome_padronizado": "Camiseta Preta Básica",
-     "descricao_enriquecida": "Camiseta básica na cor preta",
-     "categoria_inferida": "Vestuário > Camisetas",
-     "marca_inferida": "",
-     "origem_inferida": "",
-     "ncm_sugerido": {
-       "codigo": "",
-       "descricao": "",
-       "confianca": "baixa",
-       "observacao": "Não é possível determinar NCM sem saber composição (algodão, sintético) e tipo de tecido (malha/plano)."
-     },
-     "status_inferencia": {"necessita_revisao": true, "razao": "Marca e composição do tecido não identificadas."}
-   }
-</EXEMPLOS>
-`;
+// Prompt, provedor e modelo: "enriquecer_produto" em _shared/prompts.json.
+const SISTEMA_PROMPT = prompts.enriquecer_produto.system;
+// Modelo e versão do prompt vão junto de cada resultado (proveniência na exportação).
+// A versão vem do texto do prompt: qualquer edição gera outra versão e ignora o cache antigo.
+const VERSAO_PROMPT = await derivePromptVersion("enriquecer", SISTEMA_PROMPT);
+
+// Quantas vezes a IA é chamada de novo quando a resposta foge do formato
+const MAX_CORRECOES = 1;
+
+// Respostas válidas ficam no cache do usuário (tabela enrichment_cache) por este tempo.
+// A chave inclui VERSAO_PROMPT e o modelo, então mudar o prompt já ignora o cache antigo.
+const CACHE_TTL_DIAS = prompts.enriquecer_produto.cache_ttl_days ?? 30;
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+// Provedor mock: mantém o nome como veio e manda o produto para revisão
+const simularEnriquecimento = (produto: Record<string, unknown>) => {
+  const nome = Object.values(produto).find(valor => typeof valor === "string" && valor.trim() !== "");
+  return {
+    content: JSON.stringify({
+      nome_padronizado: typeof nome === "string" ? nome.trim() : "",
+      descricao_enriquecida: "",
+      categoria_inferida: "",
+      marca_inferida: "",
+      origem_inferida: "",
+      ncm_sugerido: { codigo: "", descricao: "", confianca: "baixa", observacao: "Resposta simulada (provedor mock)." },
+      status_inferencia: { necessita_revisao: true, razao: "Resposta simulada (provedor mock)." },
+    }),
+  };
+};
 
 serve(async (req) => {
   // Handle CORS preflight
@@ -108,7 +62,7 @@ serve(async (req) => {
   const startTime = Date.now();
 
   try {
-    const { produto, user_id, session_id, abbreviations } = await req.json();
+    const { produto, user_id, session_id, abbreviations, dicas, identificadores } = await req.json();
     
     if (!produto) {
       return new Response(
@@ -117,70 +71,132 @@ serve(async (req) => {
       );
     }
 
-    const deepseekApiKey = Deno.env.get("DEEPSEEK_API_KEY");
-    if (!deepseekApiKey) {
-      return new Response(
-        JSON.stringify({ error: true, mensagem: "DEEPSEEK_API_KEY não configurada" }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     // Build user message with abbreviations context
     let userContent = JSON.stringify(produto);
     if (abbreviations && Object.keys(abbreviations).length > 0) {
       userContent = `Produto: ${JSON.stringify(produto)}\n\nAbreviações conhecidas (expanda quando encontrar): ${JSON.stringify(abbreviations)}`;
     }
 
-    // 1. CHAMADA À API DEEPSEEK
-    console.log("Chamando DeepSeek API para produto:", JSON.stringify(produto).substring(0, 100));
-    
-    const deepseekResponse = await fetch("https://api.deepseek.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${deepseekApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          { role: "system", content: SISTEMA_PROMPT },
-          { role: "user", content: userContent }
-        ],
-        temperature: 0.1,
-        response_format: { type: "json_object" }
-      }),
-    });
+    // Hints computed on the client (e.g. GS1 prefix of the barcode for origem_inferida)
+    if (dicas?.origem) {
+      userContent += `\n\nIndício de origem: ${dicas.origem}. O prefixo GS1 indica onde a empresa registrou o código, não onde o produto foi fabricado; use apenas como indício para "origem_inferida".`;
+    }
 
-    if (!deepseekResponse.ok) {
-      const errorText = await deepseekResponse.text();
-      console.error("Erro DeepSeek:", deepseekResponse.status, errorText);
-      throw new Error(`Falha na API DeepSeek: ${deepseekResponse.status}`);
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+    const { provider, model } = resolveTaskModel("enriquecer_produto");
+
+    // Dono do cache e dos registros: o usuário do token. O user_id do corpo só vale
+    // para chamadas internas com a chave de serviço (worker enriquecer-lote).
+    const chamador = await identificarChamador(supabaseClient, req);
+    const userId: string | null = chamador.servico ? user_id || null : chamador.userId;
+
+    // 1. CACHE do usuário: mesmo produto normalizado (ordem de colunas e espaços não contam),
+    // prompt e modelo. Sem usuário identificado não há dono, então não usa cache.
+    const chaveCache = await hashEnrichmentInput({ produto, abbreviations: abbreviations ?? {}, dicas: dicas ?? {} });
+    let cacheado: { id: string; response: unknown; hits: number; created_at: string } | null = null;
+    if (userId) {
+      const { data, error: cacheError } = await supabaseClient
+        .from("enrichment_cache")
+        .select("id, response, hits, created_at")
+        .eq("user_id", userId)
+        .eq("content_hash", chaveCache)
+        .eq("prompt_version", VERSAO_PROMPT)
+        .eq("model", model)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+      if (cacheError) {
+        console.error("Erro ao consultar o cache:", cacheError);
+      }
+      cacheado = data;
     }
-    
-    const deepseekData = await deepseekResponse.json();
-    console.log("Resposta DeepSeek recebida");
-    
-    let resultado;
-    try {
-      resultado = JSON.parse(deepseekData.choices[0].message.content);
-    } catch (parseError) {
-      console.error("Erro ao parsear resposta:", deepseekData.choices[0].message.content);
-      throw new Error("Resposta da IA não é JSON válido");
+
+    // 2. CHAMADA AO PROVEDOR DE IA (só quando não está no cache)
+    const usos: LlmUsage[] = [];
+    const enriquecer = async (): Promise<EnrichmentValidation> => {
+      console.log("Enriquecendo produto:", JSON.stringify(produto).substring(0, 100));
+
+      const mensagens: LlmMessage[] = [
+        { role: "system", content: SISTEMA_PROMPT },
+        { role: "user", content: userContent }
+      ];
+      const consultar = async () => {
+        const resposta = await completeChat({
+          task: "enriquecer_produto",
+          messages: mensagens,
+          json: true,
+          mock: () => simularEnriquecimento(produto),
+        });
+        usos.push(resposta.usage);
+        return resposta.content;
+      };
+
+      // Resposta fora do formato: mostra os problemas à IA e pede o JSON de novo.
+      // Se continuar inválida, os campos ruins ficam vazios e o produto vai para revisão.
+      let conteudo = await consultar();
+      let validacao = validateEnrichmentResponse(parseEnrichmentContent(conteudo));
+      for (let correcao = 1; !validacao.valid && correcao <= MAX_CORRECOES; correcao++) {
+        const problemas = describeEnrichmentIssues(validacao.issues.filter(issue => issue.severity === "invalid"));
+        console.warn(`Resposta fora do formato (correção ${correcao}):`, problemas);
+        mensagens.push(
+          { role: "assistant", content: conteudo },
+          {
+            role: "user",
+            content: `A resposta anterior não seguiu o formato pedido: ${problemas}. Responda novamente APENAS com o JSON completo, com todos os campos.`
+          }
+        );
+        conteudo = await consultar();
+        validacao = validateEnrichmentResponse(parseEnrichmentContent(conteudo));
+      }
+
+      // Respostas inválidas não vão para o cache: a próxima vez tenta de novo
+      if (validacao.valid && userId) {
+        const { error: salvarCacheError } = await supabaseClient
+          .from("enrichment_cache")
+          .upsert({
+            user_id: userId,
+            content_hash: chaveCache,
+            prompt_version: VERSAO_PROMPT,
+            model,
+            response: validacao.value,
+            hits: 0,
+            created_at: new Date().toISOString(),
+            last_hit_at: null,
+            expires_at: new Date(Date.now() + CACHE_TTL_DIAS * DIA_MS).toISOString(),
+          }, { onConflict: "user_id,content_hash,prompt_version,model" });
+        if (salvarCacheError) {
+          console.error("Erro ao salvar no cache:", salvarCacheError);
+        }
+      }
+
+      return validacao;
+    };
+
+    let validacao: EnrichmentValidation;
+    if (cacheado) {
+      validacao = validateEnrichmentResponse(cacheado.response);
+      await supabaseClient
+        .from("enrichment_cache")
+        .update({ hits: cacheado.hits + 1, last_hit_at: new Date().toISOString() })
+        .eq("id", cacheado.id);
+    } else {
+      validacao = await enriquecer();
     }
 
+    const resultado = validacao.value;
+    const usage = sumUsage(usos);
+
     const tempoProcessamento = Date.now() - startTime;
     
-    // 2. SALVAR NO BANCO (se user_id fornecido)
-    if (user_id) {
-      const supabaseClient = createClient(
-        Deno.env.get("SUPABASE_URL") ?? "",
-        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
-      );
-      
-      const { error: insertError } = await supabaseClient
+    // 3. SALVAR NO BANCO (se o usuário foi identificado)
+    let registroId: string | null = null;
+    if (userId) {
+      const { data: registro, error: insertError } = await supabaseClient
         .from("produtos_processados")
         .insert({
-          user_id,
+          user_id: userId,
           session_id: session_id || null,
           produto_original: produto,
           nome_padronizado: resultado.nome_padronizado || null,
@@ -188,39 +204,53 @@ serve(async (req) => {
           categoria_inferida: resultado.categoria_inferida || null,
           marca_inferida: resultado.marca_inferida || null,
           origem_inferida: resultado.origem_inferida || null,
-          necessita_revisao: resultado.status_inferencia?.necessita_revisao ?? true,
-          razao_revisao: resultado.status_inferencia?.razao || null,
+          necessita_revisao: resultado.status_inferencia.necessita_revisao,
+          razao_revisao: resultado.status_inferencia.razao || null,
           validado: false,
-          modelo_ia: 'deepseek-chat',
+          modelo_ia: model,
           tempo_processamento_ms: tempoProcessamento,
           metadata: {
-            ncm_sugerido: resultado.ncm_sugerido || null,
+            ncm_sugerido: resultado.ncm_sugerido,
+            // SKU/GTIN nem sempre são analisados, mas permitem reconhecer o produto em importações futuras
+            sku: identificadores?.sku || null,
+            gtin: identificadores?.gtin || null,
+            versao_prompt: VERSAO_PROMPT,
+            provedor_ia: provider,
+            tokens: usage?.total_tokens ?? 0,
+            tentativas_ia: usos.length,
+            cache_hit: !!cacheado,
+            problemas_resposta: validacao.issues.length > 0 ? validacao.issues : null,
           },
-        });
+        })
+        .select("id")
+        .single();
       
       if (insertError) {
         console.error("Erro ao salvar no banco:", insertError);
         // Continua mesmo com erro no banco - retorna o resultado
+      } else {
+        registroId = registro.id;
       }
     }
     
     return new Response(
       JSON.stringify({
         ...resultado,
+        registro_id: registroId,
         tempo_processamento_ms: tempoProcessamento,
+        modelo_ia: model,
+        versao_prompt: VERSAO_PROMPT,
+        usage,
+        tentativas_ia: usos.length,
+        cache: { hit: !!cacheado, criado_em: cacheado?.created_at ?? null },
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
     
   } catch (error) {
     console.error("Erro no processamento:", error);
-    return new Response(
-      JSON.stringify({ 
-        error: true, 
-        mensagem: error instanceof Error ? error.message : "Erro desconhecido",
-        status_inferencia: { necessita_revisao: true, razao: "Erro no processamento" }
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return llmErrorResponse(error, corsHeaders, {
+      status_inferencia: { necessita_revisao: true, razao: "Erro no processamento" }
+    });
   }
 });
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { completeChat, llmErrorResponse, LlmError } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +12,13 @@ interface ImageGenerationRequest {
   style?: 'catalog' | 'lifestyle' | 'minimal';
 }
 
+// Mock provider: a plain placeholder with the product name
+const mockImage = (productName: string) => {
+  const label = productName.replace(/[&<>"]/g, char => `&#${char.charCodeAt(0)};`);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1080" height="1080"><rect width="100%" height="100%" fill="#f4f4f5"/><text x="50%" y="50%" font-family="sans-serif" font-size="40" text-anchor="middle" fill="#71717a">${label}</text></svg>`;
+  return { content: '', images: [`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`] };
+};
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -27,14 +35,6 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     // Build the prompt based on style
     let stylePrompt = '';
     switch (style) {
@@ -51,69 +51,32 @@ serve(async (req) => {
 
     const prompt = `${productName}${productDescription ? `, ${productDescription}` : ''}, ${stylePrompt}, 1080x1080 square format, high resolution, ultra-detailed`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash-image-preview',
-        messages: [
-          { 
-            role: 'user', 
-            content: prompt
-          }
-        ],
-        modalities: ['image', 'text']
-      }),
+    // Provider and model: "gerar_imagem" in _shared/prompts.json
+    const { images, usage } = await completeChat({
+      task: 'gerar_imagem',
+      messages: [{ role: 'user', content: prompt }],
+      modalities: ['image', 'text'],
+      mock: () => mockImage(productName),
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      const errorText = await response.text();
-      console.error('AI gateway error:', response.status, errorText);
-      throw new Error(`AI request failed: ${response.status}`);
-    }
-
-    const data = await response.json();
-    
-    // Extract image from response
-    const images = data.choices?.[0]?.message?.images || [];
     if (images.length === 0) {
-      return new Response(
-        JSON.stringify({ error: 'No image generated' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      throw new LlmError('Nenhuma imagem gerada', 'invalid_response', usage.provider);
     }
 
-    const imageUrl = images[0]?.image_url?.url;
+    const imageUrl = images[0];
 
     return new Response(
       JSON.stringify({ 
         imageUrl,
         prompt,
-        model: 'google/gemini-2.5-flash-image-preview'
+        model: usage.model,
+        usage,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Image generation error:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
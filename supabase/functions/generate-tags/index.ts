@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { completeChat, llmErrorResponse } from "../_shared/llm.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +13,13 @@ interface TagGenerationRequest {
   count?: number;
 }
 
+// Mock provider: the product name's own words, in order
+const mockTags = (productName: string, count: number) => ({
+  content: JSON.stringify({
+    tags: [...new Set(productName.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 3))].slice(0, count),
+  }),
+});
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -28,14 +36,6 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      return new Response(
-        JSON.stringify({ error: 'AI service not configured' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
     const systemPrompt = `Você é um especialista em SEO e e-commerce brasileiro. Sua tarefa é gerar tags/palavras-chave relevantes para produtos de catálogo.
 
 REGRAS:
@@ -58,41 +58,16 @@ ${existingTags ? `Tags existentes (NÃO repetir): ${existingTags}` : ''}
 
 Gere ${count} novas tags SEO para este produto.`;
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-3-flash-preview',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt }
-        ],
-        temperature: 0.7,
-      }),
+    // Provider and model: "gerar_tags" in _shared/prompts.json
+    const { content, usage } = await completeChat({
+      task: 'gerar_tags',
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: userPrompt }
+      ],
+      mock: () => mockTags(productName, count),
     });
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'Rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add credits to continue.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      throw new Error(`AI request failed: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content || '';
-
     // Extract JSON from response
     let tags: string[] = [];
     try {
@@ -118,17 +93,15 @@ Gere ${count} novas tags SEO para este produto.`;
     return new Response(
       JSON.stringify({ 
         tags,
-        model: 'google/gemini-3-flash-preview',
-        prompt: userPrompt 
+        model: usage.model,
+        prompt: userPrompt,
+        usage,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Tag generation error:', error);
-    return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+    return llmErrorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,45 @@
+-- Create table for column mappings saved per supplier
+CREATE TABLE public.supplier_column_mappings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  supplier_name TEXT NOT NULL,
+  source_columns JSONB NOT NULL DEFAULT '[]',
+  mapping JSONB NOT NULL DEFAULT '{}',
+  header_row INTEGER NOT NULL DEFAULT 0,
+  header_rows INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.supplier_column_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own supplier mappings" 
+ON public.supplier_column_mappings 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own supplier mappings" 
+ON public.supplier_column_mappings 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own supplier mappings" 
+ON public.supplier_column_mappings 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own supplier mappings" 
+ON public.supplier_column_mappings 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_supplier_column_mappings_updated_at
+BEFORE UPDATE ON public.supplier_column_mappings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One mapping per supplier name per user
+CREATE UNIQUE INDEX supplier_column_mappings_user_supplier_unique ON public.supplier_column_mappings (user_id, supplier_name);
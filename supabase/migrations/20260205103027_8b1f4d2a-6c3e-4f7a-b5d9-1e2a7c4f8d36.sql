@@ -0,0 +1,3 @@
+-- Duplicate groups the user marked as "not a duplicate" (lists of row fingerprints)
+ALTER TABLE public.user_configurations
+ADD COLUMN duplicate_suppressions JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,3 @@
+-- Where each abbreviation may be expanded (name/description columns, before a number, standalone)
+ALTER TABLE public.user_configurations
+ADD COLUMN abbreviation_scopes JSONB NOT NULL DEFAULT '{}';
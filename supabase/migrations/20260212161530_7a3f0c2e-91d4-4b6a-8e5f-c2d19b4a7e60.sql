@@ -0,0 +1,88 @@
+-- Abbreviation dictionaries shared by the whole team (every signed-in user of the project).
+-- The dictionary row holds the current content; each publication is kept in the version history.
+CREATE TABLE public.shared_abbreviation_dictionaries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  created_by UUID NOT NULL,
+  current_version INTEGER NOT NULL DEFAULT 0,
+  abbreviations JSONB NOT NULL DEFAULT '{}',
+  scopes JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.shared_abbreviation_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  dictionary_id UUID NOT NULL REFERENCES public.shared_abbreviation_dictionaries (id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  abbreviations JSONB NOT NULL DEFAULT '{}',
+  scopes JSONB NOT NULL DEFAULT '{}',
+  note TEXT,
+  created_by UUID NOT NULL,
+  author_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- Two people publishing at once: the second insert fails instead of overwriting
+  UNIQUE (dictionary_id, version)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.shared_abbreviation_dictionaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shared_abbreviation_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view shared dictionaries"
+ON public.shared_abbreviation_dictionaries
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Signed-in users can create shared dictionaries"
+ON public.shared_abbreviation_dictionaries
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+-- No UPDATE policy: the content only changes by publishing a version (trigger below)
+CREATE POLICY "Creators can delete their shared dictionaries"
+ON public.shared_abbreviation_dictionaries
+FOR DELETE
+USING (auth.uid() = created_by);
+
+-- Versions are never edited or removed, only added
+CREATE POLICY "Signed-in users can view dictionary versions"
+ON public.shared_abbreviation_versions
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Signed-in users can publish dictionary versions"
+ON public.shared_abbreviation_versions
+FOR INSERT
+WITH CHECK (auth.uid() = created_by);
+
+CREATE TRIGGER update_shared_abbreviation_dictionaries_updated_at
+BEFORE UPDATE ON public.shared_abbreviation_dictionaries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Publishing a version makes it the dictionary's current content. Runs as the owner,
+-- since users cannot update the dictionary row themselves
+CREATE OR REPLACE FUNCTION public.apply_shared_abbreviation_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE public.shared_abbreviation_dictionaries
+  SET abbreviations = NEW.abbreviations,
+      scopes = NEW.scopes,
+      current_version = NEW.version
+  WHERE id = NEW.dictionary_id AND current_version < NEW.version;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER apply_shared_abbreviation_version
+AFTER INSERT ON public.shared_abbreviation_versions
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_shared_abbreviation_version();
+
+CREATE INDEX shared_abbreviation_versions_dictionary ON public.shared_abbreviation_versions (dictionary_id, version DESC);
+
+-- Shared dictionaries each user follows (list of dictionary ids)
+ALTER TABLE public.user_configurations
+ADD COLUMN subscribed_dictionaries JSONB NOT NULL DEFAULT '[]';
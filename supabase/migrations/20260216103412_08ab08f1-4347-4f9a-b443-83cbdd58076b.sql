@@ -0,0 +1,131 @@
+-- Server-side enrichment: a job per submitted session and one item per row.
+-- The enriquecer-lote edge function claims items in chunks, calls enriquecer-produto
+-- and keeps the job and session progress up to date, so the browser can be closed.
+
+-- The client already pauses sessions, but the original constraint did not allow it
+ALTER TABLE public.product_enrichment_sessions
+DROP CONSTRAINT IF EXISTS product_enrichment_sessions_status_check;
+
+ALTER TABLE public.product_enrichment_sessions
+ADD CONSTRAINT product_enrichment_sessions_status_check
+CHECK (status IN ('pending', 'processing', 'paused', 'completed', 'failed'));
+
+CREATE TABLE public.enrichment_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  session_id UUID NOT NULL REFERENCES public.product_enrichment_sessions (id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'paused', 'cancelled', 'completed', 'failed')),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  items_processed INTEGER NOT NULL DEFAULT 0,
+  items_failed INTEGER NOT NULL DEFAULT 0,
+  -- Settings sent with every call (abbreviations)
+  options JSONB NOT NULL DEFAULT '{}',
+  -- Cells changed by the rules before submitting, for the audit sheet
+  provenance JSONB NOT NULL DEFAULT '[]',
+  error TEXT,
+  -- Worker lease: a second worker for the same job gives up until it expires
+  locked_until TIMESTAMP WITH TIME ZONE,
+  -- When the results were loaded into the session, so they are not applied twice
+  applied_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.enrichment_job_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.enrichment_jobs (id) ON DELETE CASCADE,
+  row_index INTEGER NOT NULL,
+  -- Full row after the rules (shown with the results) and the analyzed columns sent to the AI
+  linha JSONB NOT NULL,
+  produto JSONB NOT NULL,
+  dicas JSONB NOT NULL DEFAULT '{}',
+  identificadores JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'done', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Backoff after a temporary failure: the item is not claimed again before this
+  not_before TIMESTAMP WITH TIME ZONE,
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, row_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.enrichment_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.enrichment_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own enrichment jobs"
+ON public.enrichment_jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own enrichment jobs"
+ON public.enrichment_jobs
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own enrichment jobs"
+ON public.enrichment_jobs
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own enrichment jobs"
+ON public.enrichment_jobs
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Items are written by their owner when submitting and by the worker (service role) afterwards
+CREATE POLICY "Users can view items of their own enrichment jobs"
+ON public.enrichment_job_items
+FOR SELECT
+USING (EXISTS (SELECT 1 FROM public.enrichment_jobs j WHERE j.id = job_id AND j.user_id = auth.uid()));
+
+CREATE POLICY "Users can add items to their own enrichment jobs"
+ON public.enrichment_job_items
+FOR INSERT
+WITH CHECK (EXISTS (SELECT 1 FROM public.enrichment_jobs j WHERE j.id = job_id AND j.user_id = auth.uid()));
+
+CREATE TRIGGER update_enrichment_jobs_updated_at
+BEFORE UPDATE ON public.enrichment_jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_enrichment_job_items_updated_at
+BEFORE UPDATE ON public.enrichment_job_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_enrichment_jobs_session_id ON public.enrichment_jobs (session_id, created_at DESC);
+CREATE INDEX idx_enrichment_job_items_job_status ON public.enrichment_job_items (job_id, status, row_index);
+
+-- Reserve the next pending items of a job for one worker, skipping those still in backoff.
+-- Items left "processing" by a worker that died are picked up again after five minutes.
+CREATE OR REPLACE FUNCTION public.claim_enrichment_job_items(p_job_id UUID, p_limit INTEGER)
+RETURNS SETOF public.enrichment_job_items
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.enrichment_job_items
+  SET status = 'processing', attempts = attempts + 1
+  WHERE id IN (
+    SELECT id
+    FROM public.enrichment_job_items
+    WHERE job_id = p_job_id
+      AND (
+        (status = 'pending' AND (not_before IS NULL OR not_before <= now()))
+        OR (status = 'processing' AND updated_at < now() - interval '5 minutes')
+      )
+    ORDER BY row_index
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+-- Only the worker claims items
+REVOKE EXECUTE ON FUNCTION public.claim_enrichment_job_items(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Progress reaches every open tab and device through Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.enrichment_jobs;
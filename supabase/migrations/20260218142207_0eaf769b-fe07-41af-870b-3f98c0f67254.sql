@@ -0,0 +1,33 @@
+-- Enrichment responses reused across sessions. The request asked for a cache per organization,
+-- but the project has no organizations yet, so each user has their own cache until one exists:
+-- keyed by owner, the hash of the normalized product sent to the AI, prompt version and model,
+-- so a prompt change starts a new cache.
+-- Written only by enriquecer-produto (service role); owners can read the stats and invalidate.
+CREATE TABLE public.enrichment_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  content_hash TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  model TEXT NOT NULL,
+  response JSONB NOT NULL,
+  hits INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_hit_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  UNIQUE (user_id, content_hash, prompt_version, model)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.enrichment_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own enrichment cache"
+ON public.enrichment_cache
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can invalidate their own enrichment cache"
+ON public.enrichment_cache
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_enrichment_cache_expires_at ON public.enrichment_cache (expires_at);